@@ -0,0 +1,96 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { buildServerExport } from '@/lib/server/report';
+import { signReport } from '@/lib/server/reportSigning';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { PENDING_SESSION_STATUSES, SessionInfoResponse } from '@/lib/types/proofly';
+import { getVerdictPolicy } from '@/lib/verdict/policy';
+import { EXPORT_FORMATS, isExportFormat } from '@/lib/report/exports';
+import { isValidUuid } from '@/lib/utils/uuid';
+import { getLocaleFromRequest } from '@/lib/i18n/server';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * API route for machine-readable report exports by UUID.
+ * `?format=json|csv|html` (default json) selects the format and
+ * `?policy=<id>` the verdict policy; JSON and HTML carry the report signature
+ * when PROOFLY_REPORT_SIGNING_KEY is set. `?locale=en|ru` sets the language of
+ * the HTML report.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uuid: string } }
+) {
+  const { uuid } = await params;
+
+  if (!isValidUuid(uuid)) {
+    console.error('[SECURITY] Invalid UUID format:', uuid);
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
+  const format = request.nextUrl.searchParams.get('format') || 'json';
+  if (!isExportFormat(format)) {
+    return NextResponse.json(
+      { error: `Unsupported export format, expected one of: ${EXPORT_FORMATS.join(', ')}` },
+      { status: 400 }
+    );
+  }
+
+  try {
+    let sessionInfo: SessionInfoResponse;
+    try {
+      sessionInfo = await prooflyUpstream.getSessionInfo(uuid);
+    } catch (apiError) {
+      console.error('API Error:', loggableError(apiError));
+      if (apiError instanceof UpstreamContractError) {
+        return NextResponse.json(apiError.toJSON(), { status: 502 });
+      }
+      if (axios.isAxiosError(apiError) && apiError.response?.status === 404) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
+      return NextResponse.json(
+        {
+          error: 'Failed to retrieve session information from API',
+          details: apiError instanceof Error ? apiError.message : String(apiError)
+        },
+        { status: 500 }
+      );
+    }
+
+    if (PENDING_SESSION_STATUSES.includes(sessionInfo.status)) {
+      return NextResponse.json(
+        { error: 'Analysis is not finished yet', status: sessionInfo.status },
+        { status: 409 }
+      );
+    }
+    if (sessionInfo.status === 'failed') {
+      return NextResponse.json(
+        { error: 'Analysis failed, no report available', status: sessionInfo.status },
+        { status: 409 }
+      );
+    }
+
+    const policy = getVerdictPolicy(request.nextUrl.searchParams.get('policy'));
+    const signature = format === 'csv' ? null : signReport(sessionInfo, policy, request.nextUrl.origin);
+    const report = await buildServerExport(format, sessionInfo, policy, signature, getLocaleFromRequest(request));
+
+    return new NextResponse(report.body, {
+      headers: {
+        'Content-Type': report.contentType,
+        'Content-Disposition': `attachment; filename="${report.filename}"`,
+        'Cache-Control': 'no-store',
+      },
+    });
+  } catch (error) {
+    console.error('[REPORT] Export error:', loggableError(error));
+    return NextResponse.json(
+      {
+        error: 'Error generating export',
+        details: error instanceof Error ? error.message : String(error)
+      },
+      { status: 500 }
+    );
+  }
+}
@@ -1,86 +1,90 @@
 import { NextRequest, NextResponse } from 'next/server';
-import { exportResultsToPDF } from '@/lib/utils/pdfExport';
-import { prooflyApi } from '@/lib/api/proofly';
+import axios from 'axios';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { buildServerReport } from '@/lib/server/report';
+import { signReport } from '@/lib/server/reportSigning';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { PENDING_SESSION_STATUSES, SessionInfoResponse } from '@/lib/types/proofly';
+import { getVerdictPolicy } from '@/lib/verdict/policy';
+import { isValidUuid } from '@/lib/utils/uuid';
+import { getLocaleFromRequest } from '@/lib/i18n/server';
 
-// API route for generating PDF report by UUID
+export const dynamic = 'force-dynamic';
+
+/**
+ * API route for generating the PDF report by UUID.
+ * Returns the file itself (`application/pdf`); `?policy=<id>` selects the verdict policy
+ * and `?locale=en|ru` the language (default: locale cookie, then Accept-Language).
+ * Reports are signed when PROOFLY_REPORT_SIGNING_KEY is set.
+ */
 export async function GET(
   request: NextRequest,
   { params }: { params: { uuid: string } }
 ) {
-  const uuid = params.uuid;
-  
+  const { uuid } = await params;
+
+  if (!isValidUuid(uuid)) {
+    console.error('[SECURITY] Invalid UUID format:', uuid);
+    return NextResponse.json({ error: 'Invalid request' }, { status: 400 });
+  }
+
   try {
     console.log(`Generating PDF report for session: ${uuid}`);
-    
+
     // Get session data through API
-    let sessionInfo;
+    let sessionInfo: SessionInfoResponse;
     try {
-      sessionInfo = await prooflyApi.getSessionInfo(uuid);
+      sessionInfo = await prooflyUpstream.getSessionInfo(uuid);
     } catch (apiError) {
-      console.error('API Error:', apiError);
+      console.error('API Error:', loggableError(apiError));
+      if (apiError instanceof UpstreamContractError) {
+        return NextResponse.json(apiError.toJSON(), { status: 502 });
+      }
+      if (axios.isAxiosError(apiError) && apiError.response?.status === 404) {
+        return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+      }
       return NextResponse.json(
-        { 
+        {
           error: 'Failed to retrieve session information from API',
           details: apiError instanceof Error ? apiError.message : String(apiError)
         },
         { status: 500 }
       );
     }
-    
-    if (!sessionInfo) {
-      return NextResponse.json(
-        { error: 'Session information not found' },
-        { status: 404 }
-      );
-    }
-    
-    console.log('Session info retrieved. Generating PDF...');
-    console.log('Session data:', JSON.stringify(sessionInfo, null, 2));
-    
-    // Check if we have all necessary data for PDF
-    if (!sessionInfo.faces || sessionInfo.faces.length === 0) {
+
+    if (PENDING_SESSION_STATUSES.includes(sessionInfo.status)) {
       return NextResponse.json(
-        { error: 'No face data available in session' },
-        { status: 400 }
+        { error: 'Analysis is not finished yet', status: sessionInfo.status },
+        { status: 409 }
       );
     }
-    
-    // Generate PDF
-    try {
-      const result = await exportResultsToPDF(sessionInfo);
-      
-      if (result.success) {
-        return NextResponse.json(
-          { 
-            success: true, 
-            message: 'PDF generated successfully',
-            filename: `proofly-report-${uuid}.pdf`
-          }
-        );
-      } else {
-        return NextResponse.json(
-          { error: result.error || 'Unknown error generating PDF' },
-          { status: 500 }
-        );
-      }
-    } catch (pdfError) {
-      console.error('PDF Generation Error:', pdfError);
+    if (sessionInfo.status === 'failed') {
       return NextResponse.json(
-        { 
-          error: 'Error generating PDF',
-          details: pdfError instanceof Error ? pdfError.message : String(pdfError)
-        },
-        { status: 500 }
+        { error: 'Analysis failed, no report available', status: sessionInfo.status },
+        { status: 409 }
       );
     }
+
+    const policy = getVerdictPolicy(request.nextUrl.searchParams.get('policy'));
+    const signature = signReport(sessionInfo, policy, request.nextUrl.origin);
+    const pdf = await buildServerReport(sessionInfo, policy, signature, getLocaleFromRequest(request));
+
+    return new NextResponse(pdf, {
+      headers: {
+        'Content-Type': 'application/pdf',
+        'Content-Length': String(pdf.byteLength),
+        'Content-Disposition': `attachment; filename="proofly-report-${uuid}.pdf"`,
+        'Cache-Control': 'no-store',
+      },
+    });
   } catch (error) {
-    console.error('Unhandled Error:', error);
+    console.error('PDF Generation Error:', loggableError(error));
     return NextResponse.json(
-      { 
-        error: 'Internal server error',
+      {
+        error: 'Error generating PDF',
         details: error instanceof Error ? error.message : String(error)
       },
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
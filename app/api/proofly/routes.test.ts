@@ -0,0 +1,344 @@
+import { mkdtemp, readdir, rm } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { inspect } from 'util';
+import { NextRequest } from 'next/server';
+import { afterAll, beforeAll, beforeEach, describe, expect, it, vi } from 'vitest';
+import { MockProoflyServer, startMockProofly } from '@/lib/mock/prooflyMock';
+import { prooflyUpstream } from '@/lib/server/upstream';
+import { GET as getSession } from './session/[uuid]/route';
+import { GET as getSessionStatus } from './session/[uuid]/status/route';
+import { GET as getFace } from './session/[uuid]/face/[faceId]/route';
+import { GET as getOriginalImage } from './session/[uuid]/original-image/route';
+import { GET as getSignature } from './session/[uuid]/signature/route';
+import { GET as getEvents } from './session/[uuid]/events/route';
+import { GET as getExport } from './export/[uuid]/route';
+import { GET as getSystemStatus } from './status/route';
+import { POST as postUpload } from './upload/route';
+import { POST as postUploadUrl } from './upload-url/route';
+import { GET as getVerify, POST as postVerify } from './verify/route';
+
+// Route handlers are called directly against the mock Proofly API
+// (lib/mock/prooflyMock.ts), which the upstream client reaches via API_BASE_URL.
+
+const ORIGIN = 'http://localhost:3000';
+const UNKNOWN_UUID = '11111111-1111-4111-8111-111111111111';
+const API_KEY = 'proofly-test-api-key';
+const PNG = Buffer.concat([Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a]), Buffer.alloc(24)]);
+
+const get = (path: string) => new NextRequest(`${ORIGIN}${path}`);
+
+// Chunked multipart body without Content-Length; counts the bytes actually pulled
+const chunkedPost = (path: string, totalBytes: number) => {
+  const stream = { pulled: 0 };
+  const body = new ReadableStream<Uint8Array>({
+    pull(controller) {
+      stream.pulled += 64 * 1024;
+      controller.enqueue(new Uint8Array(64 * 1024));
+      if (stream.pulled >= totalBytes) controller.close();
+    },
+  });
+  const request = new Request(`${ORIGIN}${path}`, {
+    method: 'POST',
+    headers: { 'content-type': 'multipart/form-data; boundary=x' },
+    body,
+    duplex: 'half',
+  } as RequestInit);
+  return { request: new NextRequest(request), stream };
+};
+const context = (uuid: string) => ({ params: { uuid } });
+
+describe('app/api/proofly routes', () => {
+  let mock: MockProoflyServer;
+  let cacheDir: string;
+  let now = 0;
+
+  // Uploads straight to the mock; the scenario is picked by the file name
+  const upload = async (scenario = 'default') => {
+    const { uuid } = await prooflyUpstream.uploadImage(PNG, { filename: `photo.mock-${scenario}.png` });
+    return uuid;
+  };
+
+  beforeAll(async () => {
+    mock = await startMockProofly({ clock: () => now });
+    cacheDir = await mkdtemp(path.join(os.tmpdir(), 'proofly-routes-cache-'));
+    vi.stubEnv('PROOFLY_RESULT_CACHE_DIR', cacheDir);
+    // Read by the upstream client on first use
+    vi.stubEnv('API_BASE_URL', mock.baseUrl);
+    vi.stubEnv('PROOFLY_API_KEY', API_KEY);
+    vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', '');
+    vi.stubEnv('PROOFLY_RETRY_BASE_DELAY_MS', '1');
+    vi.stubEnv('PROOFLY_RETRY_MAX_DELAY_MS', '10');
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+    await mock.close();
+    await rm(cacheDir, { recursive: true, force: true });
+  });
+
+  beforeEach(() => {
+    now = 0;
+  });
+
+  describe('session identifiers', () => {
+    it.each([
+      ['not-a-uuid'],
+      ['../../etc/passwd'],
+      ['%2e%2e%2fsystem'],
+    ])('rejects %s', async (uuid) => {
+      for (const handler of [getSession, getOriginalImage, getExport, getSignature, getEvents]) {
+        const response = await handler(get(`/api/proofly/session/${encodeURIComponent(uuid)}`), context(uuid));
+        expect(response.status).toBe(400);
+      }
+    });
+
+    it('rejects traversal and malformed face ids in the face path', async () => {
+      const uuid = await upload();
+      for (const path of [
+        `/api/proofly/session/${uuid}/face/-1`,
+        `/api/proofly/session/${uuid}/face/1a`,
+        `/api/proofly/session/..%2f..%2fetc/face/0`,
+      ]) {
+        const response = await getFace(get(path), { params: { uuid, faceId: '0' } });
+        expect(response.status).toBe(400);
+      }
+    });
+  });
+
+  describe('session information', () => {
+    it('proxies session info and status', async () => {
+      const uuid = await upload();
+      now = 60000;
+      const info = await getSession(get(`/api/proofly/session/${uuid}`), context(uuid));
+      expect(info.status).toBe(200);
+      expect(await info.json()).toMatchObject({ uuid, status: 'completed' });
+
+      const status = await getSessionStatus(get(`/api/proofly/session/${uuid}/status`), context(uuid));
+      expect(await status.json()).toEqual({ status: 'completed' });
+    });
+
+    it('maps upstream errors', async () => {
+      const unknown = await getSession(get(`/api/proofly/session/${UNKNOWN_UUID}`), context(UNKNOWN_UUID));
+      expect(unknown.status).toBe(500);
+      expect(await unknown.json()).toEqual({ error: 'Failed to retrieve session information' });
+
+      // Transient 503s are retried by the upstream client
+      const flaky = await upload('flaky');
+      const status = await getSessionStatus(get(`/api/proofly/session/${flaky}/status`), context(flaky));
+      expect(status.status).toBe(200);
+      expect(mock.sessions.get(flaky)?.requests).toBe(3);
+    });
+
+    it('answers 502 when upstream breaks the response schema', async () => {
+      const uuid = await upload('malformed');
+      now = 60000;
+      const response = await getSession(get(`/api/proofly/session/${uuid}`), context(uuid));
+      expect(response.status).toBe(502);
+      expect((await response.json()).issues.length).toBeGreaterThan(0);
+
+      const face = await getFace(get(`/api/proofly/session/${uuid}/face/0`), { params: { uuid, faceId: '0' } });
+      expect(face.status).toBe(502);
+    });
+
+    it('streams progress events until the session completes', async () => {
+      const uuid = await upload();
+      now = 60000;
+      const response = await getEvents(get(`/api/proofly/session/${uuid}/events`), context(uuid));
+      expect(response.headers.get('content-type')).toBe('text/event-stream');
+      const text = await response.text();
+      expect(text).toContain('event: status\ndata: {"type":"status","status":"completed"}');
+      expect(text).toContain('event: complete');
+    });
+  });
+
+  describe('images', () => {
+    it('serves face crops and the original image', async () => {
+      const uuid = await upload();
+      now = 60000;
+      const face = await getFace(get(`/api/proofly/session/${uuid}/face/0`), { params: { uuid, faceId: '0' } });
+      expect(face.status).toBe(200);
+      expect(face.headers.get('content-type')).toBe('image/png');
+      expect(Buffer.from(await face.arrayBuffer()).equals(PNG)).toBe(true);
+
+      const original = await getOriginalImage(get(`/api/proofly/session/${uuid}/original-image`), context(uuid));
+      expect(original.status).toBe(200);
+      expect(Buffer.from(await original.arrayBuffer()).equals(PNG)).toBe(true);
+    });
+
+    it('answers 404 for faces the session does not have', async () => {
+      const uuid = await upload('no-faces');
+      now = 60000;
+      const response = await getFace(get(`/api/proofly/session/${uuid}/face/0`), { params: { uuid, faceId: '0' } });
+      expect(response.status).toBe(404);
+    });
+
+    it('refuses storage paths outside the allowlist', async () => {
+      const uuid = await upload('unsafe-paths');
+      now = 60000;
+      // Face 0 traverses out of /storage/faces, face 1 points at another host
+      for (const faceId of ['0', '1']) {
+        const response = await getFace(get(`/api/proofly/session/${uuid}/face/${faceId}`), { params: { uuid, faceId } });
+        expect(response.status).toBe(404);
+      }
+      const original = await getOriginalImage(get(`/api/proofly/session/${uuid}/original-image`), context(uuid));
+      expect(original.status).toBe(404);
+      expect(await original.text()).toBe('Image not found');
+    });
+  });
+
+  describe('uploads', () => {
+    const postFile = (file?: File, force = false) => {
+      const formData = new FormData();
+      if (file) formData.append('file', file);
+      if (force) formData.append('force', '1');
+      return postUpload(new NextRequest(`${ORIGIN}/api/proofly/upload`, { method: 'POST', body: formData }));
+    };
+
+    it('forwards images and rejects anything else', async () => {
+      const accepted = await postFile(new File([PNG], 'photo.png', { type: 'image/png' }));
+      expect(accepted.status).toBe(200);
+      expect(mock.sessions.has((await accepted.json()).uuid)).toBe(true);
+
+      expect((await postFile()).status).toBe(400);
+
+      const text = await postFile(new File(['hello'], 'photo.png', { type: 'image/png' }));
+      expect(text.status).toBe(415);
+      expect(await text.json()).toMatchObject({ code: 'UNSUPPORTED_IMAGE_TYPE' });
+    });
+
+    it('does not log the API key when the upstream rejects an upload', async () => {
+      // The mock accepts every image, so the upload is answered with a real 404
+      vi.spyOn(prooflyUpstream, 'uploadImage').mockImplementationOnce(() => prooflyUpstream.getSessionInfo(UNKNOWN_UUID));
+      vi.mocked(console.error).mockClear();
+      const response = await postFile(new File([PNG], 'photo.png', { type: 'image/png' }), true);
+      expect(response.status).toBe(404);
+      const logged = vi.mocked(console.error).mock.calls.map(args => inspect(args, { depth: 10 })).join('\n');
+      expect(logged).toContain('404');
+      expect(logged).not.toContain(API_KEY);
+    });
+
+    it('caps bodies without a Content-Length while reading them', async () => {
+      vi.stubEnv('PROOFLY_MAX_IMAGE_BYTES', '1024');
+      const { request, stream } = chunkedPost('/api/proofly/upload', 4 * 1024 * 1024);
+      const response = await postUpload(request);
+      vi.stubEnv('PROOFLY_MAX_IMAGE_BYTES', '');
+      expect(response.status).toBe(413);
+      expect(await response.json()).toMatchObject({ code: 'IMAGE_TOO_LARGE', maxBytes: 1024 });
+      expect(stream.pulled).toBeLessThan(4 * 1024 * 1024);
+    });
+
+    it('answers repeated uploads of an analyzed image from the cache', async () => {
+      const image = () => new File([PNG, Buffer.from('repeat')], 'photo.png', { type: 'image/png' });
+      const first = (await (await postFile(image())).json()).uuid;
+      now = 60000;
+      // The session is cached once its events stream completes
+      await (await getEvents(get(`/api/proofly/session/${first}/events`), context(first))).text();
+      expect((await readdir(cacheDir)).length).toBeGreaterThan(0);
+
+      const sessions = mock.sessions.size;
+      const repeated = await postFile(image());
+      expect(await repeated.json()).toMatchObject({ uuid: first, cached: { session: { uuid: first, status: 'completed' } } });
+      expect(mock.sessions.size).toBe(sessions);
+
+      const forced = await (await postFile(image(), true)).json();
+      expect(forced.uuid).not.toBe(first);
+      expect(forced.cached).toBeUndefined();
+    });
+
+    it('caches uploads finished through the plain status and session routes', async () => {
+      const image = () => new File([PNG, Buffer.from('polled')], 'photo.png', { type: 'image/png' });
+      const polled = (await (await postFile(image())).json()).uuid;
+      now = 60000;
+      await getSessionStatus(get(`/api/proofly/session/${polled}/status`), context(polled));
+      expect(await (await postFile(image())).json()).toMatchObject({ uuid: polled, cached: { session: { uuid: polled } } });
+
+      // Sessions uploaded elsewhere are cached under the hash Proofly reports
+      const bytes = Buffer.concat([PNG, Buffer.from('direct')]);
+      const { uuid: direct } = await prooflyUpstream.uploadImage(bytes, { filename: 'photo.png' });
+      now = 120000;
+      await getSession(get(`/api/proofly/session/${direct}`), context(direct));
+      const repeated = await (await postFile(new File([bytes], 'photo.png', { type: 'image/png' }))).json();
+      expect(repeated).toMatchObject({ uuid: direct, cached: { session: { uuid: direct } } });
+    });
+
+    it('validates submitted URLs', async () => {
+      const post = (body: unknown, headers: Record<string, string> = {}) => postUploadUrl(new NextRequest(`${ORIGIN}/api/proofly/upload-url`, {
+        method: 'POST',
+        headers: { 'content-type': 'application/json', ...headers },
+        body: JSON.stringify(body),
+      }));
+
+      expect((await post({})).status).toBe(400);
+
+      const loopback = await post({ url: `${mock.url}/api/storage/original/x.jpg` });
+      expect(loopback.status).toBe(400);
+      expect(await loopback.json()).toMatchObject({ code: 'BLOCKED_ADDRESS' });
+
+      // Streamed variant ends with the same outcome as a result line
+      const streamed = await post({ url: 'ftp://example.com/photo.jpg' }, { accept: 'application/x-ndjson' });
+      const lines = (await streamed.text()).trim().split('\n').map(line => JSON.parse(line));
+      expect(lines.at(-1)).toMatchObject({ type: 'result', status: 400, body: { code: 'UNSUPPORTED_PROTOCOL' } });
+    });
+  });
+
+  describe('reports', () => {
+    it('exports finished sessions only', async () => {
+      const pending = await upload();
+      const failed = await upload('failed');
+      const notFinished = await getExport(get(`/api/proofly/export/${pending}`), context(pending));
+      expect(notFinished.status).toBe(409);
+
+      now = 60000;
+      expect((await getExport(get(`/api/proofly/export/${failed}`), context(failed))).status).toBe(409);
+      expect((await getExport(get(`/api/proofly/export/${UNKNOWN_UUID}`), context(UNKNOWN_UUID))).status).toBe(404);
+      expect((await getExport(get(`/api/proofly/export/${pending}?format=pdf`), context(pending))).status).toBe(400);
+
+      const csv = await getExport(get(`/api/proofly/export/${pending}?format=csv`), context(pending));
+      expect(csv.status).toBe(200);
+      expect(csv.headers.get('content-type')).toMatch(/^text\/csv/);
+      expect(await csv.text()).toContain(pending);
+    });
+
+    it('needs a signing key for signatures and an ID for verification', async () => {
+      const uuid = await upload();
+      const signature = await getSignature(get(`/api/proofly/session/${uuid}/signature`), context(uuid));
+      expect(signature.status).toBe(503);
+      vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', 'too-short');
+      expect((await getSignature(get(`/api/proofly/session/${uuid}/signature`), context(uuid))).status).toBe(503);
+      vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', '');
+
+      expect((await getVerify(get('/api/proofly/verify'))).status).toBe(400);
+    });
+
+    it('signs finished sessions only', async () => {
+      vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', 'k'.repeat(32));
+      const uuid = await upload();
+      const pending = await getSignature(get(`/api/proofly/session/${uuid}/signature`), context(uuid));
+      expect(pending.status).toBe(409);
+
+      now = 60000;
+      const signed = await getSignature(get(`/api/proofly/session/${uuid}/signature`), context(uuid));
+      expect(signed.status).toBe(200);
+      expect((await signed.json()).reportId).toContain(uuid);
+      vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', '');
+    });
+
+    it('caps uploaded reports while reading them', async () => {
+      const { request, stream } = chunkedPost('/api/proofly/verify', 16 * 1024 * 1024);
+      const response = await postVerify(request);
+      expect(response.status).toBe(413);
+      expect(stream.pulled).toBeLessThan(16 * 1024 * 1024);
+    });
+  });
+
+  it('proxies the system status', async () => {
+    const response = await getSystemStatus(get('/api/proofly/status'));
+    expect(response.status).toBe(200);
+    expect(await response.json()).toMatchObject({ status: 'ok', proxy: { circuit: { state: 'closed', failures: 0 } } });
+  });
+});
@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import { subscribeToSession } from '@/lib/server/sessionPoller';
+import { SessionEvent } from '@/lib/types/proofly';
+import { isValidUuid } from '@/lib/utils/uuid';
+
+export const dynamic = 'force-dynamic';
+
+// Keeps proxies from closing idle connections
+const HEARTBEAT_INTERVAL_MS = 15000;
+
+/**
+ * Server-Sent Events stream with session progress.
+ * Upstream is polled on the server; all connections for the same session share one poller.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uuid: string } }
+) {
+  const { uuid } = await params;
+
+  if (!isValidUuid(uuid)) {
+    console.error('[SECURITY] Invalid UUID format:', uuid);
+    return NextResponse.json({ error: 'Invalid session identifier' }, { status: 400 });
+  }
+
+  console.log(`[SSE] Client subscribed to session ${uuid}`);
+
+  const encoder = new TextEncoder();
+  let cleanup = () => {};
+
+  const stream = new ReadableStream<Uint8Array>({
+    start(controller) {
+      let closed = false;
+
+      const write = (chunk: string) => {
+        if (closed) return;
+        try {
+          controller.enqueue(encoder.encode(chunk));
+        } catch {
+          cleanup();
+        }
+      };
+
+      const unsubscribe = subscribeToSession(uuid, (event: SessionEvent) => {
+        write(`event: ${event.type}\ndata: ${JSON.stringify(event)}\n\n`);
+        if (event.type === 'complete' || event.type === 'failed') {
+          cleanup();
+        }
+      });
+
+      const heartbeat = setInterval(() => write(': heartbeat\n\n'), HEARTBEAT_INTERVAL_MS);
+
+      cleanup = () => {
+        if (closed) return;
+        closed = true;
+        clearInterval(heartbeat);
+        unsubscribe();
+        try {
+          controller.close();
+        } catch {
+          // Stream already closed by the client
+        }
+      };
+
+      request.signal.addEventListener('abort', () => {
+        console.log(`[SSE] Client disconnected from session ${uuid}`);
+        cleanup();
+      });
+
+      // Tell EventSource how long to wait before reconnecting
+      write('retry: 3000\n\n');
+    },
+    cancel() {
+      cleanup();
+    }
+  });
+
+  return new Response(stream, {
+    headers: {
+      'Content-Type': 'text/event-stream',
+      'Cache-Control': 'no-cache, no-transform',
+      'Connection': 'keep-alive',
+      'X-Accel-Buffering': 'no',
+    }
+  });
+}
@@ -1,17 +1,12 @@
 import { NextRequest, NextResponse } from 'next/server';
-import axios from 'axios';
 import path from 'path';
-
-const PROOFLY_API_BASE_URL = 'https://api.proofly.ai';
+import { prooflyUpstream, UpstreamFile } from '@/lib/server/upstream';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { isValidUuid } from '@/lib/utils/uuid';
 
 /**
  * Proxy handler for retrieving a face image
  */
-function isValidUuid(uuid: string): boolean {
-  // Any standard UUID (v1-v5, v7)
-  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid);
-}
-
 export async function GET(
   request: NextRequest,
   { params }: { params: { uuid: string; faceId: string } }
@@ -55,15 +50,17 @@ export async function GET(
     }
 
     // 1. Get session info from Proofly API
-    const sessionInfoUrl = `${PROOFLY_API_BASE_URL}/api/${uuid}`;
-    let sessionInfoResponse;
+    let sessionData;
     try {
-      sessionInfoResponse = await axios.get(sessionInfoUrl);
+      sessionData = await prooflyUpstream.getSessionInfo(uuid);
     } catch (sessionError: any) {
+      if (sessionError instanceof UpstreamContractError) {
+        console.error(`[API Face Proxy] Session info for ${uuid} does not match schema:`, sessionError.issues);
+        return NextResponse.json(sessionError.toJSON(), { status: 502 });
+      }
       console.error(`[API Face Proxy] Error fetching session info for ${uuid}`);
       return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
     }
-    const sessionData = sessionInfoResponse.data;
     if (!sessionData || !Array.isArray(sessionData.faces) || sessionData.faces.length === 0) {
       console.error(`[API Face Proxy] No faces found in session data for ${uuid}`);
       return NextResponse.json({ error: 'Not found' }, { status: 404 });
@@ -95,22 +92,17 @@ export async function GET(
       console.error(`[API Face Proxy] Could not extract filename from face_path: ${targetFace.face_path}`);
       return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
     }
-    const faceImageUrl = `${PROOFLY_API_BASE_URL}/api/storage/faces/${filename}`;
-    let imageResponse;
+    let image: UpstreamFile;
     try {
-      imageResponse = await axios.get(faceImageUrl, {
-        responseType: 'arraybuffer',
-        maxRedirects: 0
-      });
+      image = await prooflyUpstream.getStorageFile(`/storage/faces/${filename}`);
     } catch (imageError: any) {
       console.error(`[API Face Proxy] Error fetching face image for ${uuid} file ${filename}`);
       return NextResponse.json({ error: 'Internal server error' }, { status: 500 });
     }
 
-    const contentType = imageResponse.headers['content-type'] || 'image/jpeg';
-    return new NextResponse(imageResponse.data, {
+    return new NextResponse(image.data, {
       headers: {
-        'Content-Type': contentType,
+        'Content-Type': image.contentType,
         'Cache-Control': 'public, max-age=3600',
       },
     });
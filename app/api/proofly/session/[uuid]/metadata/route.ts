@@ -0,0 +1,43 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { loadStoredImageMetadata } from '@/lib/server/imageMetadata';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { isValidUuid } from '@/lib/utils/uuid';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * EXIF/XMP/IPTC/C2PA metadata of the original image stored for a session
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uuid: string } }
+) {
+  const { uuid } = await params;
+  if (!isValidUuid(uuid)) {
+    console.error('[SECURITY] Invalid UUID format:', uuid);
+    return NextResponse.json({ error: 'Invalid session identifier' }, { status: 400 });
+  }
+
+  try {
+    const sessionInfo = await prooflyUpstream.getSessionInfo(uuid);
+    const metadata = await loadStoredImageMetadata(sessionInfo);
+    if (!metadata) {
+      return NextResponse.json({ error: 'Image not found' }, { status: 404 });
+    }
+    return NextResponse.json(metadata, {
+      headers: { 'Cache-Control': 'private, max-age=3600' },
+    });
+  } catch (error) {
+    if (error instanceof UpstreamContractError) {
+      console.error('[PROXY] Session information does not match schema:', error.issues);
+      return NextResponse.json(error.toJSON(), { status: 502 });
+    }
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    console.error(`[PROXY] Failed to read image metadata for ${uuid}:`, loggableError(error));
+    return NextResponse.json({ error: 'Failed to read image metadata' }, { status: 500 });
+  }
+}
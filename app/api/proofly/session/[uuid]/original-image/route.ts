@@ -1,7 +1,7 @@
 import { NextRequest, NextResponse } from 'next/server';
-import axios from 'axios';
-
-const API_BASE_URL = 'https://api.proofly.ai/api';
+import { loggableError, originalImageStoragePath, prooflyUpstream, UpstreamFile } from '@/lib/server/upstream';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { isValidUuid } from '@/lib/utils/uuid';
 
 interface RouteParams {
   params: {
@@ -12,11 +12,6 @@ interface RouteParams {
 /**
  * Proxy handler for retrieving original image
  */
-function isValidUuid(uuid: string): boolean {
-  // Any standard UUID (v1-v5, v7)
-  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid);
-}
-
 export async function GET(request: NextRequest, context: RouteParams) {
   try {
     // Get UUID from route parameters
@@ -37,42 +32,30 @@ export async function GET(request: NextRequest, context: RouteParams) {
     console.log(`[PROXY] Request for original image for session ${uuid}`);
     
     // Get image_path from response to /api/${uuid}
-    const sessionResponse = await axios.get(`${API_BASE_URL}/${uuid}`);
-    const imagePath = sessionResponse.data?.image_path;
-    if (!imagePath || typeof imagePath !== 'string' || !imagePath.match(/^(\.?\/storage\/original\/)[\w\-/]+\.jpg$/)) {
-      console.error('[SECURITY] Invalid or missing image_path:', imagePath);
+    const sessionData = await prooflyUpstream.getSessionInfo(uuid);
+    const storagePath = originalImageStoragePath(sessionData?.image_path);
+    if (!storagePath) {
+      console.error('[SECURITY] Invalid or missing image_path:', sessionData?.image_path);
       return new NextResponse('Image not found', { status: 404 });
     }
-    // Protection: prevent path traversal
-    if (imagePath.includes('..') || imagePath.includes('//')) {
-      console.error('[SECURITY] Suspicious image_path:', imagePath);
-      return new NextResponse('Image not found', { status: 404 });
-    }
-    // Build full path for request to storage
-    let storagePath = imagePath;
-    if (storagePath.startsWith('.')) storagePath = storagePath.slice(1);
-    const imageUrl = `${API_BASE_URL}${storagePath}`;
-    let response;
+    let image: UpstreamFile;
     try {
-      response = await axios.get(imageUrl, {
-        responseType: 'arraybuffer',
-        headers: {
-          'accept': 'application/octet-stream'
-        },
-        maxRedirects: 0
-      });
+      image = await prooflyUpstream.getStorageFile(storagePath);
     } catch (err) {
-      console.error('[SECURITY] Error retrieving original image from storage:', err);
+      console.error('[SECURITY] Error retrieving original image from storage:', loggableError(err));
       return new NextResponse('Error retrieving image', { status: 500 });
     }
-    const contentType = response.headers['content-type'] || 'image/jpeg';
-    return new NextResponse(response.data, {
+    return new NextResponse(image.data, {
       headers: {
-        'Content-Type': contentType,
+        'Content-Type': image.contentType,
         'Cache-Control': 'public, max-age=3600',
       }
     });
   } catch (error) {
+    if (error instanceof UpstreamContractError) {
+      console.error('[PROXY] Session information does not match schema:', error.issues);
+      return new NextResponse('Unexpected response from Proofly API', { status: 502 });
+    }
     console.error('[SECURITY] Error retrieving original image');
     return new NextResponse('Error retrieving image', { status: 500 });
   }
@@ -1,17 +1,13 @@
 import { NextRequest, NextResponse } from 'next/server';
-import axios from 'axios';
-
-const API_BASE_URL = 'https://api.proofly.ai/api';
+import { prooflyUpstream } from '@/lib/server/upstream';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { CircuitOpenError } from '@/lib/server/resilience';
+import { storeCachedResult } from '@/lib/server/resultCache';
+import { isValidUuid } from '@/lib/utils/uuid';
 
 /**
  * Proxy handler for retrieving Proofly session information
  */
-// --- UUID VALIDATION ---
-function isValidUuid(uuid: string): boolean {
-  // Any standard UUID (v1-v5, v7)
-  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid);
-}
-
 export async function GET(
   request: NextRequest,
   { params }: { params: { uuid: string } }
@@ -33,13 +29,23 @@ export async function GET(
     console.log(`[PROXY] GET /${uuid} - Requesting session information`);
     
     // Make request to Proofly API
-    const response = await axios.get(`${API_BASE_URL}/${uuid}`);
+    const data = await prooflyUpstream.getSessionInfo(uuid);
+    
+    console.log(`[PROXY] GET /${uuid} - API response:`, data);
     
-    console.log(`[PROXY] GET /${uuid} - API response:`, response.data);
+    // Finished sessions are cached here too, not only by the events stream
+    await storeCachedResult(data);
     
     // Return response to client
-    return NextResponse.json(response.data);
+    return NextResponse.json(data);
   } catch (error) {
+    if (error instanceof UpstreamContractError) {
+      console.error('[PROXY] Session information does not match schema:', error.issues);
+      return NextResponse.json(error.toJSON(), { status: 502 });
+    }
+    if (error instanceof CircuitOpenError) {
+      return NextResponse.json(error.toJSON(), { status: 503, headers: { 'Retry-After': error.retryAfterSeconds } });
+    }
     console.error('[SECURITY] Error retrieving session information');
     return NextResponse.json(
       { error: 'Failed to retrieve session information' },
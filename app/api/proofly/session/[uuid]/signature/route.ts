@@ -0,0 +1,56 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { isReportSigningEnabled, signReport } from '@/lib/server/reportSigning';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { PENDING_SESSION_STATUSES } from '@/lib/types/proofly';
+import { getVerdictPolicies } from '@/lib/verdict/policy';
+import { isValidUuid } from '@/lib/utils/uuid';
+
+export const dynamic = 'force-dynamic';
+
+/**
+ * Signs the current results of a session for a report exported in the browser.
+ * The signature is computed from upstream data, never from data sent by the client.
+ * Unfinished sessions are refused (409), like PDF generation does.
+ */
+export async function GET(
+  request: NextRequest,
+  { params }: { params: { uuid: string } }
+) {
+  const { uuid } = await params;
+  if (!isValidUuid(uuid)) {
+    console.error('[SECURITY] Invalid UUID format:', uuid);
+    return NextResponse.json({ error: 'Invalid session identifier' }, { status: 400 });
+  }
+  if (!isReportSigningEnabled()) {
+    return NextResponse.json({ error: 'Report signing is not configured' }, { status: 503 });
+  }
+
+  const policyId = request.nextUrl.searchParams.get('policy') || 'default';
+  const policy = getVerdictPolicies().find(item => item.id === policyId);
+  if (!policy) {
+    return NextResponse.json({ error: `Unknown verdict policy: ${policyId}` }, { status: 400 });
+  }
+
+  try {
+    const sessionInfo = await prooflyUpstream.getSessionInfo(uuid);
+    if (PENDING_SESSION_STATUSES.includes(sessionInfo.status)) {
+      return NextResponse.json(
+        { error: 'Analysis is not finished yet', status: sessionInfo.status },
+        { status: 409 }
+      );
+    }
+    return NextResponse.json(signReport(sessionInfo, policy, request.nextUrl.origin));
+  } catch (error) {
+    if (error instanceof UpstreamContractError) {
+      console.error('[PROXY] Session information does not match schema:', error.issues);
+      return NextResponse.json(error.toJSON(), { status: 502 });
+    }
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return NextResponse.json({ error: 'Session not found' }, { status: 404 });
+    }
+    console.error(`[REPORT] Failed to sign report for ${uuid}:`, loggableError(error));
+    return NextResponse.json({ error: 'Failed to sign report' }, { status: 500 });
+  }
+}
@@ -1,7 +1,10 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-
-const API_BASE_URL = 'https://api.proofly.ai/api';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { CircuitOpenError } from '@/lib/server/resilience';
+import { isAwaitingResult, storeCachedResult } from '@/lib/server/resultCache';
+import { COMPLETED_SESSION_STATUSES } from '@/lib/types/proofly';
 
 /**
  * Proxy handler for retrieving Proofly session status
@@ -17,14 +20,31 @@ export async function GET(
     console.log(`[PROXY] GET /${uuid}/status - Requesting session status`);
     
     // Make request to Proofly API
-    const response = await axios.get(`${API_BASE_URL}/${uuid}/status`);
+    const data = await prooflyUpstream.getSessionStatus(uuid);
+    
+    console.log(`[PROXY] GET /${uuid}/status - API response:`, data);
     
-    console.log(`[PROXY] GET /${uuid}/status - API response:`, response.data);
+    // Clients polling this route never open the events stream that caches
+    // results, so a finished upload is cached here (a failure only skips it)
+    if (COMPLETED_SESSION_STATUSES.includes(data.status) && isAwaitingResult(uuid)) {
+      await prooflyUpstream.getSessionInfo(uuid).then(
+        session => storeCachedResult(session),
+        cacheError => console.error('[CACHE] Failed to load finished session:', loggableError(cacheError))
+      );
+    }
     
     // Return response to client
-    return NextResponse.json(response.data);
+    return NextResponse.json(data);
   } catch (error) {
-    console.error('[PROXY] Error retrieving session status:', error);
+    console.error('[PROXY] Error retrieving session status:', loggableError(error));
+    
+    if (error instanceof UpstreamContractError) {
+      return NextResponse.json(error.toJSON(), { status: 502 });
+    }
+    
+    if (error instanceof CircuitOpenError) {
+      return NextResponse.json(error.toJSON(), { status: 503, headers: { 'Retry-After': error.retryAfterSeconds } });
+    }
     
     // Handle errors
     if (axios.isAxiosError(error)) {
@@ -1,22 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-
-const API_BASE_URL = 'https://api.proofly.ai/api';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { CircuitOpenError } from '@/lib/server/resilience';
 
 /**
- * Proxy handler for checking Proofly system status
+ * Proxy handler for checking Proofly system status.
+ * `proxy.circuit` reports the circuit breaker of the upstream client.
  */
 export async function GET(request: NextRequest) {
   try {
     // Make request to Proofly API
-    const response = await axios.get(`${API_BASE_URL}/system/status`);
+    const data = await prooflyUpstream.getSystemStatus();
     
-    console.log('[PROXY] GET /system/status - API response:', response.data);
+    console.log('[PROXY] GET /system/status - API response:', data);
     
     // Return response to client
-    return NextResponse.json(response.data);
+    return NextResponse.json({ ...data, proxy: { circuit: prooflyUpstream.getCircuitStatus() } });
   } catch (error) {
-    console.error('[PROXY] Error checking status:', error);
+    console.error('[PROXY] Error checking status:', loggableError(error));
+    
+    if (error instanceof CircuitOpenError) {
+      return NextResponse.json(
+        { ...error.toJSON(), proxy: { circuit: prooflyUpstream.getCircuitStatus() } },
+        { status: 503, headers: { 'Retry-After': error.retryAfterSeconds } }
+      );
+    }
+    
+    if (error instanceof UpstreamContractError) {
+      return NextResponse.json(error.toJSON(), { status: 502 });
+    }
     
     // Handle errors
     if (axios.isAxiosError(error)) {
@@ -1,152 +1,202 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import FormData from 'form-data';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import {
+  DownloadProgressListener,
+  SafeFetchError,
+  SafeFetchErrorCode,
+  SafeFetchResponse,
+  safeFetch,
+} from '@/lib/server/safeFetch';
+import { ImageIntakeError } from '@/lib/images/sniff';
+import { acceptImage, getMaxImageBytes, tooLargeError } from '@/lib/server/imageIntake';
+import { lookupCachedResult, rememberUpload, sha256Hex, toCachedAnalysis } from '@/lib/server/resultCache';
+import { UrlUploadEvent } from '@/lib/types/proofly';
 
-const API_BASE_URL = 'https://api.proofly.ai/api';
+// Errors caused by the submitted URL itself (reported back as 400)
+const URL_REJECTIONS: SafeFetchErrorCode[] = [
+  'INVALID_URL',
+  'URL_TOO_LONG',
+  'UNSUPPORTED_PROTOCOL',
+  'DNS_FAILURE',
+  'BLOCKED_ADDRESS',
+  'TOO_MANY_REDIRECTS',
+];
 
-function isHttpOrHttps(url: string): boolean {
-  try {
-    const u = new URL(url);
-    return u.protocol === 'http:' || u.protocol === 'https:';
-  } catch {
-    return false;
-  }
-}
+// Content type of the streamed variant (one UrlUploadEvent per line)
+const NDJSON_CONTENT_TYPE = 'application/x-ndjson';
+// Minimum interval between streamed download progress lines
+const PROGRESS_INTERVAL_MS = 100;
 
-function isPrivateIp(host: string): boolean {
-  // IPv4 localhost
-  if (host === '127.0.0.1') return true;
-  // IPv6 localhost
-  if (host === '::1') return true;
-  // Add additional ranges as needed
-  return false;
+interface UrlUploadOutcome {
+  status: number;
+  body: unknown;
 }
 
-async function safeResolveHost(url: string): Promise<string | null> {
+/**
+ * Request handler for uploading image URL to Proofly API.
+ * Clients sending `Accept: application/x-ndjson` get download progress streamed
+ * before the result; everyone else gets the plain JSON response.
+ * Images analyzed before are answered from the result cache unless `force` is set.
+ */
+export async function POST(req: NextRequest) {
+  let url: unknown;
+  let force: unknown;
   try {
-    const u = new URL(url);
-    const addresses = await (await import('dns')).promises.lookup(u.hostname, { all: true });
-    return addresses[0]?.address || null;
-  } catch {
-    return null;
+    ({ url, force } = await req.json());
+  } catch (error) {
+    console.error('[SECURITY] Error or suspicious URL upload:', error);
+    return NextResponse.json(
+      {
+        error: 'Error processing URL',
+        message: error instanceof Error ? error.message : 'Unknown error'
+      },
+      { status: 500 }
+    );
   }
-}
-
-function isLikelyImageContentType(contentType: string): boolean {
-  return contentType && contentType.startsWith('image/');
+  
+  if (!url || typeof url !== 'string') {
+    return NextResponse.json(
+      { error: 'URL not provided' },
+      { status: 400 }
+    );
+  }
+  
+  if (!req.headers.get('accept')?.includes(NDJSON_CONTENT_TYPE)) {
+    const outcome = await uploadFromUrl(url, force === true);
+    return NextResponse.json(outcome.body, { status: outcome.status });
+  }
+  
+  const target = url;
+  const encoder = new TextEncoder();
+  const stream = new ReadableStream<Uint8Array>({
+    async start(controller) {
+      const send = (event: UrlUploadEvent) => {
+        try {
+          controller.enqueue(encoder.encode(JSON.stringify(event) + '\n'));
+        } catch {
+          // Client went away; the upload still finishes
+        }
+      };
+      
+      let lastSentAt = 0;
+      const outcome = await uploadFromUrl(target, force === true, {
+        onDownload: (loaded, total) => {
+          const now = Date.now();
+          if (now - lastSentAt < PROGRESS_INTERVAL_MS && loaded !== total) return;
+          lastSentAt = now;
+          send({ type: 'download', loaded, total });
+        },
+        onUpload: () => send({ type: 'upload' }),
+      });
+      send({ type: 'result', status: outcome.status, body: outcome.body });
+      try {
+        controller.close();
+      } catch {
+        // Stream already closed by the client
+      }
+    }
+  });
+  
+  return new Response(stream, {
+    headers: {
+      'Content-Type': NDJSON_CONTENT_TYPE,
+      'Cache-Control': 'no-cache, no-transform',
+      'X-Accel-Buffering': 'no',
+    }
+  });
 }
 
 /**
- * Request handler for uploading image URL to Proofly API
+ * Downloads the image and forwards it to Proofly; errors become the response body
  */
-export async function POST(req: NextRequest) {
+async function uploadFromUrl(
+  url: string,
+  force: boolean,
+  progress: { onDownload?: DownloadProgressListener; onUpload?: () => void } = {}
+): Promise<UrlUploadOutcome> {
   try {
-    const { url } = await req.json();
-    
-    if (!url) {
-      return NextResponse.json(
-        { error: 'URL not provided' },
-        { status: 400 }
-      );
-    }
-    
-    // 1. Allow only http/https
-    if (!isHttpOrHttps(url)) {
-      return NextResponse.json({ error: 'Only http/https URLs are allowed' }, { status: 400 });
-    }
-    
-    // 2. Block private/local IPs
-    const resolvedIp = await safeResolveHost(url);
-    if (!resolvedIp || isPrivateIp(resolvedIp)) {
-      return NextResponse.json({ error: 'URL resolves to private/local IP' }, { status: 400 });
-    }
-    
-    // 3. Limit URL length
-    if (url.length > 512) {
-      return NextResponse.json({ error: 'URL too long' }, { status: 400 });
-    }
-    
     console.log('[PROXY] Downloading image from URL:', url.substring(0, 100) + (url.length > 100 ? '...' : ''));
     
-    // 4. Download image (20-second timeout, User-Agent and Referer as browser)
-    let imageResponse;
+    // Download image: URL length, protocol and every resolved address (including
+    // redirect hops) are validated by safeFetch (20-second timeout, browser-like headers)
+    const maxBytes = getMaxImageBytes();
+    let imageResponse: SafeFetchResponse;
     try {
-      imageResponse = await axios.get(url, {
-        responseType: 'arraybuffer',
-        timeout: 20000,
+      imageResponse = await safeFetch(url, {
+        timeoutMs: 20000,
+        maxBytes,
+        onProgress: progress.onDownload,
         headers: {
           'User-Agent': 'Mozilla/5.0 (Windows NT 10.0; Win64; x64) AppleWebKit/537.36 (KHTML, like Gecko) Chrome/122.0.0.0 Safari/537.36',
           'Accept': 'image/avif,image/webp,image/apng,image/svg+xml,image/*,*/*;q=0.8',
           'Referer': url
         }
       });
-    } catch (err: any) {
+    } catch (err) {
       console.error('[SECURITY] Error or suspicious URL upload:', err);
-      if (err.response) {
-        console.error('Error response status:', err.response.status);
-        console.error('Error response headers:', err.response.headers);
+      if (err instanceof SafeFetchError && URL_REJECTIONS.includes(err.code)) {
+        return { status: 400, body: { error: err.message, code: err.code } };
       }
-      return NextResponse.json({ error: 'Failed to download image from URL' }, { status: 500 });
-    }
-    
-    if (!imageResponse.data) {
-      throw new Error('Failed to download image from URL');
-    }
-    
-    // 5. Check Content-Type
-    const contentType = imageResponse.headers['content-type'] || '';
-    if (!isLikelyImageContentType(contentType)) {
-      return NextResponse.json({ error: 'URL does not point to an image' }, { status: 400 });
+      if (err instanceof SafeFetchError && err.code === 'RESPONSE_TOO_LARGE') {
+        const error = tooLargeError(maxBytes);
+        return { status: error.status, body: error.toJSON() };
+      }
+      return { status: 500, body: { error: 'Failed to download image from URL' } };
     }
     
-    // Get image type from headers
-    console.log('[PROXY] Downloaded image type:', contentType);
-    
-    // Create buffer from response data
-    const imageBuffer = Buffer.from(imageResponse.data);
-    console.log('[PROXY] Downloaded image size:', imageBuffer.length, 'bytes');
+    // Check magic bytes; the remote Content-Type header is only logged
+    console.log('[PROXY] Downloaded image:', {
+      declaredType: imageResponse.contentType,
+      size: imageResponse.data.length
+    });
     
     // Step 2: Send downloaded image as a file to Proofly API
-    const apiUrl = `${API_BASE_URL}/upload`;
-    
-    // Create FormData to send the file
-    const formData = new FormData();
-    
     // Generate filename from URL
-    const fileName = url.split('/').pop() || 'image.jpg';
-    
-    // Add file to FormData
-    formData.append('file', imageBuffer, {
-      filename: fileName,
-      contentType: contentType
-    });
+    const urlName = new URL(imageResponse.url).pathname.split('/').pop() || undefined;
+    const image = acceptImage(imageResponse.data, urlName, maxBytes);
+    
+    const sha256 = sha256Hex(image.data);
+    if (!force) {
+      const cached = await lookupCachedResult(sha256);
+      if (cached) {
+        console.log('[PROXY] Returning cached session:', { uuid: cached.uuid, sha256 });
+        return { status: 200, body: { uuid: cached.uuid, cached: toCachedAnalysis(cached) } };
+      }
+    }
     
-    console.log('[PROXY] Sending downloaded image to API, filename:', fileName);
+    console.log('[PROXY] Sending downloaded image to API, filename:', image.filename);
     
     // Send request to API
-    const response = await axios.post(apiUrl, formData, {
-      headers: {
-        ...formData.getHeaders()  // Important: use getHeaders() from node-FormData
-      },
-      maxBodyLength: Infinity,
-      maxContentLength: Infinity,
-      timeout: 60000
+    progress.onUpload?.();
+    const data = await prooflyUpstream.uploadImage(image.data, {
+      filename: image.filename,
+      contentType: image.mimeType
     });
     
-    console.log('[PROXY] API response for image upload:', response.data);
+    console.log('[PROXY] API response for image upload:', data);
+    rememberUpload(data.uuid, sha256);
     
     // Return session UUID for further result retrieval
-    return NextResponse.json({ uuid: response.data.uuid });
+    return { status: 200, body: { uuid: data.uuid } };
     
   } catch (error) {
     // Logging suspicious requests
-    console.error('[SECURITY] Error or suspicious URL upload:', error);
+    console.error('[SECURITY] Error or suspicious URL upload:', loggableError(error));
+    
+    if (error instanceof ImageIntakeError) {
+      return { status: error.status, body: error.toJSON() };
+    }
+    
+    if (error instanceof UpstreamContractError) {
+      return { status: 502, body: error.toJSON() };
+    }
     
     if (axios.isAxiosError(error)) {
       console.error('Request details:', {
         url: error.config?.url,
-        method: error.config?.method,
-        headers: error.config?.headers
+        method: error.config?.method
       });
       
       if (error.response) {
@@ -174,19 +224,16 @@ export async function POST(req: NextRequest) {
         }
       }
       
-      return NextResponse.json(
-        { error: errorMessage, details: errorDetails },
-        { status }
-      );
+      return { status, body: { error: errorMessage, details: errorDetails } };
     }
     
     // General error
-    return NextResponse.json(
-      { 
+    return {
+      status: 500,
+      body: {
         error: 'Error processing URL',
         message: error instanceof Error ? error.message : 'Unknown error'
-      },
-      { status: 500 }
-    );
+      }
+    };
   }
 }
\ No newline at end of file
@@ -1,16 +1,35 @@
 import { NextRequest, NextResponse } from 'next/server';
 import axios from 'axios';
-import FormData from 'form-data';
-
-const API_BASE_URL = 'https://api.proofly.ai/api';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { ImageIntakeError } from '@/lib/images/sniff';
+import {
+  MULTIPART_OVERHEAD_BYTES,
+  getMaxImageBytes,
+  intakeUploadedFile,
+  tooLargeError,
+} from '@/lib/server/imageIntake';
+import { BodyTooLargeError, readFormDataLimited } from '@/lib/server/requestBody';
+import { lookupCachedResult, rememberUpload, sha256Hex, toCachedAnalysis } from '@/lib/server/resultCache';
 
 /**
- * Proxy handler for file upload to Proofly API
+ * Proxy handler for file upload to Proofly API.
+ * Images analyzed before are answered from the result cache unless the form
+ * has `force=1`.
  */
 export async function POST(request: NextRequest) {
   try {
-    // Get FormData from request
-    const reqFormData = await request.formData();
+    const maxBytes = getMaxImageBytes();
+    
+    // Read the body with the byte cap before parsing it (also without Content-Length)
+    let reqFormData: FormData;
+    try {
+      reqFormData = await readFormDataLimited(request, maxBytes + MULTIPART_OVERHEAD_BYTES);
+    } catch (error) {
+      if (!(error instanceof BodyTooLargeError)) throw error;
+      const tooLarge = tooLargeError(maxBytes);
+      return NextResponse.json(tooLarge.toJSON(), { status: tooLarge.status });
+    }
     
     console.log('[PROXY] Form data received:', {
       keys: Array.from(reqFormData.keys())
@@ -28,42 +47,51 @@ export async function POST(request: NextRequest) {
       type: file.type
     });
     
-    // Convert File to Buffer for node format
-    const arrayBuffer = await file.arrayBuffer();
-    const buffer = Buffer.from(arrayBuffer);
+    // Check size and magic bytes (declared type is ignored)
+    const image = await intakeUploadedFile(file, maxBytes);
     
-    // Create node-FormData (from form-data package)
-    const formData = new FormData();
-    formData.append('file', buffer, {
-      filename: file.name,
-      contentType: file.type
-    });
+    const sha256 = sha256Hex(image.data);
+    if (!isForced(reqFormData.get('force'))) {
+      const cached = await lookupCachedResult(sha256);
+      if (cached) {
+        console.log('[PROXY] Returning cached session:', { uuid: cached.uuid, sha256 });
+        return NextResponse.json({
+          uuid: cached.uuid,
+          message: 'Image was analyzed before',
+          cached: toCachedAnalysis(cached)
+        });
+      }
+    }
     
-    console.log('[PROXY] Sending request to API...');
+    console.log('[PROXY] Sending request to API...', { format: image.format, size: image.data.length });
     
-    // Make request to Proofly API exactly as in working example
-    const response = await axios.post(`${API_BASE_URL}/upload`, formData, {
-      headers: {
-        ...formData.getHeaders()
-      },
-      maxBodyLength: Infinity,
-      maxContentLength: Infinity,
-      timeout: 60000
+    // Make request to Proofly API
+    const data = await prooflyUpstream.uploadImage(image.data, {
+      filename: image.filename,
+      contentType: image.mimeType
     });
     
-    console.log('[PROXY] API response:', response.data);
+    console.log('[PROXY] API response:', data);
+    rememberUpload(data.uuid, sha256);
     
     // Return response to client
-    return NextResponse.json(response.data);
+    return NextResponse.json(data);
   } catch (error) {
-    console.error('[PROXY] Error uploading file:', error);
+    console.error('[PROXY] Error uploading file:', loggableError(error));
+    
+    if (error instanceof ImageIntakeError) {
+      return NextResponse.json(error.toJSON(), { status: error.status });
+    }
+    
+    if (error instanceof UpstreamContractError) {
+      return NextResponse.json(error.toJSON(), { status: 502 });
+    }
     
     // More detailed error logging
     if (axios.isAxiosError(error)) {
       console.error('Request details:', {
         url: error.config?.url,
-        method: error.config?.method,
-        headers: error.config?.headers
+        method: error.config?.method
       });
       
       if (error.response) {
@@ -83,4 +111,6 @@ export async function POST(request: NextRequest) {
       { status: 500 }
     );
   }
-} 
\ No newline at end of file
+}
+
+const isForced = (value: FormDataEntryValue | null) => value === '1' || value === 'true';
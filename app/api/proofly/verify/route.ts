@@ -0,0 +1,86 @@
+import { NextRequest, NextResponse } from 'next/server';
+import axios from 'axios';
+import {
+  ReportVerificationError,
+  extractReportSignature,
+  verifyReport,
+} from '@/lib/server/reportSigning';
+import { UpstreamContractError } from '@/lib/schemas/proofly';
+import { BodyTooLargeError, readFormDataLimited } from '@/lib/server/requestBody';
+import { MULTIPART_OVERHEAD_BYTES } from '@/lib/server/imageIntake';
+import { loggableError } from '@/lib/server/upstream';
+
+export const dynamic = 'force-dynamic';
+
+// Signed reports are a few hundred KB; anything far larger is not one of ours
+const MAX_REPORT_SIZE = 10 * 1024 * 1024;
+
+/**
+ * Runs a verification and maps failures to HTTP responses
+ */
+async function respond(reportId: string, payload?: string) {
+  try {
+    return NextResponse.json(await verifyReport(reportId, payload));
+  } catch (error) {
+    if (error instanceof ReportVerificationError) {
+      return NextResponse.json({ error: error.message }, { status: error.status });
+    }
+    if (error instanceof UpstreamContractError) {
+      return NextResponse.json(error.toJSON(), { status: 502 });
+    }
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      return NextResponse.json({ error: 'The analysis session of this report no longer exists' }, { status: 404 });
+    }
+    console.error('[VERIFY] Verification failed:', loggableError(error));
+    return NextResponse.json({ error: 'Failed to verify report' }, { status: 500 });
+  }
+}
+
+/**
+ * Verifies a report ID from the query string (`?id=`), e.g. for other systems
+ */
+export async function GET(request: NextRequest) {
+  const reportId = request.nextUrl.searchParams.get('id');
+  if (!reportId) {
+    return NextResponse.json({ error: 'Report ID is required' }, { status: 400 });
+  }
+  return respond(reportId);
+}
+
+/**
+ * Verifies a pasted report ID (JSON `{ reportId }`) or an uploaded PDF (multipart `file`)
+ */
+export async function POST(request: NextRequest) {
+  const contentType = request.headers.get('content-type') || '';
+
+  if (contentType.includes('multipart/form-data')) {
+    // Size is checked while the body is read, before it is parsed
+    let formData: FormData;
+    try {
+      formData = await readFormDataLimited(request, MAX_REPORT_SIZE + MULTIPART_OVERHEAD_BYTES);
+    } catch (error) {
+      if (error instanceof BodyTooLargeError) {
+        return NextResponse.json({ error: 'File is too large to be a Proofly report' }, { status: 413 });
+      }
+      return NextResponse.json({ error: 'Invalid multipart body' }, { status: 400 });
+    }
+    const file = formData.get('file');
+    if (!(file instanceof File)) {
+      return NextResponse.json({ error: 'No file provided' }, { status: 400 });
+    }
+    if (file.size > MAX_REPORT_SIZE) {
+      return NextResponse.json({ error: 'File is too large to be a Proofly report' }, { status: 413 });
+    }
+    const signature = extractReportSignature(Buffer.from(await file.arrayBuffer()));
+    if (!signature) {
+      return NextResponse.json({ error: 'This PDF does not contain a Proofly report signature' }, { status: 422 });
+    }
+    return respond(signature.reportId, signature.payload);
+  }
+
+  const body = await request.json().catch(() => null);
+  if (!body || typeof body.reportId !== 'string' || !body.reportId.trim()) {
+    return NextResponse.json({ error: 'Report ID is required' }, { status: 400 });
+  }
+  return respond(body.reportId.trim());
+}
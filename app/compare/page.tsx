@@ -0,0 +1,63 @@
+import type { Metadata } from 'next';
+import axios from 'axios';
+import { ApiLogs } from '@/components/proofly/ApiLogs';
+import { CompareLoadError, SessionCompare } from '@/components/proofly/SessionCompare';
+import { Footer } from '@/components/ui/Footer';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { SessionInfoResponse } from '@/lib/types/proofly';
+import { parseCompareIds } from '@/lib/compare/comparison';
+import { getRequestLocale } from '@/lib/i18n/server';
+import { createTranslator } from '@/lib/i18n/translate';
+
+// Sessions may still be processing, never cache this page
+export const dynamic = 'force-dynamic';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getRequestLocale());
+  return {
+    title: t('compare.pageTitle'),
+    description: t('compare.pageDescription'),
+  };
+}
+
+interface ComparePageProps {
+  searchParams: Promise<{ ids?: string | string[] }>;
+}
+
+/**
+ * Side-by-side comparison of sessions: /compare?ids=a,b,c
+ */
+export default async function ComparePage({ searchParams }: ComparePageProps) {
+  const { ids, invalid } = parseCompareIds((await searchParams).ids);
+  const t = createTranslator(await getRequestLocale());
+
+  const sessions: SessionInfoResponse[] = [];
+  const errors: CompareLoadError[] = [];
+  const loaded = await Promise.allSettled(ids.map(uuid => prooflyUpstream.getSessionInfo(uuid)));
+  loaded.forEach((result, index) => {
+    if (result.status === 'fulfilled') {
+      sessions.push(result.value);
+    } else if (axios.isAxiosError(result.reason) && result.reason.response?.status === 404) {
+      errors.push({ uuid: ids[index], error: t('common.sessionNotFound') });
+    } else {
+      console.error(`[COMPARE PAGE] Failed to load session ${ids[index]}:`, loggableError(result.reason));
+      errors.push({ uuid: ids[index], error: t('common.sessionLoadFailed') });
+    }
+  });
+
+  return (
+    <main className="container mx-auto px-4 md:px-6 lg:px-8 min-h-screen flex flex-col pb-28">
+      <div className="flex-grow py-8">
+        <div className="max-w-6xl mx-auto">
+          <SessionCompare key={ids.join(',')} sessions={sessions} errors={errors} invalidIds={invalid} />
+        </div>
+
+        {/* Component for displaying API logs */}
+        <ApiLogs />
+      </div>
+
+      {/* Footer component */}
+      <Footer />
+    </main>
+  );
+}
@@ -2,6 +2,9 @@ import type { Metadata } from "next";
 import { Geist, Geist_Mono } from "next/font/google";
 import "./globals.css";
 import { Toaster } from '@/components/ui/sonner'
+import { I18nProvider } from '@/components/proofly/I18nProvider'
+import { getRequestLocale } from '@/lib/i18n/server'
+import { createTranslator } from '@/lib/i18n/translate'
 
 const geistSans = Geist({
   variable: "--font-geist-sans",
@@ -13,26 +16,33 @@ const geistMono = Geist_Mono({
   subsets: ["latin"],
 });
 
-export const metadata: Metadata = {
-  title: "Proofly Checker",
-  description: "Deepfake detection using Proofly API",
-};
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getRequestLocale());
+  return {
+    title: t('app.title'),
+    description: t('app.description'),
+  };
+}
 
-export default function RootLayout({
+export default async function RootLayout({
   children,
 }: {
   children: React.ReactNode
 }) {
+  const locale = await getRequestLocale();
+
   return (
-    <html lang="ru">
+    <html lang={locale}>
       <head>
         <link href="https://fonts.googleapis.com/icon?family=Material+Symbols+Outlined" rel="stylesheet" />
       </head>
       <body
         className={`${geistSans.variable} ${geistMono.variable} antialiased`}
       >
-        {children}
-        <Toaster />
+        <I18nProvider locale={locale}>
+          {children}
+          <Toaster />
+        </I18nProvider>
       </body>
     </html>
   );
@@ -6,24 +6,44 @@ import { Button } from "@/components/ui/button";
 import { AnalysisResults } from '@/components/proofly/AnalysisResults';
 import { ApiLogs } from '@/components/proofly/ApiLogs';
 import { FileUrlInputNew } from '@/components/proofly/FileUrlInputNew';
-import { SessionInfoResponse } from '@/lib/types/proofly';
-import { RefreshCw } from 'lucide-react';
+import { CachedAnalysis, SessionInfoResponse } from '@/lib/types/proofly';
+import { ArrowLeft, History, RefreshCw } from 'lucide-react';
 import { Footer } from '@/components/ui/Footer';
+import { BatchAnalysis } from '@/components/proofly/BatchAnalysis';
+import { BatchItem, BatchSource, useBatchAnalysis } from '@/hooks/use-batch-analysis';
+import { AnalysisHistory } from '@/components/proofly/AnalysisHistory';
+import { recordAnalysis } from '@/lib/history/analysisHistory';
+import { getActiveVerdictPolicy } from '@/hooks/use-verdict-policy';
+import { prooflyApi } from '@/lib/api/proofly';
+import { useI18n } from '@/hooks/use-i18n';
+import { savePendingSession } from '@/lib/history/pendingSession';
+import { toast } from 'sonner';
 
 // Define interaction stage types
-type AppStage = 'initial' | 'uploading' | 'processing' | 'results' | 'error';
+type AppStage = 'initial' | 'uploading' | 'processing' | 'results' | 'error' | 'batch' | 'history';
 
 // Main component for the application
 export default function Home() {
+  const { t } = useI18n();
   const [file, setFile] = useState<File | null>(null);
   const [isUploading, setIsUploading] = useState(false);
   const [isProcessing, setIsProcessing] = useState(false);
   const [sessionInfo, setSessionInfo] = useState<SessionInfoResponse | undefined>(undefined);
   const [error, setError] = useState<string | undefined>(undefined);
   const [sessionUuid, setSessionUuid] = useState<string | null>(null);
+  const [showHistory, setShowHistory] = useState(false);
+  // Earlier analysis the server answered with instead of a new session
+  const [cachedAnalysis, setCachedAnalysis] = useState<CachedAnalysis | undefined>(undefined);
+  // File or URL the cached result was answered for, uploaded again on re-analysis
+  const [cachedSource, setCachedSource] = useState<BatchSource | undefined>(undefined);
+  const [isReanalyzing, setIsReanalyzing] = useState(false);
   
   // Add state for tracking the current stage
   const [currentStage, setCurrentStage] = useState<AppStage>('initial');
+  
+  // Batch run lives here so it keeps going while a single result is open
+  const batch = useBatchAnalysis();
+  const isBatchMode = batch.items.length > 0;
 
   // Effect for tracking changes in other states and updating currentStage
   useEffect(() => {
@@ -31,6 +51,10 @@ export default function Home() {
       setCurrentStage('error');
     } else if (sessionInfo && !isProcessing) {
       setCurrentStage('results');
+    } else if (showHistory) {
+      setCurrentStage('history');
+    } else if (isBatchMode) {
+      setCurrentStage('batch');
     } else if (isProcessing) {
       setCurrentStage('processing');
     } else if (isUploading) {
@@ -38,29 +62,94 @@ export default function Home() {
     } else if (!file && !sessionInfo) {
       setCurrentStage('initial');
     }
-  }, [error, sessionInfo, isProcessing, isUploading, file]);
+  }, [error, sessionInfo, isProcessing, isUploading, file, isBatchMode, showHistory]);
 
   // Function to handle analysis completion
-  const handleAnalysisComplete = (completedSessionInfo: SessionInfoResponse) => {
+  const handleAnalysisComplete = (completedSessionInfo: SessionInfoResponse, cached?: CachedAnalysis, source?: BatchSource) => {
     setSessionInfo(completedSessionInfo);
+    setCachedAnalysis(cached);
+    setCachedSource(cached ? source : undefined);
+    setCurrentStage('results');
+    void recordAnalysis(
+      completedSessionInfo,
+      prooflyApi.getOriginalImageUrl(completedSessionInfo.uuid),
+      getActiveVerdictPolicy()
+    );
+  };
+  
+  // Function to reopen a past analysis from history
+  const handleOpenHistoryEntry = async (uuid: string) => {
+    const historicSessionInfo = await prooflyApi.getSessionInfo(uuid);
+    setSessionInfo(historicSessionInfo);
+    setCurrentStage('results');
+  };
+  
+  // Function to leave a result opened from history
+  const handleBackToHistory = () => {
+    setSessionInfo(undefined);
+    setCurrentStage('history');
+  };
+
+  // Function to start a batch run
+  const handleBatchSubmit = (sources: BatchSource[], options: { force: boolean }) => {
+    batch.start(sources, options);
+    setCurrentStage('batch');
+  };
+
+  // Function to open a finished batch item in the results view
+  const handleOpenBatchItem = (item: BatchItem) => {
+    if (!item.sessionInfo) return;
+    setSessionInfo(item.sessionInfo);
     setCurrentStage('results');
   };
 
+  // Function to go from a single result back to the batch table
+  const handleBackToBatch = () => {
+    setSessionInfo(undefined);
+    setCurrentStage('batch');
+  };
+
   // Function to return to the beginning to upload a new image
   const handleNewUpload = () => {
+    batch.reset();
+    setShowHistory(false);
     setFile(null);
     setSessionInfo(undefined);
+    setCachedAnalysis(undefined);
+    setCachedSource(undefined);
     setError(undefined);
     setSessionUuid(null);
     setCurrentStage('initial');
   };
 
+  // Function to upload the file or URL of a cached result again, bypassing the cache.
+  // The bytes are the user's own, so the new result is cached under the same hash.
+  // The upload form picks the new session up like one resumed after a reload.
+  const handleReanalyze = async () => {
+    if (!cachedSource) return;
+    setIsReanalyzing(true);
+    try {
+      const startedAt = Date.now();
+      const { uuid } = cachedSource.kind === 'file'
+        ? await prooflyApi.uploadImage(cachedSource.file, { force: true })
+        : await prooflyApi.uploadUrl(cachedSource.url, { force: true });
+      savePendingSession({ uuid, startedAt, trackingStartedAt: Date.now() });
+      toast.success(t('upload.toast.uploaded'));
+      handleNewUpload();
+    } catch (err) {
+      console.error('Re-analysis failed:', err);
+      toast.error(t('results.reanalyzeFailed'));
+    } finally {
+      setIsReanalyzing(false);
+    }
+  };
+
   return (
     <main className="container mx-auto px-4 md:px-6 lg:px-8 min-h-screen flex flex-col pb-28">
       <div className="flex-grow py-8">
         <div className="text-center mb-8">
           <p className="text-muted-foreground">
-            Upload an image for deepfake detection analysis
+            {t('home.tagline')}
           </p>
         </div>
 
@@ -74,7 +163,72 @@ export default function Home() {
                 exit={{ opacity: 0, height: 0, y: -20 }}
                 transition={{ duration: 0.3 }}
               >
-                <FileUrlInputNew onAnalysisComplete={handleAnalysisComplete} />
+                <FileUrlInputNew 
+                  onAnalysisComplete={handleAnalysisComplete}
+                  onBatchSubmit={handleBatchSubmit}
+                />
+                <div className="mt-4 flex justify-center">
+                  <Button
+                    onClick={() => setShowHistory(true)}
+                    variant="ghost"
+                    className="flex items-center gap-2"
+                  >
+                    <History className="h-4 w-4" />
+                    {t('home.history')}
+                  </Button>
+                </div>
+              </motion.div>
+            )}
+            
+            {/* Show saved analyses */}
+            {currentStage === 'history' && (
+              <motion.div
+                key="history"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.3 }}
+              >
+                <div className="mb-4 flex justify-center">
+                  <Button
+                    onClick={handleNewUpload}
+                    variant="outline"
+                    className="flex items-center gap-2"
+                  >
+                    <ArrowLeft className="h-4 w-4" />
+                    {t('home.backToUpload')}
+                  </Button>
+                </div>
+                
+                <AnalysisHistory onOpen={handleOpenHistoryEntry} />
+              </motion.div>
+            )}
+            
+            {/* Show batch table */}
+            {currentStage === 'batch' && (
+              <motion.div
+                key="batch"
+                initial={{ opacity: 0, y: 20 }}
+                animate={{ opacity: 1, y: 0 }}
+                exit={{ opacity: 0, y: -20 }}
+                transition={{ duration: 0.3 }}
+              >
+                <div className="mb-4 flex justify-center">
+                  <Button
+                    onClick={handleNewUpload}
+                    variant="outline"
+                    className="flex items-center gap-2"
+                  >
+                    <RefreshCw className="h-4 w-4" />
+                    {t(batch.isRunning ? 'home.cancelBatch' : 'home.newAnalysis')}
+                  </Button>
+                </div>
+                
+                <BatchAnalysis 
+                  items={batch.items}
+                  onOpen={handleOpenBatchItem}
+                  onRetry={batch.retry}
+                />
               </motion.div>
             )}
             
@@ -88,19 +242,42 @@ export default function Home() {
                 transition={{ duration: 0.3 }}
               >
                 {/* "Upload new image" button above results */}
-                <div className="mb-4 flex justify-center">
+                <div className="mb-4 flex justify-center gap-2">
+                  {showHistory && (
+                    <Button
+                      onClick={handleBackToHistory}
+                      variant="outline"
+                      className="flex items-center gap-2"
+                    >
+                      <ArrowLeft className="h-4 w-4" />
+                      {t('home.backToHistory')}
+                    </Button>
+                  )}
+                  {!showHistory && isBatchMode && (
+                    <Button
+                      onClick={handleBackToBatch}
+                      variant="outline"
+                      className="flex items-center gap-2"
+                    >
+                      <ArrowLeft className="h-4 w-4" />
+                      {t('home.backToBatch')}
+                    </Button>
+                  )}
                   <Button
                     onClick={handleNewUpload}
                     variant="outline"
                     className="flex items-center gap-2"
                   >
                     <RefreshCw className="h-4 w-4" />
-                    Upload new image
+                    {t('home.uploadNew')}
                   </Button>
                 </div>
                 
                 <AnalysisResults 
                   sessionInfo={sessionInfo}
+                  previouslyAnalyzedAt={cachedAnalysis?.analyzedAt}
+                  onReanalyze={cachedSource ? handleReanalyze : undefined}
+                  isReanalyzing={isReanalyzing}
                 />
               </motion.div>
             )}
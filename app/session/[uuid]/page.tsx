@@ -0,0 +1,77 @@
+import type { Metadata } from 'next';
+import { notFound } from 'next/navigation';
+import axios from 'axios';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle } from 'lucide-react';
+import { ApiLogs } from '@/components/proofly/ApiLogs';
+import { SessionView } from '@/components/proofly/SessionView';
+import { Footer } from '@/components/ui/Footer';
+import { loggableError, prooflyUpstream } from '@/lib/server/upstream';
+import { SessionInfoResponse } from '@/lib/types/proofly';
+import { isValidUuid } from '@/lib/utils/uuid';
+import { getRequestLocale } from '@/lib/i18n/server';
+import { createTranslator } from '@/lib/i18n/translate';
+
+// Session state changes while processing, never cache this page
+export const dynamic = 'force-dynamic';
+
+interface SessionPageProps {
+  params: Promise<{ uuid: string }>;
+}
+
+export async function generateMetadata({ params }: SessionPageProps): Promise<Metadata> {
+  const { uuid } = await params;
+  const t = createTranslator(await getRequestLocale());
+  return {
+    title: t('session.pageTitle', { uuid }),
+    description: t('session.pageDescription'),
+  };
+}
+
+/**
+ * Deep-linkable result page for a single session
+ */
+export default async function SessionPage({ params }: SessionPageProps) {
+  const { uuid } = await params;
+  const t = createTranslator(await getRequestLocale());
+
+  if (!isValidUuid(uuid)) {
+    notFound();
+  }
+
+  let sessionInfo: SessionInfoResponse | null = null;
+  let loadError: string | null = null;
+  try {
+    sessionInfo = await prooflyUpstream.getSessionInfo(uuid);
+  } catch (error) {
+    if (axios.isAxiosError(error) && error.response?.status === 404) {
+      notFound();
+    }
+    console.error(`[SESSION PAGE] Failed to load session ${uuid}:`, loggableError(error));
+    loadError = t('common.sessionLoadFailed');
+  }
+
+  return (
+    <main className="container mx-auto px-4 md:px-6 lg:px-8 min-h-screen flex flex-col pb-28">
+      <div className="flex-grow py-8">
+        <div className="max-w-3xl mx-auto">
+          {sessionInfo ? (
+            <SessionView initialSession={sessionInfo} />
+          ) : (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{t('common.errorOccurred')}</AlertTitle>
+              <AlertDescription>{loadError}</AlertDescription>
+            </Alert>
+          )}
+        </div>
+
+        {/* Component for displaying API logs */}
+        <ApiLogs />
+      </div>
+
+      {/* Footer component */}
+      <Footer />
+    </main>
+  );
+}
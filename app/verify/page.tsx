@@ -0,0 +1,41 @@
+import type { Metadata } from 'next';
+import { ApiLogs } from '@/components/proofly/ApiLogs';
+import { ReportVerifier } from '@/components/proofly/ReportVerifier';
+import { Footer } from '@/components/ui/Footer';
+import { getRequestLocale } from '@/lib/i18n/server';
+import { createTranslator } from '@/lib/i18n/translate';
+
+export async function generateMetadata(): Promise<Metadata> {
+  const t = createTranslator(await getRequestLocale());
+  return {
+    title: t('verify.pageTitle'),
+    description: t('verify.pageDescription'),
+  };
+}
+
+interface VerifyPageProps {
+  searchParams: Promise<{ id?: string | string[] }>;
+}
+
+/**
+ * Target of the QR code printed on signed reports
+ */
+export default async function VerifyPage({ searchParams }: VerifyPageProps) {
+  const { id } = await searchParams;
+
+  return (
+    <main className="container mx-auto px-4 md:px-6 lg:px-8 min-h-screen flex flex-col pb-28">
+      <div className="flex-grow py-8">
+        <div className="max-w-3xl mx-auto">
+          <ReportVerifier initialReportId={typeof id === 'string' ? id : undefined} />
+        </div>
+
+        {/* Component for displaying API logs */}
+        <ApiLogs />
+      </div>
+
+      {/* Footer component */}
+      <Footer />
+    </main>
+  );
+}
@@ -0,0 +1,241 @@
+'use client';
+
+import { useEffect, useMemo, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Input } from '@/components/ui/input';
+import { Button } from '@/components/ui/button';
+import { Badge } from '@/components/ui/badge';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Eye, GitCompare, ImageIcon, Loader2, Search, Trash2 } from 'lucide-react';
+import { toast } from 'sonner';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTime } from '@/lib/i18n/format';
+import { localizeVerdict } from '@/lib/i18n/translate';
+import {
+  HistoryEntry,
+  clearHistory,
+  deleteHistoryEntry,
+  filterHistoryEntries,
+  listHistoryEntries,
+} from '@/lib/history/analysisHistory';
+import { MAX_COMPARE_SESSIONS, buildCompareUrl } from '@/lib/compare/comparison';
+
+interface AnalysisHistoryProps {
+  // Reopens a past analysis (parent re-fetches the session)
+  onOpen: (uuid: string) => Promise<void>;
+}
+
+export function AnalysisHistory({ onOpen }: AnalysisHistoryProps) {
+  const { t, locale } = useI18n();
+  const [entries, setEntries] = useState<HistoryEntry[] | null>(null);
+  const [query, setQuery] = useState('');
+  const [verdict, setVerdict] = useState('');
+  const [from, setFrom] = useState('');
+  const [to, setTo] = useState('');
+  const [openingUuid, setOpeningUuid] = useState<string | null>(null);
+  // Entries ticked for /compare
+  const [selected, setSelected] = useState<string[]>([]);
+
+  useEffect(() => {
+    listHistoryEntries()
+      .then(setEntries)
+      .catch((error) => {
+        console.error('History: failed to load entries', error);
+        toast.error(t('history.loadFailed'));
+        setEntries([]);
+      });
+  }, [t]);
+
+  // Verdicts present in history, for the filter
+  const verdictOptions = useMemo(() => {
+    const verdicts = new Set<string>();
+    (entries || []).forEach(entry => entry.faces.forEach(face => verdicts.add(face.verdict)));
+    return Array.from(verdicts).sort();
+  }, [entries]);
+
+  const filteredEntries = useMemo(() => filterHistoryEntries(entries || [], {
+    query,
+    verdict: verdict || undefined,
+    from: from ? new Date(`${from}T00:00:00`) : undefined,
+    to: to ? new Date(`${to}T23:59:59.999`) : undefined,
+  }), [entries, query, verdict, from, to]);
+
+  const handleOpen = async (uuid: string) => {
+    setOpeningUuid(uuid);
+    try {
+      await onOpen(uuid);
+    } catch (error) {
+      console.error('History: failed to reopen analysis', error);
+      toast.error(t('history.openFailed'));
+    } finally {
+      setOpeningUuid(null);
+    }
+  };
+
+  const toggleSelected = (uuid: string) => {
+    setSelected(prev => prev.includes(uuid)
+      ? prev.filter(item => item !== uuid)
+      : [...prev, uuid].slice(-MAX_COMPARE_SESSIONS));
+  };
+
+  const handleDelete = async (uuid: string) => {
+    try {
+      await deleteHistoryEntry(uuid);
+      setEntries(prev => (prev || []).filter(entry => entry.uuid !== uuid));
+      setSelected(prev => prev.filter(item => item !== uuid));
+    } catch (error) {
+      console.error('History: failed to delete entry', error);
+      toast.error(t('history.deleteFailed'));
+    }
+  };
+
+  const handleClear = async () => {
+    if (!window.confirm(t('history.clearConfirm'))) return;
+    try {
+      await clearHistory();
+      setEntries([]);
+      setSelected([]);
+    } catch (error) {
+      console.error('History: failed to clear', error);
+      toast.error(t('history.clearFailed'));
+    }
+  };
+
+  return (
+    <Card className="w-full">
+      <CardHeader className="flex flex-row items-start justify-between">
+        <div>
+          <CardTitle>{t('history.title')}</CardTitle>
+          <CardDescription>
+            {t('history.description')}
+          </CardDescription>
+        </div>
+        {entries && entries.length > 0 && (
+          <div className="flex gap-1">
+            {selected.length >= 2 ? (
+              <Button asChild variant="outline" size="sm">
+                <Link href={buildCompareUrl(selected)}>
+                  <GitCompare className="h-4 w-4 mr-1" />
+                  {t('history.compareSelected', { count: selected.length })}
+                </Link>
+              </Button>
+            ) : (
+              <Button variant="outline" size="sm" disabled title={t('history.compareHint')}>
+                <GitCompare className="h-4 w-4 mr-1" />
+                {t('common.compare')}
+              </Button>
+            )}
+            <Button variant="ghost" size="sm" className="text-red-600" onClick={handleClear}>
+              <Trash2 className="h-4 w-4 mr-1" />
+              {t('history.clearAll')}
+            </Button>
+          </div>
+        )}
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <div className="grid gap-2 md:grid-cols-4">
+          <div className="relative md:col-span-2">
+            <Search className="absolute left-2 top-1/2 -translate-y-1/2 h-4 w-4 text-gray-400" />
+            <Input
+              placeholder={t('history.search')}
+              value={query}
+              onChange={(e) => setQuery(e.target.value)}
+              className="pl-8"
+            />
+          </div>
+          <select
+            value={verdict}
+            onChange={(e) => setVerdict(e.target.value)}
+            className="h-9 rounded-md border border-input bg-transparent px-3 text-sm"
+            aria-label={t('history.filterVerdict')}
+          >
+            <option value="">{t('history.allVerdicts')}</option>
+            {verdictOptions.map(option => (
+              <option key={option} value={option}>{localizeVerdict(option, locale)}</option>
+            ))}
+            <option value="no faces found">{t('history.noFaces')}</option>
+          </select>
+          <div className="flex gap-2">
+            <Input type="date" value={from} onChange={(e) => setFrom(e.target.value)} aria-label={t('history.fromDate')} />
+            <Input type="date" value={to} onChange={(e) => setTo(e.target.value)} aria-label={t('history.toDate')} />
+          </div>
+        </div>
+
+        {entries === null ? (
+          <div className="space-y-2">
+            <Skeleton className="h-16 w-full" />
+            <Skeleton className="h-16 w-full" />
+          </div>
+        ) : filteredEntries.length === 0 ? (
+          <p className="text-center text-sm text-muted-foreground py-8">
+            {t(entries.length === 0 ? 'history.empty' : 'history.noMatches')}
+          </p>
+        ) : (
+          <ul className="divide-y divide-gray-100 border border-gray-200 rounded-lg">
+            {filteredEntries.map(entry => (
+              <li key={entry.uuid} className="flex items-center gap-3 p-3">
+                <input
+                  type="checkbox"
+                  checked={selected.includes(entry.uuid)}
+                  onChange={() => toggleSelected(entry.uuid)}
+                  aria-label={t('history.selectForCompare', { uuid: entry.uuid })}
+                  className="h-4 w-4 shrink-0"
+                />
+                {entry.thumbnail ? (
+                  <img src={entry.thumbnail} alt="" className="h-12 w-12 rounded object-cover border" />
+                ) : (
+                  <div className="h-12 w-12 rounded border bg-gray-50 flex items-center justify-center text-gray-400">
+                    <ImageIcon className="h-5 w-5" />
+                  </div>
+                )}
+                <div className="flex-1 min-w-0">
+                  <p className="text-xs text-muted-foreground">{formatDateTime(new Date(entry.createdAt), locale)}</p>
+                  <p className="text-xs truncate" title={entry.uuid}>{entry.uuid}</p>
+                  <div className="flex flex-wrap gap-1 mt-1">
+                    {entry.faces.length === 0 ? (
+                      <Badge variant="outline">{t('history.noFaces')}</Badge>
+                    ) : (
+                      entry.faces.map(face => (
+                        <Badge
+                          key={face.faceIndex}
+                          variant="outline"
+                          style={face.color ? { color: face.color, borderColor: `${face.color}55` } : undefined}
+                        >
+                          {t('overlay.faceVerdict', { index: face.faceIndex, verdict: localizeVerdict(face.verdict, locale) })}
+                        </Badge>
+                      ))
+                    )}
+                  </div>
+                </div>
+                <div className="flex shrink-0">
+                  <Button
+                    variant="ghost"
+                    size="sm"
+                    className="h-8 px-2"
+                    disabled={openingUuid !== null}
+                    onClick={() => handleOpen(entry.uuid)}
+                  >
+                    {openingUuid === entry.uuid
+                      ? <Loader2 className="h-4 w-4 mr-1 animate-spin" />
+                      : <Eye className="h-4 w-4 mr-1" />}
+                    {t('common.open')}
+                  </Button>
+                  <Button
+                    variant="ghost"
+                    size="icon"
+                    className="h-8 w-8"
+                    onClick={() => handleDelete(entry.uuid)}
+                  >
+                    <Trash2 className="h-4 w-4" />
+                    <span className="sr-only">{t('history.deleteEntry')}</span>
+                  </Button>
+                </div>
+              </li>
+            ))}
+          </ul>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
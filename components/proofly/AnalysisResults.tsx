@@ -5,7 +5,6 @@ import { useState, useRef } from 'react';
 import { motion, AnimatePresence } from 'framer-motion';
 import { 
   SessionInfoResponse, 
-  FaceInfo, 
   formatAnalysisResults, 
   AnalysisResult 
 } from '@/lib/types/proofly';
@@ -30,7 +29,7 @@ import {
 } from '@/components/ui/alert';
 import { Progress } from '@/components/ui/progress';
 import { Skeleton } from '@/components/ui/skeleton';
-import { AlertCircle, Info, AlertTriangle, Download, Copy, Check, FileText } from 'lucide-react';
+import { AlertCircle, Info, AlertTriangle, Download, Copy, Check, FileText, Link2, FileDown, History, RefreshCw } from 'lucide-react';
 import { prooflyApi } from '@/lib/api/proofly';
 import { cn } from '@/lib/utils';
 import { Badge } from '@/components/ui/badge';
@@ -40,8 +39,25 @@ import {
   TooltipProvider,
   TooltipTrigger,
 } from "@/components/ui/tooltip";
+import {
+  DropdownMenu,
+  DropdownMenuContent,
+  DropdownMenuItem,
+  DropdownMenuTrigger,
+} from '@/components/ui/dropdown-menu';
 import { toast } from 'sonner';
 import { exportResultsToPDF } from '@/lib/utils/pdfExport';
+import { exportResults } from '@/lib/utils/reportExport';
+import { ExportFormat } from '@/lib/report/exports';
+import { useVerdictPolicy } from '@/hooks/use-verdict-policy';
+import { VerdictPolicySelect } from '@/components/proofly/VerdictPolicySelect';
+import { VerdictPolicy, classifyReal } from '@/lib/verdict/policy';
+import { useImageMetadata } from '@/hooks/use-image-metadata';
+import { ImageMetadataPanel } from '@/components/proofly/ImageMetadataPanel';
+import { FaceOverlayViewer } from '@/components/proofly/FaceOverlayViewer';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTime, formatPercent } from '@/lib/i18n/format';
+import { Button } from '@/components/ui/button';
 
 // Animation for results card appearance
 const cardVariants = {
@@ -71,28 +87,50 @@ interface AnalysisResultsProps {
   sessionInfo?: SessionInfoResponse;
   isLoading?: boolean;
   error?: string;
+  // Set when the result came from the server's cache instead of a new analysis
+  previouslyAnalyzedAt?: string;
+  onReanalyze?: () => void;
+  isReanalyzing?: boolean;
 }
 
 export function AnalysisResults({ 
   sessionInfo, 
   isLoading = false,
-  error
+  error,
+  previouslyAnalyzedAt,
+  onReanalyze,
+  isReanalyzing = false
 }: AnalysisResultsProps) {
+  const { t, locale } = useI18n();
   const [imageError, setImageError] = useState<string | null>(null);
   const [copiedUuid, setCopiedUuid] = useState(false);
   const [copiedSha, setCopiedSha] = useState(false);
+  const [copiedLink, setCopiedLink] = useState(false);
   const [isExportingPdf, setIsExportingPdf] = useState(false);
+  const [exportingFormat, setExportingFormat] = useState<ExportFormat | null>(null);
+  const [activeTab, setActiveTab] = useState<string | null>(null);
+  const [hoveredFace, setHoveredFace] = useState<number | null>(null);
   
   // Create ref for the analysis results container
   const resultsRef = useRef<HTMLDivElement>(null);
   
+  // Verdict policy selected for this browser
+  const { policy } = useVerdictPolicy();
+  
+  // EXIF/XMP/IPTC/C2PA metadata of the analyzed image
+  const imageMetadata = useImageMetadata(sessionInfo?.uuid);
+  
   // Function to copy text to clipboard
-  const copyToClipboard = (text: string, type: 'uuid' | 'sha') => {
+  const copyToClipboard = (text: string, type: 'uuid' | 'sha' | 'link') => {
     navigator.clipboard.writeText(text)
       .then(() => {
         if (type === 'uuid') {
           setCopiedUuid(true);
           setTimeout(() => setCopiedUuid(false), 2000);
+        } else if (type === 'link') {
+          setCopiedLink(true);
+          toast.success(t('results.linkCopied'));
+          setTimeout(() => setCopiedLink(false), 2000);
         } else {
           setCopiedSha(true);
           setTimeout(() => setCopiedSha(false), 2000);
@@ -104,7 +142,12 @@ export function AnalysisResults({
   };
   
   // Format analysis results
-  const analysisResults = sessionInfo ? formatAnalysisResults(sessionInfo) : [];
+  const analysisResults = sessionInfo ? formatAnalysisResults(sessionInfo, policy, undefined, locale) : [];
+  
+  // Open tab: the first face by default (or the metadata when there are no faces)
+  const tabValues = [...analysisResults.map((_, index) => `face-${index}`), 'metadata'];
+  const selectedTab = activeTab && tabValues.includes(activeTab) ? activeTab : tabValues[0];
+  const activeFace = selectedTab.startsWith('face-') ? Number(selectedTab.slice(5)) : null;
   
   // Get original image URL
   const originalImageUrl = sessionInfo?.uuid 
@@ -116,30 +159,42 @@ export function AnalysisResults({
     if (!sessionInfo) return;
     
     setIsExportingPdf(true);
-    toast.loading('Generating PDF report...');
+    toast.loading(t('results.pdf.generating'));
     
     try {
       // Call the dedicated PDF export function
-      const result = await exportResultsToPDF(sessionInfo);
+      const result = await exportResultsToPDF(sessionInfo, policy, imageMetadata.metadata, locale);
       
       toast.dismiss();
       
       if (result.success) {
-        toast.success(result.error 
-          ? `PDF report created with limitations: ${result.error}` 
-          : 'PDF report successfully created');
+        toast.success(t('results.pdf.created'));
       } else {
-        toast.error(`Error creating PDF: ${result.error}`);
+        toast.error(t('results.pdf.error', { error: result.error || '' }));
       }
     } catch (error) {
       console.error('Error creating PDF:', error);
       toast.dismiss();
-      toast.error('Error generating PDF report');
+      toast.error(t('results.pdf.error', { error: error instanceof Error ? error.message : String(error) }));
     } finally {
       setIsExportingPdf(false);
     }
   };
 
+  // Function to export results as JSON, CSV or HTML
+  const handleExport = async (format: ExportFormat) => {
+    if (!sessionInfo) return;
+    
+    setExportingFormat(format);
+    const result = await exportResults(sessionInfo, format, policy, imageMetadata.metadata, locale);
+    if (result.success) {
+      toast.success(t('results.export.created', { format: format.toUpperCase() }));
+    } else {
+      toast.error(t('results.export.error', { format: format.toUpperCase(), error: result.error || '' }));
+    }
+    setExportingFormat(null);
+  };
+
   // If loading or error - show appropriate states
   if (isLoading) {
     return (
@@ -167,12 +222,12 @@ export function AnalysisResults({
     return (
       <Card className="w-full mt-6">
         <CardHeader>
-          <CardTitle>Analysis Error</CardTitle>
+          <CardTitle>{t('results.errorTitle')}</CardTitle>
         </CardHeader>
         <CardContent>
           <Alert variant="destructive">
             <AlertCircle className="h-4 w-4" />
-            <AlertTitle>An error occurred</AlertTitle>
+            <AlertTitle>{t('common.errorOccurred')}</AlertTitle>
             <AlertDescription>
               {error}
             </AlertDescription>
@@ -186,6 +241,11 @@ export function AnalysisResults({
     return null;
   }
 
+  // Function to copy the deep link to this result (/session/[uuid])
+  const handleCopyLink = () => {
+    copyToClipboard(`${window.location.origin}/session/${sessionInfo.uuid}`, 'link');
+  };
+
   // Function to handle clicking on "Original image" badge
   const handleDownloadOriginal = () => {
     if (!originalImageUrl) return;
@@ -207,21 +267,29 @@ export function AnalysisResults({
       <Card className="w-full mt-6">
         <CardHeader className="pb-4 relative flex flex-row items-center justify-between">
           <motion.div variants={itemVariants}>
-            <CardTitle>Analysis Results</CardTitle>
+            <CardTitle>{t('results.title')}</CardTitle>
             <CardDescription>
               {sessionInfo.status === 'no faces found' 
-                ? 'No faces detected in the image' 
-                : 'Details of the deepfake detection analysis'}
+                ? t('common.noFaces') 
+                : t('results.description')}
             </CardDescription>
           </motion.div>
           <motion.div variants={itemVariants} className="flex gap-2">
+            <Badge 
+              variant="outline" 
+              className="cursor-pointer flex items-center gap-1 hover:bg-secondary transition-colors"
+              onClick={handleCopyLink}
+            >
+              {copiedLink ? <Check className="h-3 w-3" /> : <Link2 className="h-3 w-3" />} 
+              {t('results.link')}
+            </Badge>
             <Badge 
               variant="outline" 
               className="cursor-pointer flex items-center gap-1 hover:bg-secondary transition-colors"
               onClick={handleDownloadOriginal}
             >
               <Download className="h-3 w-3" /> 
-              Original Image
+              {t('results.originalImage')}
             </Badge>
             <Badge 
               variant="outline" 
@@ -232,12 +300,57 @@ export function AnalysisResults({
               onClick={handleExportPDF}
             >
               <FileText className="h-3 w-3" /> 
-              {isExportingPdf ? 'Creating PDF...' : 'PDF'}
+              {isExportingPdf ? t('results.pdf.creating') : t('results.pdf')}
             </Badge>
+            <DropdownMenu>
+              <DropdownMenuTrigger asChild>
+                <Badge 
+                  variant="outline" 
+                  className={cn(
+                    "cursor-pointer flex items-center gap-1 hover:bg-secondary transition-colors",
+                    exportingFormat && "opacity-50 pointer-events-none"
+                  )}
+                >
+                  <FileDown className="h-3 w-3" /> 
+                  {exportingFormat ? t('results.export.exporting', { format: exportingFormat.toUpperCase() }) : t('results.export')}
+                </Badge>
+              </DropdownMenuTrigger>
+              <DropdownMenuContent align="end">
+                <DropdownMenuItem onSelect={() => handleExport('json')}>{t('results.export.json')}</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('csv')}>{t('results.export.csv')}</DropdownMenuItem>
+                <DropdownMenuItem onSelect={() => handleExport('html')}>{t('results.export.html')}</DropdownMenuItem>
+              </DropdownMenuContent>
+            </DropdownMenu>
           </motion.div>
         </CardHeader>
         <CardContent>
           <div ref={resultsRef}>
+            {previouslyAnalyzedAt && (
+              <motion.div variants={itemVariants} className="mb-4">
+                <Alert className="border-amber-200 bg-amber-50 text-amber-700">
+                  <History className="h-4 w-4" />
+                  <AlertTitle>
+                    {t('results.cached', { date: formatDateTime(new Date(previouslyAnalyzedAt), locale) })}
+                  </AlertTitle>
+                  <AlertDescription className="flex flex-wrap items-center justify-between gap-2">
+                    <span>{t('results.cachedHint')}</span>
+                    {onReanalyze && (
+                      <Button
+                        variant="outline"
+                        size="sm"
+                        onClick={onReanalyze}
+                        disabled={isReanalyzing}
+                        className="flex items-center gap-2"
+                      >
+                        <RefreshCw className={cn("h-4 w-4", isReanalyzing && "animate-spin")} />
+                        {isReanalyzing ? t('results.reanalyzing') : t('results.reanalyze')}
+                      </Button>
+                    )}
+                  </AlertDescription>
+                </Alert>
+              </motion.div>
+            )}
+
             {(!sessionInfo.faces || sessionInfo.faces.length === 0) && (
               <motion.div 
                 variants={itemVariants}
@@ -245,74 +358,110 @@ export function AnalysisResults({
               >
                 <Alert>
                   <Info className="h-4 w-4" />
-                  <AlertTitle>Information</AlertTitle>
+                  <AlertTitle>{t('results.information')}</AlertTitle>
                   <AlertDescription>
-                    No faces detected in the image
+                    {t('common.noFaces')}
                   </AlertDescription>
                 </Alert>
               </motion.div>
             )}
 
-            {/* If faces are detected - display tabs with results for each */}
-            {sessionInfo.faces && sessionInfo.faces.length > 0 && (
+            {/* Original image with face boxes linked to the tabs */}
+            {analysisResults.length > 0 && originalImageUrl && (
               <motion.div variants={itemVariants}>
-                <Tabs defaultValue={`face-0`} className="w-full">
-                  <TabsList className="mb-4">
-                    <AnimatePresence>
-                      {analysisResults.map((result, index) => (
-                        <motion.div
-                          key={`tab-${index}`}
-                          initial={{ opacity: 0, y: -5 }}
-                          animate={{ opacity: 1, y: 0 }}
-                          transition={{ delay: index * 0.1 }}
+                <FaceOverlayViewer
+                  sessionUuid={sessionInfo.uuid}
+                  imageUrl={originalImageUrl}
+                  results={analysisResults}
+                  activeFace={activeFace}
+                  hoveredFace={hoveredFace}
+                  onHoverFace={setHoveredFace}
+                  onSelectFace={(index) => setActiveTab(`face-${index}`)}
+                />
+              </motion.div>
+            )}
+
+            {/* One tab per detected face, plus the image metadata */}
+            <motion.div variants={itemVariants}>
+              <Tabs value={selectedTab} onValueChange={setActiveTab} className="w-full">
+                <TabsList className="mb-4">
+                  <AnimatePresence>
+                    {analysisResults.map((result, index) => (
+                      <motion.div
+                        key={`tab-${index}`}
+                        initial={{ opacity: 0, y: -5 }}
+                        animate={{ opacity: 1, y: 0 }}
+                        transition={{ delay: index * 0.1 }}
+                      >
+                        <TabsTrigger
+                          value={`face-${index}`}
+                          className={cn(hoveredFace === index && 'ring-2 ring-offset-1')}
+                          style={hoveredFace === index ? { '--tw-ring-color': result.verdictBand.color } as React.CSSProperties : undefined}
+                          onMouseEnter={() => setHoveredFace(index)}
+                          onMouseLeave={() => setHoveredFace(null)}
                         >
-                          <TabsTrigger value={`face-${index}`}>
-                            Face {result.faceIndex}
-                          </TabsTrigger>
-                        </motion.div>
-                      ))}
+                          <span
+                            className="mr-1.5 inline-block h-2 w-2 rounded-full"
+                            style={{ backgroundColor: result.verdictBand.color }}
+                          />
+                          {t('common.face', { index: result.faceIndex })}
+                        </TabsTrigger>
+                      </motion.div>
+                    ))}
+                  </AnimatePresence>
+                  <TabsTrigger value="metadata">
+                    {t('results.metadataTab')}
+                    {imageMetadata.metadata?.flags.some(flag => flag.severity !== 'info') && (
+                      <AlertTriangle className="h-3 w-3 ml-1 text-amber-500" />
+                    )}
+                  </TabsTrigger>
+                </TabsList>
+
+                {analysisResults.map((result, index) => (
+                  <TabsContent key={index} value={`face-${index}`}>
+                    <AnimatePresence mode="wait">
+                      <motion.div
+                        key={`face-content-${index}`}
+                        initial={{ opacity: 0 }}
+                        animate={{ opacity: 1 }}
+                        exit={{ opacity: 0 }}
+                        transition={{ duration: 0.2 }}
+                      >
+                        <FaceAnalysisResult result={result} sessionUuid={sessionInfo.uuid} policy={policy} />
+                      </motion.div>
                     </AnimatePresence>
-                  </TabsList>
+                  </TabsContent>
+                ))}
 
-                  {analysisResults.map((result, index) => (
-                    <TabsContent key={index} value={`face-${index}`}>
-                      <AnimatePresence mode="wait">
-                        <motion.div
-                          key={`face-content-${index}`}
-                          initial={{ opacity: 0 }}
-                          animate={{ opacity: 1 }}
-                          exit={{ opacity: 0 }}
-                          transition={{ duration: 0.2 }}
-                        >
-                          <FaceAnalysisResult result={result} sessionUuid={sessionInfo.uuid} />
-                        </motion.div>
-                      </AnimatePresence>
-                    </TabsContent>
-                  ))}
-                </Tabs>
-              </motion.div>
-            )}
+                <TabsContent value="metadata">
+                  <ImageMetadataPanel {...imageMetadata} />
+                </TabsContent>
+              </Tabs>
+            </motion.div>
           </div>
         </CardContent>
         <CardFooter className="text-sm text-muted-foreground flex flex-col items-start gap-1">
+          <motion.div variants={itemVariants} className="mb-1">
+            <VerdictPolicySelect />
+          </motion.div>
           <motion.div 
             variants={itemVariants}
             className="flex items-center gap-2 w-full"
           >
-            <p className="text-xs break-all pr-2">Session UUID: {sessionInfo.uuid}</p>
+            <p className="text-xs break-all pr-2">{t('common.sessionUuid', { uuid: sessionInfo.uuid })}</p>
             <TooltipProvider>
               <Tooltip>
                 <TooltipTrigger asChild>
                   <button 
                     onClick={() => copyToClipboard(sessionInfo.uuid, 'uuid')}
                     className="inline-flex h-6 w-6 items-center justify-center rounded-md border border-input bg-background p-1 text-sm hover:bg-accent hover:text-accent-foreground transition-colors flex-shrink-0"
-                    aria-label="Copy UUID"
+                    aria-label={t('results.copyUuid')}
                   >
                     {copiedUuid ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
                   </button>
                 </TooltipTrigger>
                 <TooltipContent>
-                  <p>{copiedUuid ? 'Copied!' : 'Copy UUID'}</p>
+                  <p>{copiedUuid ? t('common.copied') : t('results.copyUuid')}</p>
                 </TooltipContent>
               </Tooltip>
             </TooltipProvider>
@@ -322,20 +471,20 @@ export function AnalysisResults({
               variants={itemVariants}
               className="flex items-center gap-2 w-full"
             >
-              <p className="text-xs break-all pr-2">SHA256 hash: {sessionInfo.sha256}</p>
+              <p className="text-xs break-all pr-2">{t('results.sha256', { hash: sessionInfo.sha256 })}</p>
               <TooltipProvider>
                 <Tooltip>
                   <TooltipTrigger asChild>
                     <button 
                       onClick={() => copyToClipboard(sessionInfo.sha256 as string, 'sha')}
                       className="inline-flex h-6 w-6 items-center justify-center rounded-md border border-input bg-background p-1 text-sm hover:bg-accent hover:text-accent-foreground transition-colors flex-shrink-0"
-                      aria-label="Copy SHA256"
+                      aria-label={t('results.copySha256')}
                     >
                       {copiedSha ? <Check className="h-3 w-3" /> : <Copy className="h-3 w-3" />}
                     </button>
                   </TooltipTrigger>
                   <TooltipContent>
-                    <p>{copiedSha ? 'Copied!' : 'Copy SHA256'}</p>
+                    <p>{copiedSha ? t('common.copied') : t('results.copySha256')}</p>
                   </TooltipContent>
                 </Tooltip>
               </TooltipProvider>
@@ -350,32 +499,23 @@ export function AnalysisResults({
 interface FaceAnalysisResultProps {
   result: AnalysisResult;
   sessionUuid: string;
+  policy: VerdictPolicy;
 }
 
-function FaceAnalysisResult({ result, sessionUuid }: FaceAnalysisResultProps) {
+function FaceAnalysisResult({ result, sessionUuid, policy }: FaceAnalysisResultProps) {
+  const { t, locale } = useI18n();
   const [faceImageError, setFaceImageError] = useState<boolean>(false);
   
   // Get face image URL
   const faceImageUrl = prooflyApi.getFaceImageUrl(sessionUuid, result.faceIndex - 1);
 
-  // Determine verdict color
-  const verdictColor = result.ensembleProbability.real > 0.7 
-    ? "text-green-600" 
-    : result.ensembleProbability.real < 0.3 
-      ? "text-red-600" 
-      : "text-amber-600";
-
-  // Determine progress indicator class
-  const getProgressClass = (value: number) => {
-    if (value > 0.7) return "bg-green-500";
-    if (value < 0.3) return "bg-red-500";
-    return "bg-amber-500";
-  };
+  // Progress bar color follows the verdict band of the real probability
+  const getProgressStyle = (realValue: number) => ({
+    backgroundColor: `${classifyReal(realValue, policy).color}55`
+  });
 
   // Format percentages
-  const formatPercent = (value: number) => {
-    return (value * 100).toFixed(2) + '%';
-  };
+  const percent = (value: number) => formatPercent(value, locale);
 
   return (
     <div className="space-y-6">
@@ -385,7 +525,7 @@ function FaceAnalysisResult({ result, sessionUuid }: FaceAnalysisResultProps) {
           <div className="md:w-1/3">
             <img
               src={faceImageUrl}
-              alt={`Face ${result.faceIndex}`}
+              alt={t('common.face', { index: result.faceIndex })}
               className="w-full h-auto rounded-lg border"
               onError={() => setFaceImageError(true)}
             />
@@ -394,9 +534,9 @@ function FaceAnalysisResult({ result, sessionUuid }: FaceAnalysisResultProps) {
           <div className="md:w-1/3">
             <Alert className="border-amber-500 text-amber-700 bg-amber-50">
               <AlertTriangle className="h-4 w-4 text-amber-500" />
-              <AlertTitle>Warning</AlertTitle>
+              <AlertTitle>{t('results.warning')}</AlertTitle>
               <AlertDescription>
-                Failed to load face image
+                {t('results.faceImageFailed')}
               </AlertDescription>
             </Alert>
           </div>
@@ -404,50 +544,76 @@ function FaceAnalysisResult({ result, sessionUuid }: FaceAnalysisResultProps) {
 
         <div className="md:w-2/3 space-y-4">
           <div>
-            <h3 className="text-xl font-semibold mb-1">Verdict</h3>
-            <p className={`text-2xl font-bold ${verdictColor}`}>{result.verdict}</p>
+            <h3 className="text-xl font-semibold mb-1">{t('results.verdict')}</h3>
+            <p className="text-2xl font-bold" style={{ color: result.verdictBand.color }}>{result.verdict}</p>
           </div>
 
           <div>
-            <h4 className="font-medium mb-1">Real Image Probability</h4>
+            <h4 className="font-medium mb-1">{t('results.realProbability')}</h4>
             <Progress 
               value={result.ensembleProbability.real * 100} 
-              className={cn("h-2", getProgressClass(result.ensembleProbability.real))}
+              className="h-2"
+              style={getProgressStyle(result.ensembleProbability.real)}
             />
             <div className="flex justify-between text-sm mt-1">
-              <span>{formatPercent(result.ensembleProbability.real)}</span>
-              <span>Ensemble model confidence</span>
+              <span>{percent(result.ensembleProbability.real)}</span>
+              <span>{t('results.ensembleConfidence')}</span>
             </div>
           </div>
 
           <div>
-            <h4 className="font-medium mb-1">Deepfake Probability</h4>
+            <h4 className="font-medium mb-1">{t('results.fakeProbability')}</h4>
             <Progress 
               value={result.ensembleProbability.fake * 100} 
-              className={cn("h-2", getProgressClass(1 - result.ensembleProbability.fake))}
+              className="h-2"
+              style={getProgressStyle(1 - result.ensembleProbability.fake)}
             />
             <div className="flex justify-between text-sm mt-1">
-              <span>{formatPercent(result.ensembleProbability.fake)}</span>
-              <span>Ensemble model confidence</span>
+              <span>{percent(result.ensembleProbability.fake)}</span>
+              <span>{t('results.ensembleConfidence')}</span>
             </div>
           </div>
+
+          {result.localEnsemble && (
+            <p className="text-sm text-muted-foreground">
+              {t('results.localEnsemble')} <span className="font-medium text-foreground">{percent(result.localEnsemble.real)}</span>
+            </p>
+          )}
         </div>
       </div>
 
       {/* Individual model results */}
       <div>
-        <h3 className="text-lg font-medium mb-3">Individual Model Results</h3>
+        <h3 className="text-lg font-medium mb-3">{t('results.modelResults')}</h3>
         <div className="space-y-3">
-          {result.modelProbabilities.map((model, idx) => (
-            <div key={idx}>
+          {result.modelProbabilities.map((model) => (
+            <div key={model.modelId}>
               <div className="flex justify-between mb-1">
-                <span className="text-sm font-medium">{model.model}</span>
-                <span className="text-sm">{formatPercent(model.realProbability)}</span>
+                <span
+                  className="text-sm font-medium"
+                  title={[model.description, model.source && t('results.scoreSource', { field: model.source.field })].filter(Boolean).join('\n') || undefined}
+                >
+                  {model.model}
+                  {model.version && (
+                    <span className="text-xs text-muted-foreground font-normal"> v{model.version}</span>
+                  )}
+                  {model.weight === 0 && (
+                    <span className="text-xs text-muted-foreground font-normal"> {t('results.notWeighted')}</span>
+                  )}
+                </span>
+                <span className="text-sm">
+                  {model.realProbability === null
+                    ? <span className="text-muted-foreground">{t('results.notReported')}</span>
+                    : percent(model.realProbability)}
+                </span>
               </div>
-              <Progress 
-                value={model.realProbability * 100} 
-                className={cn("h-2", getProgressClass(model.realProbability))}
-              />
+              {model.realProbability !== null && (
+                <Progress 
+                  value={model.realProbability * 100} 
+                  className="h-2"
+                  style={getProgressStyle(model.realProbability)}
+                />
+              )}
             </div>
           ))}
         </div>
@@ -97,9 +97,23 @@ export function ApiLogs() {
                   className={`p-3 rounded border ${getTypeColor(log.type)}`}
                 >
                   <div className="flex justify-between mb-1">
-                    <div className="font-semibold">{log.endpoint}</div>
+                    <div className="font-semibold flex items-center gap-2">
+                      {log.endpoint}
+                      {log.contractIssues && (
+                        <Badge variant="outline" className="border-red-300 bg-white text-red-700">
+                          API contract mismatch
+                        </Badge>
+                      )}
+                    </div>
                     <div className="text-xs opacity-70">{formatTime(log.timestamp)}</div>
                   </div>
+                  {log.contractIssues && (
+                    <ul className="text-xs list-disc pl-5 mb-2">
+                      {log.contractIssues.map((issue, issueIndex) => (
+                        <li key={issueIndex}>{issue}</li>
+                      ))}
+                    </ul>
+                  )}
                   <pre className="text-xs overflow-auto bg-white/40 p-2 rounded max-h-[300px]">
                     {JSON.stringify(log.details, null, 2)}
                   </pre>
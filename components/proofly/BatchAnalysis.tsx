@@ -0,0 +1,154 @@
+'use client';
+
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Progress } from '@/components/ui/progress';
+import { Eye, GitCompare, Loader2, RefreshCw } from 'lucide-react';
+import { cn } from '@/lib/utils';
+import { BatchItem, BatchItemStatus, summarizeVerdict } from '@/hooks/use-batch-analysis';
+import { useVerdictPolicy } from '@/hooks/use-verdict-policy';
+import { MAX_COMPARE_SESSIONS, buildCompareUrl } from '@/lib/compare/comparison';
+import { useI18n } from '@/hooks/use-i18n';
+import { MessageKey, verdictLabel } from '@/lib/i18n/translate';
+
+interface BatchAnalysisProps {
+  items: BatchItem[];
+  onOpen: (item: BatchItem) => void;
+  onRetry: (id: string) => void;
+}
+
+const statusLabels: Record<BatchItemStatus, MessageKey> = {
+  'queued': 'batch.status.queued',
+  'uploading': 'batch.status.uploading',
+  'processing': 'batch.status.processing',
+  'completed': 'batch.status.completed',
+  'no faces found': 'batch.status.noFaces',
+  'failed': 'batch.status.failed',
+};
+
+const getStatusClass = (status: BatchItemStatus) => {
+  switch (status) {
+    case 'completed': return 'bg-green-50 text-green-700 border-green-200';
+    case 'no faces found': return 'bg-gray-50 text-gray-700 border-gray-200';
+    case 'failed': return 'bg-red-50 text-red-700 border-red-200';
+    case 'queued': return 'bg-white text-gray-500 border-gray-200';
+    default: return 'bg-blue-50 text-blue-700 border-blue-200';
+  }
+};
+
+/**
+ * Table with per-item status and verdict of a batch run
+ */
+export function BatchAnalysis({ items, onOpen, onRetry }: BatchAnalysisProps) {
+  const { t, locale } = useI18n();
+  const { policy } = useVerdictPolicy();
+  const finished = items.filter(item =>
+    item.status === 'completed' || item.status === 'no faces found' || item.status === 'failed'
+  ).length;
+  // Sessions with results, for /compare
+  const comparable = items
+    .filter(item => item.sessionInfo && item.sessionInfo.faces?.length)
+    .map(item => item.sessionInfo!.uuid);
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <div className="flex items-start justify-between gap-2">
+          <div>
+            <CardTitle>{t('batch.title')}</CardTitle>
+            <CardDescription>
+              {t('batch.progress', { finished, count: items.length })}
+            </CardDescription>
+          </div>
+          {comparable.length >= 2 && (
+            <Button asChild variant="outline" size="sm">
+              <Link
+                href={buildCompareUrl(comparable.slice(0, MAX_COMPARE_SESSIONS))}
+                title={comparable.length > MAX_COMPARE_SESSIONS ? t('batch.compareFirst', { count: MAX_COMPARE_SESSIONS }) : undefined}
+              >
+                <GitCompare className="h-4 w-4 mr-1" />
+                {t('common.compare')}
+              </Link>
+            </Button>
+          )}
+        </div>
+        <Progress value={items.length ? (finished / items.length) * 100 : 0} className="h-2 mt-2" />
+      </CardHeader>
+      <CardContent>
+        <Table>
+          <TableHeader>
+            <TableRow>
+              <TableHead className="w-8">#</TableHead>
+              <TableHead>{t('batch.column.image')}</TableHead>
+              <TableHead>{t('batch.column.status')}</TableHead>
+              <TableHead>{t('batch.column.verdict')}</TableHead>
+              <TableHead className="text-right">{t('batch.column.actions')}</TableHead>
+            </TableRow>
+          </TableHeader>
+          <TableBody>
+            {items.map((item, index) => {
+              const { band } = item.sessionInfo ? summarizeVerdict(item.sessionInfo, policy) : { band: undefined };
+              return (
+              <TableRow key={item.id}>
+                <TableCell className="text-muted-foreground">{index + 1}</TableCell>
+                <TableCell className="max-w-[220px] truncate" title={item.label}>
+                  {item.label}
+                </TableCell>
+                <TableCell>
+                  <Badge variant="outline" className={cn('gap-1', getStatusClass(item.status))}>
+                    {(item.status === 'uploading' || item.status === 'processing') && (
+                      <Loader2 className="h-3 w-3 animate-spin" />
+                    )}
+                    {t(statusLabels[item.status])}
+                  </Badge>
+                  {item.error && (
+                    <p className="text-xs text-red-600 mt-1 max-w-[200px] truncate" title={item.error}>
+                      {item.error}
+                    </p>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {band ? (
+                    <span className="font-medium" style={{ color: band.color }}>
+                      {verdictLabel(band, locale)}
+                      {item.faceCount && item.faceCount > 1 && (
+                        <span className="text-xs text-muted-foreground font-normal"> {t('batch.faces', { count: item.faceCount })}</span>
+                      )}
+                    </span>
+                  ) : (
+                    <span className="text-muted-foreground">—</span>
+                  )}
+                </TableCell>
+                <TableCell className="text-right">
+                  {item.sessionInfo && (
+                    <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => onOpen(item)}>
+                      <Eye className="h-4 w-4 mr-1" />
+                      {t('common.open')}
+                    </Button>
+                  )}
+                  {item.status === 'failed' && (
+                    <Button variant="ghost" size="sm" className="h-8 px-2" onClick={() => onRetry(item.id)}>
+                      <RefreshCw className="h-4 w-4 mr-1" />
+                      {t('common.retry')}
+                    </Button>
+                  )}
+                </TableCell>
+              </TableRow>
+              );
+            })}
+          </TableBody>
+        </Table>
+      </CardContent>
+    </Card>
+  );
+}
@@ -4,6 +4,7 @@ import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
 import { Button } from '@/components/ui/button';
 import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
 import { AlertCircle, RefreshCw } from 'lucide-react';
+import { useI18n } from '@/hooks/use-i18n';
 
 interface ErrorDisplayProps {
   error: string;
@@ -14,29 +15,31 @@ interface ErrorDisplayProps {
 
 export function ErrorDisplay({ 
   error, 
-  title = 'Analysis Error',
+  title,
   onRetry,
   isRetrying = false
 }: ErrorDisplayProps) {
+  const { t } = useI18n();
+
   // Processing common errors for more readable display
   const getReadableError = (errorMessage: string) => {
     if (errorMessage.includes('Network Error')) {
-      return 'Could not connect to server. Please check your internet connection and try again.';
+      return t('errors.network');
     }
     if (errorMessage.includes('timeout') || errorMessage.includes('Request timeout')) {
-      return 'Server response timeout. Please try again later.';
+      return t('errors.timeout');
     }
     if (errorMessage.includes('ECONNREFUSED')) {
-      return 'Server is currently unavailable. Please try again later.';
+      return t('errors.unavailable');
     }
     if (errorMessage.includes('413') || errorMessage.includes('Payload Too Large')) {
-      return 'The uploaded file is too large. Please reduce the file size and try again.';
+      return t('errors.tooLarge');
     }
     if (errorMessage.includes('415') || errorMessage.includes('Unsupported Media Type')) {
-      return 'File format is not supported. Please use images in JPEG, PNG or WebP format.';
+      return t('errors.unsupported');
     }
     if (errorMessage.includes('Error processing image')) {
-      return 'An error occurred while analyzing the image. Try uploading a different image.';
+      return t('errors.analysis');
     }
     return errorMessage;
   };
@@ -44,12 +47,12 @@ export function ErrorDisplay({
   return (
     <Card className="w-full mt-6">
       <CardHeader>
-        <CardTitle>{title}</CardTitle>
+        <CardTitle>{title || t('results.errorTitle')}</CardTitle>
       </CardHeader>
       <CardContent>
         <Alert variant="destructive" className="mb-4">
           <AlertCircle className="h-4 w-4" />
-          <AlertTitle>An error occurred</AlertTitle>
+          <AlertTitle>{t('common.errorOccurred')}</AlertTitle>
           <AlertDescription>
             {getReadableError(error)}
           </AlertDescription>
@@ -63,7 +66,7 @@ export function ErrorDisplay({
               className="flex items-center gap-2"
             >
               <RefreshCw className={`h-4 w-4 ${isRetrying ? 'animate-spin' : ''}`} />
-              {isRetrying ? 'Retrying...' : 'Retry'}
+              {isRetrying ? t('errors.retrying') : t('common.retry')}
             </Button>
           </div>
         )}
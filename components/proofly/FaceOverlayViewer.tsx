@@ -0,0 +1,241 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import { RotateCcw, ZoomIn, ZoomOut } from 'lucide-react';
+import { Button } from '@/components/ui/button';
+import { cn } from '@/lib/utils';
+import { AnalysisResult } from '@/lib/types/proofly';
+import { useFaceLocations } from '@/hooks/use-face-locations';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface FaceOverlayViewerProps {
+  sessionUuid: string;
+  imageUrl: string;
+  results: AnalysisResult[];
+  // 0-based index of the face whose tab is open
+  activeFace: number | null;
+  hoveredFace: number | null;
+  onHoverFace: (index: number | null) => void;
+  onSelectFace: (index: number) => void;
+}
+
+const MIN_ZOOM = 1;
+const MAX_ZOOM = 8;
+const ZOOM_STEP = 1.25;
+// Pointer movement (px) after which a press is a pan, not a click
+const DRAG_THRESHOLD = 3;
+
+interface ViewState {
+  zoom: number;
+  x: number;
+  y: number;
+}
+
+const INITIAL_VIEW: ViewState = { zoom: 1, x: 0, y: 0 };
+
+/**
+ * Keeps the zoomed image covering the viewport
+ */
+function clampView(view: ViewState, width: number, height: number): ViewState {
+  const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, view.zoom));
+  return {
+    zoom,
+    x: Math.min(0, Math.max(width - width * zoom, view.x)),
+    y: Math.min(0, Math.max(height - height * zoom, view.y)),
+  };
+}
+
+/**
+ * Original image with a box per detected face, colored by verdict.
+ * Hovering a box highlights its tab, clicking opens it; wheel/buttons zoom,
+ * dragging pans.
+ */
+export function FaceOverlayViewer({
+  sessionUuid,
+  imageUrl,
+  results,
+  activeFace,
+  hoveredFace,
+  onHoverFace,
+  onSelectFace,
+}: FaceOverlayViewerProps) {
+  const { t } = useI18n();
+  const viewportRef = useRef<HTMLDivElement>(null);
+  const dragRef = useRef<{ pointerX: number; pointerY: number; view: ViewState; moved: boolean } | null>(null);
+  const [view, setView] = useState<ViewState>(INITIAL_VIEW);
+  const [imageSize, setImageSize] = useState<{ width: number; height: number } | null>(null);
+  const [imageFailed, setImageFailed] = useState(false);
+
+  const { faces, isLocating } = useFaceLocations(sessionUuid, results, imageSize);
+
+  // Zooms by `factor` keeping the point (x, y) of the viewport in place
+  const zoomAt = useCallback((factor: number, x?: number, y?: number) => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const { clientWidth: width, clientHeight: height } = viewport;
+    const originX = x ?? width / 2;
+    const originY = y ?? height / 2;
+    setView(current => {
+      const zoom = Math.min(MAX_ZOOM, Math.max(MIN_ZOOM, current.zoom * factor));
+      const scale = zoom / current.zoom;
+      return clampView({
+        zoom,
+        x: originX - (originX - current.x) * scale,
+        y: originY - (originY - current.y) * scale,
+      }, width, height);
+    });
+  }, []);
+
+  // React registers wheel listeners as passive, so scrolling could not be prevented
+  useEffect(() => {
+    const viewport = viewportRef.current;
+    if (!viewport) return;
+    const handleWheel = (event: WheelEvent) => {
+      event.preventDefault();
+      const rect = viewport.getBoundingClientRect();
+      zoomAt(event.deltaY < 0 ? ZOOM_STEP : 1 / ZOOM_STEP, event.clientX - rect.left, event.clientY - rect.top);
+    };
+    viewport.addEventListener('wheel', handleWheel, { passive: false });
+    return () => viewport.removeEventListener('wheel', handleWheel);
+  }, [zoomAt, imageFailed]);
+
+  // New image: reset the view
+  useEffect(() => {
+    setView(INITIAL_VIEW);
+    setImageSize(null);
+    setImageFailed(false);
+  }, [imageUrl]);
+
+  const handlePointerDown = (event: React.PointerEvent<HTMLDivElement>) => {
+    dragRef.current = { pointerX: event.clientX, pointerY: event.clientY, view, moved: false };
+  };
+
+  const handlePointerMove = (event: React.PointerEvent<HTMLDivElement>) => {
+    const drag = dragRef.current;
+    const viewport = viewportRef.current;
+    if (!drag || !viewport) return;
+    const dx = event.clientX - drag.pointerX;
+    const dy = event.clientY - drag.pointerY;
+    if (!drag.moved && Math.hypot(dx, dy) < DRAG_THRESHOLD) return;
+    if (!drag.moved) {
+      drag.moved = true;
+      viewport.setPointerCapture(event.pointerId);
+    }
+    setView(clampView({ ...drag.view, x: drag.view.x + dx, y: drag.view.y + dy }, viewport.clientWidth, viewport.clientHeight));
+  };
+
+  const handlePointerUp = (event: React.PointerEvent<HTMLDivElement>) => {
+    if (viewportRef.current?.hasPointerCapture(event.pointerId)) {
+      viewportRef.current.releasePointerCapture(event.pointerId);
+    }
+    // Keep the drag state until the click event of a box has seen it
+    setTimeout(() => { dragRef.current = null; }, 0);
+  };
+
+  const handleSelect = (index: number) => {
+    if (dragRef.current?.moved) return;
+    onSelectFace(index);
+  };
+
+  if (imageFailed) return null;
+
+  const located = faces.filter(Boolean);
+  const unlocated = results.filter((_, index) => !faces[index]).map(result => result.faceIndex);
+  const hasEstimated = located.some(face => face?.source === 'estimated');
+
+  return (
+    <div className="mb-4 space-y-2">
+      <div className="flex justify-center">
+        <div
+          ref={viewportRef}
+          className={cn(
+            'relative max-w-full overflow-hidden rounded-lg border bg-muted touch-none select-none',
+            view.zoom > 1 ? 'cursor-grab active:cursor-grabbing' : 'cursor-default'
+          )}
+          onPointerDown={handlePointerDown}
+          onPointerMove={handlePointerMove}
+          onPointerUp={handlePointerUp}
+          onPointerCancel={handlePointerUp}
+        >
+          <div
+            className="relative origin-top-left"
+            style={{ transform: `translate(${view.x}px, ${view.y}px) scale(${view.zoom})` }}
+          >
+            <img
+              src={imageUrl}
+              alt={t('overlay.imageAlt')}
+              className="block max-h-[480px] max-w-full"
+              draggable={false}
+              onLoad={(event) => setImageSize({
+                width: event.currentTarget.naturalWidth,
+                height: event.currentTarget.naturalHeight,
+              })}
+              onError={() => setImageFailed(true)}
+            />
+            {imageSize && results.map((result, index) => {
+              const face = faces[index];
+              if (!face) return null;
+              const isHighlighted = hoveredFace === index || activeFace === index;
+              return (
+                <button
+                  key={result.faceIndex}
+                  type="button"
+                  aria-label={t('overlay.faceVerdict', { index: result.faceIndex, verdict: result.verdict })}
+                  className="absolute rounded-sm transition-shadow"
+                  style={{
+                    left: `${face.box.x * 100}%`,
+                    top: `${face.box.y * 100}%`,
+                    width: `${face.box.width * 100}%`,
+                    height: `${face.box.height * 100}%`,
+                    borderColor: result.verdictBand.color,
+                    borderStyle: face.source === 'estimated' ? 'dashed' : 'solid',
+                    borderWidth: `${(isHighlighted ? 3 : 2) / view.zoom}px`,
+                    boxShadow: isHighlighted ? `0 0 0 ${2 / view.zoom}px rgba(255, 255, 255, 0.8)` : undefined,
+                  }}
+                  onPointerEnter={() => onHoverFace(index)}
+                  onPointerLeave={() => onHoverFace(null)}
+                  onClick={() => handleSelect(index)}
+                >
+                  {/* Label above the box, or inside it when the box touches the top edge */}
+                  <span
+                    className={cn(
+                      'absolute left-0 whitespace-nowrap rounded px-1 text-[10px] font-medium text-white',
+                      face.box.y < 0.05 ? 'top-0 origin-top-left' : 'bottom-full mb-0.5 origin-bottom-left'
+                    )}
+                    style={{ backgroundColor: result.verdictBand.color, transform: `scale(${1 / view.zoom})` }}
+                  >
+                    {t('common.face', { index: result.faceIndex })}{isHighlighted ? ` · ${result.verdict}` : ''}
+                  </span>
+                </button>
+              );
+            })}
+          </div>
+        </div>
+      </div>
+
+      <div className="flex flex-wrap items-center justify-between gap-2 text-xs text-muted-foreground">
+        <div>
+          {isLocating && <span>{t('overlay.locating')}</span>}
+          {!isLocating && hasEstimated && (
+            <span>{t('overlay.estimated')}</span>
+          )}
+          {!isLocating && imageSize && unlocated.length > 0 && (
+            <span> {t('overlay.unlocated', { faces: unlocated.map(index => t('common.face', { index })).join(', ') })}</span>
+          )}
+        </div>
+        <div className="flex items-center gap-1">
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => zoomAt(1 / ZOOM_STEP)} disabled={view.zoom <= MIN_ZOOM} aria-label={t('overlay.zoomOut')}>
+            <ZoomOut className="h-3.5 w-3.5" />
+          </Button>
+          <span className="w-10 text-center tabular-nums">{Math.round(view.zoom * 100)}%</span>
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => zoomAt(ZOOM_STEP)} disabled={view.zoom >= MAX_ZOOM} aria-label={t('overlay.zoomIn')}>
+            <ZoomIn className="h-3.5 w-3.5" />
+          </Button>
+          <Button variant="outline" size="icon" className="h-7 w-7" onClick={() => setView(INITIAL_VIEW)} disabled={view.zoom === 1} aria-label={t('overlay.resetZoom')}>
+            <RotateCcw className="h-3.5 w-3.5" />
+          </Button>
+        </div>
+      </div>
+    </div>
+  );
+}
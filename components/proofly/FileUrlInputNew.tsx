@@ -1,15 +1,28 @@
 "use client"
 
 import { useState, useRef, useEffect, type ChangeEvent } from "react"
-import { Input } from "@/components/ui/input"
 import { Button } from "@/components/ui/button"
 import { Tabs, TabsContent, TabsList, TabsTrigger } from "@/components/ui/tabs"
-import { X, Upload, CheckCircle2, FileText, ImageIcon, File, Maximize2, Minimize2, RefreshCw } from "lucide-react"
-import { cn, formatFileSize } from "@/lib/utils"
+import { X, Upload, CheckCircle2, FileText, ImageIcon, File, Maximize2, Minimize2, RefreshCw, XCircle } from "lucide-react"
+import { cn } from "@/lib/utils"
 import { motion, AnimatePresence } from "framer-motion"
 import { toast } from "sonner"
-import { prooflyApi } from '@/lib/api/proofly'
-import { SessionInfoResponse } from '@/lib/types/proofly'
+import { RequestCancelledError, UploadOptions, prooflyApi } from '@/lib/api/proofly'
+import { ImageIntakeError } from '@/lib/images/sniff'
+import { ImagePreprocessError, PreprocessResult, preprocessImage } from '@/lib/images/preprocess'
+import { recordUploadMetadata } from '@/lib/images/uploadMetadata'
+import { CachedAnalysis, SessionInfoResponse, TransferProgress } from '@/lib/types/proofly'
+import { recordProcessingTime } from '@/lib/history/processingTimes'
+import { clearPendingSession, getPendingSession, savePendingSession } from '@/lib/history/pendingSession'
+import { useSessionEvents } from '@/hooks/use-session-events'
+import { BatchSource, MAX_BATCH_ITEMS } from '@/hooks/use-batch-analysis'
+import { usePreprocessSettings } from '@/hooks/use-preprocess-settings'
+import { ImagePreprocessPanel } from './ImagePreprocessPanel'
+import { LoadingProgress, UploadStage } from './LoadingProgress'
+import { useI18n } from '@/hooks/use-i18n'
+import { Locale } from '@/lib/i18n/config'
+import { Translator } from '@/lib/i18n/translate'
+import { formatFileSize } from '@/lib/i18n/format'
 
 type InputType = "file" | "url"
 type DisplayMode = "compact" | "thumbnail" | "card" | "minimal"
@@ -23,16 +36,49 @@ interface FileData {
 }
 
 interface FileUrlInputNewProps {
-  onAnalysisComplete: (sessionInfo: SessionInfoResponse) => void;
+  // `cached` is set when the server answered with an earlier analysis of the same image,
+  // `source` is what was submitted, so it can be uploaded again unchanged
+  onAnalysisComplete: (sessionInfo: SessionInfoResponse, cached?: CachedAnalysis, source?: BatchSource) => void;
+  // Called instead of a single upload when several files or URLs are submitted
+  onBatchSubmit?: (sources: BatchSource[], options: { force: boolean }) => void;
 }
 
-export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
+const URL_PATTERN = /^(https?:\/\/)?([\w-]+(\.[\w-]+)+)([\w.,@?^=%&:/~+#-]*[\w@?^=%&/~+#-])?$/
+
+// Splits the URL field into non-empty lines
+const parseUrlList = (value: string): string[] =>
+  value.split(/\r?\n/).map((line) => line.trim()).filter((line) => line.length > 0)
+
+// User-facing message for images rejected by the upload routes
+const getIntakeErrorMessage = (error: ImageIntakeError, t: Translator, locale: Locale): string => {
+  switch (error.code) {
+    case 'IMAGE_TOO_LARGE':
+      return error.maxBytes
+        ? t('upload.error.tooLargeMax', { size: formatFileSize(error.maxBytes, locale) })
+        : t('upload.error.tooLarge')
+    case 'EMPTY_IMAGE':
+      return t('upload.error.empty')
+    case 'SVG_NOT_ALLOWED':
+      return t('upload.error.svg')
+    case 'POLYGLOT_IMAGE':
+      return t('upload.error.polyglot')
+    default:
+      return t('upload.error.unsupported')
+  }
+}
+
+export function FileUrlInputNew({ onAnalysisComplete, onBatchSubmit }: FileUrlInputNewProps) {
+  const { t, locale } = useI18n()
+
   // UI states
   const [inputType, setInputType] = useState<InputType>("file")
   const [fileData, setFileData] = useState<FileData | null>(null)
+  const [batchFiles, setBatchFiles] = useState<File[]>([])
   const [url, setUrl] = useState<string>("")
   const [isValidUrl, setIsValidUrl] = useState<boolean>(false)
   const [displayMode, setDisplayMode] = useState<DisplayMode>("compact")
+  // Skip the server's result cache for this upload
+  const [forceReanalysis, setForceReanalysis] = useState(false)
   const fileInputRef = useRef<HTMLInputElement>(null)
 
   // Processing states
@@ -40,8 +86,105 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
   const [isProcessing, setIsProcessing] = useState(false)
   const [error, setError] = useState<string | undefined>(undefined)
   const [sessionUuid, setSessionUuid] = useState<string | null>(null)
+  const [trackingUuid, setTrackingUuid] = useState<string | null>(null)
   const [currentStage, setCurrentStage] = useState<AppStage>('initial')
 
+  // Real progress: bytes transferred, then the session status pushed by the server
+  const [uploadStage, setUploadStage] = useState<UploadStage>('transfer')
+  const [transfer, setTransfer] = useState<TransferProgress | null>(null)
+  const [uploadStartedAt, setUploadStartedAt] = useState(0)
+  const [stageStartedAt, setStageStartedAt] = useState(0)
+
+  const enterStage = (stage: UploadStage) => {
+    setUploadStage(stage)
+    setStageStartedAt(Date.now())
+  }
+
+  // Aborts the upload in flight (cancel button, unmount)
+  const abortRef = useRef<AbortController | null>(null)
+  // Sessions resumed after a reload may have finished while the page was closed
+  const resumedRef = useRef(false)
+
+  // Starts a new upload; returns its request options and start time
+  const beginUpload = (): { options: UploadOptions; startedAt: number } => {
+    abortRef.current?.abort()
+    const controller = new AbortController()
+    abortRef.current = controller
+    resumedRef.current = false
+    const startedAt = Date.now()
+    setTransfer(null)
+    setUploadStartedAt(startedAt)
+    enterStage('transfer')
+    return {
+      options: {
+        signal: controller.signal,
+        onTransfer: setTransfer,
+        onForwarding: () => enterStage('forwarding'),
+        force: forceReanalysis,
+      },
+      startedAt,
+    }
+  }
+
+  useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
+
+  // Resume the session a previous page load was waiting for
+  useEffect(() => {
+    const pending = getPendingSession()
+    if (!pending) return
+    console.log("Resuming pending session:", pending.uuid)
+    resumedRef.current = true
+    setSessionUuid(pending.uuid)
+    setUploadStartedAt(pending.startedAt)
+    setUploadStage('processing')
+    setStageStartedAt(pending.trackingStartedAt)
+    setIsProcessing(true)
+    setTrackingUuid(pending.uuid)
+  }, [])
+
+  // Client-side preprocessing of the selected file
+  const { settings: preprocessSettings, updateSettings: updatePreprocessSettings } = usePreprocessSettings()
+  const [preprocessed, setPreprocessed] = useState<PreprocessResult | null>(null)
+  const [isPreprocessing, setIsPreprocessing] = useState(false)
+  const [preprocessError, setPreprocessError] = useState<string | null>(null)
+
+  useEffect(() => {
+    setPreprocessed(null)
+    setPreprocessError(null)
+    const file = fileData?.file
+    if (!file || !preprocessSettings.enabled) {
+      setIsPreprocessing(false)
+      return
+    }
+
+    // Results for a previous file or setting are ignored
+    let cancelled = false
+    setIsPreprocessing(true)
+    preprocessImage(file, preprocessSettings.maxDimension)
+      .then((result) => {
+        if (cancelled) return
+        console.log("Image preprocessing:", result.steps, result.original, result.processed)
+        setPreprocessed(result)
+      })
+      .catch((err) => {
+        if (cancelled) return
+        console.error("Image preprocessing failed:", err)
+        setPreprocessError(err instanceof ImagePreprocessError ? err.message : t('upload.error.preprocess'))
+      })
+      .finally(() => {
+        if (!cancelled) setIsPreprocessing(false)
+      })
+    return () => {
+      cancelled = true
+    }
+  }, [fileData?.file, preprocessSettings.enabled, preprocessSettings.maxDimension, t])
+
+  // File sent to the server: the processed one unless the original is requested
+  const getUploadFile = (file: File) =>
+    preprocessSettings.enabled && preprocessed ? preprocessed.file : file
+
   // Effect to track changes in other states and update currentStage
   useEffect(() => {
     if (error) {
@@ -55,10 +198,21 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
     }
   }, [error, isProcessing, isUploading, fileData, url, sessionUuid])
 
-  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
-    const file = e.target.files?.[0]
-    if (!file) return
+  const selectFiles = (files: File[]) => {
+    if (files.length === 0) return
 
+    // Several files go to batch mode when the parent supports it
+    if (files.length > 1 && onBatchSubmit) {
+      if (files.length > MAX_BATCH_ITEMS) {
+        toast.warning(t('upload.batchLimit', { count: MAX_BATCH_ITEMS }))
+      }
+      setFileData(null)
+      setBatchFiles(files.slice(0, MAX_BATCH_ITEMS))
+      return
+    }
+
+    const file = files[0]
+    setBatchFiles([])
     const reader = new FileReader()
     reader.onload = () => {
       setFileData({
@@ -71,14 +225,23 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
     reader.readAsDataURL(file)
   }
 
-  const handleUrlChange = (e: ChangeEvent<HTMLInputElement>) => {
+  const handleFileChange = (e: ChangeEvent<HTMLInputElement>) => {
+    selectFiles(Array.from(e.target.files || []))
+  }
+
+  const handleUrlChange = (e: ChangeEvent<HTMLTextAreaElement>) => {
     const value = e.target.value
     setUrl(value)
 
-    // URL validation
+    // URL validation: every line must be a URL, several lines only in batch mode
     try {
-      const urlPattern = /^(https?:\/\/)?([\w-]+(\.[\w-]+)+)([\w.,@?^=%&:/~+#-]*[\w@?^=%&/~+#-])?$/
-      setIsValidUrl(urlPattern.test(value) && value.length > 0)
+      const urls = parseUrlList(value)
+      const allowMultiple = !!onBatchSubmit && urls.length <= MAX_BATCH_ITEMS
+      setIsValidUrl(
+        urls.length > 0 &&
+        (urls.length === 1 || allowMultiple) &&
+        urls.every((line) => URL_PATTERN.test(line))
+      )
     } catch {
       setIsValidUrl(false)
     }
@@ -86,19 +249,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
 
   const handleDrop = (e: React.DragEvent<HTMLDivElement>) => {
     e.preventDefault()
-    const file = e.dataTransfer.files?.[0]
-    if (!file) return
-
-    const reader = new FileReader()
-    reader.onload = () => {
-      setFileData({
-        file,
-        preview: file.type.startsWith("image/") ? (reader.result as string) : null,
-        size: file.size,
-        type: file.type,
-      })
-    }
-    reader.readAsDataURL(file)
+    selectFiles(Array.from(e.dataTransfer.files || []))
   }
 
   const handleDragOver = (e: React.DragEvent<HTMLDivElement>) => {
@@ -107,6 +258,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
 
   const handleClearFile = () => {
     setFileData(null)
+    setBatchFiles([])
     if (fileInputRef.current) {
       fileInputRef.current.value = ""
     }
@@ -127,41 +279,62 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
   // API functions
   const handleSubmit = async () => {
     setError(undefined)
+
+    // Batch runs are handled by the parent
+    if (onBatchSubmit) {
+      if (inputType === "file" && batchFiles.length > 1) {
+        onBatchSubmit(batchFiles.map((file) => ({ kind: "file", file })), { force: forceReanalysis })
+        return
+      }
+      const urls = parseUrlList(url)
+      if (inputType === "url" && isValidUrl && urls.length > 1) {
+        onBatchSubmit(urls.map((item) => ({ kind: "url", url: item })), { force: forceReanalysis })
+        return
+      }
+    }
+
     setIsUploading(true)
 
     if (inputType === "file" && fileData?.file) {
-      await handleFileUpload(fileData.file)
+      await handleFileUpload(getUploadFile(fileData.file))
     } else if (inputType === "url" && isValidUrl) {
-      await handleUrlUpload(url)
+      await handleUrlUpload(url.trim())
     }
   }
 
   const handleFileUpload = async (file: File) => {
     console.log("Starting file upload:", file.name, file.size, file.type);
+    const upload = beginUpload();
     
     try {
       console.log("Sending file to Proofly API server...");
       
       // Upload file to server
-      const response = await prooflyApi.uploadImage(file);
+      const response = await prooflyApi.uploadImage(file, upload.options);
       console.log("API upload response:", response);
       
       if (!response.uuid) {
         throw new Error("API did not return session UUID");
       }
       
+      if (response.cached) {
+        showCachedResult(response.cached, { kind: 'file', file });
+        return;
+      }
+      
       setSessionUuid(response.uuid);
-      toast.success('Image uploaded successfully');
+      // Metadata comes from the selected file, not the preprocessed copy
+      void recordUploadMetadata(response.uuid, fileData?.file || file);
+      toast.success(t('upload.toast.uploaded'));
       
-      // Start checking session status
+      // Start tracking session status
       setIsUploading(false);
-      setIsProcessing(true);
-      setCurrentStage('processing');
-      await checkSessionStatus(response.uuid);
+      startTracking(response.uuid, upload.startedAt);
     } catch (err) {
+      if (err instanceof RequestCancelledError) return;
       console.error('Detailed upload error:', err);
       // More detailed error message for user
-      let errorMessage = 'Error uploading image. Please try again.';
+      let errorMessage = t('upload.error.upload');
       
       if (err instanceof Error) {
         console.error('Error name:', err.name);
@@ -169,20 +342,18 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
         console.error('Error stack:', err.stack);
         
         // Try to determine error type for better user message
-        if (err.message.includes('network') || err.message.includes('Network')) {
-          errorMessage = 'Network error. Please check your internet connection.';
+        if (err instanceof ImageIntakeError) {
+          errorMessage = getIntakeErrorMessage(err, t, locale);
+        } else if (err.message.includes('network') || err.message.includes('Network')) {
+          errorMessage = t('upload.error.network');
         } else if (err.message.includes('timeout') || err.message.includes('Timeout')) {
-          errorMessage = 'Server response timeout.';
-        } else if (err.message.includes('413') || err.message.includes('too large')) {
-          errorMessage = 'Image is too large.';
-        } else if (err.message.includes('415') || err.message.includes('Unsupported')) {
-          errorMessage = 'Unsupported image format.';
+          errorMessage = t('upload.error.timeout');
         }
       }
       
       setError(errorMessage);
       setCurrentStage('error');
-      toast.error('Error uploading image');
+      toast.error(t('upload.toast.uploadFailed'));
     } finally {
       setIsUploading(false);
     }
@@ -190,27 +361,32 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
 
   const handleUrlUpload = async (urlToUpload: string) => {
     console.log("Starting URL processing:", urlToUpload);
+    const upload = beginUpload();
     
     try {
       // Send URL to server
-      const response = await prooflyApi.uploadUrl(urlToUpload);
+      const response = await prooflyApi.uploadUrl(urlToUpload, upload.options);
       console.log("API URL upload response:", response);
       
       if (!response.uuid) {
         throw new Error("API did not return session UUID");
       }
       
+      if (response.cached) {
+        showCachedResult(response.cached, { kind: 'url', url: urlToUpload });
+        return;
+      }
+      
       setSessionUuid(response.uuid);
-      toast.success('URL successfully submitted for analysis');
+      toast.success(t('upload.toast.urlSubmitted'));
       
-      // Start checking session status
+      // Start tracking session status
       setIsUploading(false);
-      setIsProcessing(true);
-      setCurrentStage('processing');
-      await checkSessionStatus(response.uuid);
+      startTracking(response.uuid, upload.startedAt);
     } catch (err) {
+      if (err instanceof RequestCancelledError) return;
       console.error('Error processing URL:', err);
-      let errorMessage = 'Error processing URL. Please try again.';
+      let errorMessage = t('upload.error.url');
       
       if (err instanceof Error) {
         console.error('Error name:', err.name);
@@ -218,99 +394,98 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
         console.error('Error stack:', err.stack);
         
         // Analyze error in more detail
-        if (err.message.includes('network') || err.message.includes('Network')) {
-          errorMessage = 'Network error. Please check your internet connection.';
+        if (err instanceof ImageIntakeError) {
+          errorMessage = getIntakeErrorMessage(err, t, locale);
+        } else if (err.message.includes('network') || err.message.includes('Network')) {
+          errorMessage = t('upload.error.network');
         } else if (err.message.includes('timeout') || err.message.includes('Timeout')) {
-          errorMessage = 'Server response timeout.';
+          errorMessage = t('upload.error.timeout');
         } else if (err.message.includes('404') || err.message.includes('not found')) {
-          errorMessage = 'URL not found or unavailable.';
+          errorMessage = t('upload.error.urlNotFound');
         }
       }
       
       setError(errorMessage);
       setCurrentStage('error');
-      toast.error('Error processing URL');
+      toast.error(t('upload.toast.urlFailed'));
     } finally {
       setIsUploading(false);
     }
   }
 
-  const checkSessionStatus = async (uuid: string) => {
-    try {
-      // Wait for processing to complete
-      let status = 'processing';
-      let attempts = 0;
-      const maxAttempts = 60; // Maximum number of attempts
-      
-      // Check all possible "in process" statuses
-      while ((status === 'processing' || status === 'uploading' || status === 'in progress') && attempts < maxAttempts) {
-        // Pause between requests
-        await new Promise(resolve => setTimeout(resolve, 2000));
-        
-        // Check status
-        const statusResponse = await prooflyApi.getSessionStatus(uuid);
-        status = statusResponse.status;
-        console.log(`Current status: ${status}`);
-        attempts++;
-        
-        // If status indicates no faces found, break the loop
-        if (status === 'no faces found') {
-          break;
-        }
+  // Session progress is pushed by the server over SSE
+  const { status: sessionStatus, degraded } = useSessionEvents(trackingUuid, {
+    onStatus: (status) => {
+      console.log(`Current status: ${status}`);
+    },
+    onComplete: (sessionData) => {
+      if (!resumedRef.current) {
+        recordProcessingTime(Date.now() - stageStartedAt);
       }
-      
-      // Check that attempts limit is not exceeded
-      if (attempts >= maxAttempts) {
-        throw new Error('Processing timeout exceeded');
-      }
-      
-      // Handle different completion statuses
-      if (status === 'completed' || status === 'done') {
-        const sessionData = await prooflyApi.getSessionInfo(uuid);
-        onAnalysisComplete(sessionData);
-        toast.success('Image analysis completed');
-      } else if (status === 'no faces found') {
-        // Get session data even if no faces were found
-        const sessionData = await prooflyApi.getSessionInfo(uuid);
-        onAnalysisComplete(sessionData);
-        toast.warning('No faces detected in the image');
-      } else if (status === 'failed') {
-        throw new Error('Image processing failed');
-      }
-    } catch (err) {
-      console.error('Processing error:', err);
-      let errorMessage = 'Error processing image. Please try again.';
-      
-      if (err instanceof Error) {
-        errorMessage = `Error: ${err.message}`;
+      clearPendingSession();
+      setTrackingUuid(null);
+      setIsProcessing(false);
+      onAnalysisComplete(sessionData);
+      if (sessionData.status === 'no faces found') {
+        toast.warning(t('common.noFaces'));
+      } else {
+        toast.success(t('common.analysisCompleted'));
       }
-      
-      setError(errorMessage);
-      setCurrentStage('error');
-      toast.error('Error processing image');
-    } finally {
+    },
+    onFailed: (message) => {
+      console.error('Processing error:', message);
+      clearPendingSession();
+      setTrackingUuid(null);
       setIsProcessing(false);
-    }
+      setError(t('upload.error.processing', { message }));
+      setCurrentStage('error');
+      toast.error(t('upload.toast.processingFailed'));
+    },
+  });
+
+  // Images analyzed before are answered with their earlier session
+  const showCachedResult = (cached: CachedAnalysis, source: BatchSource) => {
+    console.log("Using cached analysis from", cached.analyzedAt);
+    abortRef.current = null;
+    setSessionUuid(cached.session.uuid);
+    toast.info(t('upload.toast.cached'));
+    onAnalysisComplete(cached.session, cached, source);
+  };
+
+  const startTracking = (uuid: string, startedAt: number) => {
+    const trackingStartedAt = Date.now();
+    savePendingSession({ uuid, startedAt, trackingStartedAt });
+    setUploadStage('processing');
+    setStageStartedAt(trackingStartedAt);
+    setIsProcessing(true);
+    setCurrentStage('processing');
+    setTrackingUuid(uuid);
+  };
+
+  // Stops the upload or the tracking; the upstream session itself keeps running
+  const handleCancel = () => {
+    abortRef.current?.abort();
+    abortRef.current = null;
+    clearPendingSession();
+    setTrackingUuid(null);
+    setIsUploading(false);
+    setIsProcessing(false);
+    setSessionUuid(null);
+    setError(undefined);
+    setCurrentStage('initial');
+    toast.info(t('upload.toast.cancelled'));
   };
 
   const handleRetry = async () => {
     if (inputType === "file" && fileData?.file) {
-      await handleFileUpload(fileData.file);
+      await handleFileUpload(getUploadFile(fileData.file));
     } else if (inputType === "url" && isValidUrl) {
-      await handleUrlUpload(url);
+      await handleUrlUpload(url.trim());
     } else if (sessionUuid) {
-      setIsProcessing(true);
-      setCurrentStage('processing');
-      try {
-        await checkSessionStatus(sessionUuid);
-      } catch (err) {
-        console.error('Retry error:', err);
-        setError('Could not retrieve analysis results. Please try again.');
-        setCurrentStage('error');
-        toast.error('Analysis retry failed');
-      } finally {
-        setIsProcessing(false);
-      }
+      const startedAt = Date.now();
+      setError(undefined);
+      setUploadStartedAt(startedAt);
+      startTracking(sessionUuid, startedAt);
     }
   };
 
@@ -331,12 +506,12 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
               <div className="relative">
                 <img
                   src={fileData.preview || "/placeholder.svg"}
-                  alt="Preview"
+                  alt={t('upload.preview')}
                   className="max-h-48 max-w-full object-contain mx-auto"
                 />
                 <div className="absolute inset-0 bg-gradient-to-b from-transparent to-black/10" />
                 <div className="absolute bottom-0 left-0 right-0 p-2 text-center text-xs text-gray-600 bg-white/80">
-                  {formatFileSize(fileData.size)}
+                  {formatFileSize(fileData.size, locale)}
                 </div>
                 <Button
                   variant="destructive"
@@ -348,13 +523,13 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                   }}
                 >
                   <X className="h-3 w-3" />
-                  <span className="sr-only">Remove file</span>
+                  <span className="sr-only">{t('upload.removeFile')}</span>
                 </Button>
               </div>
             ) : (
               <div className="flex items-center justify-center p-4 bg-gray-50">
                 {getFileIcon(fileData.type)}
-                <span className="ml-2 text-sm text-gray-500">{formatFileSize(fileData.size)}</span>
+                <span className="ml-2 text-sm text-gray-500">{formatFileSize(fileData.size, locale)}</span>
                 <Button
                   variant="destructive"
                   size="icon"
@@ -365,7 +540,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                   }}
                 >
                   <X className="h-3 w-3" />
-                  <span className="sr-only">Remove file</span>
+                  <span className="sr-only">{t('upload.removeFile')}</span>
                 </Button>
               </div>
             )}
@@ -378,13 +553,13 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
             {fileData.preview ? (
               <img
                 src={fileData.preview || "/placeholder.svg"}
-                alt="Preview"
+                alt={t('upload.preview')}
                 className="h-10 w-10 object-cover rounded"
               />
             ) : (
               getFileIcon(fileData.type)
             )}
-            <span className="text-sm text-gray-500">{formatFileSize(fileData.size)}</span>
+            <span className="text-sm text-gray-500">{formatFileSize(fileData.size, locale)}</span>
             <Button
               variant="ghost"
               size="icon"
@@ -395,7 +570,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
               }}
             >
               <X className="h-4 w-4" />
-              <span className="sr-only">Remove file</span>
+              <span className="sr-only">{t('upload.removeFile')}</span>
             </Button>
           </div>
         )
@@ -407,7 +582,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
               <div className="aspect-video relative bg-gray-100 flex items-center justify-center">
                 <img
                   src={fileData.preview || "/placeholder.svg"}
-                  alt="Preview"
+                  alt={t('upload.preview')}
                   className="max-h-full max-w-full object-contain"
                 />
                 <Button
@@ -420,7 +595,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                   }}
                 >
                   <X className="h-3 w-3" />
-                  <span className="sr-only">Remove file</span>
+                  <span className="sr-only">{t('upload.removeFile')}</span>
                 </Button>
               </div>
             ) : (
@@ -429,7 +604,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
               </div>
             )}
             <div className="p-2 text-center text-sm text-gray-500 border-t border-gray-200">
-              {formatFileSize(fileData.size)}
+              {formatFileSize(fileData.size, locale)}
             </div>
           </div>
         )
@@ -442,14 +617,14 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                 <div className="h-6 w-6 mr-2 rounded overflow-hidden bg-gray-100">
                   <img
                     src={fileData.preview || "/placeholder.svg"}
-                    alt="Preview"
+                    alt={t('upload.preview')}
                     className="h-full w-full object-cover"
                   />
                 </div>
               ) : (
                 <div className="mr-2">{getFileIcon(fileData.type)}</div>
               )}
-              <span className="text-sm text-gray-500">{formatFileSize(fileData.size)}</span>
+              <span className="text-sm text-gray-500">{formatFileSize(fileData.size, locale)}</span>
             </div>
             <Button
               variant="ghost"
@@ -461,7 +636,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
               }}
             >
               <X className="h-4 w-4" />
-              <span className="sr-only">Remove file</span>
+              <span className="sr-only">{t('upload.removeFile')}</span>
             </Button>
           </div>
         )
@@ -470,25 +645,26 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
 
   // Render loading/processing/error state
   const renderLoadingState = () => {
-    if (isUploading) {
-      return (
-        <div className="text-center p-6 space-y-4">
-          <div className="w-full bg-gray-200 rounded-full h-2.5">
-            <div className="bg-blue-600 h-2.5 rounded-full w-1/2 animate-pulse"></div>
-          </div>
-          <p className="text-sm text-gray-500">Uploading file...</p>
-        </div>
-      )
-    }
-
-    if (isProcessing) {
+    if (isUploading || isProcessing) {
       return (
-        <div className="text-center p-6 space-y-4">
-          <div className="w-full bg-gray-200 rounded-full h-2.5">
-            <div className="bg-green-600 h-2.5 rounded-full w-3/4 animate-pulse"></div>
-          </div>
-          <p className="text-sm text-gray-500">Processing data...</p>
-        </div>
+        <LoadingProgress
+          source={inputType}
+          stage={isProcessing ? 'processing' : uploadStage}
+          transfer={transfer}
+          status={sessionStatus}
+          degraded={isProcessing && degraded}
+          startedAt={uploadStartedAt}
+          stageStartedAt={stageStartedAt}
+        >
+          <Button
+            onClick={handleCancel}
+            variant="outline"
+            className="flex items-center gap-2"
+          >
+            <XCircle className="h-4 w-4" />
+            {t('common.cancel')}
+          </Button>
+        </LoadingProgress>
       )
     }
 
@@ -504,7 +680,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
             className="flex items-center gap-2"
           >
             <RefreshCw className="h-4 w-4" />
-            Try again
+            {t('common.tryAgain')}
           </Button>
         </div>
       )
@@ -537,22 +713,45 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
             >
               <Tabs defaultValue="file" onValueChange={(value) => setInputType(value as InputType)}>
                 <TabsList className="grid w-full grid-cols-2 mb-6">
-                  <TabsTrigger value="file">File</TabsTrigger>
-                  <TabsTrigger value="url">URL</TabsTrigger>
+                  <TabsTrigger value="file">{t('upload.tab.file')}</TabsTrigger>
+                  <TabsTrigger value="url">{t('upload.tab.url')}</TabsTrigger>
                 </TabsList>
 
                 <TabsContent value="file" className="space-y-4">
-                  {fileData ? (
+                  {batchFiles.length > 1 ? (
+                    <div className="space-y-3">
+                      <div className="flex items-center justify-between">
+                        <span className="text-sm font-medium text-gray-500">
+                          {t('upload.batchSelected', { count: batchFiles.length })}
+                        </span>
+                        <Button variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={handleClearFile}>
+                          <X className="h-3 w-3 mr-1" />
+                          {t('common.clear')}
+                        </Button>
+                      </div>
+                      <ul className="max-h-48 overflow-auto border border-gray-200 rounded-lg divide-y divide-gray-100">
+                        {batchFiles.map((file, index) => (
+                          <li key={`${file.name}-${index}`} className="flex items-center justify-between p-2 text-sm">
+                            <span className="flex items-center gap-2 truncate">
+                              {getFileIcon(file.type)}
+                              <span className="truncate">{file.name}</span>
+                            </span>
+                            <span className="text-gray-500 shrink-0 ml-2">{formatFileSize(file.size, locale)}</span>
+                          </li>
+                        ))}
+                      </ul>
+                    </div>
+                  ) : fileData ? (
                     <div className="space-y-3">
                       <div className="flex items-center justify-between">
-                        <span className="text-sm font-medium text-gray-500">File preview</span>
+                        <span className="text-sm font-medium text-gray-500">{t('upload.filePreview')}</span>
                         <Button variant="ghost" size="sm" className="h-8 px-2 text-xs" onClick={toggleDisplayMode}>
                           {displayMode === "minimal" || displayMode === "compact" ? (
                             <Maximize2 className="h-3 w-3 mr-1" />
                           ) : (
                             <Minimize2 className="h-3 w-3 mr-1" />
                           )}
-                          {displayMode.charAt(0).toUpperCase() + displayMode.slice(1)}
+                          {t(`upload.displayMode.${displayMode}`)}
                         </Button>
                       </div>
                       <AnimatePresence mode="wait">
@@ -566,6 +765,13 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                           {renderFilePreview()}
                         </motion.div>
                       </AnimatePresence>
+                      <ImagePreprocessPanel
+                        settings={preprocessSettings}
+                        onSettingsChange={updatePreprocessSettings}
+                        result={preprocessed}
+                        isProcessing={isPreprocessing}
+                        error={preprocessError}
+                      />
                     </div>
                   ) : (
                     <div
@@ -580,10 +786,13 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                         onChange={handleFileChange} 
                         className="hidden" 
                         accept="image/*" 
+                        multiple={!!onBatchSubmit}
                       />
                       <div className="flex flex-col items-center text-gray-500">
                         <Upload className="h-10 w-10 mb-2" />
-                        <p className="text-sm text-center">Drag and drop an image here or click to select</p>
+                        <p className="text-sm text-center">
+                          {t(onBatchSubmit ? 'upload.dropMultiple' : 'upload.dropSingle')}
+                        </p>
                       </div>
                     </div>
                   )}
@@ -593,14 +802,14 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                   <div className="relative">
                     <div className="flex items-center">
                       <div className="relative flex-grow">
-                        <Input
-                          type="url"
-                          placeholder="Enter image URL for analysis"
+                        <textarea
+                          placeholder={t(onBatchSubmit ? 'upload.urlPlaceholderBatch' : 'upload.urlPlaceholder')}
                           value={url}
                           onChange={handleUrlChange}
-                          className="pr-10 border-gray-300 focus:border-black focus:ring-black"
+                          rows={Math.min(Math.max(parseUrlList(url).length, 1), 8)}
+                          className="flex w-full min-w-0 rounded-md border border-gray-300 bg-transparent px-3 py-2 pr-14 text-base shadow-xs outline-none resize-none focus:border-black focus:ring-black md:text-sm"
                         />
-                        <div className="absolute right-2 top-1/2 -translate-y-1/2 flex items-center space-x-1">
+                        <div className="absolute right-2 top-2 flex items-center space-x-1">
                           {url && (
                             <Button
                               variant="ghost"
@@ -609,7 +818,7 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                               onClick={handleClearUrl}
                             >
                               <X className="h-4 w-4" />
-                              <span className="sr-only">Clear URL</span>
+                              <span className="sr-only">{t('upload.clearUrl')}</span>
                             </Button>
                           )}
                           {isValidUrl && <CheckCircle2 className="h-4 w-4 text-green-500" />}
@@ -620,13 +829,31 @@ export function FileUrlInputNew({ onAnalysisComplete }: FileUrlInputNewProps) {
                 </TabsContent>
               </Tabs>
 
-              {(fileData || isValidUrl) && (
+              {(fileData || batchFiles.length > 1 || isValidUrl) && (
+                <label className="mt-6 flex items-center gap-2 text-sm text-gray-600" title={t('upload.forceReanalysisHint')}>
+                  <input
+                    type="checkbox"
+                    checked={forceReanalysis}
+                    onChange={(e) => setForceReanalysis(e.target.checked)}
+                    disabled={isUploading || isProcessing}
+                  />
+                  {t('upload.forceReanalysis')}
+                </label>
+              )}
+
+              {(fileData || batchFiles.length > 1 || isValidUrl) && (
                 <Button
-                  className="w-full mt-6 bg-black hover:bg-gray-800 text-white"
+                  className="w-full mt-4 bg-black hover:bg-gray-800 text-white"
                   onClick={handleSubmit}
-                  disabled={isUploading || isProcessing}
+                  disabled={isUploading || isProcessing || (inputType === "file" && isPreprocessing)}
                 >
-                  {isUploading || isProcessing ? "Processing..." : "Submit for analysis"}
+                  {isUploading || isProcessing
+                    ? t('upload.processing')
+                    : inputType === "file" && isPreprocessing
+                      ? t('common.preparingImage')
+                    : (inputType === "file" && batchFiles.length > 1) || (inputType === "url" && parseUrlList(url).length > 1)
+                      ? t('upload.submitBatch')
+                      : t('upload.submit')}
                 </Button>
               )}
             </motion.div>
@@ -0,0 +1,38 @@
+'use client';
+
+import { ReactNode, useEffect, useMemo, useState } from 'react';
+import { useRouter } from 'next/navigation';
+import { Locale } from '@/lib/i18n/config';
+import { createTranslator } from '@/lib/i18n/translate';
+import { I18nContext, I18nContextValue, persistLocale } from '@/hooks/use-i18n';
+
+interface I18nProviderProps {
+  // Locale negotiated by the server for this request
+  locale: Locale;
+  children: ReactNode;
+}
+
+/**
+ * Makes the locale available to client components. Switching stores the
+ * choice in a cookie and re-renders the server components.
+ */
+export function I18nProvider({ locale: requestLocale, children }: I18nProviderProps) {
+  const router = useRouter();
+  const [locale, setLocale] = useState(requestLocale);
+
+  useEffect(() => {
+    setLocale(requestLocale);
+  }, [requestLocale]);
+
+  const value = useMemo<I18nContextValue>(() => ({
+    locale,
+    t: createTranslator(locale),
+    setLocale: (next) => {
+      persistLocale(next);
+      setLocale(next);
+      router.refresh();
+    },
+  }), [locale, router]);
+
+  return <I18nContext.Provider value={value}>{children}</I18nContext.Provider>;
+}
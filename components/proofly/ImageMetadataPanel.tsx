@@ -0,0 +1,87 @@
+'use client';
+
+import { AlertCircle, AlertTriangle, Info, ShieldCheck } from 'lucide-react';
+import { Skeleton } from '@/components/ui/skeleton';
+import { Alert, AlertDescription } from '@/components/ui/alert';
+import { cn } from '@/lib/utils';
+import { ImageMetadata, MetadataFlagSeverity } from '@/lib/images/metadata';
+import { ImageMetadataSource } from '@/hooks/use-image-metadata';
+import { useI18n } from '@/hooks/use-i18n';
+import { metadataFlagMessage } from '@/lib/i18n/translate';
+
+interface ImageMetadataPanelProps {
+  metadata: ImageMetadata | null;
+  source: ImageMetadataSource | null;
+  isLoading: boolean;
+  error: string | null;
+}
+
+const FLAG_STYLES: Record<MetadataFlagSeverity, { icon: typeof Info; className: string }> = {
+  critical: { icon: AlertCircle, className: 'border-red-200 bg-red-50 text-red-700' },
+  warning: { icon: AlertTriangle, className: 'border-amber-200 bg-amber-50 text-amber-700' },
+  info: { icon: Info, className: 'border-blue-200 bg-blue-50 text-blue-700' },
+};
+
+/**
+ * Provenance signals (EXIF, XMP, IPTC, C2PA) shown next to the face verdicts
+ */
+export function ImageMetadataPanel({ metadata, source, isLoading, error }: ImageMetadataPanelProps) {
+  const { t } = useI18n();
+
+  if (isLoading) {
+    return (
+      <div className="space-y-2">
+        <Skeleton className="h-8 w-full" />
+        <Skeleton className="h-24 w-full" />
+      </div>
+    );
+  }
+
+  if (error || !metadata) {
+    return (
+      <Alert>
+        <Info className="h-4 w-4" />
+        <AlertDescription>{error || t('metadata.unavailable')}</AlertDescription>
+      </Alert>
+    );
+  }
+
+  return (
+    <div className="space-y-4">
+      <p className="text-xs text-muted-foreground">
+        {t(source === 'upload' ? 'metadata.source.upload' : 'metadata.source.stored')}
+      </p>
+
+      {metadata.flags.length > 0 && (
+        <ul className="space-y-2">
+          {metadata.flags.map(flag => {
+            const { icon: Icon, className } = FLAG_STYLES[flag.severity];
+            return (
+              <li key={flag.id} className={cn('flex items-start gap-2 rounded-md border p-2 text-sm', className)}>
+                <Icon className="h-4 w-4 mt-0.5 shrink-0" />
+                <span>{metadataFlagMessage(flag, t)}</span>
+              </li>
+            );
+          })}
+        </ul>
+      )}
+
+      {metadata.sections.map(section => (
+        <div key={section.id}>
+          <h4 className="mb-1 flex items-center gap-1 text-sm font-medium">
+            {section.id === 'c2pa' && <ShieldCheck className="h-4 w-4" />}
+            {t(`metadata.section.${section.id}`)}
+          </h4>
+          <dl className="grid grid-cols-[minmax(0,1fr)_minmax(0,2fr)] gap-x-4 gap-y-1 rounded-md border p-2 text-xs">
+            {section.entries.map(entry => (
+              <div key={entry.label} className="contents">
+                <dt className="text-muted-foreground truncate" title={entry.label}>{entry.label}</dt>
+                <dd className="break-words">{entry.value}</dd>
+              </div>
+            ))}
+          </dl>
+        </div>
+      ))}
+    </div>
+  );
+}
@@ -0,0 +1,86 @@
+'use client';
+
+import { ArrowRight, Loader2, Wand2 } from 'lucide-react';
+import { ImageSummary, MAX_DIMENSION_OPTIONS, PreprocessResult, PreprocessStep } from '@/lib/images/preprocess';
+import { PreprocessSettings } from '@/hooks/use-preprocess-settings';
+import { useI18n } from '@/hooks/use-i18n';
+import { Locale } from '@/lib/i18n/config';
+import { formatFileSize } from '@/lib/i18n/format';
+
+interface ImagePreprocessPanelProps {
+  settings: PreprocessSettings;
+  onSettingsChange: (changes: Partial<PreprocessSettings>) => void;
+  result: PreprocessResult | null;
+  isProcessing: boolean;
+  error: string | null;
+}
+
+const describeImage = (image: ImageSummary, locale: Locale) => [
+  formatFileSize(image.size, locale),
+  image.width && image.height ? `${image.width}×${image.height}` : null,
+  image.type ? image.type.replace('image/', '').toUpperCase() : null,
+].filter(Boolean).join(' · ');
+
+/**
+ * Preprocessing options and original vs. processed size of the selected image
+ */
+export function ImagePreprocessPanel({ settings, onSettingsChange, result, isProcessing, error }: ImagePreprocessPanelProps) {
+  const { t, locale } = useI18n();
+  const maxDimensions = MAX_DIMENSION_OPTIONS.includes(settings.maxDimension)
+    ? MAX_DIMENSION_OPTIONS
+    : [...MAX_DIMENSION_OPTIONS, settings.maxDimension].sort((a, b) => a - b);
+
+  return (
+    <div className="space-y-2 rounded-lg border border-gray-200 p-3 text-xs text-gray-500">
+      <div className="flex flex-wrap items-center justify-between gap-2">
+        <label
+          className="flex items-center gap-2"
+          title={t('preprocess.untouchedHint')}
+        >
+          <input
+            type="checkbox"
+            checked={!settings.enabled}
+            onChange={(e) => onSettingsChange({ enabled: !e.target.checked })}
+          />
+          {t('preprocess.untouched')}
+        </label>
+        <label className="flex items-center gap-2">
+          {t('preprocess.maxSize')}
+          <select
+            value={settings.maxDimension}
+            onChange={(e) => onSettingsChange({ maxDimension: Number(e.target.value) })}
+            disabled={!settings.enabled}
+            className="h-7 rounded-md border border-input bg-transparent px-2 text-xs text-foreground"
+          >
+            {maxDimensions.map(option => (
+              <option key={option} value={option}>{option}px</option>
+            ))}
+          </select>
+        </label>
+      </div>
+
+      {settings.enabled && (
+        <div className="flex items-center gap-2">
+          <Wand2 className="h-3 w-3 shrink-0" />
+          {isProcessing ? (
+            <span className="flex items-center gap-1">
+              <Loader2 className="h-3 w-3 animate-spin" />
+              {t('common.preparingImage')}
+            </span>
+          ) : error ? (
+            <span className="text-amber-600">{t('preprocess.failed', { error })}</span>
+          ) : result && result.steps.length > 0 ? (
+            <span className="flex flex-wrap items-center gap-1">
+              {describeImage(result.original, locale)}
+              <ArrowRight className="h-3 w-3" />
+              <span className="text-gray-700">{describeImage(result.processed, locale)}</span>
+              <span>({result.steps.map((step: PreprocessStep) => t(`preprocess.step.${step}`)).join(', ')})</span>
+            </span>
+          ) : result ? (
+            <span>{t('preprocess.noChanges', { image: describeImage(result.original, locale) })}</span>
+          ) : null}
+        </div>
+      )}
+    </div>
+  );
+}
@@ -9,8 +9,12 @@ import { Dialog, DialogContent, DialogTrigger } from '@/components/ui/dialog';
 import { cn } from '@/lib/utils';
 import { toast } from 'sonner';
 import { motion, AnimatePresence } from 'framer-motion';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatFileSize } from '@/lib/i18n/format';
 
-// Анимации
+const MAX_FILE_SIZE = 10 * 1024 * 1024;
+
+// Animations
 const fadeIn = {
   hidden: { opacity: 0, y: 15 },
   visible: { 
@@ -31,6 +35,7 @@ interface ImageUploaderProps {
 }
 
 export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProps) {
+  const { t, locale } = useI18n();
   const [preview, setPreview] = useState<string | null>(null);
   const [selectedFile, setSelectedFile] = useState<File | null>(null);
   const [dialogOpen, setDialogOpen] = useState(false);
@@ -44,29 +49,29 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
     const file = acceptedFiles[0];
     console.log('ImageUploader: File accepted', { name: file.name, size: file.size, type: file.type });
     
-    // Проверяем размер файла (максимум 10MB)
-    if (file.size > 10 * 1024 * 1024) {
+    // Check the file size (10MB at most)
+    if (file.size > MAX_FILE_SIZE) {
       console.error('ImageUploader: File size exceeds 10MB limit', { size: file.size });
-      toast.error('Размер файла превышает 10MB');
+      toast.error(t('uploader.fileTooLarge', { size: formatFileSize(MAX_FILE_SIZE, locale) }));
       return;
     }
 
-    // Проверяем тип файла (только изображения)
+    // Check the file type (images only)
     if (!file.type.startsWith('image/')) {
       console.error('ImageUploader: Invalid file type', { type: file.type });
-      toast.error('Выберите файл изображения');
+      toast.error(t('uploader.notImage'));
       return;
     }
 
-    // Создаем превью
+    // Create the preview
     const objectUrl = URL.createObjectURL(file);
     setPreview(objectUrl);
     setSelectedFile(file);
     console.log('ImageUploader: Preview created', { url: objectUrl });
 
-    // Очищаем URL при размонтировании компонента
+    // Revoke the URL when the component unmounts
     return () => URL.revokeObjectURL(objectUrl);
-  }, []);
+  }, [t, locale]);
   
   const { getRootProps, getInputProps, isDragActive } = useDropzone({
     onDrop,
@@ -86,17 +91,11 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
     setSelectedFile(null);
   }, [preview]);
 
-  // Форматирование размера файла
-  const formatFileSize = (size: number | undefined): string => {
-    if (size === undefined) return '0 МБ';
-    return (size / 1024 / 1024).toFixed(2) + ' МБ';
-  };
-  
-  // Обработчик загрузки файла
+  // Upload handler
   const handleUpload = () => {
     if (!selectedFile) {
       console.error('ImageUploader: No file selected for upload');
-      toast.error('Выберите файл для загрузки');
+      toast.error(t('uploader.noFile'));
       return;
     }
     
@@ -139,7 +138,7 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
                       {selectedFile?.name}
                     </span>
                     <span className="text-xs text-muted-foreground">
-                      ({formatFileSize(selectedFile?.size)})
+                      ({formatFileSize(selectedFile?.size ?? 0, locale)})
                     </span>
                   </motion.div>
                 ) : (
@@ -156,10 +155,10 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
               </AnimatePresence>
               <p className="mt-2 text-sm text-gray-600">
                 {isDragActive
-                  ? "Отпустите для загрузки"
+                  ? t('uploader.dropToUpload')
                   : preview
-                  ? "Перетащите другое изображение или нажмите для выбора"
-                  : "Перетащите изображение сюда или нажмите для выбора"}
+                  ? t('uploader.dropAnother')
+                  : t('upload.dropSingle')}
               </p>
               {isLoading && (
                 <motion.p 
@@ -167,7 +166,7 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
                   animate={{ opacity: [0.6, 1, 0.6] }}
                   transition={{ duration: 1.5, repeat: Infinity }}
                 >
-                  Загрузка...
+                  {t('uploader.uploading')}
                 </motion.p>
               )}
             </div>
@@ -186,7 +185,7 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
                   <div className="group relative rounded-lg overflow-hidden border">
                     <motion.img 
                       src={preview} 
-                      alt="Preview" 
+                      alt={t('upload.preview')} 
                       className="mx-auto max-h-64 w-full object-contain"
                       initial={{ opacity: 0, scale: 0.95 }}
                       animate={{ opacity: 1, scale: 1 }}
@@ -203,7 +202,7 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
                   <DialogContent className="max-w-3xl p-0 overflow-hidden">
                     <img
                       src={preview}
-                      alt="Preview Fullsize"
+                      alt={t('uploader.fullSizePreview')}
                       className="w-full h-auto max-h-[80vh] object-contain"
                     />
                   </DialogContent>
@@ -227,12 +226,12 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
                 <div className="mt-2 text-xs text-muted-foreground flex justify-between">
                   <span>{selectedFile.name}</span>
                   <span>
-                    {selectedFile.type.split('/')[1].toUpperCase()} • {formatFileSize(selectedFile.size)}
+                    {selectedFile.type.split('/')[1].toUpperCase()} • {formatFileSize(selectedFile.size, locale)}
                   </span>
                 </div>
               )}
               
-              {/* Кнопка отправки файла */}
+              {/* Submit button */}
               <motion.div 
                 className="mt-4 flex justify-center"
                 initial={{ opacity: 0, y: 5 }}
@@ -248,12 +247,12 @@ export function ImageUploader({ onUpload, isLoading = false }: ImageUploaderProp
                   {isLoading ? (
                     <span className="flex items-center gap-2">
                       <span className="h-4 w-4 animate-spin rounded-full border-2 border-current border-t-transparent"></span>
-                      Загрузка...
+                      {t('uploader.uploading')}
                     </span>
                   ) : (
                     <span className="flex items-center gap-2">
                       <Upload className="h-4 w-4" />
-                      Отправить на анализ
+                      {t('upload.submit')}
                     </span>
                   )}
                 </Button>
@@ -1,75 +1,110 @@
 'use client';
 
-import { useEffect, useState } from 'react';
+import { useEffect, useState, type ReactNode } from 'react';
 import { Progress } from '@/components/ui/progress';
-import { Card, CardContent, CardHeader, CardTitle } from '@/components/ui/card';
-import { Loader2, Upload, Image as ImageIcon, Scan } from 'lucide-react';
+import { AlertTriangle, CheckCircle2, Circle, Loader2, Upload, Scan } from 'lucide-react';
 import { motion } from 'framer-motion';
+import { cn } from '@/lib/utils';
+import { useI18n } from '@/hooks/use-i18n';
+import { MessageKey } from '@/lib/i18n/translate';
+import { formatDuration, formatFileSize } from '@/lib/i18n/format';
+import { SessionStatus, TransferProgress } from '@/lib/types/proofly';
+import { estimateProcessingTime, estimateTransferRemaining, getProcessingTimes } from '@/lib/history/processingTimes';
+
+// Client-side stage of an upload; once the session exists the upstream status takes over
+export type UploadStage = 'transfer' | 'forwarding' | 'processing';
 
 interface LoadingProgressProps {
-  isUploading?: boolean;
-  isProcessing?: boolean;
+  source: 'file' | 'url';
+  stage: UploadStage;
+  transfer?: TransferProgress | null;
+  // Latest session status pushed over SSE
+  status?: SessionStatus | null;
+  // Upstream is failing and the server is retrying
+  degraded?: boolean;
+  // Start of the whole upload and of the current stage (ms since epoch)
+  startedAt: number;
+  stageStartedAt: number;
+  // Actions shown under the steps (cancel button)
+  children?: ReactNode;
 }
 
-export function LoadingProgress({ 
-  isUploading = false, 
-  isProcessing = false 
+type Step = 'transfer' | 'forward' | 'queued' | 'analyzing';
+
+const STEPS: Step[] = ['transfer', 'forward', 'queued', 'analyzing'];
+
+// Processing can take a while past the estimate; the bar never looks finished
+const MAX_ESTIMATED_PERCENT = 95;
+
+const getCurrentStep = (stage: UploadStage, status?: SessionStatus | null): Step => {
+  if (stage === 'transfer') return 'transfer';
+  if (stage === 'forwarding') return 'forward';
+  return status === 'processing' || status === 'in progress' ? 'analyzing' : 'queued';
+};
+
+export function LoadingProgress({
+  source,
+  stage,
+  transfer,
+  status,
+  degraded,
+  startedAt,
+  stageStartedAt,
+  children,
 }: LoadingProgressProps) {
-  const [progress, setProgress] = useState(0);
-  const [status, setStatus] = useState('Подготовка...');
-  const [step, setStep] = useState<'uploading' | 'processing'>('uploading');
+  const { t, locale } = useI18n();
+  const [now, setNow] = useState(() => Date.now());
+  // Processing durations of earlier sessions from this browser
+  const [expectedProcessingMs] = useState(() => estimateProcessingTime(getProcessingTimes()));
 
-  // Имитация прогресса загрузки и обработки
+  // Clock for the elapsed time and the ETA
   useEffect(() => {
-    if (!isUploading && !isProcessing) {
-      setProgress(0);
-      return;
-    }
+    const interval = setInterval(() => setNow(Date.now()), 1000);
+    return () => clearInterval(interval);
+  }, []);
 
-    let interval: NodeJS.Timeout;
-    
-    if (isUploading) {
-      setStep('uploading');
-      setStatus('Загрузка изображения...');
-      // Быстрый прогресс для загрузки (до 40%)
-      interval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev < 40) return prev + 2;
-          return prev;
-        });
-      }, 100);
-    } else if (isProcessing) {
-      setStep('processing');
-      setStatus('Анализ изображения...');
-      // Более медленный прогресс для обработки (от 40% до 90%)
-      interval = setInterval(() => {
-        setProgress((prev) => {
-          if (prev < 90) return prev + 0.5;
-          return prev;
-        });
-      }, 200);
-    }
+  const step = getCurrentStep(stage, status);
+  const stageElapsed = Math.max(0, now - stageStartedAt);
 
-    return () => {
-      if (interval) clearInterval(interval);
-    };
-  }, [isUploading, isProcessing]);
-
-  // Функция для определения подробного статуса в зависимости от прогресса
-  const getDetailedStatus = () => {
-    if (step === 'uploading') {
-      if (progress < 15) return 'Подготовка файла...';
-      if (progress < 30) return 'Отправка на сервер...';
-      return 'Завершение загрузки...';
-    } else { // processing
-      if (progress < 50) return 'Начало анализа...';
-      if (progress < 70) return 'Обработка изображения...';
-      if (progress < 85) return 'Распознавание лиц...';
-      return 'Финальная проверка...';
-    }
+  const stepLabels: Record<Step, MessageKey> = {
+    transfer: source === 'url' ? 'progress.stage.download' : 'progress.stage.upload',
+    forward: 'progress.stage.forward',
+    queued: 'progress.stage.queued',
+    analyzing: 'progress.stage.analyzing',
   };
 
-  // Анимация для иконки
+  // Percentage of the current stage, null when it cannot be measured
+  let percent: number | null = null;
+  let remainingMs: number | null = null;
+  let estimateNote: MessageKey | null = null;
+  if (step === 'transfer' && transfer) {
+    percent = transfer.total ? Math.min(100, (transfer.loaded / transfer.total) * 100) : null;
+    remainingMs = estimateTransferRemaining(transfer, stageElapsed);
+  } else if (stage === 'processing') {
+    if (expectedProcessingMs === null) {
+      estimateNote = 'progress.noHistory';
+    } else if (stageElapsed > expectedProcessingMs) {
+      percent = MAX_ESTIMATED_PERCENT;
+      estimateNote = 'progress.overdue';
+    } else {
+      percent = Math.min(MAX_ESTIMATED_PERCENT, (stageElapsed / expectedProcessingMs) * 100);
+      remainingMs = expectedProcessingMs - stageElapsed;
+    }
+  }
+
+  const transferText = step === 'transfer' && transfer
+    ? transfer.total
+      ? t('progress.transferred', { loaded: formatFileSize(transfer.loaded, locale), total: formatFileSize(transfer.total, locale) })
+      : t('progress.transferredUnknown', { loaded: formatFileSize(transfer.loaded, locale) })
+    : null;
+
+  const timing = [
+    t('progress.elapsed', { time: formatDuration(now - startedAt) }),
+    remainingMs !== null ? t('progress.eta', { time: formatDuration(remainingMs) }) : null,
+    estimateNote ? t(estimateNote) : null,
+  ].filter(Boolean).join(' · ');
+
+  // Icon animation
   const iconAnimation = {
     animate: {
       rotate: [0, 360],
@@ -82,48 +117,69 @@ export function LoadingProgress({
   };
 
   return (
-    <Card className="w-full mt-6">
-      <CardHeader className="pb-4">
-        <CardTitle className="flex items-center gap-3">
-          <motion.div
-            animate="animate"
-            variants={iconAnimation}
-            className="text-primary"
-          >
-            {step === 'uploading' ? (
-              <Upload className="h-5 w-5" />
-            ) : (
-              <Scan className="h-5 w-5" />
-            )}
-          </motion.div>
-          <span className="flex-1">{status}</span>
-        </CardTitle>
-      </CardHeader>
-      <CardContent>
-        <div className="space-y-4">
-          <Progress 
-            value={progress} 
-            className="h-3 w-full" 
-          />
-          
-          <div className="flex justify-between items-center">
-            <p className="text-sm text-muted-foreground">
-              {getDetailedStatus()}
-            </p>
-            <motion.p 
-              className="font-medium text-right"
-              animate={{ opacity: [0.7, 1, 0.7] }}
-              transition={{ 
-                duration: 1.5, 
-                repeat: Infinity, 
-                ease: "easeInOut" 
-              }}
-            >
-              {Math.round(progress)}%
-            </motion.p>
-          </div>
+    <div className="w-full space-y-4 p-2">
+      <div className="flex items-center gap-3 font-semibold">
+        <motion.div
+          animate="animate"
+          variants={iconAnimation}
+          className="text-primary"
+        >
+          {stage === 'processing' ? (
+            <Scan className="h-5 w-5" />
+          ) : (
+            <Upload className="h-5 w-5" />
+          )}
+        </motion.div>
+        <span className="flex-1 text-left">{t(stepLabels[step])}</span>
+        {percent !== null && (
+          <span className="font-medium tabular-nums">{Math.round(percent)}%</span>
+        )}
+      </div>
+
+      {percent !== null ? (
+        <Progress value={percent} className="h-3 w-full" />
+      ) : (
+        // Nothing to measure: show activity without a fake percentage
+        <Progress value={100} className="h-3 w-full animate-pulse opacity-40" />
+      )}
+
+      <div className="flex flex-wrap justify-between gap-2 text-sm text-muted-foreground">
+        <span>{transferText}</span>
+        <span className="tabular-nums">{timing}</span>
+      </div>
+
+      {degraded && (
+        <div role="status" className="flex items-center gap-2 rounded-md border border-amber-200 bg-amber-50 p-2 text-left text-sm text-amber-700">
+          <AlertTriangle className="h-4 w-4 shrink-0" />
+          {t('progress.degraded')}
         </div>
-      </CardContent>
-    </Card>
+      )}
+
+      <ol className="space-y-1 text-left text-sm">
+        {STEPS.map((item, index) => {
+          const currentIndex = STEPS.indexOf(step);
+          return (
+            <li
+              key={item}
+              className={cn(
+                "flex items-center gap-2",
+                index > currentIndex ? "text-muted-foreground" : "text-foreground"
+              )}
+            >
+              {index < currentIndex ? (
+                <CheckCircle2 className="h-4 w-4 text-green-600" />
+              ) : index === currentIndex ? (
+                <Loader2 className="h-4 w-4 animate-spin text-primary" />
+              ) : (
+                <Circle className="h-4 w-4" />
+              )}
+              {t(stepLabels[item])}
+            </li>
+          );
+        })}
+      </ol>
+
+      {children && <div className="flex justify-center">{children}</div>}
+    </div>
   );
-} 
\ No newline at end of file
+}
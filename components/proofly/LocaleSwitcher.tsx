@@ -0,0 +1,28 @@
+'use client';
+
+import { Languages } from 'lucide-react';
+import { LOCALES, LOCALE_NAMES, isLocale } from '@/lib/i18n/config';
+import { useI18n } from '@/hooks/use-i18n';
+
+/**
+ * Language selector (stored in a cookie, applies to every page)
+ */
+export function LocaleSwitcher() {
+  const { locale, setLocale, t } = useI18n();
+
+  return (
+    <label className="inline-flex items-center gap-1 text-xs text-muted-foreground">
+      <Languages className="h-3 w-3" />
+      <span className="sr-only">{t('locale.label')}</span>
+      <select
+        value={locale}
+        onChange={(e) => isLocale(e.target.value) && setLocale(e.target.value)}
+        className="h-7 rounded-md border border-input bg-transparent px-2 text-xs text-foreground"
+      >
+        {LOCALES.map(option => (
+          <option key={option} value={option} lang={option}>{LOCALE_NAMES[option]}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,141 @@
+'use client';
+
+import { useCallback, useEffect, useRef, useState } from 'react';
+import Link from 'next/link';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { AlertCircle, CheckCircle2, FileUp, Loader2, ShieldAlert, ShieldCheck } from 'lucide-react';
+import { prooflyApi } from '@/lib/api/proofly';
+import { ReportVerificationResult } from '@/lib/report/signature';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDateTime, formatPercent } from '@/lib/i18n/format';
+import { localizeVerdict } from '@/lib/i18n/translate';
+
+interface ReportVerifierProps {
+  // Report ID from the QR code link (`/verify?id=`)
+  initialReportId?: string;
+}
+
+const statusStyles: Record<ReportVerificationResult['status'], string> = {
+  valid: 'border-green-500 text-green-700 bg-green-50',
+  outdated: 'border-amber-500 text-amber-700 bg-amber-50',
+  invalid: 'border-red-500 text-red-700 bg-red-50',
+};
+
+/**
+ * Checks a signed PDF report, by pasted report ID or by uploading the PDF
+ */
+export function ReportVerifier({ initialReportId }: ReportVerifierProps) {
+  const { t, locale } = useI18n();
+  const [reportId, setReportId] = useState(initialReportId || '');
+  const [isVerifying, setIsVerifying] = useState(false);
+  const [result, setResult] = useState<ReportVerificationResult | null>(null);
+  const [error, setError] = useState<string | null>(null);
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  const verify = useCallback(async (input: { reportId: string } | { file: File }) => {
+    setIsVerifying(true);
+    setResult(null);
+    setError(null);
+    try {
+      setResult(await prooflyApi.verifyReport(input));
+    } catch (verifyError) {
+      setError(verifyError instanceof Error ? verifyError.message : t('verify.failed'));
+    } finally {
+      setIsVerifying(false);
+    }
+  }, [t]);
+
+  // Opened from a QR code: verify right away
+  useEffect(() => {
+    if (initialReportId) {
+      void verify({ reportId: initialReportId });
+    }
+  }, [initialReportId, verify]);
+
+  const handleFileChange = (e: React.ChangeEvent<HTMLInputElement>) => {
+    const file = e.target.files?.[0];
+    e.target.value = '';
+    if (file) {
+      void verify({ file });
+    }
+  };
+
+  const StatusIcon = result?.status === 'valid' ? ShieldCheck : ShieldAlert;
+
+  return (
+    <Card className="w-full">
+      <CardHeader>
+        <CardTitle>{t('verify.title')}</CardTitle>
+        <CardDescription>
+          {t('verify.description')}
+        </CardDescription>
+      </CardHeader>
+      <CardContent className="space-y-4">
+        <form
+          className="flex gap-2"
+          onSubmit={(e) => {
+            e.preventDefault();
+            if (reportId.trim()) void verify({ reportId: reportId.trim() });
+          }}
+        >
+          <Input
+            placeholder={t('verify.placeholder')}
+            value={reportId}
+            onChange={(e) => setReportId(e.target.value)}
+            disabled={isVerifying}
+          />
+          <Button type="submit" disabled={isVerifying || !reportId.trim()}>
+            {isVerifying ? <Loader2 className="h-4 w-4 animate-spin" /> : <CheckCircle2 className="h-4 w-4" />}
+            {t('verify.submit')}
+          </Button>
+        </form>
+
+        <div className="flex items-center gap-2 text-sm text-muted-foreground">
+          {t('verify.or')}
+          <Button variant="outline" size="sm" disabled={isVerifying} onClick={() => fileInputRef.current?.click()}>
+            <FileUp className="h-4 w-4 mr-1" />
+            {t('verify.uploadPdf')}
+          </Button>
+          <input ref={fileInputRef} type="file" accept="application/pdf" className="hidden" onChange={handleFileChange} />
+        </div>
+
+        {error && (
+          <Alert variant="destructive">
+            <AlertCircle className="h-4 w-4" />
+            <AlertTitle>{t('verify.couldNotVerify')}</AlertTitle>
+            <AlertDescription>{error}</AlertDescription>
+          </Alert>
+        )}
+
+        {result && (
+          <Alert className={statusStyles[result.status]}>
+            <StatusIcon className="h-4 w-4" />
+            <AlertTitle>{t(`verify.status.${result.status}`)}</AlertTitle>
+            <AlertDescription>
+              <p>{result.message}</p>
+              <dl className="mt-2 grid grid-cols-[auto_1fr] gap-x-3 gap-y-1 text-xs">
+                <dt className="font-medium">{t('verify.session')}</dt>
+                <dd className="break-all">
+                  <Link href={`/session/${result.uuid}`} className="underline">{result.uuid}</Link>
+                </dd>
+                <dt className="font-medium">{t('verify.issued')}</dt>
+                <dd>{formatDateTime(new Date(result.issuedAt), locale)}</dd>
+                <dt className="font-medium">{t('verify.policy')}</dt>
+                <dd>{result.policyId}</dd>
+                {result.report?.faces.map(face => (
+                  <div key={face.index} className="contents">
+                    <dt className="font-medium">{t('common.face', { index: face.index })}</dt>
+                    <dd>{t('verify.faceResult', { verdict: localizeVerdict(face.verdict, locale), real: formatPercent(face.real, locale) })}</dd>
+                  </div>
+                ))}
+              </dl>
+            </AlertDescription>
+          </Alert>
+        )}
+      </CardContent>
+    </Card>
+  );
+}
@@ -0,0 +1,299 @@
+'use client';
+
+import { FormEvent, Fragment, useState } from 'react';
+import Link from 'next/link';
+import { useRouter } from 'next/navigation';
+import { Card, CardContent, CardDescription, CardFooter, CardHeader, CardTitle } from '@/components/ui/card';
+import {
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableHeader,
+  TableRow,
+} from '@/components/ui/table';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { Badge } from '@/components/ui/badge';
+import { Button } from '@/components/ui/button';
+import { Input } from '@/components/ui/input';
+import { Progress } from '@/components/ui/progress';
+import { AlertCircle, ExternalLink, FileText, GitCompare, X } from 'lucide-react';
+import { toast } from 'sonner';
+import { cn } from '@/lib/utils';
+import { prooflyApi } from '@/lib/api/proofly';
+import { SessionInfoResponse } from '@/lib/types/proofly';
+import {
+  MAX_COMPARE_SESSIONS,
+  buildCompareUrl,
+  buildSessionComparison,
+  parseCompareIds,
+  sessionLabel,
+} from '@/lib/compare/comparison';
+import { exportComparisonToPDF } from '@/lib/utils/pdfExport';
+import { useVerdictPolicy } from '@/hooks/use-verdict-policy';
+import { VerdictPolicySelect } from '@/components/proofly/VerdictPolicySelect';
+import { useI18n } from '@/hooks/use-i18n';
+import { formatDelta, formatPercent } from '@/lib/i18n/format';
+
+export interface CompareLoadError {
+  uuid: string;
+  error: string;
+}
+
+interface SessionCompareProps {
+  sessions: SessionInfoResponse[];
+  errors: CompareLoadError[];
+  invalidIds: string[];
+}
+
+// Differences below this are shown as neutral
+const DELTA_NOISE = 0.005;
+
+function DeltaBadge({ value }: { value: number | null }) {
+  const { locale } = useI18n();
+  if (value === null) return null;
+  return (
+    <span
+      className={cn(
+        'ml-1 text-xs tabular-nums',
+        Math.abs(value) < DELTA_NOISE ? 'text-muted-foreground' : value > 0 ? 'text-green-600' : 'text-red-600',
+        Math.abs(value) >= 0.2 && 'font-semibold'
+      )}
+    >
+      {formatDelta(value, locale)}
+    </span>
+  );
+}
+
+/**
+ * Side-by-side view of sessions for /compare: faces aligned by index,
+ * ensemble and per-model probabilities with deltas to a reference session
+ */
+export function SessionCompare({ sessions, errors, invalidIds }: SessionCompareProps) {
+  const router = useRouter();
+  const { t, locale } = useI18n();
+  const { policy } = useVerdictPolicy();
+  const [referenceIndex, setReferenceIndex] = useState(0);
+  const [idsInput, setIdsInput] = useState(() => [...sessions.map(session => session.uuid), ...errors.map(error => error.uuid)].join(', '));
+  const [isExporting, setIsExporting] = useState(false);
+
+  const comparison = buildSessionComparison(sessions, referenceIndex, policy, undefined, locale);
+  const percent = (value: number) => formatPercent(value, locale);
+  const ids = sessions.map(session => session.uuid);
+
+  const handleSubmit = (event: FormEvent) => {
+    event.preventDefault();
+    const parsed = parseCompareIds(idsInput.split(/[\s,;]+/));
+    if (parsed.invalid.length > 0) {
+      toast.error(t('compare.notUuid', { ids: parsed.invalid.join(', ') }));
+      return;
+    }
+    if (parsed.ids.length < 2) {
+      toast.error(t('compare.needTwo'));
+      return;
+    }
+    router.push(buildCompareUrl(parsed.ids));
+  };
+
+  const handleRemove = (uuid: string) => {
+    router.push(buildCompareUrl(ids.filter(id => id !== uuid)));
+  };
+
+  const handleExport = async () => {
+    setIsExporting(true);
+    toast.loading(t('compare.pdf.generating'));
+    const result = await exportComparisonToPDF(sessions, policy, comparison.referenceIndex, locale);
+    toast.dismiss();
+    if (result.success) {
+      toast.success(t('compare.pdf.created'));
+    } else {
+      toast.error(t('results.pdf.error', { error: result.error || '' }));
+    }
+    setIsExporting(false);
+  };
+
+  return (
+    <div className="space-y-4">
+      <Card>
+        <CardHeader>
+          <CardTitle className="flex items-center gap-2">
+            <GitCompare className="h-5 w-5" />
+            {t('compare.title')}
+          </CardTitle>
+          <CardDescription>
+            {t('compare.description', { count: MAX_COMPARE_SESSIONS })}
+          </CardDescription>
+        </CardHeader>
+        <CardContent className="space-y-3">
+          <form onSubmit={handleSubmit} className="flex gap-2">
+            <Input
+              value={idsInput}
+              onChange={(e) => setIdsInput(e.target.value)}
+              placeholder={t('compare.inputPlaceholder')}
+              aria-label={t('compare.inputLabel')}
+            />
+            <Button type="submit">{t('common.compare')}</Button>
+          </form>
+
+          {invalidIds.length > 0 && (
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertDescription>{t('compare.invalidIds', { ids: invalidIds.join(', ') })}</AlertDescription>
+            </Alert>
+          )}
+          {errors.map(error => (
+            <Alert key={error.uuid} variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle className="break-all">{error.uuid}</AlertTitle>
+              <AlertDescription>{error.error}</AlertDescription>
+            </Alert>
+          ))}
+        </CardContent>
+      </Card>
+
+      {sessions.length > 0 && (
+        <Card>
+          <CardContent className="pt-6 overflow-x-auto">
+            <Table>
+              <TableHeader>
+                <TableRow>
+                  <TableHead className="w-40" />
+                  {sessions.map((session, index) => (
+                    <TableHead key={session.uuid} className="min-w-[180px] align-top py-2">
+                      <div className="flex items-center justify-between gap-2">
+                        <span className="font-semibold text-foreground">{t('compare.session', { label: sessionLabel(index) })}</span>
+                        <button
+                          type="button"
+                          onClick={() => handleRemove(session.uuid)}
+                          className="text-muted-foreground hover:text-foreground"
+                          aria-label={t('compare.removeSession', { label: sessionLabel(index) })}
+                        >
+                          <X className="h-4 w-4" />
+                        </button>
+                      </div>
+                      <img
+                        src={prooflyApi.getOriginalImageUrl(session.uuid)}
+                        alt={t('compare.session', { label: sessionLabel(index) })}
+                        className="mt-2 h-28 w-full rounded border object-contain bg-muted"
+                      />
+                      <Link
+                        href={`/session/${session.uuid}`}
+                        className="mt-1 flex items-center gap-1 text-xs font-normal hover:underline"
+                        title={session.uuid}
+                      >
+                        <span className="truncate">{session.uuid}</span>
+                        <ExternalLink className="h-3 w-3 shrink-0" />
+                      </Link>
+                      <div className="mt-1 flex items-center gap-2 text-xs font-normal">
+                        <Badge variant="outline">{session.status}</Badge>
+                        {index === comparison.referenceIndex ? (
+                          <Badge>{t('compare.reference')}</Badge>
+                        ) : (
+                          <button
+                            type="button"
+                            className="text-muted-foreground underline-offset-2 hover:underline"
+                            onClick={() => setReferenceIndex(index)}
+                          >
+                            {t('compare.setReference')}
+                          </button>
+                        )}
+                      </div>
+                    </TableHead>
+                  ))}
+                </TableRow>
+              </TableHeader>
+              <TableBody>
+                {comparison.faces.length === 0 && (
+                  <TableRow>
+                    <TableCell colSpan={sessions.length + 1} className="text-center text-muted-foreground py-8">
+                      {t('compare.noFaces')}
+                    </TableCell>
+                  </TableRow>
+                )}
+                {comparison.faces.map(face => (
+                  <Fragment key={face.faceIndex}>
+                    <TableRow className="bg-muted/50 hover:bg-muted/50">
+                      <TableCell className="font-semibold">{t('common.face', { index: face.faceIndex })}</TableCell>
+                      {face.results.map((result, index) => (
+                        <TableCell key={index}>
+                          {result ? (
+                            <img
+                              src={prooflyApi.getFaceImageUrl(sessions[index].uuid, result.faceIndex - 1)}
+                              alt={t('compare.faceOfSession', { index: face.faceIndex, label: sessionLabel(index) })}
+                              className="h-20 w-20 rounded border-2 object-cover"
+                              style={{ borderColor: result.verdictBand.color }}
+                            />
+                          ) : (
+                            <span className="text-xs text-muted-foreground">{t('compare.noFace', { index: face.faceIndex })}</span>
+                          )}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="text-sm font-medium">{t('results.verdict')}</TableCell>
+                      {face.results.map((result, index) => (
+                        <TableCell key={index} className="font-semibold" style={{ color: result?.verdictBand.color }}>
+                          {result?.verdict || '—'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    <TableRow>
+                      <TableCell className="text-sm font-medium">{t('compare.realProbability')}</TableCell>
+                      {face.results.map((result, index) => (
+                        <TableCell key={index}>
+                          {result ? (
+                            <>
+                              <span className="tabular-nums">{percent(result.ensembleProbability.real)}</span>
+                              <DeltaBadge value={face.ensembleDeltas[index]} />
+                              <Progress
+                                value={result.ensembleProbability.real * 100}
+                                className="h-1.5 mt-1"
+                                style={{ backgroundColor: `${result.verdictBand.color}55` }}
+                              />
+                            </>
+                          ) : '—'}
+                        </TableCell>
+                      ))}
+                    </TableRow>
+                    {face.models.map(model => (
+                      <TableRow key={model.modelId}>
+                        <TableCell className="text-xs text-muted-foreground pl-6">
+                          {model.model}
+                          {model.version && <span> v{model.version}</span>}
+                        </TableCell>
+                        {model.values.map((value, index) => (
+                          <TableCell key={index} className="text-xs">
+                            {value === null ? (
+                              <span className="text-muted-foreground">—</span>
+                            ) : (
+                              <>
+                                <span className="tabular-nums">{percent(value)}</span>
+                                <DeltaBadge value={model.deltas[index]} />
+                              </>
+                            )}
+                          </TableCell>
+                        ))}
+                      </TableRow>
+                    ))}
+                  </Fragment>
+                ))}
+              </TableBody>
+            </Table>
+          </CardContent>
+          <CardFooter className="flex flex-wrap items-center justify-between gap-2">
+            <div className="text-sm text-muted-foreground space-y-1">
+              <VerdictPolicySelect />
+              <p className="text-xs">
+                {t('compare.deltaHint', { label: sessionLabel(comparison.referenceIndex) })}
+              </p>
+            </div>
+            <Button variant="outline" size="sm" onClick={handleExport} disabled={isExporting}>
+              <FileText className="h-4 w-4 mr-1" />
+              {isExporting ? t('results.pdf.creating') : t('compare.exportPdf')}
+            </Button>
+          </CardFooter>
+        </Card>
+      )}
+    </div>
+  );
+}
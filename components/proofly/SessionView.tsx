@@ -0,0 +1,124 @@
+'use client';
+
+import { useState } from 'react';
+import Link from 'next/link';
+import { Button } from '@/components/ui/button';
+import { Card, CardContent, CardDescription, CardHeader, CardTitle } from '@/components/ui/card';
+import { Alert, AlertDescription, AlertTitle } from '@/components/ui/alert';
+import { AlertCircle, Loader2, RefreshCw, Upload } from 'lucide-react';
+import { toast } from 'sonner';
+import { AnalysisResults } from '@/components/proofly/AnalysisResults';
+import { useSessionEvents } from '@/hooks/use-session-events';
+import { PENDING_SESSION_STATUSES, SessionInfoResponse } from '@/lib/types/proofly';
+import { useI18n } from '@/hooks/use-i18n';
+
+interface SessionViewProps {
+  initialSession: SessionInfoResponse;
+}
+
+/**
+ * Result page body for /session/[uuid]: resumes tracking while the session is
+ * still processing, then shows results, "no faces" or the failure explicitly.
+ */
+export function SessionView({ initialSession }: SessionViewProps) {
+  const { t } = useI18n();
+  const [session, setSession] = useState<SessionInfoResponse>(initialSession);
+  const [trackingError, setTrackingError] = useState<string | null>(null);
+  const isPending = PENDING_SESSION_STATUSES.includes(session.status);
+  const [trackingUuid, setTrackingUuid] = useState<string | null>(isPending ? session.uuid : null);
+
+  const { status } = useSessionEvents(trackingUuid, {
+    onComplete: (completed) => {
+      setTrackingUuid(null);
+      setSession(completed);
+      toast.success(t('common.analysisCompleted'));
+    },
+    onFailed: (message, failedStatus) => {
+      setTrackingUuid(null);
+      if (failedStatus === 'failed') {
+        setSession(prev => ({ ...prev, status: 'failed' }));
+      } else {
+        setTrackingError(message);
+      }
+    },
+  });
+
+  const handleResume = () => {
+    setTrackingError(null);
+    setTrackingUuid(session.uuid);
+  };
+
+  const uploadLink = (
+    <Button asChild variant="outline" className="flex items-center gap-2">
+      <Link href="/">
+        <Upload className="h-4 w-4" />
+        {t('session.analyzeAnother')}
+      </Link>
+    </Button>
+  );
+
+  if (session.status === 'failed') {
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-center">{uploadLink}</div>
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle>{t('session.failedTitle')}</CardTitle>
+            <CardDescription className="break-all">{t('common.sessionUuid', { uuid: session.uuid })}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            <Alert variant="destructive">
+              <AlertCircle className="h-4 w-4" />
+              <AlertTitle>{t('session.processingFailed')}</AlertTitle>
+              <AlertDescription>
+                {session.error || t('session.processingFailedHint')}
+              </AlertDescription>
+            </Alert>
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  if (isPending) {
+    return (
+      <div className="space-y-4">
+        <div className="flex justify-center">{uploadLink}</div>
+        <Card className="w-full">
+          <CardHeader>
+            <CardTitle>{t('session.inProgress')}</CardTitle>
+            <CardDescription className="break-all">{t('common.sessionUuid', { uuid: session.uuid })}</CardDescription>
+          </CardHeader>
+          <CardContent>
+            {trackingError ? (
+              <div className="space-y-4 text-center">
+                <Alert variant="destructive">
+                  <AlertCircle className="h-4 w-4" />
+                  <AlertTitle>{t('session.trackingFailed')}</AlertTitle>
+                  <AlertDescription>{trackingError}</AlertDescription>
+                </Alert>
+                <Button onClick={handleResume} variant="outline" className="flex items-center gap-2 mx-auto">
+                  <RefreshCw className="h-4 w-4" />
+                  {t('common.tryAgain')}
+                </Button>
+              </div>
+            ) : (
+              <div className="flex items-center justify-center gap-2 py-6 text-sm text-gray-500">
+                <Loader2 className="h-4 w-4 animate-spin" />
+                {t('session.processing', { status: status || session.status })}
+              </div>
+            )}
+          </CardContent>
+        </Card>
+      </div>
+    );
+  }
+
+  // completed / done / no faces found (AnalysisResults handles the empty case)
+  return (
+    <div className="space-y-4">
+      <div className="flex justify-center">{uploadLink}</div>
+      <AnalysisResults sessionInfo={session} />
+    </div>
+  );
+}
@@ -0,0 +1,31 @@
+'use client';
+
+import { Scale } from 'lucide-react';
+import { useVerdictPolicy } from '@/hooks/use-verdict-policy';
+import { useI18n } from '@/hooks/use-i18n';
+import { policyText } from '@/lib/i18n/translate';
+
+/**
+ * Compact selector for the verdict policy applied to results
+ */
+export function VerdictPolicySelect() {
+  const { policy, policies, setPolicy } = useVerdictPolicy();
+  const { t, locale } = useI18n();
+
+  return (
+    <label className="flex items-center gap-2 text-xs text-muted-foreground">
+      <Scale className="h-3 w-3" />
+      {t('policy.label')}
+      <select
+        value={policy.id}
+        onChange={(e) => setPolicy(e.target.value)}
+        className="h-7 rounded-md border border-input bg-transparent px-2 text-xs text-foreground"
+        title={policyText(policy, locale).description}
+      >
+        {policies.map(option => (
+          <option key={option.id} value={option.id}>{policyText(option, locale).name}</option>
+        ))}
+      </select>
+    </label>
+  );
+}
@@ -0,0 +1,190 @@
+import * as React from "react"
+import { RequestCancelledError, prooflyApi } from "@/lib/api/proofly"
+import { createTaskQueue, TaskQueue } from "@/lib/utils/taskQueue"
+import { formatAnalysisResults, SessionInfoResponse } from "@/lib/types/proofly"
+import { recordAnalysis } from "@/lib/history/analysisHistory"
+import { recordUploadMetadata } from "@/lib/images/uploadMetadata"
+import { getActiveVerdictPolicy } from "@/hooks/use-verdict-policy"
+import { DEFAULT_VERDICT_POLICY, VerdictBand, VerdictPolicy } from "@/lib/verdict/policy"
+
+// How many images are uploaded/processed at the same time
+export const BATCH_CONCURRENCY = 3
+// Upper bound for one run, keeps the queue and the table manageable
+export const MAX_BATCH_ITEMS = 50
+
+export type BatchSource =
+  | { kind: "file"; file: File }
+  | { kind: "url"; url: string }
+
+export type BatchItemStatus =
+  | "queued"
+  | "uploading"
+  | "processing"
+  | "completed"
+  | "no faces found"
+  | "failed"
+
+export interface BatchItem {
+  id: string
+  label: string
+  source: BatchSource
+  status: BatchItemStatus
+  sessionUuid?: string
+  sessionInfo?: SessionInfoResponse
+  faceCount?: number
+  error?: string
+}
+
+/**
+ * Resolves with the final session information once the session leaves the processing state
+ */
+function waitForSession(uuid: string, signal: AbortSignal): Promise<SessionInfoResponse> {
+  return new Promise((resolve, reject) => {
+    if (signal.aborted) {
+      reject(new RequestCancelledError(prooflyApi.getSessionEventsUrl(uuid)))
+      return
+    }
+    const onAbort = () => {
+      reject(new RequestCancelledError(prooflyApi.getSessionEventsUrl(uuid)))
+    }
+    signal.addEventListener("abort", onAbort, { once: true })
+    // Batch runs share one signal, so each wait drops its listener when it settles
+    const settle = (finish: () => void) => {
+      signal.removeEventListener("abort", onAbort)
+      finish()
+    }
+    const close = prooflyApi.trackSession(uuid, {
+      onEvent: (event) => {
+        if (event.type === "complete") {
+          settle(() => resolve(event.session))
+        } else if (event.type === "failed") {
+          settle(() => reject(new Error(event.message)))
+        }
+      },
+      onConnectionError: () => {
+        close()
+        settle(() => reject(new Error("Lost connection to the server")))
+      },
+    }, { signal })
+  })
+}
+
+/**
+ * Picks the verdict band of the face with the lowest real probability
+ */
+export function summarizeVerdict(
+  sessionInfo: SessionInfoResponse,
+  policy: VerdictPolicy = DEFAULT_VERDICT_POLICY
+): { band?: VerdictBand; faceCount: number } {
+  const results = formatAnalysisResults(sessionInfo, policy)
+  if (results.length === 0) {
+    return { faceCount: 0 }
+  }
+  const worst = results.reduce((min, result) =>
+    result.ensembleProbability.real < min.ensembleProbability.real ? result : min
+  )
+  return { band: worst.verdictBand, faceCount: results.length }
+}
+
+function labelFor(source: BatchSource): string {
+  return source.kind === "file" ? source.file.name : source.url
+}
+
+/**
+ * Runs a batch of uploads through a bounded queue: one Proofly session per image.
+ */
+export function useBatchAnalysis(concurrency: number = BATCH_CONCURRENCY) {
+  const [items, setItems] = React.useState<BatchItem[]>([])
+  const queueRef = React.useRef<TaskQueue | null>(null)
+  // Incremented on reset so tasks of an abandoned run stop updating state
+  const runRef = React.useRef(0)
+  // Aborts the uploads and session tracking of the current run
+  const abortRef = React.useRef<AbortController | null>(null)
+  // Whether the current run skips the server's result cache
+  const forceRef = React.useRef(false)
+
+  React.useEffect(() => {
+    return () => abortRef.current?.abort()
+  }, [])
+
+  const updateItem = React.useCallback((run: number, id: string, patch: Partial<BatchItem>) => {
+    if (run !== runRef.current) return
+    setItems((prev) => prev.map((item) => (item.id === id ? { ...item, ...patch } : item)))
+  }, [])
+
+  const processItem = React.useCallback(async (run: number, item: BatchItem) => {
+    const signal = abortRef.current?.signal
+    if (run !== runRef.current || !signal) return
+    updateItem(run, item.id, { status: "uploading" })
+
+    try {
+      const { uuid, cached } = item.source.kind === "file"
+        ? await prooflyApi.uploadImage(item.source.file, { signal, force: forceRef.current })
+        : await prooflyApi.uploadUrl(item.source.url, { signal, force: forceRef.current })
+
+      updateItem(run, item.id, { status: "processing", sessionUuid: uuid })
+      if (item.source.kind === "file" && !cached) {
+        void recordUploadMetadata(uuid, item.source.file)
+      }
+
+      // Images analyzed before come back with their earlier session
+      const sessionInfo = cached ? cached.session : await waitForSession(uuid, signal)
+      if (!cached) {
+        void recordAnalysis(sessionInfo, prooflyApi.getOriginalImageUrl(uuid), getActiveVerdictPolicy())
+      }
+      updateItem(run, item.id, {
+        status: sessionInfo.status === "no faces found" ? "no faces found" : "completed",
+        sessionInfo,
+        faceCount: sessionInfo.faces?.length || 0,
+      })
+    } catch (err) {
+      if (err instanceof RequestCancelledError) return
+      updateItem(run, item.id, {
+        status: "failed",
+        error: err instanceof Error ? err.message : "Unknown error",
+      })
+    }
+  }, [updateItem])
+
+  const start = React.useCallback((sources: BatchSource[], options: { force?: boolean } = {}) => {
+    const run = ++runRef.current
+    forceRef.current = !!options.force
+    queueRef.current?.clear()
+    abortRef.current?.abort()
+    abortRef.current = new AbortController()
+    const queue = createTaskQueue(concurrency)
+    queueRef.current = queue
+
+    const newItems: BatchItem[] = sources.slice(0, MAX_BATCH_ITEMS).map((source, index) => ({
+      id: `${run}-${index}`,
+      label: labelFor(source),
+      source,
+      status: "queued",
+    }))
+    setItems(newItems)
+    newItems.forEach((item) => queue.push(() => processItem(run, item)))
+  }, [concurrency, processItem])
+
+  const retry = React.useCallback((id: string) => {
+    const item = items.find((candidate) => candidate.id === id)
+    if (!item || item.status !== "failed" || !queueRef.current) return
+    const run = runRef.current
+    updateItem(run, id, { status: "queued", error: undefined })
+    queueRef.current.push(() => processItem(run, item))
+  }, [items, processItem, updateItem])
+
+  const reset = React.useCallback(() => {
+    runRef.current++
+    queueRef.current?.clear()
+    queueRef.current = null
+    abortRef.current?.abort()
+    abortRef.current = null
+    setItems([])
+  }, [])
+
+  const isRunning = items.some((item) =>
+    item.status === "queued" || item.status === "uploading" || item.status === "processing"
+  )
+
+  return { items, isRunning, start, retry, reset }
+}
@@ -0,0 +1,63 @@
+import * as React from "react"
+import { prooflyApi } from "@/lib/api/proofly"
+import { AnalysisResult, FaceBox } from "@/lib/types/proofly"
+import { LocatedFace, locateFaceCrops, toRelativeBox } from "@/lib/images/faceLocator"
+
+/**
+ * Position of every face of a session in its original image (fractions of
+ * the image size). Upstream boxes are used as is; faces without one are
+ * located by matching their crop. `imageSize` is the natural size of the
+ * displayed original, needed to convert pixel boxes.
+ */
+export function useFaceLocations(
+  uuid: string | undefined,
+  results: AnalysisResult[],
+  imageSize: { width: number; height: number } | null
+): { faces: Array<LocatedFace | null>; isLocating: boolean } {
+  const [estimated, setEstimated] = React.useState<Map<number, FaceBox | null>>(new Map())
+  const [isLocating, setIsLocating] = React.useState(false)
+
+  // Faces that need the template matcher (results are rebuilt on every render)
+  const missing = results.filter(result => !result.box).map(result => result.faceIndex)
+  const missingKey = missing.join(",")
+
+  React.useEffect(() => {
+    setEstimated(new Map())
+    if (!uuid || !missingKey) return
+
+    const indexes = missingKey.split(",").map(Number)
+    const controller = new AbortController()
+    setIsLocating(true)
+    locateFaceCrops(
+      prooflyApi.getOriginalImageUrl(uuid),
+      indexes.map(index => prooflyApi.getFaceImageUrl(uuid, index - 1)),
+      controller.signal
+    )
+      .then((boxes) => {
+        setEstimated(new Map(indexes.map((index, i) => [index, boxes[i]])))
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) console.warn("Face locator: failed to locate faces", err)
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLocating(false)
+      })
+    return () => {
+      controller.abort()
+      // The aborted run never clears it, and the next faces may all have upstream boxes
+      setIsLocating(false)
+    }
+  }, [uuid, missingKey])
+
+  const faces = results.map((result): LocatedFace | null => {
+    if (result.box) {
+      return imageSize
+        ? { box: toRelativeBox(result.box, imageSize.width, imageSize.height), source: "upstream" }
+        : null
+    }
+    const box = estimated.get(result.faceIndex)
+    return box ? { box, source: "estimated" } : null
+  })
+
+  return { faces, isLocating }
+}
@@ -0,0 +1,45 @@
+import * as React from "react"
+import { DEFAULT_LOCALE, LOCALE_COOKIE, Locale } from "@/lib/i18n/config"
+import { Translator, createTranslator } from "@/lib/i18n/translate"
+
+export interface I18nContextValue {
+  locale: Locale
+  t: Translator
+  setLocale: (locale: Locale) => void
+}
+
+// Provided by I18nProvider in the root layout
+export const I18nContext = React.createContext<I18nContextValue | null>(null)
+
+const COOKIE_MAX_AGE = 60 * 60 * 24 * 365
+
+const fallback: I18nContextValue = {
+  locale: DEFAULT_LOCALE,
+  t: createTranslator(DEFAULT_LOCALE),
+  setLocale: () => {},
+}
+
+/**
+ * Stores the locale in the cookie read by the server on the next render
+ */
+export function persistLocale(locale: Locale) {
+  document.cookie = `${LOCALE_COOKIE}=${locale}; path=/; max-age=${COOKIE_MAX_AGE}; samesite=lax`
+  document.documentElement.lang = locale
+}
+
+/**
+ * Active locale, its translator and the switcher action (English outside the provider)
+ */
+export function useI18n(): I18nContextValue {
+  return React.useContext(I18nContext) || fallback
+}
+
+/**
+ * Fills {name} placeholders of a translated message with elements (links, icons)
+ */
+export function renderMessage(message: string, elements: Record<string, React.ReactNode>): React.ReactNode[] {
+  return message.split(/(\{\w+\})/).map((part, index) => {
+    const name = /^\{(\w+)\}$/.exec(part)?.[1]
+    return React.createElement(React.Fragment, { key: index }, name && name in elements ? elements[name] : part)
+  })
+}
@@ -0,0 +1,57 @@
+import * as React from "react"
+import { prooflyApi } from "@/lib/api/proofly"
+import { ImageMetadata } from "@/lib/images/metadata"
+import { getUploadMetadata } from "@/lib/images/uploadMetadata"
+
+// "upload": the file selected in this browser; "stored": the copy kept by the upstream
+export type ImageMetadataSource = "upload" | "stored"
+
+/**
+ * Image metadata of a session: from the uploaded file when it was uploaded in
+ * this browser, otherwise from the original image stored by the upstream
+ */
+export function useImageMetadata(uuid?: string): {
+  metadata: ImageMetadata | null
+  source: ImageMetadataSource | null
+  isLoading: boolean
+  error: string | null
+} {
+  const [state, setState] = React.useState<{
+    metadata: ImageMetadata | null
+    source: ImageMetadataSource | null
+    error: string | null
+  }>({ metadata: null, source: null, error: null })
+  const [isLoading, setIsLoading] = React.useState(false)
+
+  React.useEffect(() => {
+    if (!uuid) {
+      setState({ metadata: null, source: null, error: null })
+      return
+    }
+    const uploaded = getUploadMetadata(uuid)
+    if (uploaded) {
+      setState({ metadata: uploaded.metadata, source: "upload", error: null })
+      return
+    }
+
+    const controller = new AbortController()
+    setIsLoading(true)
+    prooflyApi.getImageMetadata(uuid, { signal: controller.signal })
+      .then((metadata) => {
+        if (!controller.signal.aborted) setState({ metadata, source: "stored", error: null })
+      })
+      .catch((err) => {
+        if (!controller.signal.aborted) setState({ metadata: null, source: null, error: err instanceof Error ? err.message : String(err) })
+      })
+      .finally(() => {
+        if (!controller.signal.aborted) setIsLoading(false)
+      })
+    return () => {
+      controller.abort()
+      // The aborted request never clears it, and the next uuid may not fetch at all
+      setIsLoading(false)
+    }
+  }, [uuid])
+
+  return { ...state, isLoading }
+}
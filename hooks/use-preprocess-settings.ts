@@ -0,0 +1,75 @@
+import * as React from "react"
+import { getDefaultMaxDimension } from "@/lib/images/preprocess"
+
+const STORAGE_KEY = "proofly-preprocess-settings"
+
+export interface PreprocessSettings {
+  // false sends the untouched original (forensic fidelity)
+  enabled: boolean
+  maxDimension: number
+}
+
+const listeners = new Set<() => void>()
+
+function readSettings(): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+function parseSettings(raw: string | null): PreprocessSettings {
+  const defaults: PreprocessSettings = { enabled: true, maxDimension: getDefaultMaxDimension() }
+  if (!raw) return defaults
+  try {
+    const stored = JSON.parse(raw) as Partial<PreprocessSettings>
+    return {
+      enabled: typeof stored.enabled === "boolean" ? stored.enabled : defaults.enabled,
+      maxDimension: Number.isInteger(stored.maxDimension) && stored.maxDimension! > 0
+        ? stored.maxDimension!
+        : defaults.maxDimension,
+    }
+  } catch {
+    return defaults
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  // Keep tabs in sync
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener()
+  }
+  window.addEventListener("storage", onStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener("storage", onStorage)
+  }
+}
+
+function saveSettings(settings: PreprocessSettings) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(settings))
+  } catch (error) {
+    console.error("Image preprocessing: failed to persist settings", error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Image preprocessing settings of this browser
+ */
+export function usePreprocessSettings(): {
+  settings: PreprocessSettings
+  updateSettings: (changes: Partial<PreprocessSettings>) => void
+} {
+  const raw = React.useSyncExternalStore(subscribe, readSettings, () => null)
+  const settings = React.useMemo(() => parseSettings(raw), [raw])
+  const updateSettings = React.useCallback(
+    (changes: Partial<PreprocessSettings>) => saveSettings({ ...settings, ...changes }),
+    [settings]
+  )
+
+  return { settings, updateSettings }
+}
@@ -0,0 +1,57 @@
+import * as React from "react"
+import { prooflyApi } from "@/lib/api/proofly"
+import { SessionInfoResponse, SessionStatus } from "@/lib/types/proofly"
+
+export interface SessionEventCallbacks {
+  onStatus?: (status: SessionStatus) => void
+  onComplete: (session: SessionInfoResponse) => void
+  onFailed: (message: string, status?: SessionStatus) => void
+}
+
+/**
+ * Tracks a session through the SSE endpoint while `uuid` is set.
+ * Pass null to stop tracking.
+ */
+export function useSessionEvents(uuid: string | null, callbacks: SessionEventCallbacks) {
+  const [status, setStatus] = React.useState<SessionStatus | null>(null)
+  // Upstream is failing and the server is retrying
+  const [degraded, setDegraded] = React.useState(false)
+  const callbacksRef = React.useRef(callbacks)
+  callbacksRef.current = callbacks
+
+  React.useEffect(() => {
+    setStatus(null)
+    setDegraded(false)
+    if (!uuid) return
+
+    const close = prooflyApi.trackSession(uuid, {
+      onEvent: (event) => {
+        switch (event.type) {
+          case "status":
+            setStatus(event.status)
+            setDegraded(false)
+            callbacksRef.current.onStatus?.(event.status)
+            break
+          case "complete":
+            setStatus(event.session.status)
+            callbacksRef.current.onComplete(event.session)
+            break
+          case "failed":
+            if (event.status) setStatus(event.status)
+            callbacksRef.current.onFailed(event.message, event.status)
+            break
+          case "degraded":
+            setDegraded(true)
+            break
+        }
+      },
+      onConnectionError: () => {
+        callbacksRef.current.onFailed("Lost connection to the server")
+      },
+    })
+
+    return close
+  }, [uuid])
+
+  return { status, degraded }
+}
@@ -0,0 +1,61 @@
+import * as React from "react"
+import { getVerdictPolicies, getVerdictPolicy, VerdictPolicy } from "@/lib/verdict/policy"
+
+const STORAGE_KEY = "proofly-verdict-policy"
+
+const listeners = new Set<() => void>()
+
+function readPolicyId(): string | null {
+  try {
+    return window.localStorage.getItem(STORAGE_KEY)
+  } catch {
+    return null
+  }
+}
+
+function subscribe(listener: () => void) {
+  listeners.add(listener)
+  // Keep tabs in sync
+  const onStorage = (event: StorageEvent) => {
+    if (event.key === STORAGE_KEY) listener()
+  }
+  window.addEventListener("storage", onStorage)
+  return () => {
+    listeners.delete(listener)
+    window.removeEventListener("storage", onStorage)
+  }
+}
+
+/**
+ * Active policy outside of React (e.g. when saving history entries)
+ */
+export function getActiveVerdictPolicy(): VerdictPolicy {
+  return getVerdictPolicy(typeof window === "undefined" ? null : readPolicyId())
+}
+
+/**
+ * Selects the verdict policy used by this browser (per team)
+ */
+export function setActiveVerdictPolicy(id: string) {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, id)
+  } catch (error) {
+    console.error("Verdict policy: failed to persist selection", error)
+  }
+  listeners.forEach((listener) => listener())
+}
+
+/**
+ * Active verdict policy plus the list of selectable ones
+ */
+export function useVerdictPolicy(): {
+  policy: VerdictPolicy
+  policies: VerdictPolicy[]
+  setPolicy: (id: string) => void
+} {
+  const policyId = React.useSyncExternalStore(subscribe, readPolicyId, () => null)
+  const policy = React.useMemo(() => getVerdictPolicy(policyId), [policyId])
+  const policies = React.useMemo(() => getVerdictPolicies(), [])
+
+  return { policy, policies, setPolicy: setActiveVerdictPolicy }
+}
@@ -0,0 +1,98 @@
+import axios from 'axios';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { ImageIntakeError } from '../images/sniff';
+import { UpstreamContractError } from '../schemas/proofly';
+import { RequestCancelledError, apiLogs, prooflyApi } from './proofly';
+
+const UUID = '11111111-1111-4111-8111-111111111111';
+
+const contractError = new UpstreamContractError(`/${UUID}`, ['faces.0.ansamble: Expected number, received string']);
+
+// Canned proxy responses by path; paths without an entry never answer
+const RESPONSES: Record<string, { status: number; body: unknown }> = {
+  [`/api/proofly/session/${UUID}`]: { status: 200, body: { uuid: UUID, status: 'completed', faces: [{ ansamble: 0.9 }] } },
+  [`/api/proofly/session/${UUID}/status`]: { status: 200, body: { status: 'queued?' } },
+  '/api/proofly/session/contract': { status: 502, body: contractError.toJSON() },
+  '/api/proofly/session/broken': { status: 500, body: { error: 'Failed to retrieve session information' } },
+  '/api/proofly/upload': {
+    status: 415,
+    body: new ImageIntakeError('UNSUPPORTED_IMAGE_TYPE', 'The file is not a supported image').toJSON(),
+  },
+  '/api/proofly/upload-url': { status: 200, body: { uuid: UUID, message: 'File uploaded successfully' } },
+};
+
+describe('prooflyApi', () => {
+  let server: http.Server;
+
+  beforeAll(async () => {
+    server = http.createServer((request, response) => {
+      request.resume();
+      const canned = RESPONSES[new URL(request.url || '/', 'http://proxy').pathname];
+      if (!canned) return;
+      response.writeHead(canned.status, { 'content-type': 'application/json' });
+      response.end(JSON.stringify(canned.body));
+    });
+    await new Promise<void>(resolve => server.listen(0, '127.0.0.1', resolve));
+    // The client calls relative /api/proofly URLs like in the browser
+    axios.defaults.baseURL = `http://127.0.0.1:${(server.address() as AddressInfo).port}`;
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    delete axios.defaults.baseURL;
+    server.closeAllConnections();
+    await new Promise(resolve => server.close(resolve));
+  });
+
+  it('validates successful responses', async () => {
+    await expect(prooflyApi.getSessionInfo(UUID)).resolves.toMatchObject({ uuid: UUID, status: 'completed' });
+    await expect(prooflyApi.uploadUrl('https://example.com/photo.jpg')).resolves.toEqual({ uuid: UUID });
+    expect(apiLogs[0]).toMatchObject({ type: 'success', endpoint: '/api/proofly/upload-url' });
+  });
+
+  it('rethrows contract violations reported by the proxy', async () => {
+    const error = await prooflyApi.getSessionInfo('contract').catch(e => e);
+    expect(error).toBeInstanceOf(UpstreamContractError);
+    expect(error.endpoint).toBe(`/${UUID}`);
+    expect(apiLogs[0]).toMatchObject({
+      type: 'error',
+      endpoint: '/api/proofly/session/contract',
+      contractIssues: contractError.issues,
+    });
+  });
+
+  it('flags responses of the proxy that break the schema', async () => {
+    const error = await prooflyApi.getSessionStatus(UUID).catch(e => e);
+    expect(error).toBeInstanceOf(UpstreamContractError);
+    expect(apiLogs[0].contractIssues?.[0]).toMatch(/^status:/);
+  });
+
+  it('rethrows rejected images as ImageIntakeError', async () => {
+    const error = await prooflyApi.uploadImage(new File(['hello'], 'photo.png')).catch(e => e);
+    expect(error).toBeInstanceOf(ImageIntakeError);
+    expect(error).toMatchObject({ code: 'UNSUPPORTED_IMAGE_TYPE', status: 415, message: 'The file is not a supported image' });
+  });
+
+  it('prefixes other errors with the failed operation', async () => {
+    await expect(prooflyApi.getSessionInfo('broken')).rejects.toThrow(
+      'Error getting session information: Request failed with status code 500'
+    );
+    expect(apiLogs[0].details).toMatchObject({
+      status: 500,
+      uuid: 'broken',
+      data: { error: 'Failed to retrieve session information' },
+    });
+  });
+
+  it('rejects aborted requests with RequestCancelledError', async () => {
+    const controller = new AbortController();
+    const request = prooflyApi.getSessionInfo('pending', { signal: controller.signal });
+    setTimeout(() => controller.abort(), 20);
+    const error = await request.catch(e => e);
+    expect(error).toBeInstanceOf(RequestCancelledError);
+    expect(error.endpoint).toBe('/api/proofly/session/pending');
+  });
+});
@@ -1,6 +1,23 @@
 // lib/api/proofly.ts
-import axios from 'axios';
-import { SessionInfoResponse, SessionStatusResponse } from '../types/proofly';
+import axios, { AxiosError, AxiosResponse } from 'axios';
+import {
+  SessionEvent,
+  SessionInfoResponse,
+  SessionStatusResponse,
+  TransferProgress,
+  UploadResult,
+  UrlUploadEvent,
+} from '../types/proofly';
+import { ReportSignature, ReportVerificationResult } from '../report/signature';
+import { ImageIntakeError } from '../images/sniff';
+import { ImageMetadata } from '../images/metadata';
+import {
+  UpstreamContractError,
+  parseUpstream,
+  sessionInfoResponseSchema,
+  sessionStatusResponseSchema,
+  uploadResultSchema,
+} from '../schemas/proofly';
 
 // Array for storing API logs
 export interface ApiLog {
@@ -8,10 +25,47 @@ export interface ApiLog {
   type: 'success' | 'error' | 'info';
   endpoint: string;
   details: any;
+  // Set when the Proofly API returned data that does not match its schema
+  contractIssues?: string[];
 }
 
 export const apiLogs: ApiLog[] = [];
 
+// Callbacks for session progress pushed over SSE
+export interface SessionEventHandlers {
+  onEvent: (event: SessionEvent) => void;
+  onConnectionError?: () => void;
+}
+
+// Options accepted by every request method
+export interface RequestOptions {
+  // Aborts the request; the method then rejects with RequestCancelledError
+  signal?: AbortSignal;
+}
+
+// Progress callbacks of the upload calls
+export interface UploadProgressHandlers {
+  // Bytes sent by the browser (files) or downloaded by the server (URLs)
+  onTransfer?: (progress: TransferProgress) => void;
+  // All bytes are in; the proxy is handing the image to Proofly
+  onForwarding?: () => void;
+}
+
+export interface UploadOptions extends RequestOptions, UploadProgressHandlers {
+  // Skip the server's result cache and analyze the image again
+  force?: boolean;
+}
+
+/**
+ * Rejection of a request aborted through its AbortSignal
+ */
+export class RequestCancelledError extends Error {
+  constructor(public readonly endpoint: string) {
+    super(`Request to ${endpoint} was cancelled`);
+    this.name = 'RequestCancelledError';
+  }
+}
+
 /**
  * Logs API events
  */
@@ -25,7 +79,8 @@ const logApiCall = (
     timestamp: new Date().toISOString(),
     type,
     endpoint,
-    details
+    details,
+    contractIssues: details?.code === 'UPSTREAM_CONTRACT' ? details.issues : undefined
   });
   
   // Limit logs to 100 entries
@@ -53,90 +108,253 @@ class ProoflyApi {
   }
   
   /**
-   * Uploads an image and creates a session for analysis
+   * Uploads an image and creates a session for analysis. Images analyzed
+   * before come back with the cached session in `cached`.
    */
-  async uploadImage(file: File): Promise<{ uuid: string }> {
+  async uploadImage(file: File, options: UploadOptions = {}): Promise<UploadResult> {
     const endpoint = '/api/proofly/upload';
     try {
       const formData = new FormData();
       formData.append('file', file);
+      if (options.force) formData.append('force', '1');
       
       logApiCall('info', endpoint, { fileName: file.name, fileSize: file.size });
       
-      const response = await axios.post(endpoint, formData);
+      let forwarding = false;
+      const response = await axios.post(endpoint, formData, {
+        signal: options.signal,
+        onUploadProgress: (event) => {
+          const total = event.total || null;
+          options.onTransfer?.({ loaded: event.loaded, total });
+          if (!forwarding && total !== null && event.loaded >= total) {
+            forwarding = true;
+            options.onForwarding?.();
+          }
+        }
+      });
+      const data = parseUpstream(uploadResultSchema, response.data, endpoint);
       
-      logApiCall('success', endpoint, response.data);
-      
-      if (!response.data.uuid) {
-        throw new Error('UUID not received from server');
-      }
+      logApiCall('success', endpoint, data);
       
-      return { uuid: response.data.uuid };
+      return { uuid: data.uuid, cached: data.cached };
     } catch (error) {
+      if (options.signal?.aborted) throw this.toCancelledError(endpoint);
       const errorDetails = this.extractErrorDetails(error);
       logApiCall('error', endpoint, errorDetails);
-      throw new Error(`Error uploading image: ${errorDetails.message}`);
+      throw this.toClientError('Error uploading image', errorDetails);
     }
   }
   
   /**
-   * Sends image URL for analysis
+   * Sends image URL for analysis. With progress handlers the server streams
+   * its download progress (NDJSON) before the result.
    */
-  async uploadUrl(url: string): Promise<{ uuid: string }> {
+  async uploadUrl(url: string, options: UploadOptions = {}): Promise<UploadResult> {
     const endpoint = '/api/proofly/upload-url';
     try {
       logApiCall('info', endpoint, { url });
       
-      const response = await axios.post(endpoint, { url });
+      const responseData = options.onTransfer || options.onForwarding
+        ? await this.postUrlWithProgress(endpoint, url, options)
+        : (await axios.post(endpoint, { url, force: options.force }, { signal: options.signal })).data;
+      const data = parseUpstream(uploadResultSchema, responseData, endpoint);
       
-      logApiCall('success', endpoint, response.data);
+      logApiCall('success', endpoint, data);
       
-      if (!response.data.uuid) {
-        throw new Error('UUID not received from server');
-      }
-      
-      return { uuid: response.data.uuid };
+      return { uuid: data.uuid, cached: data.cached };
     } catch (error) {
+      if (options.signal?.aborted) throw this.toCancelledError(endpoint);
       const errorDetails = this.extractErrorDetails(error);
       logApiCall('error', endpoint, errorDetails);
-      throw new Error(`Error sending URL: ${errorDetails.message}`);
+      throw this.toClientError('Error sending URL', errorDetails);
     }
   }
   
   /**
    * Gets session status by ID
    */
-  async getSessionStatus(uuid: string): Promise<SessionStatusResponse> {
+  async getSessionStatus(uuid: string, options: RequestOptions = {}): Promise<SessionStatusResponse> {
     const endpoint = `/api/proofly/session/${uuid}/status`;
     try {
-      const response = await axios.get(endpoint);
+      const response = await axios.get(endpoint, { signal: options.signal });
+      const data = parseUpstream(sessionStatusResponseSchema, response.data, endpoint);
       
-      logApiCall('success', endpoint, response.data);
-      return response.data;
+      logApiCall('success', endpoint, data);
+      return data;
     } catch (error) {
+      if (options.signal?.aborted) throw this.toCancelledError(endpoint);
       const errorDetails = this.extractErrorDetails(error, { uuid });
       logApiCall('error', endpoint, errorDetails);
-      throw new Error(`Error getting session status: ${errorDetails.message}`);
+      throw this.toClientError('Error getting session status', errorDetails);
     }
   }
   
   /**
    * Gets session information by ID
    */
-  async getSessionInfo(uuid: string): Promise<SessionInfoResponse> {
+  async getSessionInfo(uuid: string, options: RequestOptions = {}): Promise<SessionInfoResponse> {
     const endpoint = `/api/proofly/session/${uuid}`;
     try {
-      const response = await axios.get(endpoint);
+      const response = await axios.get(endpoint, { signal: options.signal });
+      const data = parseUpstream(sessionInfoResponseSchema, response.data, endpoint);
       
-      logApiCall('success', endpoint, response.data);
+      logApiCall('success', endpoint, data);
+      return data;
+    } catch (error) {
+      if (options.signal?.aborted) throw this.toCancelledError(endpoint);
+      const errorDetails = this.extractErrorDetails(error, { uuid });
+      logApiCall('error', endpoint, errorDetails);
+      throw this.toClientError('Error getting session information', errorDetails);
+    }
+  }
+  
+  /**
+   * Gets the server signature for a report (null when signing is not configured)
+   */
+  async getReportSignature(uuid: string, policyId: string, options: RequestOptions = {}): Promise<ReportSignature | null> {
+    const endpoint = `/api/proofly/session/${uuid}/signature`;
+    try {
+      const response = await axios.get<ReportSignature>(endpoint, { params: { policy: policyId }, signal: options.signal });
+      logApiCall('success', endpoint, { reportId: response.data.reportId });
       return response.data;
     } catch (error) {
+      if (options.signal?.aborted) throw this.toCancelledError(endpoint);
+      if (axios.isAxiosError(error) && error.response?.status === 503) {
+        logApiCall('info', endpoint, { message: 'Report signing is not configured, exporting unsigned report' });
+        return null;
+      }
+      if (axios.isAxiosError(error) && error.response?.status === 409) {
+        logApiCall('info', endpoint, { message: 'Analysis is not finished, exporting unsigned report' });
+        return null;
+      }
       const errorDetails = this.extractErrorDetails(error, { uuid });
       logApiCall('error', endpoint, errorDetails);
-      throw new Error(`Error getting session information: ${errorDetails.message}`);
+      throw this.toClientError('Error signing report', errorDetails);
+    }
+  }
+  
+  /**
+   * Gets EXIF/XMP/IPTC/C2PA metadata of the original image stored for a session
+   */
+  async getImageMetadata(uuid: string, options: RequestOptions = {}): Promise<ImageMetadata> {
+    const endpoint = `/api/proofly/session/${uuid}/metadata`;
+    try {
+      const response = await axios.get<ImageMetadata>(endpoint, { signal: options.signal });
+      logApiCall('success', endpoint, { sections: response.data.sections.length, flags: response.data.flags.length });
+      return response.data;
+    } catch (error) {
+      if (options.signal?.aborted) throw this.toCancelledError(endpoint);
+      const errorDetails = this.extractErrorDetails(error, { uuid });
+      logApiCall('error', endpoint, errorDetails);
+      throw this.toClientError('Error getting image metadata', errorDetails);
+    }
+  }
+  
+  /**
+   * Verifies a signed report by its ID or by the PDF file itself
+   */
+  async verifyReport(
+    input: { reportId: string } | { file: File },
+    options: RequestOptions = {}
+  ): Promise<ReportVerificationResult> {
+    const endpoint = '/api/proofly/verify';
+    try {
+      let body: FormData | { reportId: string };
+      if ('file' in input) {
+        body = new FormData();
+        body.append('file', input.file);
+        logApiCall('info', endpoint, { fileName: input.file.name, fileSize: input.file.size });
+      } else {
+        body = { reportId: input.reportId };
+        logApiCall('info', endpoint, body);
+      }
+      
+      const response = await axios.post<ReportVerificationResult>(endpoint, body, { signal: options.signal });
+      logApiCall('success', endpoint, response.data);
+      return response.data;
+    } catch (error) {
+      if (options.signal?.aborted) throw this.toCancelledError(endpoint);
+      const errorDetails = this.extractErrorDetails(error);
+      logApiCall('error', endpoint, errorDetails);
+      const serverMessage = axios.isAxiosError(error) ? error.response?.data?.error : undefined;
+      throw serverMessage ? new Error(serverMessage) : this.toClientError('Error verifying report', errorDetails);
     }
   }
   
+  /**
+   * Subscribes to session progress over Server-Sent Events.
+   * Returns a function that closes the connection; aborting the signal does the same.
+   */
+  trackSession(uuid: string, handlers: SessionEventHandlers, options: RequestOptions = {}): () => void {
+    const endpoint = this.getSessionEventsUrl(uuid);
+    if (options.signal?.aborted) return () => {};
+    logApiCall('info', endpoint, { uuid, message: 'Subscribing to session events' });
+    
+    const source = new EventSource(endpoint);
+    let finished = false;
+    
+    const handleMessage = (message: MessageEvent) => {
+      let event: SessionEvent;
+      try {
+        event = JSON.parse(message.data);
+      } catch (error) {
+        logApiCall('error', endpoint, { uuid, message: 'Malformed event payload', data: message.data });
+        return;
+      }
+      
+      // The final session goes straight to the UI, validate it like any other response
+      if (event.type === 'complete') {
+        try {
+          event = { type: 'complete', session: parseUpstream(sessionInfoResponseSchema, event.session, endpoint) };
+        } catch (error) {
+          const errorDetails = this.extractErrorDetails(error, { uuid });
+          logApiCall('error', endpoint, errorDetails);
+          event = { type: 'failed', message: errorDetails.message };
+        }
+      }
+      
+      logApiCall(event.type === 'failed' ? 'error' : event.type === 'degraded' ? 'info' : 'success', endpoint, event);
+      
+      // Final events: close before EventSource tries to reconnect
+      if (event.type === 'complete' || event.type === 'failed') {
+        finished = true;
+        source.close();
+      }
+      handlers.onEvent(event);
+    };
+    
+    source.addEventListener('status', handleMessage);
+    source.addEventListener('complete', handleMessage);
+    source.addEventListener('failed', handleMessage);
+    source.addEventListener('degraded', handleMessage);
+    source.onerror = () => {
+      // CONNECTING means the browser is reconnecting on its own
+      if (finished || source.readyState !== EventSource.CLOSED) return;
+      logApiCall('error', endpoint, { uuid, message: 'Event stream connection lost' });
+      handlers.onConnectionError?.();
+    };
+    
+    const close = () => {
+      finished = true;
+      source.close();
+      options.signal?.removeEventListener('abort', handleAbort);
+    };
+    const handleAbort = () => {
+      if (!finished) logApiCall('info', endpoint, { uuid, message: 'Stopped tracking session' });
+      close();
+    };
+    options.signal?.addEventListener('abort', handleAbort);
+    
+    return close;
+  }
+  
+  /**
+   * Gets session events (SSE) URL
+   */
+  getSessionEventsUrl(uuid: string): string {
+    return `/api/proofly/session/${uuid}/events`;
+  }
+  
   /**
    * Gets original image URL through proxy
    */
@@ -153,10 +371,113 @@ class ProoflyApi {
     return `/api/proofly/session/${uuid}/face/${faceIndex}`;
   }
   
+  /**
+   * Posts a URL upload asking for NDJSON progress lines and returns the body
+   * of the final result. Error results are thrown as axios errors so they are
+   * handled like the plain JSON response.
+   */
+  private async postUrlWithProgress(endpoint: string, url: string, options: UploadOptions): Promise<unknown> {
+    const response = await fetch(endpoint, {
+      method: 'POST',
+      signal: options.signal,
+      headers: { 'Content-Type': 'application/json', 'Accept': 'application/x-ndjson' },
+      body: JSON.stringify({ url, force: options.force })
+    });
+    
+    let result: { status: number; body: unknown } | null = null;
+    if (!response.body || !response.headers.get('content-type')?.includes('application/x-ndjson')) {
+      // Rejected before streaming started (e.g. missing URL)
+      result = { status: response.status, body: await response.json().catch(() => null) };
+    } else {
+      const reader = response.body.pipeThrough(new TextDecoderStream()).getReader();
+      let buffer = '';
+      for (;;) {
+        const { done, value } = await reader.read();
+        if (value) buffer += value;
+        const lines = buffer.split('\n');
+        buffer = done ? '' : lines.pop() || '';
+        for (const line of lines) {
+          if (!line.trim()) continue;
+          const event: UrlUploadEvent = JSON.parse(line);
+          if (event.type === 'download') {
+            options.onTransfer?.({ loaded: event.loaded, total: event.total });
+          } else if (event.type === 'upload') {
+            options.onForwarding?.();
+          } else {
+            result = { status: event.status, body: event.body };
+          }
+        }
+        if (done) break;
+      }
+    }
+    
+    if (!result) {
+      throw new Error('Upload stream ended without a result');
+    }
+    if (result.status >= 400) {
+      throw new AxiosError(
+        `Request failed with status code ${result.status}`,
+        result.status >= 500 ? AxiosError.ERR_BAD_RESPONSE : AxiosError.ERR_BAD_REQUEST,
+        undefined,
+        undefined,
+        { status: result.status, data: result.body } as AxiosResponse
+      );
+    }
+    return result.body;
+  }
+  
+  /**
+   * Logs and builds the rejection of an aborted request
+   */
+  private toCancelledError(endpoint: string): RequestCancelledError {
+    logApiCall('info', endpoint, { message: 'Request cancelled' });
+    return new RequestCancelledError(endpoint);
+  }
+  
+  /**
+   * Builds the error thrown to callers; contract violations keep their type
+   */
+  private toClientError(prefix: string, errorDetails: any): Error {
+    if (errorDetails.code === 'UPSTREAM_CONTRACT') {
+      return new UpstreamContractError(errorDetails.endpoint, errorDetails.issues);
+    }
+    if (ImageIntakeError.isIntakeErrorBody(errorDetails)) {
+      return new ImageIntakeError(errorDetails.code, errorDetails.error, errorDetails.maxBytes);
+    }
+    return new Error(`${prefix}: ${errorDetails.message}`);
+  }
+  
   /**
    * Extracts error details from axios error object
    */
   private extractErrorDetails(error: any, additionalInfo: Record<string, any> = {}): any {
+    if (error instanceof UpstreamContractError) {
+      return {
+        message: error.message,
+        ...error.toJSON(),
+        ...additionalInfo
+      };
+    }
+    // Contract violation detected by the proxy route (502)
+    if (axios.isAxiosError(error) && UpstreamContractError.isContractErrorBody(error.response?.data)) {
+      const body = error.response.data;
+      return {
+        message: new UpstreamContractError(body.endpoint, body.issues).message,
+        status: error.response.status,
+        ...body,
+        ...additionalInfo
+      };
+    }
+    // Image rejected by the upload routes (413/415)
+    if (axios.isAxiosError(error) && ImageIntakeError.isIntakeErrorBody(error.response?.data)) {
+      const body = error.response.data;
+      return {
+        message: body.error,
+        status: error.response.status,
+        ...body,
+        ...additionalInfo
+      };
+    }
     if (axios.isAxiosError(error)) {
       return {
         message: error.message,
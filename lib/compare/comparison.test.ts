@@ -0,0 +1,69 @@
+import { describe, expect, it } from 'vitest';
+import { SessionInfoResponse } from '../types/proofly';
+import { ModelInfo } from '../models/registry';
+import { buildSessionComparison, parseCompareIds } from './comparison';
+
+const A = '11111111-1111-4111-8111-111111111111';
+const B = '22222222-2222-4222-8222-222222222222';
+const C = '33333333-3333-4333-8333-333333333333';
+
+const registry: ModelInfo[] = [
+  { id: 'm1', key: 'is_real_model_1', name: 'Model 1', weight: 1, enabled: true },
+  { id: 'm2', key: 'is_real_model_2', name: 'Model 2', weight: 1, enabled: true },
+];
+
+const session = (uuid: string, faces: Array<Record<string, number>>): SessionInfoResponse => ({
+  uuid,
+  status: 'completed',
+  faces: faces.map(face => ({ ...face })),
+}) as SessionInfoResponse;
+
+describe('parseCompareIds', () => {
+  it('splits, trims and deduplicates ids', () => {
+    expect(parseCompareIds(` ${A},${B} ,${A}`)).toEqual({ ids: [A, B], invalid: [] });
+    expect(parseCompareIds([A, `${B},${C}`]).ids).toEqual([A, B, C]);
+  });
+
+  it('reports invalid ids', () => {
+    expect(parseCompareIds(`${A},nope`)).toEqual({ ids: [A], invalid: ['nope'] });
+    expect(parseCompareIds(undefined)).toEqual({ ids: [], invalid: [] });
+  });
+});
+
+describe('buildSessionComparison', () => {
+  const sessions = [
+    session(A, [{ ansamble: 0.9, is_real_model_1: 0.8, is_real_model_2: 0.95 }]),
+    session(B, [{ ansamble: 0.3, is_real_model_1: 0.2 }, { ansamble: 0.6 }]),
+  ];
+
+  it('aligns faces by index and computes deltas to the reference', () => {
+    const comparison = buildSessionComparison(sessions, 0, undefined, registry);
+    expect(comparison.faces).toHaveLength(2);
+
+    const [first, second] = comparison.faces;
+    expect(first.ensembleDeltas[0]).toBeNull();
+    expect(first.ensembleDeltas[1]).toBeCloseTo(-0.6);
+    expect(first.models.map(model => model.modelId)).toEqual(['m1', 'm2']);
+    expect(first.models[0].deltas[1]).toBeCloseTo(-0.6);
+    expect(first.models[1].values).toEqual([0.95, null]);
+    expect(first.models[1].deltas).toEqual([null, null]);
+
+    expect(second.results[0]).toBeNull();
+    expect(second.ensembleDeltas).toEqual([null, null]);
+  });
+
+  it('orders registered models by the registry, then unregistered ones', () => {
+    const comparison = buildSessionComparison([
+      session(A, [{ ansamble: 0.9, is_real_model_7: 0.5 }]),
+      session(B, [{ ansamble: 0.9, is_real_model_2: 0.4, is_real_model_1: 0.3 }]),
+    ], 0, undefined, registry);
+    expect(comparison.faces[0].models.map(model => model.modelId)).toEqual(['m1', 'm2', 'is_real_model_7']);
+  });
+
+  it('uses another session as reference', () => {
+    const comparison = buildSessionComparison(sessions, 1, undefined, registry);
+    expect(comparison.referenceIndex).toBe(1);
+    expect(comparison.faces[0].ensembleDeltas[0]).toBeCloseTo(0.6);
+    expect(comparison.faces[0].ensembleDeltas[1]).toBeNull();
+  });
+});
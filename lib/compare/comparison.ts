@@ -0,0 +1,121 @@
+// lib/compare/comparison.ts
+import { AnalysisResult, ModelInfo, SessionInfoResponse, formatAnalysisResults } from '../types/proofly';
+import { DEFAULT_VERDICT_POLICY, VerdictPolicy } from '../verdict/policy';
+import { getModelRegistry } from '../models/registry';
+import { isValidUuid } from '../utils/uuid';
+import { DEFAULT_LOCALE, Locale } from '../i18n/config';
+
+// Side-by-side comparison of sessions (e.g. a suspected deepfake and a known
+// authentic photo): faces are aligned by index, probabilities are compared
+// with a reference session.
+
+export const MAX_COMPARE_SESSIONS = 6;
+
+export interface ComparisonModelRow {
+  modelId: string;
+  model: string;
+  version?: string;
+  // Real probability per session (null: face missing or model not reported)
+  values: Array<number | null>;
+  // Difference with the reference session
+  deltas: Array<number | null>;
+}
+
+export interface ComparisonFaceRow {
+  faceIndex: number;
+  // Face of each session at this index, null when the session has fewer faces
+  results: Array<AnalysisResult | null>;
+  // Real ensemble probability minus the reference one
+  ensembleDeltas: Array<number | null>;
+  models: ComparisonModelRow[];
+}
+
+export interface SessionComparison {
+  sessions: SessionInfoResponse[];
+  referenceIndex: number;
+  faces: ComparisonFaceRow[];
+}
+
+/**
+ * Session UUIDs from the `ids` query parameter (comma-separated, repeated
+ * parameters allowed); duplicates are dropped
+ */
+export function parseCompareIds(ids: string | string[] | undefined): { ids: string[]; invalid: string[] } {
+  const values = (Array.isArray(ids) ? ids : [ids || ''])
+    .flatMap(value => value.split(','))
+    .map(value => value.trim())
+    .filter(Boolean);
+  const unique = Array.from(new Set(values));
+  return {
+    ids: unique.filter(isValidUuid).slice(0, MAX_COMPARE_SESSIONS),
+    invalid: unique.filter(value => !isValidUuid(value)),
+  };
+}
+
+export function buildCompareUrl(ids: string[]): string {
+  return `/compare?ids=${ids.join(',')}`;
+}
+
+const delta = (value: number | null | undefined, reference: number | null | undefined): number | null =>
+  value === null || value === undefined || reference === null || reference === undefined ? null : value - reference;
+
+/**
+ * Aligns the faces of the sessions by index. Deltas are relative to the
+ * session at `referenceIndex` (null for the reference itself). Verdicts are
+ * labelled in `locale`.
+ */
+export function buildSessionComparison(
+  sessions: SessionInfoResponse[],
+  referenceIndex = 0,
+  policy: VerdictPolicy = DEFAULT_VERDICT_POLICY,
+  registry: ModelInfo[] = getModelRegistry(),
+  locale: Locale = DEFAULT_LOCALE
+): SessionComparison {
+  const reference = Math.min(Math.max(0, referenceIndex), Math.max(0, sessions.length - 1));
+  const resultsBySession = sessions.map(session => formatAnalysisResults(session, policy, registry, locale));
+  const faceCount = Math.max(0, ...resultsBySession.map(results => results.length));
+  const registryRank = (modelId: string) => {
+    const index = registry.findIndex(model => model.id === modelId);
+    return index === -1 ? registry.length : index;
+  };
+
+  const faces: ComparisonFaceRow[] = [];
+  for (let faceIndex = 0; faceIndex < faceCount; faceIndex++) {
+    const results = resultsBySession.map(sessionResults => sessionResults[faceIndex] || null);
+    const referenceResult = results[reference];
+
+    // Registered models in registry order, then the others as the sessions report them
+    const models = new Map<string, ComparisonModelRow>();
+    results.forEach(result => {
+      result?.modelProbabilities.forEach(model => {
+        if (!models.has(model.modelId)) {
+          models.set(model.modelId, { modelId: model.modelId, model: model.model, version: model.version, values: [], deltas: [] });
+        }
+      });
+    });
+    models.forEach(row => {
+      const score = (result: AnalysisResult | null) =>
+        result?.modelProbabilities.find(model => model.modelId === row.modelId)?.realProbability ?? null;
+      const referenceScore = score(referenceResult);
+      row.values = results.map(score);
+      row.deltas = results.map((result, index) => index === reference ? null : delta(score(result), referenceScore));
+    });
+
+    faces.push({
+      faceIndex: faceIndex + 1,
+      results,
+      ensembleDeltas: results.map((result, index) =>
+        index === reference ? null : delta(result?.ensembleProbability.real, referenceResult?.ensembleProbability.real)),
+      models: Array.from(models.values()).sort((a, b) => registryRank(a.modelId) - registryRank(b.modelId)),
+    });
+  }
+
+  return { sessions, referenceIndex: reference, faces };
+}
+
+/**
+ * Short column label of a session: A, B, C...
+ */
+export function sessionLabel(index: number): string {
+  return String.fromCharCode(65 + index);
+}
@@ -0,0 +1,194 @@
+// lib/history/analysisHistory.ts
+import { SessionInfoResponse, SessionStatus, formatAnalysisResults } from '../types/proofly';
+import { DEFAULT_VERDICT_POLICY, VerdictPolicy } from '../verdict/policy';
+
+const DB_NAME = 'proofly-checker';
+const DB_VERSION = 1;
+const STORE_NAME = 'analysis-history';
+
+// Thumbnail edge length in pixels (longest side)
+const THUMBNAIL_SIZE = 96;
+
+export interface HistoryFaceVerdict {
+  faceIndex: number;
+  verdict: string;
+  // Band color at the time the entry was saved
+  color?: string;
+  realProbability: number;
+}
+
+// One completed session stored on the client
+export interface HistoryEntry {
+  uuid: string;
+  sha256?: string;
+  status: SessionStatus;
+  // Session creation time from the API (falls back to the time it was saved)
+  createdAt: string;
+  savedAt: string;
+  faces: HistoryFaceVerdict[];
+  // Verdict policy the face verdicts were computed with
+  policyId?: string;
+  thumbnail?: string;
+}
+
+export interface HistoryFilter {
+  query?: string;
+  verdict?: string;
+  from?: Date;
+  to?: Date;
+}
+
+/**
+ * Opens (and creates/upgrades) the history database
+ */
+function openDatabase(): Promise<IDBDatabase> {
+  return new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB is not available'));
+      return;
+    }
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      const db = request.result;
+      if (!db.objectStoreNames.contains(STORE_NAME)) {
+        const store = db.createObjectStore(STORE_NAME, { keyPath: 'uuid' });
+        store.createIndex('sha256', 'sha256', { unique: false });
+        store.createIndex('createdAt', 'createdAt', { unique: false });
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+  });
+}
+
+/**
+ * Runs a single request in a transaction and closes the database afterwards
+ */
+async function withStore<T>(
+  mode: IDBTransactionMode,
+  action: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> {
+  const db = await openDatabase();
+  try {
+    return await new Promise<T>((resolve, reject) => {
+      const transaction = db.transaction(STORE_NAME, mode);
+      const request = action(transaction.objectStore(STORE_NAME));
+      transaction.oncomplete = () => resolve(request.result);
+      transaction.onerror = () => reject(transaction.error);
+      transaction.onabort = () => reject(transaction.error);
+    });
+  } finally {
+    db.close();
+  }
+}
+
+/**
+ * Renders a small JPEG data URL of an image (used for the history list)
+ */
+export async function createThumbnail(imageUrl: string, size: number = THUMBNAIL_SIZE): Promise<string | undefined> {
+  if (typeof document === 'undefined') return undefined;
+  try {
+    const image = new Image();
+    image.src = imageUrl;
+    await image.decode();
+    const scale = Math.min(1, size / Math.max(image.naturalWidth, image.naturalHeight));
+    const canvas = document.createElement('canvas');
+    canvas.width = Math.max(1, Math.round(image.naturalWidth * scale));
+    canvas.height = Math.max(1, Math.round(image.naturalHeight * scale));
+    const context = canvas.getContext('2d');
+    if (!context) return undefined;
+    context.drawImage(image, 0, 0, canvas.width, canvas.height);
+    return canvas.toDataURL('image/jpeg', 0.7);
+  } catch (error) {
+    console.error('History: failed to create thumbnail', error);
+    return undefined;
+  }
+}
+
+/**
+ * Builds a history entry from a completed session
+ */
+export function toHistoryEntry(
+  sessionInfo: SessionInfoResponse,
+  thumbnail?: string,
+  policy: VerdictPolicy = DEFAULT_VERDICT_POLICY
+): HistoryEntry {
+  const now = new Date().toISOString();
+  return {
+    uuid: sessionInfo.uuid,
+    sha256: sessionInfo.sha256,
+    status: sessionInfo.status,
+    createdAt: sessionInfo.created_at || now,
+    savedAt: now,
+    faces: formatAnalysisResults(sessionInfo, policy).map(result => ({
+      faceIndex: result.faceIndex,
+      verdict: result.verdict,
+      color: result.verdictBand.color,
+      realProbability: result.ensembleProbability.real,
+    })),
+    policyId: policy.id,
+    thumbnail,
+  };
+}
+
+/**
+ * Stores (or replaces) a history entry
+ */
+export async function saveHistoryEntry(entry: HistoryEntry): Promise<void> {
+  await withStore('readwrite', store => store.put(entry));
+}
+
+/**
+ * Returns all entries, newest first
+ */
+export async function listHistoryEntries(): Promise<HistoryEntry[]> {
+  const entries = await withStore<HistoryEntry[]>('readonly', store => store.getAll());
+  return entries.sort((a, b) => b.createdAt.localeCompare(a.createdAt));
+}
+
+export async function deleteHistoryEntry(uuid: string): Promise<void> {
+  await withStore('readwrite', store => store.delete(uuid));
+}
+
+export async function clearHistory(): Promise<void> {
+  await withStore('readwrite', store => store.clear());
+}
+
+/**
+ * Applies search (uuid/sha256), verdict and date filters
+ */
+export function filterHistoryEntries(entries: HistoryEntry[], filter: HistoryFilter): HistoryEntry[] {
+  const query = filter.query?.trim().toLowerCase();
+  return entries.filter(entry => {
+    if (query && !entry.uuid.toLowerCase().includes(query) && !entry.sha256?.toLowerCase().includes(query)) {
+      return false;
+    }
+    if (filter.verdict) {
+      const matches = filter.verdict === 'no faces found'
+        ? entry.faces.length === 0
+        : entry.faces.some(face => face.verdict === filter.verdict);
+      if (!matches) return false;
+    }
+    const created = new Date(entry.createdAt);
+    if (filter.from && created < filter.from) return false;
+    if (filter.to && created > filter.to) return false;
+    return true;
+  });
+}
+
+/**
+ * Saves a completed session with a thumbnail of the original image.
+ * Errors are logged, never thrown: history must not break the analysis flow.
+ */
+export async function recordAnalysis(
+  sessionInfo: SessionInfoResponse,
+  originalImageUrl?: string,
+  policy?: VerdictPolicy
+): Promise<void> {
+  try {
+    const thumbnail = originalImageUrl ? await createThumbnail(originalImageUrl) : undefined;
+    await saveHistoryEntry(toHistoryEntry(sessionInfo, thumbnail, policy));
+  } catch (error) {
+    console.error('History: failed to save analysis', error);
+  }
+}
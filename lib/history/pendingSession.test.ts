@@ -0,0 +1,40 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { clearPendingSession, getPendingSession, savePendingSession } from './pendingSession';
+
+describe('pending session', () => {
+  const store = new Map<string, string>();
+  const session = { uuid: '11111111-1111-4111-8111-111111111111', startedAt: 1000, trackingStartedAt: 2000 };
+
+  beforeEach(() => {
+    store.clear();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+        removeItem: (key: string) => store.delete(key),
+      },
+    });
+  });
+
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('survives until it is cleared', () => {
+    savePendingSession(session);
+    expect(getPendingSession(3000)).toEqual(session);
+    clearPendingSession();
+    expect(getPendingSession(3000)).toBeNull();
+  });
+
+  it('drops sessions that are too old to resume', () => {
+    savePendingSession(session);
+    expect(getPendingSession(2000 + 31 * 60 * 1000)).toBeNull();
+    expect(store.size).toBe(0);
+  });
+
+  it('ignores malformed entries', () => {
+    store.set('proofly-pending-session', '{"uuid":42}');
+    expect(getPendingSession()).toBeNull();
+  });
+});
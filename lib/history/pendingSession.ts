@@ -0,0 +1,62 @@
+// lib/history/pendingSession.ts
+
+// The session the upload form is waiting for, kept in localStorage so a reload
+// resumes tracking it instead of losing the result. Batch runs are not persisted.
+
+const STORAGE_KEY = 'proofly-pending-session';
+// Older sessions are dropped instead of resumed
+const MAX_AGE_MS = 30 * 60 * 1000;
+
+export interface PendingSession {
+  uuid: string;
+  // Start of the upload and arrival of the session UUID (ms since epoch)
+  startedAt: number;
+  trackingStartedAt: number;
+}
+
+/**
+ * Session left unfinished by a previous page load, if it is recent enough
+ */
+export function getPendingSession(now: number = Date.now()): PendingSession | null {
+  if (typeof window === 'undefined') return null;
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || 'null');
+    if (
+      !stored ||
+      typeof stored.uuid !== 'string' ||
+      typeof stored.startedAt !== 'number' ||
+      typeof stored.trackingStartedAt !== 'number'
+    ) {
+      return null;
+    }
+    if (now - stored.trackingStartedAt > MAX_AGE_MS) {
+      clearPendingSession();
+      return null;
+    }
+    return { uuid: stored.uuid, startedAt: stored.startedAt, trackingStartedAt: stored.trackingStartedAt };
+  } catch {
+    return null;
+  }
+}
+
+/**
+ * Remembers the session being tracked
+ */
+export function savePendingSession(session: PendingSession): void {
+  try {
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(session));
+  } catch (error) {
+    console.error('Pending session: failed to persist session', error);
+  }
+}
+
+/**
+ * Forgets the tracked session (finished, failed or cancelled)
+ */
+export function clearPendingSession(): void {
+  try {
+    window.localStorage.removeItem(STORAGE_KEY);
+  } catch (error) {
+    console.error('Pending session: failed to clear session', error);
+  }
+}
@@ -0,0 +1,52 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import {
+  estimateProcessingTime,
+  estimateTransferRemaining,
+  getProcessingTimes,
+  recordProcessingTime,
+} from './processingTimes';
+
+describe('estimateProcessingTime', () => {
+  it('uses the median of recorded durations', () => {
+    expect(estimateProcessingTime([])).toBeNull();
+    expect(estimateProcessingTime([4000, 60000, 5000])).toBe(5000);
+    expect(estimateProcessingTime([4000, 6000])).toBe(5000);
+  });
+});
+
+describe('estimateTransferRemaining', () => {
+  it('extrapolates the observed throughput', () => {
+    expect(estimateTransferRemaining({ loaded: 250, total: 1000 }, 1000)).toBe(3000);
+    expect(estimateTransferRemaining({ loaded: 1000, total: 1000 }, 1000)).toBe(0);
+  });
+
+  it('is unknown without a size or any progress', () => {
+    expect(estimateTransferRemaining({ loaded: 250, total: null }, 1000)).toBeNull();
+    expect(estimateTransferRemaining({ loaded: 0, total: 1000 }, 1000)).toBeNull();
+  });
+});
+
+describe('recordProcessingTime', () => {
+  afterEach(() => {
+    vi.unstubAllGlobals();
+  });
+
+  it('keeps the most recent plausible samples', () => {
+    const store = new Map<string, string>();
+    vi.stubGlobal('window', {
+      localStorage: {
+        getItem: (key: string) => store.get(key) ?? null,
+        setItem: (key: string, value: string) => store.set(key, value),
+      },
+    });
+
+    for (let i = 1; i <= 25; i++) recordProcessingTime(i * 1000);
+    recordProcessingTime(20);
+    recordProcessingTime(60 * 60 * 1000);
+
+    const samples = getProcessingTimes();
+    expect(samples).toHaveLength(20);
+    expect(samples[0]).toBe(6000);
+    expect(samples[19]).toBe(25000);
+  });
+});
@@ -0,0 +1,59 @@
+// lib/history/processingTimes.ts
+import { TransferProgress } from '../types/proofly';
+
+// How long Proofly took to process recent sessions started from this browser
+// (session UUID received -> final result), kept in localStorage for ETAs.
+
+const STORAGE_KEY = 'proofly-processing-times';
+// Most recent samples kept
+const MAX_SAMPLES = 20;
+// Durations outside this range are not representative (tab suspended, stale session)
+const MIN_SAMPLE_MS = 100;
+const MAX_SAMPLE_MS = 10 * 60 * 1000;
+
+/**
+ * Recorded processing durations in milliseconds, oldest first
+ */
+export function getProcessingTimes(): number[] {
+  if (typeof window === 'undefined') return [];
+  try {
+    const stored = JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '[]');
+    return Array.isArray(stored) ? stored.filter((value): value is number => typeof value === 'number') : [];
+  } catch {
+    return [];
+  }
+}
+
+/**
+ * Stores the processing duration of a completed session
+ */
+export function recordProcessingTime(durationMs: number): void {
+  if (durationMs < MIN_SAMPLE_MS || durationMs > MAX_SAMPLE_MS) return;
+  try {
+    const samples = [...getProcessingTimes(), Math.round(durationMs)].slice(-MAX_SAMPLES);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(samples));
+  } catch (error) {
+    console.error('Processing times: failed to record duration', error);
+  }
+}
+
+/**
+ * Expected processing time: median of the samples (robust to the odd slow
+ * session), null without history
+ */
+export function estimateProcessingTime(samples: number[]): number | null {
+  if (samples.length === 0) return null;
+  const sorted = [...samples].sort((a, b) => a - b);
+  const middle = Math.floor(sorted.length / 2);
+  return sorted.length % 2 ? sorted[middle] : (sorted[middle - 1] + sorted[middle]) / 2;
+}
+
+/**
+ * Remaining time of a transfer at the throughput observed so far; null while
+ * the size or the rate is unknown
+ */
+export function estimateTransferRemaining(progress: TransferProgress, elapsedMs: number): number | null {
+  if (!progress.total || progress.loaded <= 0 || elapsedMs <= 0) return null;
+  const remainingBytes = Math.max(0, progress.total - progress.loaded);
+  return remainingBytes / (progress.loaded / elapsedMs);
+}
@@ -0,0 +1,56 @@
+// lib/i18n/config.ts
+
+// Locales with a message catalog. The first one is the fallback for missing
+// messages and the language of signed reports and machine-readable exports.
+export const LOCALES = ['en', 'ru'] as const;
+export type Locale = typeof LOCALES[number];
+
+export const DEFAULT_LOCALE: Locale = 'en';
+
+// Cookie holding the locale picked in the switcher (read by the server too)
+export const LOCALE_COOKIE = 'proofly-locale';
+
+// Names shown in the switcher, each in its own language
+export const LOCALE_NAMES: Record<Locale, string> = {
+  en: 'English',
+  ru: 'Русский',
+};
+
+export const isLocale = (value: unknown): value is Locale =>
+  typeof value === 'string' && (LOCALES as readonly string[]).includes(value);
+
+/**
+ * Best supported locale of an Accept-Language header ("ru-RU,ru;q=0.9,en;q=0.8")
+ */
+export function matchAcceptLanguage(header: string | null | undefined): Locale | null {
+  if (!header) return null;
+  const ranges = header.split(',')
+    .map((part, index) => {
+      const [tag, ...params] = part.trim().split(';');
+      const quality = params.map(param => param.trim()).find(param => param.startsWith('q='));
+      return { tag: tag.toLowerCase(), quality: quality ? Number(quality.slice(2)) : 1, index };
+    })
+    .filter(range => range.tag && range.quality > 0)
+    // Stable for equal weights: earlier entries win
+    .sort((a, b) => b.quality - a.quality || a.index - b.index);
+
+  for (const range of ranges) {
+    const language = range.tag.split('-')[0];
+    if (isLocale(language)) return language;
+  }
+  return null;
+}
+
+/**
+ * Locale of a request: explicit choice (query parameter), then the switcher
+ * cookie, then the browser languages
+ */
+export function negotiateLocale(sources: {
+  requested?: string | null;
+  cookie?: string | null;
+  acceptLanguage?: string | null;
+}): Locale {
+  if (isLocale(sources.requested)) return sources.requested;
+  if (isLocale(sources.cookie)) return sources.cookie;
+  return matchAcceptLanguage(sources.acceptLanguage) || DEFAULT_LOCALE;
+}
@@ -0,0 +1,33 @@
+import { describe, expect, it } from 'vitest';
+import { formatDelta, formatDuration, formatFileSize, formatPercent } from './format';
+
+describe('formatPercent', () => {
+  it('formats probabilities with two decimals', () => {
+    expect(formatPercent(0.95123)).toBe('95.12%');
+    expect(formatPercent(0.5, 'ru')).toMatch(/^50,00\s%$/);
+  });
+});
+
+describe('formatDelta', () => {
+  it('formats signed percentage points', () => {
+    expect(formatDelta(0.124)).toBe('+12.40 pp');
+    expect(formatDelta(-0.05)).toBe('-5.00 pp');
+    expect(formatDelta(0.124, 'ru')).toBe('+12,40 п. п.');
+  });
+});
+
+describe('formatFileSize', () => {
+  it('uses binary multiples', () => {
+    expect(formatFileSize(512)).toBe('512 bytes');
+    expect(formatFileSize(1.5 * 1024 * 1024)).toBe('1.5 MB');
+    expect(formatFileSize(10 * 1024 * 1024, 'ru')).toMatch(/^10\sМБ$/);
+  });
+});
+
+describe('formatDuration', () => {
+  it('formats minutes and seconds', () => {
+    expect(formatDuration(7400)).toBe('0:07');
+    expect(formatDuration(750000)).toBe('12:30');
+    expect(formatDuration(-5)).toBe('0:00');
+  });
+});
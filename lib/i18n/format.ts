@@ -0,0 +1,65 @@
+// lib/i18n/format.ts
+import { DEFAULT_LOCALE, Locale } from './config';
+import { createTranslator } from './translate';
+
+// Locale-aware number, date and size formatting (Intl)
+
+/**
+ * Probability as a percentage with two decimals: "95.12%" / "95,12 %"
+ */
+export function formatPercent(value: number, locale: Locale = DEFAULT_LOCALE, fractionDigits = 2): string {
+  return new Intl.NumberFormat(locale, {
+    style: 'percent',
+    minimumFractionDigits: fractionDigits,
+    maximumFractionDigits: fractionDigits,
+  }).format(value);
+}
+
+/**
+ * Signed percentage-point difference of two probabilities: "+12.40 pp"
+ */
+export function formatDelta(value: number, locale: Locale = DEFAULT_LOCALE): string {
+  const points = value * 100;
+  const number = new Intl.NumberFormat(locale, { minimumFractionDigits: 2, maximumFractionDigits: 2 }).format(Math.abs(points));
+  return createTranslator(locale)('format.percentagePoints', { value: `${points >= 0 ? '+' : '-'}${number}` });
+}
+
+/**
+ * Date and time of day: "Jan 2, 2025, 3:04 AM" / "2 янв. 2025 г., 03:04"
+ */
+export function formatDateTime(date: Date, locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'medium', timeStyle: 'short' }).format(date);
+}
+
+/**
+ * Calendar date: "January 2, 2025" / "2 января 2025 г."
+ */
+export function formatDate(date: Date, locale: Locale = DEFAULT_LOCALE): string {
+  return new Intl.DateTimeFormat(locale, { dateStyle: 'long' }).format(date);
+}
+
+const SIZE_UNITS = ['byte', 'kilobyte', 'megabyte', 'gigabyte', 'terabyte'] as const;
+
+/**
+ * File size with a binary multiple: "1.5 MB" / "1,5 МБ"
+ */
+export function formatFileSize(bytes: number, locale: Locale = DEFAULT_LOCALE): string {
+  const exponent = bytes > 0 ? Math.min(SIZE_UNITS.length - 1, Math.floor(Math.log(bytes) / Math.log(1024))) : 0;
+  return new Intl.NumberFormat(locale, {
+    style: 'unit',
+    unit: SIZE_UNITS[exponent],
+    // "512 bytes" reads better than "512 byte"
+    unitDisplay: exponent === 0 ? 'long' : 'short',
+    maximumFractionDigits: 2,
+  }).format(bytes / Math.pow(1024, exponent));
+}
+
+/**
+ * Duration as minutes and seconds: "0:07", "12:30" (same in every locale)
+ */
+export function formatDuration(ms: number): string {
+  const totalSeconds = Math.max(0, Math.round(ms / 1000));
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  return `${minutes}:${String(seconds).padStart(2, '0')}`;
+}
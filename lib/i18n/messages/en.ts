@@ -0,0 +1,374 @@
+// lib/i18n/messages/en.ts
+
+// Messages with a count: the form is picked with Intl.PluralRules
+export interface PluralMessage {
+  zero?: string;
+  one: string;
+  two?: string;
+  few?: string;
+  many?: string;
+  other: string;
+}
+
+export type Message = string | PluralMessage;
+
+// Reference catalog: every other locale must define the same keys.
+// Placeholders are written as {name}.
+export const en = {
+  'app.title': 'Proofly Checker',
+  'app.description': 'Deepfake detection using Proofly API',
+
+  'locale.label': 'Language',
+
+  'common.cancel': 'Cancel',
+  'common.open': 'Open',
+  'common.retry': 'Retry',
+  'common.tryAgain': 'Try again',
+  'common.compare': 'Compare',
+  'common.clear': 'Clear',
+  'common.copied': 'Copied!',
+  'common.errorOccurred': 'An error occurred',
+  'common.sessionUuid': 'Session UUID: {uuid}',
+  'common.face': 'Face {index}',
+  'common.noFaces': 'No faces detected in the image',
+  'common.analysisCompleted': 'Image analysis completed',
+  'common.preparingImage': 'Preparing image...',
+  'common.sessionNotFound': 'Session not found',
+  'common.sessionLoadFailed': 'Failed to retrieve session information. Please try again later.',
+
+  'verdict.likely-real': 'Likely Real',
+  'verdict.probably-real': 'Probably Real',
+  'verdict.uncertain': 'Uncertain',
+  'verdict.probably-deepfake': 'Probably Deepfake',
+  'verdict.likely-deepfake': 'Likely Deepfake',
+
+  'policy.label': 'Verdict policy:',
+  'policy.default.name': 'Default',
+  'policy.default.description': 'Standard Proofly thresholds',
+  'policy.strict-newsroom.name': 'Strict newsroom',
+  'policy.strict-newsroom.description': 'Only very confident results count as real',
+  'policy.lenient-moderation.name': 'Lenient moderation',
+  'policy.lenient-moderation.description': 'Flags only clear manipulations',
+
+  'format.percentagePoints': '{value} pp',
+
+  'footer.madeBy': 'Made by {proofly} to defend you with {heart}. {year}',
+  'footer.freeToUse': 'Free to use: {chrome} with {x} support, {telegram} or {api} for development.',
+  'footer.chromePlugin': 'Chrome Plugin',
+  'footer.telegramBot': 'Telegram Bot',
+
+  'home.tagline': 'Upload an image for deepfake detection analysis',
+  'home.history': 'History',
+  'home.backToUpload': 'Back to upload',
+  'home.backToHistory': 'Back to history',
+  'home.backToBatch': 'Back to batch',
+  'home.cancelBatch': 'Cancel batch',
+  'home.newAnalysis': 'New analysis',
+  'home.uploadNew': 'Upload new image',
+
+  'upload.tab.file': 'File',
+  'upload.tab.url': 'URL',
+  'upload.error.tooLarge': 'Image is too large.',
+  'upload.error.tooLargeMax': 'Image is too large. The maximum size is {size}.',
+  'upload.error.empty': 'The image file is empty.',
+  'upload.error.svg': 'SVG images cannot be analyzed. Please use a photo (JPEG, PNG, WebP...).',
+  'upload.error.polyglot': 'The file contains non-image data and was rejected for security reasons.',
+  'upload.error.unsupported': 'Unsupported image format. Supported formats: JPEG, PNG, WebP, GIF, BMP, HEIC and AVIF.',
+  'upload.error.upload': 'Error uploading image. Please try again.',
+  'upload.error.url': 'Error processing URL. Please try again.',
+  'upload.error.network': 'Network error. Please check your internet connection.',
+  'upload.error.timeout': 'Server response timeout.',
+  'upload.error.urlNotFound': 'URL not found or unavailable.',
+  'upload.error.processing': 'Error: {message}',
+  'upload.error.preprocess': 'Image preprocessing failed',
+  'upload.batchLimit': {
+    one: 'Only the first {count} file will be analyzed',
+    other: 'Only the first {count} files will be analyzed',
+  },
+  'upload.toast.uploaded': 'Image uploaded successfully',
+  'upload.toast.uploadFailed': 'Error uploading image',
+  'upload.toast.urlSubmitted': 'URL successfully submitted for analysis',
+  'upload.toast.cached': 'This image was analyzed before, showing the saved result',
+  'upload.forceReanalysis': 'Force re-analysis',
+  'upload.forceReanalysisHint': 'Analyze again even if this image was analyzed before',
+  'upload.toast.urlFailed': 'Error processing URL',
+  'upload.toast.processingFailed': 'Error processing image',
+  'upload.toast.cancelled': 'Analysis cancelled',
+  'upload.preview': 'Preview',
+  'upload.removeFile': 'Remove file',
+  'upload.batchSelected': {
+    one: '{count} image selected for batch analysis',
+    other: '{count} images selected for batch analysis',
+  },
+  'upload.filePreview': 'File preview',
+  'upload.displayMode.compact': 'Compact',
+  'upload.displayMode.thumbnail': 'Thumbnail',
+  'upload.displayMode.card': 'Card',
+  'upload.displayMode.minimal': 'Minimal',
+  'upload.dropSingle': 'Drag and drop an image here or click to select',
+  'upload.dropMultiple': 'Drag and drop one or more images here or click to select',
+  'upload.urlPlaceholder': 'Enter image URL for analysis',
+  'upload.urlPlaceholderBatch': 'Enter image URL for analysis (one per line for batch analysis)',
+  'upload.clearUrl': 'Clear URL',
+  'upload.processing': 'Processing...',
+  'upload.submit': 'Submit for analysis',
+  'upload.submitBatch': 'Submit batch for analysis',
+
+  'uploader.fileTooLarge': 'File size exceeds {size}',
+  'uploader.notImage': 'Please select an image file',
+  'uploader.noFile': 'Please select a file to upload',
+  'uploader.dropToUpload': 'Drop to upload',
+  'uploader.dropAnother': 'Drag another image here or click to select',
+  'uploader.uploading': 'Uploading...',
+  'uploader.fullSizePreview': 'Full-size preview',
+
+  'progress.stage.upload': 'Uploading image',
+  'progress.stage.download': 'Server is downloading the image',
+  'progress.stage.forward': 'Sending to Proofly',
+  'progress.stage.queued': 'Waiting for Proofly',
+  'progress.stage.analyzing': 'Analyzing faces',
+  'progress.transferred': '{loaded} of {total}',
+  'progress.transferredUnknown': '{loaded} so far',
+  'progress.elapsed': 'Elapsed {time}',
+  'progress.eta': 'about {time} left',
+  'progress.overdue': 'taking longer than usual',
+  'progress.noHistory': 'no timing history yet',
+  'progress.degraded': 'Proofly service degraded, retrying...',
+
+  'preprocess.step.orientation': 'rotated',
+  'preprocess.step.resize': 'downscaled',
+  'preprocess.step.convert': 'converted',
+  'preprocess.untouched': 'Send untouched original',
+  'preprocess.untouchedHint': 'Skips orientation, downscaling and conversion so the analysis sees the exact uploaded bytes',
+  'preprocess.maxSize': 'Max size:',
+  'preprocess.failed': '{error}. The original will be sent.',
+  'preprocess.noChanges': 'No changes needed, the original will be sent ({image})',
+
+  'results.title': 'Analysis Results',
+  'results.description': 'Details of the deepfake detection analysis',
+  'results.errorTitle': 'Analysis Error',
+  'results.information': 'Information',
+  'results.link': 'Link',
+  'results.linkCopied': 'Link to this analysis copied',
+  'results.originalImage': 'Original Image',
+  'results.pdf': 'PDF',
+  'results.pdf.creating': 'Creating PDF...',
+  'results.pdf.generating': 'Generating PDF report...',
+  'results.pdf.created': 'PDF report successfully created',
+  'results.pdf.error': 'Error creating PDF: {error}',
+  'results.export': 'Export',
+  'results.export.exporting': 'Exporting {format}...',
+  'results.export.json': 'JSON (full results)',
+  'results.export.csv': 'CSV (per face & model)',
+  'results.export.html': 'HTML report',
+  'results.export.created': '{format} export created',
+  'results.export.error': 'Error creating {format} export: {error}',
+  'results.metadataTab': 'Metadata',
+  'results.sha256': 'SHA256 hash: {hash}',
+  'results.copyUuid': 'Copy UUID',
+  'results.copySha256': 'Copy SHA256',
+  'results.warning': 'Warning',
+  'results.faceImageFailed': 'Failed to load face image',
+  'results.verdict': 'Verdict',
+  'results.realProbability': 'Real Image Probability',
+  'results.fakeProbability': 'Deepfake Probability',
+  'results.ensembleConfidence': 'Ensemble model confidence',
+  'results.localEnsemble': 'Locally weighted ensemble (real):',
+  'results.modelResults': 'Individual Model Results',
+  'results.notWeighted': '(not weighted)',
+  'results.scoreSource': 'API field: {field}',
+  'results.cached': 'Previously analyzed on {date}',
+  'results.cachedHint': 'The same image was analyzed before, so the saved result is shown.',
+  'results.reanalyze': 'Re-analyze',
+  'results.reanalyzing': 'Uploading...',
+  'results.reanalyzeFailed': 'Failed to start re-analysis',
+  'results.notReported': 'Not reported',
+
+  'overlay.imageAlt': 'Original image with detected faces',
+  'overlay.faceVerdict': 'Face {index}: {verdict}',
+  'overlay.locating': 'Locating faces in the original image...',
+  'overlay.estimated': 'Dashed boxes are estimated by matching the face crops; the API did not report positions.',
+  'overlay.unlocated': 'Could not locate {faces}.',
+  'overlay.zoomIn': 'Zoom in',
+  'overlay.zoomOut': 'Zoom out',
+  'overlay.resetZoom': 'Reset zoom',
+
+  'metadata.unavailable': 'Metadata is not available for this image',
+  'metadata.source.upload': 'Read from the file uploaded in this browser.',
+  'metadata.source.stored': 'Read from the copy stored by Proofly. It may have been re-encoded, so missing metadata is not conclusive.',
+  'metadata.section.exif': 'EXIF',
+  'metadata.section.xmp': 'XMP',
+  'metadata.section.iptc': 'IPTC',
+  'metadata.section.c2pa': 'Content Credentials (C2PA)',
+  'metadata.section.text': 'Embedded text',
+  'metadata.flag.metadata-stripped': 'No metadata found. It may have been stripped by an editor, messenger or social network',
+  'metadata.flag.ai-source-type': 'Declared as AI-generated media ({sourceType})',
+  'metadata.flag.ai-generator': 'AI generator marker: {software}',
+  'metadata.flag.generation-parameters': 'Image generation parameters embedded ("{key}")',
+  'metadata.flag.editing-software': 'Processed with editing software: {software}',
+  'metadata.flag.modified-after-capture': 'Modified after capture (captured {captured}, modified {modified})',
+  'metadata.flag.no-camera-info': 'No camera make or model recorded',
+  'metadata.flag.content-credentials': 'Content Credentials present (signature not verified)',
+  'metadata.flag.content-credentials-signed': 'Content Credentials present, signed by {signer} (signature not verified)',
+  'metadata.severity.critical': 'CRITICAL',
+  'metadata.severity.warning': 'WARNING',
+  'metadata.severity.info': 'INFO',
+
+  'history.title': 'Analysis History',
+  'history.description': 'Completed analyses saved in this browser',
+  'history.loadFailed': 'Could not load analysis history',
+  'history.openFailed': 'Could not load this analysis. It may have expired on the server.',
+  'history.deleteFailed': 'Could not delete history entry',
+  'history.clearConfirm': 'Delete all saved analyses from this browser?',
+  'history.clearFailed': 'Could not clear history',
+  'history.clearAll': 'Clear all',
+  'history.compareSelected': 'Compare ({count})',
+  'history.compareHint': 'Tick two or more analyses to compare them',
+  'history.search': 'Search by UUID or SHA256',
+  'history.filterVerdict': 'Filter by verdict',
+  'history.allVerdicts': 'All verdicts',
+  'history.noFaces': 'No faces found',
+  'history.fromDate': 'From date',
+  'history.toDate': 'To date',
+  'history.empty': 'No analyses saved yet',
+  'history.noMatches': 'No analyses match the filters',
+  'history.selectForCompare': 'Select {uuid} for comparison',
+  'history.deleteEntry': 'Delete entry',
+
+  'batch.title': 'Batch Analysis',
+  'batch.progress': {
+    one: '{finished} of {count} image processed',
+    other: '{finished} of {count} images processed',
+  },
+  'batch.compareFirst': 'Compares the first {count} images',
+  'batch.faces': {
+    one: '({count} face)',
+    other: '({count} faces)',
+  },
+  'batch.column.image': 'Image',
+  'batch.column.status': 'Status',
+  'batch.column.verdict': 'Verdict',
+  'batch.column.actions': 'Actions',
+  'batch.status.queued': 'Queued',
+  'batch.status.uploading': 'Uploading',
+  'batch.status.processing': 'Processing',
+  'batch.status.completed': 'Completed',
+  'batch.status.noFaces': 'No faces',
+  'batch.status.failed': 'Failed',
+
+  'compare.pageTitle': 'Compare Analyses - Proofly Checker',
+  'compare.pageDescription': 'Side-by-side comparison of deepfake detection results',
+  'compare.title': 'Compare Sessions',
+  'compare.description': 'Compare up to {count} analyses side by side, e.g. a suspected deepfake and a known-authentic photo of the same person.',
+  'compare.inputPlaceholder': 'Session UUIDs, separated by commas',
+  'compare.inputLabel': 'Session UUIDs',
+  'compare.notUuid': 'Not a session UUID: {ids}',
+  'compare.needTwo': 'Enter at least two session UUIDs',
+  'compare.invalidIds': 'Ignored invalid session IDs: {ids}',
+  'compare.session': 'Session {label}',
+  'compare.removeSession': 'Remove session {label}',
+  'compare.reference': 'Reference',
+  'compare.setReference': 'Set as reference',
+  'compare.noFaces': 'No faces detected in the compared images',
+  'compare.faceOfSession': 'Face {index} of session {label}',
+  'compare.noFace': 'No face {index}',
+  'compare.realProbability': 'Real probability',
+  'compare.deltaHint': 'Deltas: real probability minus session {label}, in percentage points.',
+  'compare.pdf.generating': 'Generating comparison PDF...',
+  'compare.pdf.created': 'Comparison PDF created',
+  'compare.exportPdf': 'Export PDF',
+
+  'verify.pageTitle': 'Verify a Report - Proofly Checker',
+  'verify.pageDescription': 'Check the signature of a Proofly PDF report',
+  'verify.title': 'Verify a Report',
+  'verify.description': 'Check that a Proofly PDF report was issued by this service and has not been altered',
+  'verify.placeholder': 'Paste the report ID',
+  'verify.submit': 'Verify',
+  'verify.or': 'or',
+  'verify.uploadPdf': 'Upload the PDF',
+  'verify.failed': 'Failed to verify report',
+  'verify.couldNotVerify': 'Could not verify',
+  'verify.status.valid': 'Report verified',
+  'verify.status.outdated': 'Authentic but outdated',
+  'verify.status.invalid': 'Verification failed',
+  'verify.session': 'Session',
+  'verify.issued': 'Issued',
+  'verify.policy': 'Verdict policy',
+  'verify.faceResult': '{verdict} ({real} real)',
+
+  'session.pageTitle': 'Analysis {uuid} - Proofly Checker',
+  'session.pageDescription': 'Deepfake detection results from Proofly API',
+  'session.analyzeAnother': 'Analyze another image',
+  'session.failedTitle': 'Analysis Failed',
+  'session.processingFailed': 'Image processing failed',
+  'session.processingFailedHint': 'The Proofly API could not process this image. Try uploading it again.',
+  'session.inProgress': 'Analysis in Progress',
+  'session.trackingFailed': 'Could not follow the analysis',
+  'session.processing': 'Processing data... ({status})',
+
+  'errors.network': 'Could not connect to server. Please check your internet connection and try again.',
+  'errors.timeout': 'Server response timeout. Please try again later.',
+  'errors.unavailable': 'Server is currently unavailable. Please try again later.',
+  'errors.tooLarge': 'The uploaded file is too large. Please reduce the file size and try again.',
+  'errors.unsupported': 'File format is not supported. Please use images in JPEG, PNG or WebP format.',
+  'errors.analysis': 'An error occurred while analyzing the image. Try uploading a different image.',
+  'errors.retrying': 'Retrying...',
+
+  'pdf.title': 'Proofly Analysis Report - {uuid}',
+  'pdf.heading': 'ANALYSIS REPORT',
+  'pdf.subheading': 'Deepfake Detection Analysis Results',
+  'pdf.generatedOn': 'Report generated on: {date}',
+  'pdf.sessionDetails': 'SESSION DETAILS',
+  'pdf.sessionUuid': 'Session UUID:',
+  'pdf.sha256': 'SHA256 Hash:',
+  'pdf.policy': 'Verdict Policy:',
+  'pdf.reportId': 'Report ID:',
+  'pdf.faceDetails': 'FACE ANALYSIS DETAILS',
+  'pdf.noFaces': 'No faces detected in the image.',
+  'pdf.face': 'Face {index}:',
+  'pdf.faceImageError': 'Error adding face image',
+  'pdf.faceImageFailed': 'Failed to load face image',
+  'pdf.verdict': 'Verdict:',
+  'pdf.realProbability': 'Real Probability:',
+  'pdf.fakeProbability': 'Deepfake Probability:',
+  'pdf.weightedEnsemble': 'Weighted Ensemble:',
+  'pdf.modelScores': 'Individual Model Scores:',
+  'pdf.notReported': 'not reported',
+  'pdf.metadata': 'IMAGE METADATA & PROVENANCE',
+  'pdf.verification': 'REPORT VERIFICATION',
+  'pdf.verificationText': 'This report is signed by the issuing server. Scan the QR code or open the address below to check that it has not been altered and still matches the analysis data.',
+  'pdf.footer': 'Proofly AI, 2025 - All Rights Reserved - www.proofly.ai',
+  'pdf.page': 'Page {page} of {count}',
+  'pdf.compare.title': 'Proofly Comparison Report',
+  'pdf.compare.heading': 'COMPARISON REPORT',
+  'pdf.compare.generated': 'Generated on {date} - Verdict policy: {policy}',
+  'pdf.compare.deltaNote': 'Deltas are real probability differences with session {label} in percentage points (pp).',
+  'pdf.compare.referenceSession': 'Session {label} (reference)',
+  'pdf.compare.status': 'Status',
+  'pdf.compare.noFaces': 'No faces detected in the compared images.',
+  'pdf.compare.realEnsemble': 'Real probability (ensemble)',
+  'pdf.compare.face': 'Face {index}',
+  'pdf.compare.verdict': 'Verdict',
+
+  'html.heading': 'Analysis Report',
+  'html.face': 'Face {index}',
+  'html.subheading': 'Deepfake detection analysis results - generated {date}',
+  'html.sessionDetails': 'Session Details',
+  'html.sessionUuid': 'Session UUID',
+  'html.sha256': 'SHA256 hash',
+  'html.status': 'Status',
+  'html.created': 'Created',
+  'html.processed': 'Processed',
+  'html.policy': 'Verdict policy',
+  'html.reportId': 'Report ID',
+  'html.verifyAt': 'Verify this report at {url}',
+  'html.faceDetails': 'Face Analysis Details',
+  'html.realProbability': 'Real probability',
+  'html.fakeProbability': 'Deepfake probability',
+  'html.weightedEnsemble': 'Weighted ensemble',
+  'html.model': 'Model',
+  'html.metadata': 'Image Metadata & Provenance',
+} satisfies Record<string, Message>;
+
+export type MessageKey = keyof typeof en;
+export type MessageCatalog = Record<MessageKey, Message>;
@@ -0,0 +1,364 @@
+// lib/i18n/messages/ru.ts
+import { MessageCatalog } from './en';
+
+export const ru: MessageCatalog = {
+  'app.title': 'Proofly Checker',
+  'app.description': 'Распознавание дипфейков с помощью Proofly API',
+
+  'locale.label': 'Язык',
+
+  'common.cancel': 'Отмена',
+  'common.open': 'Открыть',
+  'common.retry': 'Повторить',
+  'common.tryAgain': 'Попробовать снова',
+  'common.compare': 'Сравнить',
+  'common.clear': 'Очистить',
+  'common.copied': 'Скопировано!',
+  'common.errorOccurred': 'Произошла ошибка',
+  'common.sessionUuid': 'UUID сессии: {uuid}',
+  'common.face': 'Лицо {index}',
+  'common.noFaces': 'На изображении не найдено лиц',
+  'common.analysisCompleted': 'Анализ изображения завершён',
+  'common.preparingImage': 'Подготовка изображения...',
+  'common.sessionNotFound': 'Сессия не найдена',
+  'common.sessionLoadFailed': 'Не удалось получить информацию о сессии. Попробуйте позже.',
+
+  'verdict.likely-real': 'Скорее всего подлинное',
+  'verdict.probably-real': 'Вероятно подлинное',
+  'verdict.uncertain': 'Неопределённо',
+  'verdict.probably-deepfake': 'Вероятно дипфейк',
+  'verdict.likely-deepfake': 'Скорее всего дипфейк',
+
+  'policy.label': 'Политика вердиктов:',
+  'policy.default.name': 'По умолчанию',
+  'policy.default.description': 'Стандартные пороги Proofly',
+  'policy.strict-newsroom.name': 'Строгая (редакция)',
+  'policy.strict-newsroom.description': 'Подлинными считаются только очень уверенные результаты',
+  'policy.lenient-moderation.name': 'Мягкая (модерация)',
+  'policy.lenient-moderation.description': 'Отмечает только явные манипуляции',
+
+  'format.percentagePoints': '{value} п. п.',
+
+  'footer.madeBy': 'Сделано {proofly}, чтобы защищать вас с {heart}. {year}',
+  'footer.freeToUse': 'Бесплатно: {chrome} с поддержкой {x}, {telegram} или {api} для разработчиков.',
+  'footer.chromePlugin': 'плагин для Chrome',
+  'footer.telegramBot': 'Telegram-бот',
+
+  'home.tagline': 'Загрузите изображение, чтобы проверить его на дипфейк',
+  'home.history': 'История',
+  'home.backToUpload': 'К загрузке',
+  'home.backToHistory': 'К истории',
+  'home.backToBatch': 'К пакету',
+  'home.cancelBatch': 'Отменить пакет',
+  'home.newAnalysis': 'Новый анализ',
+  'home.uploadNew': 'Загрузить новое изображение',
+
+  'upload.tab.file': 'Файл',
+  'upload.tab.url': 'URL',
+  'upload.error.tooLarge': 'Изображение слишком большое.',
+  'upload.error.tooLargeMax': 'Изображение слишком большое. Максимальный размер: {size}.',
+  'upload.error.empty': 'Файл изображения пуст.',
+  'upload.error.svg': 'Изображения SVG не анализируются. Используйте фотографию (JPEG, PNG, WebP...).',
+  'upload.error.polyglot': 'Файл содержит данные, не относящиеся к изображению, и отклонён из соображений безопасности.',
+  'upload.error.unsupported': 'Неподдерживаемый формат изображения. Поддерживаются JPEG, PNG, WebP, GIF, BMP, HEIC и AVIF.',
+  'upload.error.upload': 'Ошибка загрузки изображения. Попробуйте ещё раз.',
+  'upload.error.url': 'Ошибка обработки URL. Попробуйте ещё раз.',
+  'upload.error.network': 'Ошибка сети. Проверьте подключение к интернету.',
+  'upload.error.timeout': 'Сервер не ответил вовремя.',
+  'upload.error.urlNotFound': 'URL не найден или недоступен.',
+  'upload.error.processing': 'Ошибка: {message}',
+  'upload.error.preprocess': 'Не удалось подготовить изображение',
+  'upload.batchLimit': {
+    one: 'Будет проанализирован только первый {count} файл',
+    few: 'Будут проанализированы только первые {count} файла',
+    many: 'Будут проанализированы только первые {count} файлов',
+    other: 'Будут проанализированы только первые {count} файла',
+  },
+  'upload.toast.uploaded': 'Изображение загружено',
+  'upload.toast.uploadFailed': 'Ошибка загрузки изображения',
+  'upload.toast.urlSubmitted': 'URL отправлен на анализ',
+  'upload.toast.cached': 'Это изображение уже анализировалось, показан сохранённый результат',
+  'upload.forceReanalysis': 'Проанализировать заново',
+  'upload.forceReanalysisHint': 'Запустить анализ, даже если это изображение уже анализировалось',
+  'upload.toast.urlFailed': 'Ошибка обработки URL',
+  'upload.toast.processingFailed': 'Ошибка обработки изображения',
+  'upload.toast.cancelled': 'Анализ отменён',
+  'upload.preview': 'Предпросмотр',
+  'upload.removeFile': 'Удалить файл',
+  'upload.batchSelected': {
+    one: 'Для пакетного анализа выбрано {count} изображение',
+    few: 'Для пакетного анализа выбрано {count} изображения',
+    many: 'Для пакетного анализа выбрано {count} изображений',
+    other: 'Для пакетного анализа выбрано {count} изображения',
+  },
+  'upload.filePreview': 'Предпросмотр файла',
+  'upload.displayMode.compact': 'Компактно',
+  'upload.displayMode.thumbnail': 'Миниатюра',
+  'upload.displayMode.card': 'Карточка',
+  'upload.displayMode.minimal': 'Минимально',
+  'upload.dropSingle': 'Перетащите изображение сюда или нажмите для выбора',
+  'upload.dropMultiple': 'Перетащите одно или несколько изображений сюда или нажмите для выбора',
+  'upload.urlPlaceholder': 'Введите URL изображения для анализа',
+  'upload.urlPlaceholderBatch': 'Введите URL изображения для анализа (по одному на строку для пакетного анализа)',
+  'upload.clearUrl': 'Очистить URL',
+  'upload.processing': 'Обработка...',
+  'upload.submit': 'Отправить на анализ',
+  'upload.submitBatch': 'Отправить пакет на анализ',
+
+  'uploader.fileTooLarge': 'Размер файла превышает {size}',
+  'uploader.notImage': 'Выберите файл изображения',
+  'uploader.noFile': 'Выберите файл для загрузки',
+  'uploader.dropToUpload': 'Отпустите для загрузки',
+  'uploader.dropAnother': 'Перетащите другое изображение или нажмите для выбора',
+  'uploader.uploading': 'Загрузка...',
+  'uploader.fullSizePreview': 'Предпросмотр в полном размере',
+
+  'progress.stage.upload': 'Загрузка изображения',
+  'progress.stage.download': 'Сервер скачивает изображение',
+  'progress.stage.forward': 'Отправка в Proofly',
+  'progress.stage.queued': 'Ожидание Proofly',
+  'progress.stage.analyzing': 'Анализ лиц',
+  'progress.transferred': '{loaded} из {total}',
+  'progress.transferredUnknown': 'получено {loaded}',
+  'progress.elapsed': 'Прошло {time}',
+  'progress.eta': 'осталось около {time}',
+  'progress.overdue': 'дольше обычного',
+  'progress.noHistory': 'пока нет истории замеров',
+  'progress.degraded': 'Сервис Proofly работает с перебоями, повторяем запросы...',
+
+  'preprocess.step.orientation': 'повёрнуто',
+  'preprocess.step.resize': 'уменьшено',
+  'preprocess.step.convert': 'сконвертировано',
+  'preprocess.untouched': 'Отправить оригинал без изменений',
+  'preprocess.untouchedHint': 'Без поворота, уменьшения и конвертации: анализ получит ровно загруженные байты',
+  'preprocess.maxSize': 'Макс. размер:',
+  'preprocess.failed': '{error}. Будет отправлен оригинал.',
+  'preprocess.noChanges': 'Изменения не нужны, будет отправлен оригинал ({image})',
+
+  'results.title': 'Результаты анализа',
+  'results.description': 'Подробности проверки на дипфейк',
+  'results.errorTitle': 'Ошибка анализа',
+  'results.information': 'Информация',
+  'results.link': 'Ссылка',
+  'results.linkCopied': 'Ссылка на этот анализ скопирована',
+  'results.originalImage': 'Оригинал',
+  'results.pdf': 'PDF',
+  'results.pdf.creating': 'Создание PDF...',
+  'results.pdf.generating': 'Формирование PDF-отчёта...',
+  'results.pdf.created': 'PDF-отчёт создан',
+  'results.pdf.error': 'Ошибка создания PDF: {error}',
+  'results.export': 'Экспорт',
+  'results.export.exporting': 'Экспорт {format}...',
+  'results.export.json': 'JSON (все результаты)',
+  'results.export.csv': 'CSV (по лицам и моделям)',
+  'results.export.html': 'HTML-отчёт',
+  'results.export.created': 'Экспорт {format} создан',
+  'results.export.error': 'Ошибка экспорта {format}: {error}',
+  'results.metadataTab': 'Метаданные',
+  'results.sha256': 'Хеш SHA256: {hash}',
+  'results.copyUuid': 'Копировать UUID',
+  'results.copySha256': 'Копировать SHA256',
+  'results.warning': 'Внимание',
+  'results.faceImageFailed': 'Не удалось загрузить изображение лица',
+  'results.verdict': 'Вердикт',
+  'results.realProbability': 'Вероятность подлинности',
+  'results.fakeProbability': 'Вероятность дипфейка',
+  'results.ensembleConfidence': 'Уверенность ансамбля моделей',
+  'results.localEnsemble': 'Локально взвешенный ансамбль (подлинность):',
+  'results.modelResults': 'Результаты отдельных моделей',
+  'results.notWeighted': '(без веса)',
+  'results.scoreSource': 'Поле API: {field}',
+  'results.cached': 'Ранее проанализировано {date}',
+  'results.cachedHint': 'Это изображение уже анализировалось, поэтому показан сохранённый результат.',
+  'results.reanalyze': 'Проанализировать заново',
+  'results.reanalyzing': 'Загрузка...',
+  'results.reanalyzeFailed': 'Не удалось запустить повторный анализ',
+  'results.notReported': 'Нет данных',
+
+  'overlay.imageAlt': 'Оригинальное изображение с найденными лицами',
+  'overlay.faceVerdict': 'Лицо {index}: {verdict}',
+  'overlay.locating': 'Поиск лиц на оригинальном изображении...',
+  'overlay.estimated': 'Пунктирные рамки найдены сопоставлением с фрагментами лиц: API не сообщил их положение.',
+  'overlay.unlocated': 'Не удалось найти: {faces}.',
+  'overlay.zoomIn': 'Увеличить',
+  'overlay.zoomOut': 'Уменьшить',
+  'overlay.resetZoom': 'Сбросить масштаб',
+
+  'metadata.unavailable': 'Метаданные для этого изображения недоступны',
+  'metadata.source.upload': 'Прочитано из файла, загруженного в этом браузере.',
+  'metadata.source.stored': 'Прочитано из копии, сохранённой Proofly. Она могла быть перекодирована, поэтому отсутствие метаданных ничего не доказывает.',
+  'metadata.section.exif': 'EXIF',
+  'metadata.section.xmp': 'XMP',
+  'metadata.section.iptc': 'IPTC',
+  'metadata.section.c2pa': 'Учётные данные контента (C2PA)',
+  'metadata.section.text': 'Встроенный текст',
+  'metadata.flag.metadata-stripped': 'Метаданные не найдены. Их мог удалить редактор, мессенджер или социальная сеть',
+  'metadata.flag.ai-source-type': 'Помечено как созданное ИИ ({sourceType})',
+  'metadata.flag.ai-generator': 'Признак генератора ИИ: {software}',
+  'metadata.flag.generation-parameters': 'Встроены параметры генерации изображения ("{key}")',
+  'metadata.flag.editing-software': 'Обработано в редакторе: {software}',
+  'metadata.flag.modified-after-capture': 'Изменено после съёмки (снято {captured}, изменено {modified})',
+  'metadata.flag.no-camera-info': 'Производитель и модель камеры не указаны',
+  'metadata.flag.content-credentials': 'Есть учётные данные контента (подпись не проверялась)',
+  'metadata.flag.content-credentials-signed': 'Есть учётные данные контента, подписаны {signer} (подпись не проверялась)',
+  'metadata.severity.critical': 'КРИТИЧНО',
+  'metadata.severity.warning': 'ВНИМАНИЕ',
+  'metadata.severity.info': 'ИНФО',
+
+  'history.title': 'История анализов',
+  'history.description': 'Завершённые анализы, сохранённые в этом браузере',
+  'history.loadFailed': 'Не удалось загрузить историю анализов',
+  'history.openFailed': 'Не удалось загрузить этот анализ. Возможно, он удалён с сервера.',
+  'history.deleteFailed': 'Не удалось удалить запись истории',
+  'history.clearConfirm': 'Удалить все сохранённые в этом браузере анализы?',
+  'history.clearFailed': 'Не удалось очистить историю',
+  'history.clearAll': 'Очистить всё',
+  'history.compareSelected': 'Сравнить ({count})',
+  'history.compareHint': 'Отметьте два или более анализа, чтобы сравнить их',
+  'history.search': 'Поиск по UUID или SHA256',
+  'history.filterVerdict': 'Фильтр по вердикту',
+  'history.allVerdicts': 'Все вердикты',
+  'history.noFaces': 'Лица не найдены',
+  'history.fromDate': 'С даты',
+  'history.toDate': 'По дату',
+  'history.empty': 'Сохранённых анализов пока нет',
+  'history.noMatches': 'Нет анализов, подходящих под фильтры',
+  'history.selectForCompare': 'Выбрать {uuid} для сравнения',
+  'history.deleteEntry': 'Удалить запись',
+
+  'batch.title': 'Пакетный анализ',
+  'batch.progress': {
+    one: 'Обработано {finished} из {count} изображения',
+    other: 'Обработано {finished} из {count} изображений',
+  },
+  'batch.compareFirst': 'Сравниваются первые {count} изображений',
+  'batch.faces': {
+    one: '({count} лицо)',
+    few: '({count} лица)',
+    many: '({count} лиц)',
+    other: '({count} лица)',
+  },
+  'batch.column.image': 'Изображение',
+  'batch.column.status': 'Статус',
+  'batch.column.verdict': 'Вердикт',
+  'batch.column.actions': 'Действия',
+  'batch.status.queued': 'В очереди',
+  'batch.status.uploading': 'Загрузка',
+  'batch.status.processing': 'Обработка',
+  'batch.status.completed': 'Готово',
+  'batch.status.noFaces': 'Нет лиц',
+  'batch.status.failed': 'Ошибка',
+
+  'compare.pageTitle': 'Сравнение анализов - Proofly Checker',
+  'compare.pageDescription': 'Сравнение результатов проверки на дипфейк',
+  'compare.title': 'Сравнение сессий',
+  'compare.description': 'Сравните до {count} анализов рядом, например предполагаемый дипфейк и заведомо подлинное фото того же человека.',
+  'compare.inputPlaceholder': 'UUID сессий через запятую',
+  'compare.inputLabel': 'UUID сессий',
+  'compare.notUuid': 'Не UUID сессии: {ids}',
+  'compare.needTwo': 'Введите как минимум два UUID сессий',
+  'compare.invalidIds': 'Пропущены некорректные ID сессий: {ids}',
+  'compare.session': 'Сессия {label}',
+  'compare.removeSession': 'Убрать сессию {label}',
+  'compare.reference': 'Эталон',
+  'compare.setReference': 'Сделать эталоном',
+  'compare.noFaces': 'На сравниваемых изображениях не найдено лиц',
+  'compare.faceOfSession': 'Лицо {index} из сессии {label}',
+  'compare.noFace': 'Нет лица {index}',
+  'compare.realProbability': 'Вероятность подлинности',
+  'compare.deltaHint': 'Разница: вероятность подлинности минус значение сессии {label}, в процентных пунктах.',
+  'compare.pdf.generating': 'Формирование PDF сравнения...',
+  'compare.pdf.created': 'PDF сравнения создан',
+  'compare.exportPdf': 'Экспорт в PDF',
+
+  'verify.pageTitle': 'Проверка отчёта - Proofly Checker',
+  'verify.pageDescription': 'Проверка подписи PDF-отчёта Proofly',
+  'verify.title': 'Проверка отчёта',
+  'verify.description': 'Убедитесь, что PDF-отчёт Proofly выпущен этим сервисом и не был изменён',
+  'verify.placeholder': 'Вставьте ID отчёта',
+  'verify.submit': 'Проверить',
+  'verify.or': 'или',
+  'verify.uploadPdf': 'Загрузите PDF',
+  'verify.failed': 'Не удалось проверить отчёт',
+  'verify.couldNotVerify': 'Проверка не выполнена',
+  'verify.status.valid': 'Отчёт подтверждён',
+  'verify.status.outdated': 'Подлинный, но устаревший',
+  'verify.status.invalid': 'Проверка не пройдена',
+  'verify.session': 'Сессия',
+  'verify.issued': 'Выпущен',
+  'verify.policy': 'Политика вердиктов',
+  'verify.faceResult': '{verdict} ({real} подлинность)',
+
+  'session.pageTitle': 'Анализ {uuid} - Proofly Checker',
+  'session.pageDescription': 'Результаты проверки на дипфейк от Proofly API',
+  'session.analyzeAnother': 'Проверить другое изображение',
+  'session.failedTitle': 'Анализ не удался',
+  'session.processingFailed': 'Не удалось обработать изображение',
+  'session.processingFailedHint': 'Proofly API не смог обработать это изображение. Попробуйте загрузить его снова.',
+  'session.inProgress': 'Идёт анализ',
+  'session.trackingFailed': 'Не удалось отследить анализ',
+  'session.processing': 'Обработка данных... ({status})',
+
+  'errors.network': 'Не удалось подключиться к серверу. Проверьте подключение к интернету и попробуйте снова.',
+  'errors.timeout': 'Сервер не ответил вовремя. Попробуйте позже.',
+  'errors.unavailable': 'Сервер сейчас недоступен. Попробуйте позже.',
+  'errors.tooLarge': 'Загруженный файл слишком большой. Уменьшите размер файла и попробуйте снова.',
+  'errors.unsupported': 'Формат файла не поддерживается. Используйте изображения JPEG, PNG или WebP.',
+  'errors.analysis': 'При анализе изображения произошла ошибка. Попробуйте загрузить другое изображение.',
+  'errors.retrying': 'Повтор...',
+
+  'pdf.title': 'Отчёт об анализе Proofly - {uuid}',
+  'pdf.heading': 'ОТЧЁТ ОБ АНАЛИЗЕ',
+  'pdf.subheading': 'Результаты проверки на дипфейк',
+  'pdf.generatedOn': 'Отчёт сформирован: {date}',
+  'pdf.sessionDetails': 'СВЕДЕНИЯ О СЕССИИ',
+  'pdf.sessionUuid': 'UUID сессии:',
+  'pdf.sha256': 'Хеш SHA256:',
+  'pdf.policy': 'Политика вердиктов:',
+  'pdf.reportId': 'ID отчёта:',
+  'pdf.faceDetails': 'АНАЛИЗ ЛИЦ',
+  'pdf.noFaces': 'На изображении не найдено лиц.',
+  'pdf.face': 'Лицо {index}:',
+  'pdf.faceImageError': 'Ошибка добавления изображения лица',
+  'pdf.faceImageFailed': 'Не удалось загрузить изображение лица',
+  'pdf.verdict': 'Вердикт:',
+  'pdf.realProbability': 'Подлинность:',
+  'pdf.fakeProbability': 'Дипфейк:',
+  'pdf.weightedEnsemble': 'Взвеш. ансамбль:',
+  'pdf.modelScores': 'Оценки отдельных моделей:',
+  'pdf.notReported': 'нет данных',
+  'pdf.metadata': 'МЕТАДАННЫЕ И ПРОИСХОЖДЕНИЕ',
+  'pdf.verification': 'ПРОВЕРКА ОТЧЁТА',
+  'pdf.verificationText': 'Отчёт подписан выпустившим его сервером. Отсканируйте QR-код или откройте адрес ниже, чтобы убедиться, что он не изменён и соответствует данным анализа.',
+  'pdf.footer': 'Proofly AI, 2025 - Все права защищены - www.proofly.ai',
+  'pdf.page': 'Страница {page} из {count}',
+  'pdf.compare.title': 'Отчёт о сравнении Proofly',
+  'pdf.compare.heading': 'ОТЧЁТ О СРАВНЕНИИ',
+  'pdf.compare.generated': 'Сформирован {date} - Политика вердиктов: {policy}',
+  'pdf.compare.deltaNote': 'Разница - отличие вероятности подлинности от сессии {label} в процентных пунктах (п. п.).',
+  'pdf.compare.referenceSession': 'Сессия {label} (эталон)',
+  'pdf.compare.status': 'Статус',
+  'pdf.compare.noFaces': 'На сравниваемых изображениях не найдено лиц.',
+  'pdf.compare.realEnsemble': 'Вероятность подлинности (ансамбль)',
+  'pdf.compare.face': 'Лицо {index}',
+  'pdf.compare.verdict': 'Вердикт',
+
+  'html.face': 'Лицо {index}',
+  'html.heading': 'Отчёт об анализе',
+  'html.subheading': 'Результаты проверки на дипфейк - сформирован {date}',
+  'html.sessionDetails': 'Сведения о сессии',
+  'html.sessionUuid': 'UUID сессии',
+  'html.sha256': 'Хеш SHA256',
+  'html.status': 'Статус',
+  'html.created': 'Создана',
+  'html.processed': 'Обработана',
+  'html.policy': 'Политика вердиктов',
+  'html.reportId': 'ID отчёта',
+  'html.verifyAt': 'Проверить отчёт: {url}',
+  'html.faceDetails': 'Анализ лиц',
+  'html.realProbability': 'Вероятность подлинности',
+  'html.fakeProbability': 'Вероятность дипфейка',
+  'html.weightedEnsemble': 'Взвешенный ансамбль',
+  'html.model': 'Модель',
+  'html.metadata': 'Метаданные и происхождение',
+};
@@ -0,0 +1,26 @@
+// lib/i18n/server.ts
+import { cookies, headers } from 'next/headers';
+import type { NextRequest } from 'next/server';
+import { LOCALE_COOKIE, Locale, negotiateLocale } from './config';
+
+/**
+ * Locale of the page being rendered (switcher cookie, then Accept-Language)
+ */
+export async function getRequestLocale(): Promise<Locale> {
+  const [cookieStore, headerList] = await Promise.all([cookies(), headers()]);
+  return negotiateLocale({
+    cookie: cookieStore.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: headerList.get('accept-language'),
+  });
+}
+
+/**
+ * Locale of an API request: `?locale=`, then the cookie, then Accept-Language
+ */
+export function getLocaleFromRequest(request: NextRequest): Locale {
+  return negotiateLocale({
+    requested: request.nextUrl.searchParams.get('locale'),
+    cookie: request.cookies.get(LOCALE_COOKIE)?.value,
+    acceptLanguage: request.headers.get('accept-language'),
+  });
+}
@@ -0,0 +1,85 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_VERDICT_POLICIES, DEFAULT_VERDICT_POLICY } from '../verdict/policy';
+import { MetadataFlag } from '../images/metadata';
+import { matchAcceptLanguage, negotiateLocale } from './config';
+import { en } from './messages/en';
+import { ru } from './messages/ru';
+import { createTranslator, interpolate, localizeVerdict, metadataFlagMessage, policyText, verdictLabel } from './translate';
+
+const placeholders = (message: unknown) =>
+  JSON.stringify(message).match(/\{\w+\}/g)?.sort() || [];
+
+describe('message catalogs', () => {
+  it('translate every message with the same placeholders', () => {
+    expect(Object.keys(ru).sort()).toEqual(Object.keys(en).sort());
+    for (const key of Object.keys(en) as Array<keyof typeof en>) {
+      expect(new Set(placeholders(ru[key])), key).toEqual(new Set(placeholders(en[key])));
+    }
+  });
+
+  it('match the labels of the built-in verdict bands', () => {
+    for (const band of DEFAULT_VERDICT_POLICY.bands) {
+      expect(en[`verdict.${band.id}` as keyof typeof en]).toBe(band.label);
+    }
+    for (const policy of BUILT_IN_VERDICT_POLICIES) {
+      expect(policyText(policy, 'en')).toEqual({ name: policy.name, description: policy.description });
+    }
+  });
+});
+
+describe('createTranslator', () => {
+  it('interpolates parameters and keeps unknown placeholders', () => {
+    expect(createTranslator('en')('common.face', { index: 2 })).toBe('Face 2');
+    expect(interpolate('{a} and {b}', { a: 1 })).toBe('1 and {b}');
+  });
+
+  it('picks plural forms by count', () => {
+    const t = createTranslator('ru');
+    expect(t('batch.faces', { count: 1 })).toBe('(1 лицо)');
+    expect(t('batch.faces', { count: 3 })).toBe('(3 лица)');
+    expect(t('batch.faces', { count: 5 })).toBe('(5 лиц)');
+    expect(createTranslator('en')('batch.faces', { count: 1 })).toBe('(1 face)');
+  });
+});
+
+describe('negotiateLocale', () => {
+  it('prefers the query parameter, then the cookie, then Accept-Language', () => {
+    expect(negotiateLocale({ requested: 'ru', cookie: 'en' })).toBe('ru');
+    expect(negotiateLocale({ requested: 'de', cookie: 'ru', acceptLanguage: 'en' })).toBe('ru');
+    expect(negotiateLocale({ acceptLanguage: 'de-DE,ru;q=0.8,en;q=0.5' })).toBe('ru');
+    expect(negotiateLocale({})).toBe('en');
+  });
+
+  it('orders Accept-Language ranges by quality', () => {
+    expect(matchAcceptLanguage('en;q=0.3, ru-RU')).toBe('ru');
+    expect(matchAcceptLanguage('ru;q=0, fr')).toBeNull();
+  });
+});
+
+describe('verdict labels', () => {
+  const band = DEFAULT_VERDICT_POLICY.bands[0];
+
+  it('translate built-in bands and keep custom labels', () => {
+    expect(verdictLabel(band, 'ru')).toBe(ru['verdict.likely-real']);
+    expect(verdictLabel({ ...band, label: 'Authentic' }, 'ru')).toBe('Authentic');
+    expect(verdictLabel({ ...band, label: 'Authentic', labels: { ru: 'Подлинное' } }, 'ru')).toBe('Подлинное');
+  });
+
+  it('localize stored English labels', () => {
+    expect(localizeVerdict('Likely Deepfake', 'ru')).toBe(ru['verdict.likely-deepfake']);
+    expect(localizeVerdict('Custom', 'ru')).toBe('Custom');
+  });
+});
+
+describe('metadataFlagMessage', () => {
+  const flag: MetadataFlag = { id: 'content-credentials', severity: 'info', message: 'Content Credentials present' };
+
+  it('translates flags with parameters', () => {
+    expect(metadataFlagMessage({ ...flag, params: { signer: 'Adobe' } }, createTranslator('ru'))).toContain('Adobe');
+    expect(metadataFlagMessage({ ...flag, params: {} }, createTranslator('en'))).toBe(en['metadata.flag.content-credentials']);
+  });
+
+  it('keeps the message of flags saved without parameters', () => {
+    expect(metadataFlagMessage(flag, createTranslator('ru'))).toBe(flag.message);
+  });
+});
@@ -0,0 +1,95 @@
+// lib/i18n/translate.ts
+import { DEFAULT_LOCALE, Locale } from './config';
+import { Message, MessageCatalog, MessageKey, en } from './messages/en';
+import { ru } from './messages/ru';
+import type { VerdictBand, VerdictPolicy } from '../verdict/policy';
+import type { MetadataFlag } from '../images/metadata';
+
+// Message lookup shared by the UI, the server pages and the report builders
+
+export type { MessageKey };
+export type MessageParams = Record<string, string | number>;
+export type Translator = (key: MessageKey, params?: MessageParams) => string;
+
+const CATALOGS: Record<Locale, MessageCatalog> = { en, ru };
+
+/**
+ * Replaces {name} placeholders; unknown placeholders are left as they are
+ * so callers can fill them with elements (see renderMessage)
+ */
+export function interpolate(text: string, params: MessageParams = {}): string {
+  return text.replace(/\{(\w+)\}/g, (placeholder, name: string) =>
+    params[name] === undefined ? placeholder : String(params[name]));
+}
+
+function selectForm(message: Message, locale: Locale, params: MessageParams): string {
+  if (typeof message === 'string') return message;
+  const count = Number(params.count);
+  if (!Number.isFinite(count)) return message.other;
+  return message[new Intl.PluralRules(locale).select(count)] ?? message.other;
+}
+
+/**
+ * Translator for a locale. Missing messages fall back to English, then to the key.
+ */
+export function createTranslator(locale: Locale): Translator {
+  const catalog = CATALOGS[locale] || CATALOGS[DEFAULT_LOCALE];
+  return (key, params = {}) => {
+    const message = catalog[key] ?? en[key];
+    if (message === undefined) return key;
+    return interpolate(selectForm(message, locale, params), params);
+  };
+}
+
+// Built-in catalog text, or undefined when the key has no message
+function builtIn(key: string, locale: Locale): string | undefined {
+  const message = (CATALOGS[locale] as Record<string, Message | undefined>)[key];
+  return typeof message === 'string' ? message : undefined;
+}
+
+/**
+ * Verdict label of a band. Custom policies can provide their own
+ * translations (`labels`); built-in bands are translated from the catalog as
+ * long as their English label was not changed.
+ */
+export function verdictLabel(band: VerdictBand, locale: Locale): string {
+  if (band.labels?.[locale]) return band.labels[locale];
+  if (locale === DEFAULT_LOCALE) return band.label;
+  const key = `verdict.${band.id}`;
+  return builtIn(key, DEFAULT_LOCALE) === band.label ? builtIn(key, locale) || band.label : band.label;
+}
+
+/**
+ * Translates a stored English verdict label (history entries, signed
+ * reports); other labels are returned unchanged
+ */
+export function localizeVerdict(label: string, locale: Locale): string {
+  if (locale === DEFAULT_LOCALE) return label;
+  const entry = Object.entries(en).find(([key, message]) => key.startsWith('verdict.') && message === label);
+  return entry ? builtIn(entry[0], locale) || label : label;
+}
+
+/**
+ * Name and description of a verdict policy; built-in policies are translated
+ * unless configuration overrides their texts
+ */
+export function policyText(policy: VerdictPolicy, locale: Locale): { name: string; description?: string } {
+  const name = builtIn(`policy.${policy.id}.name`, DEFAULT_LOCALE) === policy.name
+    ? builtIn(`policy.${policy.id}.name`, locale) || policy.name
+    : policy.name;
+  const description = policy.description && builtIn(`policy.${policy.id}.description`, DEFAULT_LOCALE) === policy.description
+    ? builtIn(`policy.${policy.id}.description`, locale) || policy.description
+    : policy.description;
+  return { name, description };
+}
+
+/**
+ * Message of a metadata flag; flags without parameters (e.g. saved before
+ * they existed) keep their English message
+ */
+export function metadataFlagMessage(flag: MetadataFlag, t: Translator): string {
+  if (!flag.params) return flag.message;
+  const id = flag.id === 'content-credentials' && flag.params.signer ? 'content-credentials-signed' : flag.id;
+  const key = `metadata.flag.${id}`;
+  return key in en ? t(key as MessageKey, flag.params) : flag.message;
+}
@@ -0,0 +1,286 @@
+// lib/images/c2pa.ts
+
+// Reads C2PA (Content Credentials) manifest stores: JUMBF boxes holding CBOR
+// claims, assertions and signatures. Only the content is summarized; the
+// signature is NOT verified, so the result is a provenance hint, not proof.
+
+export interface C2paSummary {
+  manifestCount: number;
+  // Tool that produced the active (last) manifest
+  claimGenerator?: string;
+  title?: string;
+  // Action names with the software agent, e.g. "c2pa.created (Adobe Firefly)"
+  actions: string[];
+  // IPTC digital source types, e.g. "trainedAlgorithmicMedia"
+  digitalSourceTypes: string[];
+  // Subject of the signing certificate (unverified)
+  signer?: string;
+}
+
+interface JumbfBox {
+  label?: string;
+  children: JumbfBox[];
+  // CBOR payloads of content boxes
+  cbor: Uint8Array[];
+}
+
+type CborValue = number | string | boolean | null | undefined | Uint8Array | CborValue[] | { [key: string]: CborValue };
+
+const MAX_DEPTH = 16;
+const utf8 = new TextDecoder('utf-8');
+
+const fourCC = (bytes: Uint8Array, offset: number) =>
+  String.fromCharCode(bytes[offset], bytes[offset + 1], bytes[offset + 2], bytes[offset + 3]);
+
+/**
+ * Decodes one CBOR item (RFC 8949); tags are unwrapped, map keys become strings
+ */
+export function decodeCbor(bytes: Uint8Array): CborValue {
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = 0;
+
+  const readLength = (info: number): number => {
+    if (info < 24) return info;
+    if (info === 24) return view.getUint8(offset++);
+    if (info === 25) { offset += 2; return view.getUint16(offset - 2); }
+    if (info === 26) { offset += 4; return view.getUint32(offset - 4); }
+    if (info === 27) { offset += 8; return Number(view.getBigUint64(offset - 8)); }
+    if (info === 31) return -1;
+    throw new Error('Invalid CBOR length');
+  };
+
+  const readItem = (depth: number): CborValue => {
+    if (depth > MAX_DEPTH) throw new Error('CBOR nesting is too deep');
+    const initial = view.getUint8(offset++);
+    const major = initial >> 5;
+    const info = initial & 0x1f;
+
+    if (major === 7) {
+      if (info === 20) return false;
+      if (info === 21) return true;
+      if (info === 22) return null;
+      if (info === 25) { offset += 2; return float16(view.getUint16(offset - 2)); }
+      if (info === 26) { offset += 4; return view.getFloat32(offset - 4); }
+      if (info === 27) { offset += 8; return view.getFloat64(offset - 8); }
+      return undefined;
+    }
+
+    const length = readLength(info);
+    // End of an indefinite-length item
+    const isBreak = () => {
+      if (view.getUint8(offset) !== 0xff) return false;
+      offset++;
+      return true;
+    };
+
+    switch (major) {
+      case 0:
+        return length;
+      case 1:
+        return -1 - length;
+      case 2:
+      case 3: {
+        let data: Uint8Array;
+        if (length < 0) {
+          // Indefinite length: concatenated chunks
+          const chunks: Uint8Array[] = [];
+          while (!isBreak()) {
+            const chunk = readItem(depth + 1);
+            chunks.push(typeof chunk === 'string' ? new TextEncoder().encode(chunk) : chunk as Uint8Array);
+          }
+          data = new Uint8Array(chunks.reduce((size, chunk) => size + chunk.length, 0));
+          let position = 0;
+          for (const chunk of chunks) {
+            data.set(chunk, position);
+            position += chunk.length;
+          }
+        } else {
+          if (offset + length > bytes.length) throw new Error('Truncated CBOR');
+          data = bytes.subarray(offset, offset + length);
+          offset += length;
+        }
+        return major === 2 ? data : utf8.decode(data);
+      }
+      case 4: {
+        const items: CborValue[] = [];
+        for (let i = 0; length < 0 ? !isBreak() : i < length; i++) {
+          items.push(readItem(depth + 1));
+        }
+        return items;
+      }
+      case 5: {
+        const map: { [key: string]: CborValue } = {};
+        for (let i = 0; length < 0 ? !isBreak() : i < length; i++) {
+          const key = readItem(depth + 1);
+          map[String(key)] = readItem(depth + 1);
+        }
+        return map;
+      }
+      default:
+        // Tag: the tagged item itself
+        return readItem(depth + 1);
+    }
+  };
+
+  return readItem(0);
+}
+
+function float16(bits: number): number {
+  const exponent = (bits >> 10) & 0x1f;
+  const fraction = bits & 0x3ff;
+  const sign = bits & 0x8000 ? -1 : 1;
+  if (exponent === 0) return sign * fraction * 2 ** -24;
+  if (exponent === 31) return fraction ? NaN : sign * Infinity;
+  return sign * (1 + fraction / 1024) * 2 ** (exponent - 15);
+}
+
+/**
+ * Parses the JUMBF boxes in bytes[start, end) (ISO 19566-5)
+ */
+function parseJumbf(bytes: Uint8Array, start = 0, end = bytes.length, depth = 0): JumbfBox[] {
+  const boxes: JumbfBox[] = [];
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  let offset = start;
+
+  while (offset + 8 <= end && depth <= MAX_DEPTH) {
+    let size = view.getUint32(offset);
+    const type = fourCC(bytes, offset + 4);
+    let header = 8;
+    if (size === 1 && offset + 16 <= end) {
+      size = Number(view.getBigUint64(offset + 8));
+      header = 16;
+    } else if (size === 0) {
+      size = end - offset;
+    }
+    if (size < header || offset + size > end) break;
+
+    if (type === 'jumb') {
+      const box: JumbfBox = { children: [], cbor: [] };
+      const contentStart = offset + header;
+      const contentEnd = offset + size;
+      let child = contentStart;
+      // Description box: 16-byte type UUID, toggles, optional label
+      if (contentStart + 8 <= contentEnd && fourCC(bytes, contentStart + 4) === 'jumd') {
+        const descriptionSize = view.getUint32(contentStart);
+        const toggles = bytes[contentStart + 8 + 16];
+        if (toggles & 0x02) {
+          const labelStart = contentStart + 8 + 17;
+          const labelEnd = bytes.indexOf(0, labelStart);
+          if (labelEnd > 0 && labelEnd < contentStart + descriptionSize) {
+            box.label = utf8.decode(bytes.subarray(labelStart, labelEnd));
+          }
+        }
+        child = contentStart + Math.max(descriptionSize, 8);
+      }
+      for (const nested of parseJumbf(bytes, child, contentEnd, depth + 1)) {
+        if (nested.label === undefined && nested.children.length === 0) {
+          box.cbor.push(...nested.cbor);
+        } else {
+          box.children.push(nested);
+        }
+      }
+      boxes.push(box);
+    } else if (type === 'cbor') {
+      boxes.push({ children: [], cbor: [bytes.subarray(offset + header, offset + size)] });
+    }
+    offset += size;
+  }
+  return boxes;
+}
+
+const safeDecode = (data: Uint8Array | undefined): CborValue => {
+  if (!data) return undefined;
+  try {
+    return decodeCbor(data);
+  } catch {
+    return undefined;
+  }
+};
+
+const isMap = (value: CborValue): value is { [key: string]: CborValue } =>
+  !!value && typeof value === 'object' && !Array.isArray(value) && !(value instanceof Uint8Array);
+
+const agentName = (value: CborValue): string | undefined => {
+  if (typeof value === 'string') return value;
+  if (isMap(value) && typeof value.name === 'string') return value.name;
+  return undefined;
+};
+
+// Last CN (or O) in a DER certificate: the subject comes after the issuer
+function certificateSubject(der: Uint8Array): string | undefined {
+  let commonName: string | undefined;
+  let organization: string | undefined;
+  for (let i = 0; i + 7 < der.length; i++) {
+    if (der[i] !== 0x06 || der[i + 1] !== 0x03 || der[i + 2] !== 0x55 || der[i + 3] !== 0x04) continue;
+    const attribute = der[i + 4];
+    const length = der[i + 6];
+    if ((attribute !== 0x03 && attribute !== 0x0a) || length >= 0x80) continue;
+    const value = utf8.decode(der.subarray(i + 7, i + 7 + length));
+    if (attribute === 0x03) commonName = value;
+    else organization = value;
+  }
+  return commonName || organization;
+}
+
+function signerOf(signature: CborValue): string | undefined {
+  // COSE_Sign1: [protected header (bstr), unprotected header, payload, signature]
+  if (!Array.isArray(signature)) return undefined;
+  const headers = [safeDecode(signature[0] as Uint8Array), signature[1]];
+  for (const header of headers) {
+    if (!isMap(header)) continue;
+    // 33 = x5chain; the leaf certificate comes first
+    const chain = header['33'];
+    const leaf = Array.isArray(chain) ? chain[0] : chain;
+    if (leaf instanceof Uint8Array) return certificateSubject(leaf);
+  }
+  return undefined;
+}
+
+const findChild = (box: JumbfBox, pattern: RegExp) => box.children.find(child => pattern.test(child.label || ''));
+
+/**
+ * Summarizes a C2PA manifest store found in JUMBF data; null if there is none
+ */
+export function readC2paManifestStore(jumbf: Uint8Array): C2paSummary | null {
+  const store = parseJumbf(jumbf).find(box => box.label === 'c2pa');
+  if (!store || store.children.length === 0) return null;
+
+  const summary: C2paSummary = { manifestCount: store.children.length, actions: [], digitalSourceTypes: [] };
+  // The active manifest is the last one; earlier ones describe ingredients
+  store.children.forEach((manifest, index) => {
+    const isActive = index === store.children.length - 1;
+
+    const claimBox = findChild(manifest, /^c2pa\.claim(\.v\d+)?$/);
+    const claim = safeDecode(claimBox?.cbor[0]);
+    if (isActive && isMap(claim)) {
+      const generatorInfo = claim.claim_generator_info;
+      summary.claimGenerator = typeof claim.claim_generator === 'string'
+        ? claim.claim_generator
+        : agentName(Array.isArray(generatorInfo) ? generatorInfo[0] : generatorInfo);
+      if (typeof claim['dc:title'] === 'string') summary.title = claim['dc:title'];
+    }
+
+    const assertions = findChild(manifest, /^c2pa\.assertions$/);
+    for (const assertion of assertions?.children || []) {
+      if (!/^c2pa\.actions(\.v\d+)?(__\d+)?$/.test(assertion.label || '')) continue;
+      const content = safeDecode(assertion.cbor[0]);
+      const actions = isMap(content) && Array.isArray(content.actions) ? content.actions : [];
+      for (const action of actions) {
+        if (!isMap(action) || typeof action.action !== 'string') continue;
+        const agent = agentName(action.softwareAgent);
+        const label = agent ? `${action.action} (${agent})` : action.action;
+        if (!summary.actions.includes(label)) summary.actions.push(label);
+        if (typeof action.digitalSourceType === 'string') {
+          const sourceType = action.digitalSourceType.split('/').pop() || action.digitalSourceType;
+          if (!summary.digitalSourceTypes.includes(sourceType)) summary.digitalSourceTypes.push(sourceType);
+        }
+      }
+    }
+
+    if (isActive) {
+      const signatureBox = findChild(manifest, /^c2pa\.signature$/);
+      summary.signer = signerOf(safeDecode(signatureBox?.cbor[0]));
+    }
+  });
+  return summary;
+}
@@ -0,0 +1,50 @@
+import { describe, expect, it } from 'vitest';
+import { readExifOrientation } from './exif';
+
+// TIFF header + IFD with a single Orientation entry
+function tiff(orientation: number, littleEndian: boolean): number[] {
+  const u16 = (value: number) => littleEndian ? [value & 255, value >> 8] : [value >> 8, value & 255];
+  const u32 = (value: number) => littleEndian
+    ? [value & 255, (value >> 8) & 255, (value >> 16) & 255, value >>> 24]
+    : [value >>> 24, (value >> 16) & 255, (value >> 8) & 255, value & 255];
+  return [
+    ...(littleEndian ? [0x49, 0x49] : [0x4d, 0x4d]), ...u16(42), ...u32(8),
+    ...u16(1),
+    ...u16(0x0112), ...u16(3), ...u32(1), ...u16(orientation), 0, 0,
+    ...u32(0),
+  ];
+}
+
+function jpeg(...segments: number[][]): Uint8Array {
+  const body = segments.flatMap(([marker, ...payload]) => [0xff, marker, (payload.length + 2) >> 8, (payload.length + 2) & 255, ...payload]);
+  return new Uint8Array([0xff, 0xd8, ...body, 0xff, 0xda, 0, 2]);
+}
+
+const exifSegment = (orientation: number, littleEndian = false) =>
+  [0xe1, ...Array.from(Buffer.from('Exif\0\0', 'latin1')), ...tiff(orientation, littleEndian)];
+
+describe('readExifOrientation', () => {
+  it('reads the orientation from a JPEG APP1 segment', () => {
+    expect(readExifOrientation(jpeg(exifSegment(6)))).toBe(6);
+    expect(readExifOrientation(jpeg(exifSegment(8, true)))).toBe(8);
+  });
+
+  it('skips segments before the EXIF block', () => {
+    const jfif = [0xe0, ...Array.from(Buffer.from('JFIF\0', 'latin1')), 1, 1, 0, 0, 1, 0, 1, 0, 0];
+    expect(readExifOrientation(jpeg(jfif, exifSegment(3)))).toBe(3);
+  });
+
+  it('reads the orientation of TIFF files', () => {
+    expect(readExifOrientation(new Uint8Array(tiff(5, true)))).toBe(5);
+  });
+
+  it('defaults to 1 without EXIF or with invalid values', () => {
+    expect(readExifOrientation(jpeg())).toBe(1);
+    expect(readExifOrientation(jpeg(exifSegment(42)))).toBe(1);
+    expect(readExifOrientation(new Uint8Array([0x89, 0x50, 0x4e, 0x47]))).toBe(1);
+  });
+
+  it('ignores truncated data', () => {
+    expect(readExifOrientation(jpeg(exifSegment(6)).subarray(0, 20))).toBe(1);
+  });
+});
@@ -0,0 +1,211 @@
+// lib/images/exif.ts
+
+// Minimal EXIF reader for JPEG (APP1 segment) and TIFF structures.
+
+type IfdValue = string | number[];
+
+interface TiffReader {
+  view: DataView;
+  start: number;
+  littleEndian: boolean;
+}
+
+const ORIENTATION_TAG = 0x0112;
+const EXIF_IFD_TAG = 0x8769;
+const GPS_IFD_TAG = 0x8825;
+// Protects against corrupt counts
+const MAX_VALUE_COUNT = 4096;
+const MAX_TEXT_LENGTH = 500;
+
+// Byte size of one value per TIFF field type
+const TYPE_SIZES: Record<number, number> = { 1: 1, 2: 1, 3: 2, 4: 4, 5: 8, 7: 1, 9: 4, 10: 8 };
+
+const IFD0_TAGS: Record<number, string> = {
+  0x010e: 'ImageDescription',
+  0x010f: 'Make',
+  0x0110: 'Model',
+  0x0112: 'Orientation',
+  0x0131: 'Software',
+  0x0132: 'DateTime',
+  0x013b: 'Artist',
+  0x8298: 'Copyright',
+};
+
+const EXIF_IFD_TAGS: Record<number, string> = {
+  0x829a: 'ExposureTime',
+  0x829d: 'FNumber',
+  0x8827: 'ISO',
+  0x9003: 'DateTimeOriginal',
+  0x9004: 'DateTimeDigitized',
+  0x9011: 'OffsetTimeOriginal',
+  0x920a: 'FocalLength',
+  0xa002: 'PixelXDimension',
+  0xa003: 'PixelYDimension',
+  0xa431: 'BodySerialNumber',
+  0xa433: 'LensMake',
+  0xa434: 'LensModel',
+};
+
+/**
+ * Opens the TIFF structure starting at `start` (optionally after an "Exif\0\0" prefix)
+ */
+function openTiff(bytes: Uint8Array, start: number): TiffReader | null {
+  if (bytes[start] === 0x45 && String.fromCharCode(...bytes.subarray(start, start + 6)) === 'Exif\0\0') {
+    start += 6;
+  }
+  if (start + 8 > bytes.length) return null;
+  const littleEndian = bytes[start] === 0x49 && bytes[start + 1] === 0x49;
+  const bigEndian = bytes[start] === 0x4d && bytes[start + 1] === 0x4d;
+  if (!littleEndian && !bigEndian) return null;
+
+  const view = new DataView(bytes.buffer, bytes.byteOffset, bytes.byteLength);
+  if (view.getUint16(start + 2, littleEndian) !== 42) return null;
+  return { view, start, littleEndian };
+}
+
+function readValue(tiff: TiffReader, type: number, count: number, offset: number): IfdValue {
+  const { view, littleEndian } = tiff;
+  if (type === 2) {
+    let text = '';
+    for (let i = 0; i < count && i < MAX_TEXT_LENGTH; i++) {
+      const code = view.getUint8(offset + i);
+      if (code === 0) break;
+      text += String.fromCharCode(code);
+    }
+    return text.trim();
+  }
+  const values: number[] = [];
+  for (let i = 0; i < count; i++) {
+    const at = offset + i * TYPE_SIZES[type];
+    switch (type) {
+      case 3: values.push(view.getUint16(at, littleEndian)); break;
+      case 4: values.push(view.getUint32(at, littleEndian)); break;
+      case 9: values.push(view.getInt32(at, littleEndian)); break;
+      case 5: values.push(view.getUint32(at, littleEndian) / (view.getUint32(at + 4, littleEndian) || 1)); break;
+      case 10: values.push(view.getInt32(at, littleEndian) / (view.getInt32(at + 4, littleEndian) || 1)); break;
+      default: values.push(view.getUint8(at));
+    }
+  }
+  return values;
+}
+
+/**
+ * Entries of the IFD at `offset` (relative to the TIFF header), keyed by tag
+ */
+function readIfd(tiff: TiffReader, offset: number): Map<number, IfdValue> {
+  const { view, start, littleEndian } = tiff;
+  const entries = new Map<number, IfdValue>();
+  const ifd = start + offset;
+  if (offset <= 0 || ifd + 2 > view.byteLength) return entries;
+
+  const count = view.getUint16(ifd, littleEndian);
+  for (let i = 0; i < count; i++) {
+    const entry = ifd + 2 + i * 12;
+    if (entry + 12 > view.byteLength) break;
+    const tag = view.getUint16(entry, littleEndian);
+    const type = view.getUint16(entry + 2, littleEndian);
+    const valueCount = view.getUint32(entry + 4, littleEndian);
+    const size = TYPE_SIZES[type];
+    if (!size || valueCount > MAX_VALUE_COUNT) continue;
+    // Values up to 4 bytes are stored inline
+    const dataOffset = size * valueCount <= 4 ? entry + 8 : start + view.getUint32(entry + 8, littleEndian);
+    if (dataOffset + size * valueCount > view.byteLength) continue;
+    entries.set(tag, readValue(tiff, type, valueCount, dataOffset));
+  }
+  return entries;
+}
+
+const firstOffset = (tiff: TiffReader) => tiff.view.getUint32(tiff.start + 4, tiff.littleEndian);
+
+const formatNumber = (value: number) => String(Number(value.toFixed(4)));
+
+function formatTag(name: string, value: IfdValue): string {
+  if (typeof value === 'string') return value;
+  const [first] = value;
+  if (name === 'ExposureTime' && first > 0 && first < 1) return `1/${Math.round(1 / first)} s`;
+  if (name === 'FNumber') return `f/${formatNumber(first)}`;
+  if (name === 'FocalLength') return `${formatNumber(first)} mm`;
+  return value.map(formatNumber).join(', ');
+}
+
+// Degrees/minutes/seconds to signed decimal degrees
+function toDegrees(value: IfdValue | undefined, ref: IfdValue | undefined, negativeRef: string): number | null {
+  if (!Array.isArray(value) || value.length < 3) return null;
+  const degrees = value[0] + value[1] / 60 + value[2] / 3600;
+  return ref === negativeRef ? -degrees : degrees;
+}
+
+function collectTags(ifd: Map<number, IfdValue>, names: Record<number, string>, tags: Record<string, string>) {
+  ifd.forEach((value, tag) => {
+    const name = names[tag];
+    if (name && (typeof value !== 'string' || value)) {
+      tags[name] = formatTag(name, value);
+    }
+  });
+}
+
+/**
+ * Selected EXIF tags (camera, software, dates, GPS) of the TIFF structure at `start`,
+ * formatted for display. Empty when there is no readable EXIF data.
+ */
+export function readExifTags(bytes: Uint8Array, start = 0): Record<string, string> {
+  const tiff = openTiff(bytes, start);
+  if (!tiff) return {};
+
+  const tags: Record<string, string> = {};
+  const ifd0 = readIfd(tiff, firstOffset(tiff));
+  collectTags(ifd0, IFD0_TAGS, tags);
+
+  const exifPointer = ifd0.get(EXIF_IFD_TAG);
+  if (Array.isArray(exifPointer)) {
+    collectTags(readIfd(tiff, exifPointer[0]), EXIF_IFD_TAGS, tags);
+  }
+
+  const gpsPointer = ifd0.get(GPS_IFD_TAG);
+  if (Array.isArray(gpsPointer)) {
+    const gps = readIfd(tiff, gpsPointer[0]);
+    const latitude = toDegrees(gps.get(2), gps.get(1), 'S');
+    const longitude = toDegrees(gps.get(4), gps.get(3), 'W');
+    if (latitude !== null && longitude !== null) {
+      tags.GPSPosition = `${latitude.toFixed(6)}, ${longitude.toFixed(6)}`;
+    }
+  }
+  return tags;
+}
+
+/**
+ * Offset of the TIFF structure inside a JPEG APP1 "Exif" segment, or of a
+ * TIFF file itself; null when there is none
+ */
+export function findExifOffset(bytes: Uint8Array): number | null {
+  // TIFF files are an EXIF structure themselves
+  if (bytes[0] !== 0xff || bytes[1] !== 0xd8) {
+    return openTiff(bytes, 0) ? 0 : null;
+  }
+
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    // Start of scan / end of image: no metadata after this point
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = bytes[offset + 2] << 8 | bytes[offset + 3];
+    const isExif = marker === 0xe1
+      && String.fromCharCode(...bytes.subarray(offset + 4, offset + 10)) === 'Exif\0\0';
+    if (isExif) return offset + 10;
+    offset += 2 + length;
+  }
+  return null;
+}
+
+/**
+ * EXIF orientation of a JPEG or TIFF image (1 = upright, 2-8 = flipped/rotated).
+ * Only the first bytes of the file are needed: EXIF sits before the image data.
+ */
+export function readExifOrientation(bytes: Uint8Array): number {
+  const offset = findExifOffset(bytes);
+  const tiff = offset === null ? null : openTiff(bytes, offset);
+  if (!tiff) return 1;
+  const value = readIfd(tiff, firstOffset(tiff)).get(ORIENTATION_TAG);
+  const orientation = Array.isArray(value) ? value[0] : 1;
+  return orientation >= 1 && orientation <= 8 ? orientation : 1;
+}
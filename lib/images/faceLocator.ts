@@ -0,0 +1,81 @@
+// lib/images/faceLocator.ts
+import type { FaceBox } from '../types/proofly';
+import { GrayImage, findTemplate, toGrayImage } from './templateMatch';
+
+// Face positions for the overlay viewer: upstream boxes when the API reports
+// them, otherwise estimated in the browser by matching each face crop against
+// the original image.
+
+export interface LocatedFace {
+  // Fractions of the original image size
+  box: FaceBox;
+  source: 'upstream' | 'estimated';
+}
+
+// Size limits of the images the matcher works on
+const MAX_IMAGE_WIDTH = 512;
+const MAX_CROP_WIDTH = 96;
+
+/**
+ * Box as fractions of the image size; upstream boxes whose values are all
+ * <= 1 are taken as fractions already
+ */
+export function toRelativeBox(box: FaceBox, imageWidth: number, imageHeight: number): FaceBox {
+  if (box.x + box.width <= 1 && box.y + box.height <= 1) return box;
+  return {
+    x: box.x / imageWidth,
+    y: box.y / imageHeight,
+    width: box.width / imageWidth,
+    height: box.height / imageHeight,
+  };
+}
+
+async function loadGrayImage(url: string, maxWidth: number, signal?: AbortSignal): Promise<GrayImage> {
+  const response = await fetch(url, { signal });
+  if (!response.ok) throw new Error(`Failed to load ${url}: ${response.status}`);
+  const bitmap = await createImageBitmap(await response.blob());
+  try {
+    const scale = Math.min(1, maxWidth / bitmap.width);
+    const width = Math.max(1, Math.round(bitmap.width * scale));
+    const height = Math.max(1, Math.round(bitmap.height * scale));
+    const canvas = document.createElement('canvas');
+    canvas.width = width;
+    canvas.height = height;
+    const context = canvas.getContext('2d', { willReadFrequently: true });
+    if (!context) throw new Error('Canvas 2D context is not available');
+    context.drawImage(bitmap, 0, 0, width, height);
+    return toGrayImage(context.getImageData(0, 0, width, height).data, width, height);
+  } finally {
+    bitmap.close();
+  }
+}
+
+// Lets the browser paint between faces
+const yieldToBrowser = () => new Promise(resolve => setTimeout(resolve, 0));
+
+/**
+ * Estimates the position of each face crop in the original image;
+ * null for crops that could not be found
+ */
+export async function locateFaceCrops(
+  originalUrl: string,
+  faceUrls: string[],
+  signal?: AbortSignal
+): Promise<Array<FaceBox | null>> {
+  const original = await loadGrayImage(originalUrl, MAX_IMAGE_WIDTH, signal);
+  const boxes: Array<FaceBox | null> = [];
+  for (const faceUrl of faceUrls) {
+    if (signal?.aborted) throw new DOMException('Aborted', 'AbortError');
+    try {
+      const crop = await loadGrayImage(faceUrl, MAX_CROP_WIDTH, signal);
+      await yieldToBrowser();
+      const match = findTemplate(original, crop);
+      boxes.push(match && { x: match.x, y: match.y, width: match.width, height: match.height });
+    } catch (err) {
+      if (signal?.aborted) throw err;
+      console.warn('Face locator: failed to match', faceUrl, err);
+      boxes.push(null);
+    }
+  }
+  return boxes;
+}
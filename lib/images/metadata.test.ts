@@ -0,0 +1,143 @@
+import { describe, expect, it } from 'vitest';
+import { decodeCbor } from './c2pa';
+import { extractImageMetadata } from './metadata';
+
+const text = (value: string) => Array.from(new TextEncoder().encode(value));
+const u16 = (value: number) => [value >> 8, value & 255];
+const u32 = (value: number) => [value >>> 24, (value >> 16) & 255, (value >> 8) & 255, value & 255];
+
+// Minimal CBOR encoder for strings, numbers, arrays and maps
+function cbor(value: unknown): number[] {
+  const head = (major: number, length: number) => length < 24
+    ? [major << 5 | length]
+    : length < 256 ? [major << 5 | 24, length] : [major << 5 | 25, ...u16(length)];
+  if (typeof value === 'number') return head(0, value);
+  if (typeof value === 'string') return [...head(3, text(value).length), ...text(value)];
+  if (Array.isArray(value)) return [...head(4, value.length), ...value.flatMap(cbor)];
+  const entries = Object.entries(value as Record<string, unknown>);
+  return [...head(5, entries.length), ...entries.flatMap(([key, item]) => [...cbor(key), ...cbor(item)])];
+}
+
+const box = (type: string, payload: number[]) => [...u32(payload.length + 8), ...text(type), ...payload];
+
+// JUMBF superbox with a labelled description box
+const superbox = (label: string, ...children: number[][]) =>
+  box('jumb', [...box('jumd', [...new Array(16).fill(0), 0x03, ...text(label), 0]), ...children.flat()]);
+
+// EXIF (big endian) with Make, Software and DateTime in IFD0
+function exif(): number[] {
+  const strings = ['Canon\0', 'Adobe Photoshop 25.0\0', '2024:05:01 10:00:00\0'];
+  const entries = [0x010f, 0x0131, 0x0132];
+  let dataOffset = 8 + 2 + entries.length * 12 + 4;
+  const ifd = entries.flatMap((tag, i) => {
+    const entry = [...u16(tag), ...u16(2), ...u32(strings[i].length), ...u32(dataOffset)];
+    dataOffset += strings[i].length;
+    return entry;
+  });
+  return [...text('MM'), ...u16(42), ...u32(8), ...u16(entries.length), ...ifd, ...u32(0), ...strings.flatMap(text)];
+}
+
+function jpeg(...segments: [number, number[]][]): Uint8Array {
+  const body = segments.flatMap(([marker, payload]) => [0xff, marker, ...u16(payload.length + 2), ...payload]);
+  return new Uint8Array([0xff, 0xd8, ...body, 0xff, 0xda, 0, 2, 0xff, 0xd9]);
+}
+
+function png(...chunks: [string, number[]][]): Uint8Array {
+  const body = chunks.flatMap(([type, data]) => [...u32(data.length), ...text(type), ...data, 0, 0, 0, 0]);
+  return new Uint8Array([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, ...body]);
+}
+
+const entry = (metadata: ReturnType<typeof extractImageMetadata>, section: string, label: string) =>
+  metadata.sections.find(item => item.id === section)?.entries.find(item => item.label === label)?.value;
+
+const flagIds = (metadata: ReturnType<typeof extractImageMetadata>) => metadata.flags.map(flag => flag.id);
+
+describe('extractImageMetadata', () => {
+  it('reads EXIF, XMP and IPTC from JPEG segments', () => {
+    const xmp = '<x:xmpmeta><rdf:Description xmp:CreatorTool="GIMP 2.10"><dc:creator><rdf:Seq><rdf:li>Jane &amp; John</rdf:li></rdf:Seq></dc:creator></rdf:Description></x:xmpmeta>';
+    const iptcRecords = [0x1c, 2, 80, ...u16(4), ...text('Jane'), 0x1c, 2, 25, ...u16(3), ...text('cat'), 0x1c, 2, 25, ...u16(3), ...text('dog')];
+    const photoshop = [...text('Photoshop 3.0\0'), ...text('8BIM'), ...u16(0x0404), 0, 0, ...u32(iptcRecords.length), ...iptcRecords];
+
+    const metadata = extractImageMetadata(jpeg(
+      [0xe1, [...text('Exif\0\0'), ...exif()]],
+      [0xe1, [...text('http://ns.adobe.com/xap/1.0/\0'), ...text(xmp)]],
+      [0xed, photoshop],
+    ));
+
+    expect(metadata.format).toBe('jpeg');
+    expect(entry(metadata, 'exif', 'Make')).toBe('Canon');
+    expect(entry(metadata, 'exif', 'DateTime')).toBe('2024:05:01 10:00:00');
+    expect(entry(metadata, 'xmp', 'Creator tool')).toBe('GIMP 2.10');
+    expect(entry(metadata, 'xmp', 'Creator')).toBe('Jane & John');
+    expect(entry(metadata, 'iptc', 'By-line')).toBe('Jane');
+    expect(entry(metadata, 'iptc', 'Keywords')).toBe('cat, dog');
+    expect(flagIds(metadata)).toContain('editing-software');
+    expect(flagIds(metadata)).not.toContain('metadata-stripped');
+  });
+
+  it('flags images without any metadata', () => {
+    const metadata = extractImageMetadata(jpeg());
+    expect(metadata.sections).toEqual([]);
+    expect(flagIds(metadata)).toEqual(['metadata-stripped']);
+  });
+
+  it('flags generation parameters in PNG text chunks', () => {
+    const metadata = extractImageMetadata(png(
+      ['tEXt', text('parameters\0a portrait photo, Steps: 30, Sampler: Euler a')],
+      ['IEND', []],
+    ));
+    expect(entry(metadata, 'text', 'parameters')).toContain('a portrait photo');
+    expect(flagIds(metadata)).toContain('generation-parameters');
+  });
+
+  it('summarizes a C2PA manifest and flags AI source types', () => {
+    const claim = superbox('c2pa.claim', box('cbor', cbor({ claim_generator: 'Adobe_Firefly/1.0', 'dc:title': 'portrait.jpg' })));
+    const actions = superbox('c2pa.actions', box('cbor', cbor({
+      actions: [{
+        action: 'c2pa.created',
+        softwareAgent: 'Adobe Firefly',
+        digitalSourceType: 'http://cv.iptc.org/newscodes/digitalsourcetype/trainedAlgorithmicMedia',
+      }],
+    })));
+    const store = superbox('c2pa', superbox('urn:uuid:1234', superbox('c2pa.assertions', actions), claim));
+
+    const metadata = extractImageMetadata(png(['caBX', store], ['IEND', []]));
+
+    expect(metadata.c2pa).toEqual({
+      manifestCount: 1,
+      claimGenerator: 'Adobe_Firefly/1.0',
+      title: 'portrait.jpg',
+      actions: ['c2pa.created (Adobe Firefly)'],
+      digitalSourceTypes: ['trainedAlgorithmicMedia'],
+      signer: undefined,
+    });
+    expect(flagIds(metadata)).toEqual(expect.arrayContaining(['ai-source-type', 'ai-generator', 'content-credentials']));
+  });
+
+  it('reassembles C2PA stores split across JPEG APP11 segments', () => {
+    const store = superbox('c2pa', superbox('urn:uuid:1', superbox('c2pa.claim', box('cbor', cbor({ claim_generator: 'Camera/2' })))));
+    const split = 30;
+    const header = store.slice(0, 8);
+    const segment = (sequence: number, payload: number[]) =>
+      [0xeb, [...text('JP'), ...u16(1), ...u32(sequence), ...payload]] as [number, number[]];
+
+    const metadata = extractImageMetadata(jpeg(
+      segment(1, store.slice(0, split)),
+      segment(2, [...header, ...store.slice(split)]),
+    ));
+    expect(metadata.c2pa?.claimGenerator).toBe('Camera/2');
+  });
+
+  it('survives truncated files', () => {
+    const bytes = jpeg([0xe1, [...text('Exif\0\0'), ...exif()]]);
+    expect(() => extractImageMetadata(bytes.subarray(0, 40))).not.toThrow();
+  });
+});
+
+describe('decodeCbor', () => {
+  it('decodes nested maps, arrays and indefinite-length strings', () => {
+    expect(decodeCbor(new Uint8Array(cbor({ a: [1, 'two', { b: 300 }] })))).toEqual({ a: [1, 'two', { b: 300 }] });
+    expect(decodeCbor(new Uint8Array([0x7f, 0x62, ...text('ab'), 0x61, ...text('c'), 0xff]))).toBe('abc');
+    expect(decodeCbor(new Uint8Array([0xf5]))).toBe(true);
+  });
+});
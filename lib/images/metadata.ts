@@ -0,0 +1,405 @@
+// lib/images/metadata.ts
+import { C2paSummary, readC2paManifestStore } from './c2pa';
+import { readExifTags } from './exif';
+import { SourceFormat, sniffSourceFormat } from './sniff';
+
+// Provenance signals read from the image file: EXIF, XMP, IPTC, PNG text
+// chunks and C2PA manifests, plus flags for suspicious combinations. Shared by
+// the browser (uploaded files) and the server (stored originals, PDF report).
+
+export interface MetadataEntry {
+  label: string;
+  value: string;
+}
+
+export type MetadataSectionId = 'exif' | 'xmp' | 'iptc' | 'c2pa' | 'text';
+
+export interface MetadataSection {
+  id: MetadataSectionId;
+  title: string;
+  entries: MetadataEntry[];
+}
+
+export type MetadataFlagSeverity = 'info' | 'warning' | 'critical';
+
+export interface MetadataFlag {
+  id: string;
+  severity: MetadataFlagSeverity;
+  // English message; the UI and reports translate `id` with `params`
+  message: string;
+  params?: Record<string, string>;
+}
+
+export interface ImageMetadata {
+  format: SourceFormat | null;
+  sections: MetadataSection[];
+  c2pa: C2paSummary | null;
+  flags: MetadataFlag[];
+}
+
+interface RawMetadata {
+  exif: Record<string, string>;
+  xmp: string[];
+  iptc: MetadataEntry[];
+  text: MetadataEntry[];
+  jumbf: Uint8Array[];
+}
+
+const MAX_VALUE_LENGTH = 500;
+const XMP_SIGNATURE = 'http://ns.adobe.com/xap/1.0/\0';
+const PHOTOSHOP_SIGNATURE = 'Photoshop 3.0\0';
+
+const SECTION_TITLES: Record<MetadataSectionId, string> = {
+  exif: 'EXIF',
+  xmp: 'XMP',
+  iptc: 'IPTC',
+  c2pa: 'Content Credentials (C2PA)',
+  text: 'Embedded text',
+};
+
+// XMP properties shown in the panel
+const XMP_PROPERTIES: [string, string][] = [
+  ['xmp:CreatorTool', 'Creator tool'],
+  ['xmp:CreateDate', 'Created'],
+  ['xmp:ModifyDate', 'Modified'],
+  ['photoshop:DateCreated', 'Date created'],
+  ['tiff:Make', 'Camera make'],
+  ['tiff:Model', 'Camera model'],
+  ['dc:creator', 'Creator'],
+  ['dc:title', 'Title'],
+  ['dc:description', 'Description'],
+  ['dc:rights', 'Rights'],
+  ['photoshop:Credit', 'Credit'],
+  ['Iptc4xmpExt:DigitalSourceType', 'Digital source type'],
+  ['stEvt:softwareAgent', 'Edit history'],
+];
+
+// IPTC IIM record 2 datasets
+const IPTC_DATASETS: Record<number, string> = {
+  5: 'Object name',
+  25: 'Keywords',
+  55: 'Date created',
+  65: 'Originating program',
+  80: 'By-line',
+  105: 'Headline',
+  110: 'Credit',
+  115: 'Source',
+  116: 'Copyright notice',
+  120: 'Caption',
+};
+
+// PNG text keywords written by image generators (Automatic1111, ComfyUI, InvokeAI...)
+const GENERATOR_TEXT_KEYS = ['parameters', 'prompt', 'workflow', 'dream', 'sd-metadata', 'invokeai_metadata', 'negative_prompt'];
+
+const AI_GENERATOR_PATTERN = /stable.?diffusion|midjourney|dall[·\-\s]?e|openai|firefly|imagen|novelai|comfyui|automatic1111|invokeai|leonardo\.?ai|\bflux(\.1)?\b|ideogram|dreamstudio|craiyon|nightcafe|bing image creator|sdxl|generative fill/i;
+const EDITING_SOFTWARE_PATTERN = /photoshop|lightroom|gimp|affinity|pixelmator|snapseed|canva|facetune|faceapp|meitu|picsart|photopea|fotor|remini|lensa|paint\.net|capture one|luminar|darktable|rawtherapee|photoscape|airbrush|beautyplus/i;
+// IPTC digital source types of AI-generated media
+const AI_SOURCE_TYPES = ['trainedAlgorithmicMedia', 'compositeWithTrainedAlgorithmicMedia', 'algorithmicMedia'];
+
+const latin1 = new TextDecoder('latin1');
+const utf8 = new TextDecoder('utf-8');
+
+const ascii = (bytes: Uint8Array, start: number, end: number) => latin1.decode(bytes.subarray(start, end));
+
+const truncate = (value: string) =>
+  value.length > MAX_VALUE_LENGTH ? `${value.slice(0, MAX_VALUE_LENGTH)}...` : value;
+
+const decodeEntities = (value: string) => value
+  .replace(/&#(\d+);/g, (_, code) => String.fromCodePoint(Number(code)))
+  .replace(/&#x([0-9a-f]+);/gi, (_, code) => String.fromCodePoint(parseInt(code, 16)))
+  .replace(/&lt;/g, '<')
+  .replace(/&gt;/g, '>')
+  .replace(/&quot;/g, '"')
+  .replace(/&apos;/g, "'")
+  .replace(/&amp;/g, '&');
+
+/**
+ * Values of an XMP property, written either as attribute or as element
+ * (rdf:Alt/Bag/Seq lists are flattened)
+ */
+function xmpValues(xmp: string, property: string): string[] {
+  const name = property.replace('.', '\\.');
+  const values: string[] = [];
+  for (const match of xmp.matchAll(new RegExp(`\\b${name}="([^"]*)"`, 'g'))) {
+    values.push(match[1]);
+  }
+  for (const match of xmp.matchAll(new RegExp(`<${name}(?:\\s[^>]*)?>([\\s\\S]*?)</${name}>`, 'g'))) {
+    const items = [...match[1].matchAll(/<rdf:li(?:\s[^>]*)?>([\s\S]*?)<\/rdf:li>/g)].map(item => item[1]);
+    values.push(...(items.length > 0 ? items : [match[1]]));
+  }
+  return [...new Set(values.map(value => decodeEntities(value.replace(/<[^>]+>/g, '')).trim()).filter(Boolean))];
+}
+
+/**
+ * IPTC IIM datasets from a Photoshop image resource block (APP13)
+ */
+function readIptc(bytes: Uint8Array, start: number, end: number): MetadataEntry[] {
+  const values = new Map<string, string[]>();
+  let offset = start;
+  // Image resources: "8BIM", id, padded Pascal name, size, padded data
+  while (offset + 12 <= end && ascii(bytes, offset, offset + 4) === '8BIM') {
+    const id = bytes[offset + 4] << 8 | bytes[offset + 5];
+    const nameLength = bytes[offset + 6];
+    const sizeOffset = offset + 6 + ((nameLength + 2) & ~1);
+    if (sizeOffset + 4 > end) break;
+    const size = (bytes[sizeOffset] << 24 | bytes[sizeOffset + 1] << 16 | bytes[sizeOffset + 2] << 8 | bytes[sizeOffset + 3]) >>> 0;
+    const dataStart = sizeOffset + 4;
+    const dataEnd = Math.min(dataStart + size, end);
+
+    if (id === 0x0404) {
+      let position = dataStart;
+      while (position + 5 <= dataEnd && bytes[position] === 0x1c) {
+        const record = bytes[position + 1];
+        const dataset = bytes[position + 2];
+        const length = bytes[position + 3] << 8 | bytes[position + 4];
+        // Extended lengths (high bit) are not used by text datasets
+        if (length & 0x8000) break;
+        const label = record === 2 ? IPTC_DATASETS[dataset] : undefined;
+        if (label) {
+          const value = utf8.decode(bytes.subarray(position + 5, Math.min(position + 5 + length, dataEnd))).trim();
+          if (value) values.set(label, [...(values.get(label) || []), value]);
+        }
+        position += 5 + length;
+      }
+    }
+    offset = dataStart + size + (size & 1);
+  }
+  return [...values].map(([label, items]) => ({ label, value: truncate(items.join(', ')) }));
+}
+
+/**
+ * JPEG: APP1 (EXIF, XMP), APP13 (IPTC) and APP11 (C2PA JUMBF, split into segments)
+ */
+function readJpeg(bytes: Uint8Array, raw: RawMetadata) {
+  const jumbfParts = new Map<number, Uint8Array[]>();
+  let offset = 2;
+  while (offset + 4 <= bytes.length && bytes[offset] === 0xff) {
+    const marker = bytes[offset + 1];
+    if (marker === 0xda || marker === 0xd9) break;
+    const length = bytes[offset + 2] << 8 | bytes[offset + 3];
+    const start = offset + 4;
+    const end = Math.min(offset + 2 + length, bytes.length);
+
+    if (marker === 0xe1 && ascii(bytes, start, start + 6) === 'Exif\0\0') {
+      raw.exif = { ...raw.exif, ...readExifTags(bytes, start + 6) };
+    } else if (marker === 0xe1 && ascii(bytes, start, start + XMP_SIGNATURE.length) === XMP_SIGNATURE) {
+      raw.xmp.push(utf8.decode(bytes.subarray(start + XMP_SIGNATURE.length, end)));
+    } else if (marker === 0xed && ascii(bytes, start, start + PHOTOSHOP_SIGNATURE.length) === PHOTOSHOP_SIGNATURE) {
+      raw.iptc.push(...readIptc(bytes, start + PHOTOSHOP_SIGNATURE.length, end));
+    } else if (marker === 0xeb && ascii(bytes, start, start + 2) === 'JP') {
+      // "JP", box instance, sequence number; later segments repeat the box header
+      const instance = bytes[start + 2] << 8 | bytes[start + 3];
+      const parts = jumbfParts.get(instance) || [];
+      parts.push(bytes.subarray(start + 8 + (parts.length > 0 ? 8 : 0), end));
+      jumbfParts.set(instance, parts);
+    }
+    offset += 2 + length;
+  }
+  jumbfParts.forEach(parts => {
+    const jumbf = new Uint8Array(parts.reduce((size, part) => size + part.length, 0));
+    let position = 0;
+    for (const part of parts) {
+      jumbf.set(part, position);
+      position += part.length;
+    }
+    raw.jumbf.push(jumbf);
+  });
+}
+
+/**
+ * PNG chunks: eXIf, iTXt/tEXt (XMP and generator parameters), caBX (C2PA)
+ */
+function readPng(bytes: Uint8Array, raw: RawMetadata) {
+  let offset = 8;
+  while (offset + 12 <= bytes.length) {
+    const length = (bytes[offset] << 24 | bytes[offset + 1] << 16 | bytes[offset + 2] << 8 | bytes[offset + 3]) >>> 0;
+    const type = ascii(bytes, offset + 4, offset + 8);
+    const start = offset + 8;
+    const end = Math.min(start + length, bytes.length);
+
+    if (type === 'eXIf') {
+      raw.exif = { ...raw.exif, ...readExifTags(bytes, start) };
+    } else if (type === 'caBX') {
+      raw.jumbf.push(bytes.subarray(start, end));
+    } else if (type === 'tEXt' || type === 'iTXt') {
+      const keywordEnd = bytes.indexOf(0, start);
+      if (keywordEnd > start && keywordEnd < end) {
+        const keyword = ascii(bytes, start, keywordEnd);
+        let text: string | null;
+        if (type === 'tEXt') {
+          text = ascii(bytes, keywordEnd + 1, end);
+        } else {
+          // Compression flag, method, language tag, translated keyword, text
+          const compressed = bytes[keywordEnd + 1] === 1;
+          const languageEnd = bytes.indexOf(0, keywordEnd + 3);
+          const translatedEnd = languageEnd >= 0 ? bytes.indexOf(0, languageEnd + 1) : -1;
+          text = compressed || translatedEnd < 0 || translatedEnd >= end
+            ? null
+            : utf8.decode(bytes.subarray(translatedEnd + 1, end));
+        }
+        if (text !== null && keyword === 'XML:com.adobe.xmp') {
+          raw.xmp.push(text);
+        } else if (text !== null) {
+          raw.text.push({ label: keyword, value: truncate(text.trim()) });
+        }
+      }
+    } else if (type === 'IEND') {
+      break;
+    }
+    offset = start + length + 4;
+  }
+}
+
+/**
+ * WebP RIFF chunks: EXIF, XMP, C2PA
+ */
+function readWebp(bytes: Uint8Array, raw: RawMetadata) {
+  let offset = 12;
+  while (offset + 8 <= bytes.length) {
+    const type = ascii(bytes, offset, offset + 4);
+    const size = (bytes[offset + 4] | bytes[offset + 5] << 8 | bytes[offset + 6] << 16 | bytes[offset + 7] << 24) >>> 0;
+    const start = offset + 8;
+    const end = Math.min(start + size, bytes.length);
+    if (type === 'EXIF') raw.exif = { ...raw.exif, ...readExifTags(bytes, start) };
+    else if (type === 'XMP ') raw.xmp.push(utf8.decode(bytes.subarray(start, end)));
+    else if (type === 'C2PA') raw.jumbf.push(bytes.subarray(start, end));
+    offset = start + size + (size & 1);
+  }
+}
+
+/**
+ * Other formats (HEIC, AVIF, GIF...): XMP packets and C2PA stores found by scanning
+ */
+function scanGeneric(bytes: Uint8Array, raw: RawMetadata) {
+  const text = latin1.decode(bytes);
+  const xmpStart = text.indexOf('<x:xmpmeta');
+  const xmpEnd = text.indexOf('</x:xmpmeta>', xmpStart);
+  if (xmpStart >= 0 && xmpEnd > xmpStart) {
+    raw.xmp.push(utf8.decode(bytes.subarray(xmpStart, xmpEnd + 12)));
+  }
+  // Manifest store superbox: size, "jumb", then a "jumd" box labelled "c2pa"
+  for (let index = text.indexOf('jumb'); index >= 4; index = text.indexOf('jumb', index + 4)) {
+    if (text.slice(index + 8, index + 12) === 'jumd' && text.slice(index + 29, index + 34) === 'c2pa\0') {
+      raw.jumbf.push(bytes.subarray(index - 4));
+      break;
+    }
+  }
+}
+
+function buildFlags(raw: RawMetadata, xmp: MetadataEntry[], c2pa: C2paSummary | null): MetadataFlag[] {
+  const flags: MetadataFlag[] = [];
+  const hasMetadata = Object.keys(raw.exif).length > 0 || xmp.length > 0 || raw.iptc.length > 0 || raw.text.length > 0 || !!c2pa;
+
+  if (!hasMetadata) {
+    flags.push({
+      id: 'metadata-stripped',
+      severity: 'warning',
+      message: 'No metadata found. It may have been stripped by an editor, messenger or social network',
+      params: {},
+    });
+    return flags;
+  }
+
+  // Every tool or agent name the file mentions
+  const software = [
+    raw.exif.Software,
+    ...xmpValues(raw.xmp.join('\n'), 'xmp:CreatorTool'),
+    ...xmpValues(raw.xmp.join('\n'), 'stEvt:softwareAgent'),
+    ...raw.iptc.filter(entry => entry.label === 'Originating program').map(entry => entry.value),
+    ...raw.text.filter(entry => /^software$/i.test(entry.label)).map(entry => entry.value),
+    c2pa?.claimGenerator,
+    ...(c2pa?.actions || []),
+  ].filter((value): value is string => !!value);
+
+  const sourceTypes = [
+    ...(c2pa?.digitalSourceTypes || []),
+    ...xmpValues(raw.xmp.join('\n'), 'Iptc4xmpExt:DigitalSourceType').map(value => value.split('/').pop() || value),
+  ];
+  const aiSourceType = sourceTypes.find(type => AI_SOURCE_TYPES.includes(type));
+  const aiSoftware = software.find(value => AI_GENERATOR_PATTERN.test(value));
+  const generatorText = raw.text.find(entry => GENERATOR_TEXT_KEYS.includes(entry.label.toLowerCase()));
+
+  if (aiSourceType) {
+    flags.push({ id: 'ai-source-type', severity: 'critical', message: `Declared as AI-generated media (${aiSourceType})`, params: { sourceType: aiSourceType } });
+  }
+  if (aiSoftware) {
+    flags.push({ id: 'ai-generator', severity: 'critical', message: `AI generator marker: ${aiSoftware}`, params: { software: aiSoftware } });
+  }
+  if (generatorText) {
+    flags.push({ id: 'generation-parameters', severity: 'critical', message: `Image generation parameters embedded ("${generatorText.label}")`, params: { key: generatorText.label } });
+  }
+
+  const editor = software.find(value => EDITING_SOFTWARE_PATTERN.test(value));
+  if (editor) {
+    flags.push({ id: 'editing-software', severity: 'warning', message: `Processed with editing software: ${editor}`, params: { software: editor } });
+  }
+
+  const captured = raw.exif.DateTimeOriginal;
+  const modified = raw.exif.DateTime;
+  if (captured && modified && modified > captured) {
+    flags.push({ id: 'modified-after-capture', severity: 'info', message: `Modified after capture (captured ${captured}, modified ${modified})`, params: { captured, modified } });
+  }
+  if (!raw.exif.Make && !raw.exif.Model && !c2pa && !aiSourceType && !aiSoftware) {
+    flags.push({ id: 'no-camera-info', severity: 'info', message: 'No camera make or model recorded', params: {} });
+  }
+  if (c2pa) {
+    flags.push({
+      id: 'content-credentials',
+      severity: 'info',
+      message: `Content Credentials present${c2pa.signer ? `, signed by ${c2pa.signer}` : ''} (signature not verified)`,
+      params: c2pa.signer ? { signer: c2pa.signer } : {},
+    });
+  }
+  return flags;
+}
+
+/**
+ * Extracts EXIF, XMP, IPTC, PNG text and C2PA metadata from image bytes
+ */
+export function extractImageMetadata(bytes: Uint8Array): ImageMetadata {
+  const format = sniffSourceFormat(bytes);
+  const raw: RawMetadata = { exif: {}, xmp: [], iptc: [], text: [], jumbf: [] };
+
+  try {
+    if (format === 'jpeg') readJpeg(bytes, raw);
+    else if (format === 'png') readPng(bytes, raw);
+    else if (format === 'webp') readWebp(bytes, raw);
+    else if (format === 'tiff') raw.exif = readExifTags(bytes, 0);
+    if (format !== 'jpeg' && format !== 'png' && format !== 'webp') scanGeneric(bytes, raw);
+  } catch (error) {
+    // Corrupt metadata: keep what was read so far
+    console.error('Image metadata: failed to parse', error);
+  }
+
+  let c2pa: C2paSummary | null = null;
+  for (const jumbf of raw.jumbf) {
+    c2pa = readC2paManifestStore(jumbf);
+    if (c2pa) break;
+  }
+
+  const xmpText = raw.xmp.join('\n');
+  const xmp = XMP_PROPERTIES
+    .map(([property, label]) => ({ label, value: truncate(xmpValues(xmpText, property).join(', ')) }))
+    .filter(entry => entry.value);
+
+  const c2paEntries: MetadataEntry[] = c2pa ? [
+    { label: 'Manifests', value: String(c2pa.manifestCount) },
+    ...(c2pa.claimGenerator ? [{ label: 'Claim generator', value: c2pa.claimGenerator }] : []),
+    ...(c2pa.title ? [{ label: 'Title', value: c2pa.title }] : []),
+    ...(c2pa.signer ? [{ label: 'Signed by (unverified)', value: c2pa.signer }] : []),
+    ...(c2pa.actions.length > 0 ? [{ label: 'Actions', value: truncate(c2pa.actions.join(', ')) }] : []),
+    ...(c2pa.digitalSourceTypes.length > 0 ? [{ label: 'Digital source type', value: c2pa.digitalSourceTypes.join(', ') }] : []),
+  ] : [];
+
+  const sections: MetadataSection[] = [
+    { id: 'c2pa' as const, entries: c2paEntries },
+    { id: 'exif' as const, entries: Object.entries(raw.exif).map(([label, value]) => ({ label, value })) },
+    { id: 'xmp' as const, entries: xmp },
+    { id: 'iptc' as const, entries: raw.iptc },
+    { id: 'text' as const, entries: raw.text },
+  ]
+    .filter(section => section.entries.length > 0)
+    .map(section => ({ ...section, title: SECTION_TITLES[section.id] }));
+
+  return { format, sections, c2pa, flags: buildFlags(raw, xmp, c2pa) };
+}
@@ -0,0 +1,153 @@
+// lib/images/preprocess.ts
+import { readExifOrientation } from './exif';
+import { SourceFormat, sniffSourceFormat } from './sniff';
+import type { PreprocessWorkerRequest, PreprocessWorkerResponse } from './preprocess.worker';
+
+// Optional client-side preprocessing before upload. The image is decoded in a
+// Web Worker, EXIF orientation is applied, large images are downscaled and
+// formats the analysis handles poorly are converted. Images that need none of
+// this are sent untouched.
+
+export const DEFAULT_MAX_DIMENSION = 2048;
+export const MAX_DIMENSION_OPTIONS = [1024, 1536, 2048, 3072, 4096];
+
+// Converted to JPEG before upload
+const CONVERTED_FORMATS: SourceFormat[] = ['heic', 'avif', 'tiff'];
+// Re-encoded as PNG to keep them lossless
+const LOSSLESS_FORMATS: SourceFormat[] = ['png', 'gif', 'bmp'];
+const JPEG_QUALITY = 0.92;
+// Enough for the format signature and the EXIF block
+const HEADER_BYTES = 128 * 1024;
+const WORKER_TIMEOUT_MS = 60000;
+
+export type PreprocessStep = 'orientation' | 'resize' | 'convert';
+
+export interface ImageSummary {
+  size: number;
+  type: string;
+  width?: number;
+  height?: number;
+}
+
+export interface PreprocessResult {
+  // File to upload: the original one when no step was needed
+  file: File;
+  steps: PreprocessStep[];
+  original: ImageSummary;
+  processed: ImageSummary;
+}
+
+export type ImagePreprocessErrorCode = 'UNSUPPORTED_BROWSER' | 'DECODE_FAILED' | 'TIMEOUT';
+
+/**
+ * Preprocessing could not run; the original file can still be uploaded
+ */
+export class ImagePreprocessError extends Error {
+  constructor(
+    public readonly code: ImagePreprocessErrorCode,
+    message: string
+  ) {
+    super(message);
+    this.name = 'ImagePreprocessError';
+  }
+}
+
+/**
+ * Default max dimension (NEXT_PUBLIC_PREPROCESS_MAX_DIMENSION)
+ */
+export function getDefaultMaxDimension(): number {
+  const configured = process.env.NEXT_PUBLIC_PREPROCESS_MAX_DIMENSION;
+  if (!configured) return DEFAULT_MAX_DIMENSION;
+  const value = Number(configured);
+  if (!Number.isInteger(value) || value <= 0) {
+    console.error('Image preprocessing: invalid NEXT_PUBLIC_PREPROCESS_MAX_DIMENSION', configured);
+    return DEFAULT_MAX_DIMENSION;
+  }
+  return value;
+}
+
+const renameExtension = (name: string, extension: string) =>
+  `${name.replace(/\.[^.]*$/, '') || 'image'}.${extension}`;
+
+function runWorker(request: PreprocessWorkerRequest): Promise<PreprocessWorkerResponse> {
+  return new Promise((resolve, reject) => {
+    const worker = new Worker(new URL('./preprocess.worker.ts', import.meta.url));
+    const timeout = setTimeout(() => {
+      worker.terminate();
+      reject(new ImagePreprocessError('TIMEOUT', 'Image preprocessing took too long'));
+    }, WORKER_TIMEOUT_MS);
+    worker.onmessage = (event: MessageEvent<PreprocessWorkerResponse>) => {
+      clearTimeout(timeout);
+      worker.terminate();
+      resolve(event.data);
+    };
+    worker.onerror = (event) => {
+      clearTimeout(timeout);
+      worker.terminate();
+      reject(new ImagePreprocessError('DECODE_FAILED', event.message || 'Image preprocessing failed'));
+    };
+    worker.postMessage(request);
+  });
+}
+
+/**
+ * Prepares an image for upload: applies EXIF orientation, downscales it to
+ * maxDimension and converts HEIC/AVIF/TIFF to JPEG.
+ * Throws ImagePreprocessError when the browser cannot do it.
+ */
+export async function preprocessImage(
+  file: File,
+  maxDimension: number = getDefaultMaxDimension()
+): Promise<PreprocessResult> {
+  const original: ImageSummary = { size: file.size, type: file.type };
+
+  if (typeof Worker === 'undefined' || typeof OffscreenCanvas === 'undefined') {
+    throw new ImagePreprocessError('UNSUPPORTED_BROWSER', 'This browser cannot preprocess images');
+  }
+
+  const header = new Uint8Array(await file.slice(0, HEADER_BYTES).arrayBuffer());
+  const format = sniffSourceFormat(header);
+  // Not an image: left to the server-side validation
+  if (!format) {
+    return { file, steps: [], original, processed: original };
+  }
+
+  const convert = CONVERTED_FORMATS.includes(format);
+  const orientation = format === 'jpeg' || format === 'tiff' ? readExifOrientation(header) : 1;
+  const response = await runWorker({
+    file,
+    maxDimension,
+    outputType: LOSSLESS_FORMATS.includes(format) ? 'image/png' : 'image/jpeg',
+    quality: JPEG_QUALITY,
+    force: convert || orientation > 1,
+  });
+  if (!response.ok) {
+    throw new ImagePreprocessError('DECODE_FAILED', response.error);
+  }
+
+  original.width = response.sourceWidth;
+  original.height = response.sourceHeight;
+  if (!response.blob) {
+    return { file, steps: [], original, processed: original };
+  }
+
+  const steps: PreprocessStep[] = [];
+  if (orientation > 1) steps.push('orientation');
+  if (response.width !== response.sourceWidth || response.height !== response.sourceHeight) steps.push('resize');
+  if (convert) steps.push('convert');
+
+  // convertToBlob falls back to PNG for types the browser cannot encode
+  const type = response.blob.type || 'image/png';
+  const processedFile = new File(
+    [response.blob],
+    renameExtension(file.name, type === 'image/jpeg' ? 'jpg' : 'png'),
+    { type, lastModified: file.lastModified }
+  );
+
+  return {
+    file: processedFile,
+    steps,
+    original,
+    processed: { size: processedFile.size, type, width: response.width, height: response.height },
+  };
+}
@@ -0,0 +1,79 @@
+// lib/images/preprocess.worker.ts
+
+// Decodes, orients, scales and re-encodes one image off the main thread.
+// Started by preprocessImage() (lib/images/preprocess.ts).
+
+export interface PreprocessWorkerRequest {
+  file: Blob;
+  maxDimension: number;
+  outputType: 'image/jpeg' | 'image/png';
+  quality: number;
+  // Re-encode even if no downscaling is needed (orientation, conversion)
+  force: boolean;
+}
+
+export type PreprocessWorkerResponse =
+  | {
+      ok: true;
+      // Dimensions after EXIF orientation
+      sourceWidth: number;
+      sourceHeight: number;
+      width: number;
+      height: number;
+      // null when the image can be sent as is
+      blob: Blob | null;
+    }
+  | { ok: false; error: string };
+
+/**
+ * Dimensions that fit into a maxDimension square, keeping the aspect ratio
+ */
+export function fitWithin(width: number, height: number, maxDimension: number): { width: number; height: number } {
+  const scale = Math.min(1, maxDimension / Math.max(width, height));
+  return {
+    width: Math.max(1, Math.round(width * scale)),
+    height: Math.max(1, Math.round(height * scale)),
+  };
+}
+
+async function preprocess(request: PreprocessWorkerRequest): Promise<PreprocessWorkerResponse> {
+  let bitmap: ImageBitmap;
+  try {
+    // 'from-image' applies the EXIF orientation while decoding
+    bitmap = await createImageBitmap(request.file, { imageOrientation: 'from-image' });
+  } catch {
+    return { ok: false, error: 'This browser cannot decode the image' };
+  }
+
+  try {
+    const sourceWidth = bitmap.width;
+    const sourceHeight = bitmap.height;
+    const { width, height } = fitWithin(sourceWidth, sourceHeight, request.maxDimension);
+    if (!request.force && width === sourceWidth && height === sourceHeight) {
+      return { ok: true, sourceWidth, sourceHeight, width, height, blob: null };
+    }
+
+    const canvas = new OffscreenCanvas(width, height);
+    const context = canvas.getContext('2d');
+    if (!context) {
+      return { ok: false, error: 'Canvas is not available' };
+    }
+    if (request.outputType === 'image/jpeg') {
+      // JPEG has no alpha channel: flatten transparency onto white
+      context.fillStyle = '#ffffff';
+      context.fillRect(0, 0, width, height);
+    }
+    context.imageSmoothingQuality = 'high';
+    context.drawImage(bitmap, 0, 0, width, height);
+    const blob = await canvas.convertToBlob({ type: request.outputType, quality: request.quality });
+    return { ok: true, sourceWidth, sourceHeight, width, height, blob };
+  } catch (error) {
+    return { ok: false, error: error instanceof Error ? error.message : 'Failed to encode the image' };
+  } finally {
+    bitmap.close();
+  }
+}
+
+self.onmessage = async (event: MessageEvent<PreprocessWorkerRequest>) => {
+  self.postMessage(await preprocess(event.data));
+};
@@ -0,0 +1,87 @@
+import { describe, expect, it } from 'vitest';
+import { ImageIntakeError, findPolyglot, sniffImageType, validateImageBytes } from './sniff';
+
+const bytes = (...parts: (number[] | Uint8Array | string)[]) => new Uint8Array(
+  parts.flatMap(part => Array.from(typeof part === 'string' ? Buffer.from(part, 'latin1') : part))
+);
+
+const JPEG = bytes([0xff, 0xd8, 0xff, 0xe0], [0, 16], 'JFIF', [0], new Array(32).fill(0), [0xff, 0xd9]);
+const PNG = bytes([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a], new Array(24).fill(0));
+const ftyp = (major: string, ...compatible: string[]) => {
+  const size = 16 + compatible.length * 4;
+  return bytes([0, 0, 0, size], 'ftyp', major, [0, 0, 0, 0], compatible.join(''), new Array(16).fill(0));
+};
+
+const intakeCode = (data: Uint8Array) => {
+  try {
+    validateImageBytes(data);
+    return null;
+  } catch (error) {
+    return error instanceof ImageIntakeError ? error.code : 'other';
+  }
+};
+
+describe('sniffImageType', () => {
+  it.each([
+    ['jpeg', JPEG],
+    ['png', PNG],
+    ['gif', bytes('GIF89a', new Array(16).fill(0))],
+    ['webp', bytes('RIFF', [0, 0, 0, 0], 'WEBPVP8 ', new Array(16).fill(0))],
+    ['bmp', bytes('BM', [0x36, 0, 0, 0], [0, 0, 0, 0], [0x36, 0, 0, 0], new Array(20).fill(0))],
+    ['heic', ftyp('heic', 'mif1', 'heic')],
+    ['heic', ftyp('mif1', 'mif1', 'miaf')],
+    ['avif', ftyp('avif', 'mif1', 'avif')],
+  ])('detects %s', (format, data) => {
+    expect(sniffImageType(data)?.format).toBe(format);
+  });
+
+  it('ignores other ISO media files (MP4)', () => {
+    expect(sniffImageType(ftyp('isom', 'isom', 'mp41'))).toBeNull();
+  });
+});
+
+describe('validateImageBytes', () => {
+  it('accepts a plain image regardless of its declared type', () => {
+    expect(validateImageBytes(PNG).mimeType).toBe('image/png');
+  });
+
+  it('rejects empty files', () => {
+    expect(intakeCode(new Uint8Array())).toBe('EMPTY_IMAGE');
+  });
+
+  it('rejects SVG, also with BOM and XML prolog', () => {
+    expect(intakeCode(bytes('<svg xmlns="http://www.w3.org/2000/svg"/>'))).toBe('SVG_NOT_ALLOWED');
+    expect(intakeCode(bytes([0xef, 0xbb, 0xbf], '  <?xml version="1.0"?><svg/>'))).toBe('SVG_NOT_ALLOWED');
+  });
+
+  it('rejects HTML and other non-images as unsupported', () => {
+    expect(intakeCode(bytes('<!doctype html><html></html>'))).toBe('UNSUPPORTED_IMAGE_TYPE');
+    expect(intakeCode(bytes('%PDF-1.7\n'))).toBe('UNSUPPORTED_IMAGE_TYPE');
+  });
+
+  it('rejects polyglots and reports 415', () => {
+    const withScript = bytes(JPEG, '<script>alert(1)</script>');
+    expect(intakeCode(withScript)).toBe('POLYGLOT_IMAGE');
+    expect(new ImageIntakeError('POLYGLOT_IMAGE', 'x').status).toBe(415);
+  });
+
+  it('reports 413 for oversized images', () => {
+    expect(new ImageIntakeError('IMAGE_TOO_LARGE', 'x', 10).toJSON()).toEqual({ error: 'x', code: 'IMAGE_TOO_LARGE', maxBytes: 10 });
+    expect(new ImageIntakeError('IMAGE_TOO_LARGE', 'x').status).toBe(413);
+  });
+});
+
+describe('findPolyglot', () => {
+  it('finds a PDF header within the first kilobyte', () => {
+    expect(findPolyglot(bytes(JPEG.subarray(0, 20), '%PDF-1.4', JPEG.subarray(20)))).toBe('PDF header');
+  });
+
+  it('finds an appended ZIP archive', () => {
+    const eocd = bytes('PK', [5, 6], new Array(16).fill(0), [0, 0]);
+    expect(findPolyglot(bytes(PNG, eocd))).toBe('appended ZIP archive');
+  });
+
+  it('does not flag XMP metadata', () => {
+    expect(findPolyglot(bytes(JPEG, '<?xpacket begin=""?><x:xmpmeta xmlns:x="adobe:ns:meta/"></x:xmpmeta>'))).toBeNull();
+  });
+});
@@ -0,0 +1,193 @@
+// lib/images/sniff.ts
+
+// Image type detection from file contents. Shared by the upload routes
+// (validation) and the client (mapping intake errors to messages).
+
+export type ImageFormat = 'jpeg' | 'png' | 'webp' | 'gif' | 'bmp' | 'heic' | 'avif';
+
+export type SourceFormat = ImageFormat | 'tiff';
+
+export interface SniffedImage {
+  format: ImageFormat;
+  mimeType: string;
+  extension: string;
+}
+
+export type ImageIntakeErrorCode =
+  | 'IMAGE_TOO_LARGE'
+  | 'EMPTY_IMAGE'
+  | 'UNSUPPORTED_IMAGE_TYPE'
+  | 'SVG_NOT_ALLOWED'
+  | 'POLYGLOT_IMAGE';
+
+const IMAGE_TYPES: Record<ImageFormat, SniffedImage> = {
+  jpeg: { format: 'jpeg', mimeType: 'image/jpeg', extension: 'jpg' },
+  png: { format: 'png', mimeType: 'image/png', extension: 'png' },
+  webp: { format: 'webp', mimeType: 'image/webp', extension: 'webp' },
+  gif: { format: 'gif', mimeType: 'image/gif', extension: 'gif' },
+  bmp: { format: 'bmp', mimeType: 'image/bmp', extension: 'bmp' },
+  heic: { format: 'heic', mimeType: 'image/heic', extension: 'heic' },
+  avif: { format: 'avif', mimeType: 'image/avif', extension: 'avif' },
+};
+
+const HEIC_BRANDS = ['heic', 'heix', 'hevc', 'hevx', 'heim', 'heis', 'mif1', 'msf1'];
+const AVIF_BRANDS = ['avif', 'avis'];
+
+// Markup or documents hidden inside an image (polyglots)
+const EMBEDDED_MARKERS = ['<script', '<html', '<svg', '<?php', '<!doctype html', '<iframe', 'javascript:'];
+
+/**
+ * Rejected upload: too large, not a supported image, SVG or a polyglot file
+ */
+export class ImageIntakeError extends Error {
+  constructor(
+    public readonly code: ImageIntakeErrorCode,
+    message: string,
+    public readonly maxBytes?: number
+  ) {
+    super(message);
+    this.name = 'ImageIntakeError';
+  }
+
+  // HTTP status for route handlers
+  get status(): number {
+    if (this.code === 'IMAGE_TOO_LARGE') return 413;
+    if (this.code === 'EMPTY_IMAGE') return 400;
+    return 415;
+  }
+
+  toJSON() {
+    return {
+      error: this.message,
+      code: this.code,
+      maxBytes: this.maxBytes,
+    };
+  }
+
+  static isIntakeErrorBody(body: unknown): body is { error: string; code: ImageIntakeErrorCode; maxBytes?: number } {
+    const codes: ImageIntakeErrorCode[] = [
+      'IMAGE_TOO_LARGE',
+      'EMPTY_IMAGE',
+      'UNSUPPORTED_IMAGE_TYPE',
+      'SVG_NOT_ALLOWED',
+      'POLYGLOT_IMAGE',
+    ];
+    return !!body && typeof body === 'object' && codes.includes((body as { code?: ImageIntakeErrorCode }).code!);
+  }
+}
+
+const latin1 = new TextDecoder('latin1');
+
+const ascii = (bytes: Uint8Array, start: number, end: number): string =>
+  latin1.decode(bytes.subarray(start, end));
+
+const startsWith = (bytes: Uint8Array, signature: number[], offset = 0): boolean =>
+  signature.every((byte, i) => bytes[offset + i] === byte);
+
+/**
+ * Brands of an ISO base media file (`ftyp` box): major brand and compatible ones
+ */
+function ftypBrands(bytes: Uint8Array): string[] {
+  if (bytes.length < 16 || ascii(bytes, 4, 8) !== 'ftyp') return [];
+  const boxSize = Math.min((bytes[0] << 24 | bytes[1] << 16 | bytes[2] << 8 | bytes[3]) >>> 0, bytes.length, 256);
+  const brands = [ascii(bytes, 8, 12)];
+  for (let offset = 16; offset + 4 <= boxSize; offset += 4) {
+    brands.push(ascii(bytes, offset, offset + 4));
+  }
+  return brands;
+}
+
+/**
+ * Detects the image format from magic bytes; null if it is not a supported image
+ */
+export function sniffImageType(bytes: Uint8Array): SniffedImage | null {
+  if (startsWith(bytes, [0xff, 0xd8, 0xff])) return IMAGE_TYPES.jpeg;
+  if (startsWith(bytes, [0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a])) return IMAGE_TYPES.png;
+  if (bytes.length >= 6 && ['GIF87a', 'GIF89a'].includes(ascii(bytes, 0, 6))) return IMAGE_TYPES.gif;
+  if (bytes.length >= 12 && ascii(bytes, 0, 4) === 'RIFF' && ascii(bytes, 8, 12) === 'WEBP') return IMAGE_TYPES.webp;
+  // BMP: "BM" + reserved fields that are always zero
+  if (bytes.length >= 26 && ascii(bytes, 0, 2) === 'BM' && bytes.subarray(6, 10).every(byte => byte === 0)) {
+    return IMAGE_TYPES.bmp;
+  }
+  const brands = ftypBrands(bytes);
+  if (brands.some(brand => AVIF_BRANDS.includes(brand))) return IMAGE_TYPES.avif;
+  if (brands.some(brand => HEIC_BRANDS.includes(brand))) return IMAGE_TYPES.heic;
+  return null;
+}
+
+/**
+ * Image format from magic bytes, also recognizing TIFF (not accepted for
+ * upload, but converted in the browser and parsed for metadata)
+ */
+export function sniffSourceFormat(bytes: Uint8Array): SourceFormat | null {
+  const sniffed = sniffImageType(bytes);
+  if (sniffed) return sniffed.format;
+  const isTiff = startsWith(bytes, [0x49, 0x49, 0x2a, 0x00]) || startsWith(bytes, [0x4d, 0x4d, 0x00, 0x2a]);
+  return isTiff ? 'tiff' : null;
+}
+
+/**
+ * True for SVG/XML documents (text starting with `<` after BOM and whitespace)
+ */
+export function looksLikeSvg(bytes: Uint8Array): boolean {
+  const head = ascii(bytes, 0, Math.min(bytes.length, 512))
+    .replace(/^(\uFEFF|\xEF\xBB\xBF)/, '')
+    .trimStart()
+    .toLowerCase();
+  return head.startsWith('<?xml') || head.startsWith('<svg') || (head.startsWith('<!--') && head.includes('<svg'));
+}
+
+/**
+ * ZIP end-of-central-directory record whose comment ends exactly at the end
+ * of the file (how ZIP readers locate an archive appended to an image)
+ */
+function hasZipTrailer(bytes: Uint8Array): boolean {
+  const minOffset = Math.max(0, bytes.length - 65557);
+  for (let offset = bytes.length - 22; offset >= minOffset; offset--) {
+    if (startsWith(bytes, [0x50, 0x4b, 0x05, 0x06], offset)) {
+      const commentLength = bytes[offset + 20] | bytes[offset + 21] << 8;
+      if (offset + 22 + commentLength === bytes.length) return true;
+    }
+  }
+  return false;
+}
+
+/**
+ * Describes why a valid-looking image is also another kind of file, or null.
+ * Checks for embedded markup, a PDF header within the first KB (where PDF
+ * readers look for it) and an appended ZIP archive.
+ */
+export function findPolyglot(bytes: Uint8Array): string | null {
+  const text = ascii(bytes, 0, bytes.length).toLowerCase();
+  const marker = EMBEDDED_MARKERS.find(item => text.includes(item));
+  if (marker) return `embedded ${marker.replace(/[<:]/g, '')} content`;
+  if (text.slice(0, 1024).includes('%pdf-')) return 'PDF header';
+  if (hasZipTrailer(bytes)) return 'appended ZIP archive';
+  return null;
+}
+
+/**
+ * Validates image contents and returns the detected type.
+ * The declared Content-Type is never trusted.
+ */
+export function validateImageBytes(bytes: Uint8Array): SniffedImage {
+  if (bytes.length === 0) {
+    throw new ImageIntakeError('EMPTY_IMAGE', 'The file is empty');
+  }
+  if (looksLikeSvg(bytes)) {
+    throw new ImageIntakeError('SVG_NOT_ALLOWED', 'SVG images are not supported');
+  }
+  const type = sniffImageType(bytes);
+  if (!type) {
+    throw new ImageIntakeError(
+      'UNSUPPORTED_IMAGE_TYPE',
+      'Unsupported image format. Use JPEG, PNG, WebP, GIF, BMP, HEIC or AVIF'
+    );
+  }
+  const polyglot = findPolyglot(bytes);
+  if (polyglot) {
+    console.error(`[SECURITY] Rejected ${type.format} polyglot: ${polyglot}`);
+    throw new ImageIntakeError('POLYGLOT_IMAGE', `The image contains ${polyglot} and was rejected`);
+  }
+  return type;
+}
@@ -0,0 +1,81 @@
+import { describe, expect, it } from 'vitest';
+import { GrayImage, findTemplate, toGrayImage } from './templateMatch';
+
+// Deterministic scene of overlapping soft blobs (smooth like a photo)
+function scene(width: number, height: number, seed = 7): GrayImage {
+  let state = seed;
+  const random = () => {
+    state = (state * 1103515245 + 12345) % 2147483648;
+    return state / 2147483648;
+  };
+  const blobs = Array.from({ length: 160 }, () => ({
+    x: random() * width,
+    y: random() * height,
+    radius: 3 + random() * 25,
+    weight: (random() - 0.5) * 200,
+  }));
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let value = 128;
+      for (const blob of blobs) {
+        const distance = ((x - blob.x) ** 2 + (y - blob.y) ** 2) / (blob.radius * blob.radius);
+        value += blob.weight * Math.exp(-distance);
+      }
+      data[y * width + x] = value;
+    }
+  }
+  return { width, height, data };
+}
+
+// Nearest-neighbour crop of `image` resized to size x size
+function crop(image: GrayImage, left: number, top: number, width: number, height: number, scale: number): GrayImage {
+  const outWidth = Math.round(width * scale);
+  const outHeight = Math.round(height * scale);
+  const data = new Float32Array(outWidth * outHeight);
+  for (let y = 0; y < outHeight; y++) {
+    for (let x = 0; x < outWidth; x++) {
+      data[y * outWidth + x] = image.data[Math.floor(top + y / scale) * image.width + Math.floor(left + x / scale)];
+    }
+  }
+  return { width: outWidth, height: outHeight, data };
+}
+
+describe('findTemplate', () => {
+  const image = scene(320, 240);
+
+  it('locates a resized crop', () => {
+    const match = findTemplate(image, crop(image, 150, 60, 64, 80, 2.5));
+    expect(match).not.toBeNull();
+    expect(match!.x * 320).toBeCloseTo(150, -1);
+    expect(match!.y * 240).toBeCloseTo(60, -1);
+    expect(match!.width * 320).toBeGreaterThan(56);
+    expect(match!.width * 320).toBeLessThan(72);
+    expect(match!.score).toBeGreaterThan(0.9);
+  });
+
+  it('locates a small crop scaled down', () => {
+    const match = findTemplate(image, crop(image, 20, 150, 40, 40, 0.8));
+    expect(match).not.toBeNull();
+    expect(Math.abs(match!.x * 320 - 20)).toBeLessThan(5);
+    expect(Math.abs(match!.y * 240 - 150)).toBeLessThan(5);
+  });
+
+  it('returns null for a crop from another image', () => {
+    const other = scene(320, 240, 12345);
+    expect(findTemplate(image, crop(other, 100, 100, 60, 60, 1))).toBeNull();
+  });
+
+  it('returns null for a flat template', () => {
+    const flat = { width: 10, height: 10, data: new Float32Array(100).fill(50) };
+    expect(findTemplate(image, flat)).toBeNull();
+  });
+});
+
+describe('toGrayImage', () => {
+  it('converts RGBA pixels to luminance', () => {
+    const gray = toGrayImage(new Uint8ClampedArray([255, 255, 255, 255, 255, 0, 0, 255]), 2, 1);
+    expect(gray.data[0]).toBeCloseTo(255);
+    expect(gray.data[1]).toBeCloseTo(76.245);
+  });
+});
@@ -0,0 +1,216 @@
+// lib/images/templateMatch.ts
+
+// Locates a face crop inside the original image when the API does not report
+// face coordinates: multi-scale normalized cross-correlation on grayscale
+// pixels, first on a small copy of the image, then refined around the best hit.
+
+export interface GrayImage {
+  width: number;
+  height: number;
+  // Luminance 0-255, row by row
+  data: Float32Array;
+}
+
+export interface TemplateMatch {
+  // Fractions of the image size
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  // Normalized cross-correlation, -1..1
+  score: number;
+}
+
+interface Candidate {
+  x: number;
+  y: number;
+  width: number;
+  height: number;
+  score: number;
+}
+
+// Working width of the coarse search
+const COARSE_WIDTH = 128;
+// Template samples per side in the coarse and fine passes
+const COARSE_GRID = 12;
+const FINE_GRID = 24;
+// Crop widths tried, as fractions of the image width
+const MIN_RELATIVE_WIDTH = 0.04;
+const SCALE_STEPS = 18;
+// Below this score the crop is considered not found: exact crops score ~0.99,
+// unrelated textured regions rarely exceed 0.8
+export const MIN_MATCH_SCORE = 0.85;
+
+/**
+ * Converts RGBA pixels (ImageData layout) to luminance
+ */
+export function toGrayImage(rgba: Uint8ClampedArray | Uint8Array, width: number, height: number): GrayImage {
+  const data = new Float32Array(width * height);
+  for (let i = 0; i < data.length; i++) {
+    data[i] = 0.299 * rgba[i * 4] + 0.587 * rgba[i * 4 + 1] + 0.114 * rgba[i * 4 + 2];
+  }
+  return { width, height, data };
+}
+
+/**
+ * Box-filter downscale so that the width is at most `maxWidth`
+ */
+export function downscaleGray(image: GrayImage, maxWidth: number): GrayImage {
+  const factor = Math.ceil(image.width / maxWidth);
+  if (factor <= 1) return image;
+  const width = Math.floor(image.width / factor);
+  const height = Math.max(1, Math.floor(image.height / factor));
+  const data = new Float32Array(width * height);
+  for (let y = 0; y < height; y++) {
+    for (let x = 0; x < width; x++) {
+      let sum = 0;
+      for (let dy = 0; dy < factor; dy++) {
+        const row = (y * factor + dy) * image.width + x * factor;
+        for (let dx = 0; dx < factor; dx++) sum += image.data[row + dx];
+      }
+      data[y * width + x] = sum / (factor * factor);
+    }
+  }
+  return { width, height, data };
+}
+
+/**
+ * Template samples on a grid x grid lattice, zero mean and unit norm;
+ * null for a flat template (nothing to correlate)
+ */
+function sampleTemplate(template: GrayImage, grid: number): Float32Array | null {
+  const samples = new Float32Array(grid * grid);
+  let mean = 0;
+  for (let v = 0; v < grid; v++) {
+    for (let u = 0; u < grid; u++) {
+      const x = Math.floor((u + 0.5) * template.width / grid);
+      const y = Math.floor((v + 0.5) * template.height / grid);
+      samples[v * grid + u] = template.data[y * template.width + x];
+      mean += samples[v * grid + u];
+    }
+  }
+  mean /= samples.length;
+  let norm = 0;
+  for (let i = 0; i < samples.length; i++) {
+    samples[i] -= mean;
+    norm += samples[i] * samples[i];
+  }
+  if (norm < 1e-6) return null;
+  norm = Math.sqrt(norm);
+  for (let i = 0; i < samples.length; i++) samples[i] /= norm;
+  return samples;
+}
+
+/**
+ * Correlation between the template samples and the image window at (x, y) of size width x height
+ */
+function correlate(
+  image: GrayImage,
+  samples: Float32Array,
+  grid: number,
+  x: number,
+  y: number,
+  width: number,
+  height: number,
+  window: Float32Array
+): number {
+  let mean = 0;
+  for (let v = 0; v < grid; v++) {
+    const row = Math.floor(y + (v + 0.5) * height / grid) * image.width;
+    for (let u = 0; u < grid; u++) {
+      const value = image.data[row + Math.floor(x + (u + 0.5) * width / grid)];
+      window[v * grid + u] = value;
+      mean += value;
+    }
+  }
+  mean /= window.length;
+  let dot = 0;
+  let norm = 0;
+  for (let i = 0; i < window.length; i++) {
+    const value = window[i] - mean;
+    dot += value * samples[i];
+    norm += value * value;
+  }
+  return norm < 1e-6 ? 0 : dot / Math.sqrt(norm);
+}
+
+/**
+ * Best position of `template` in `image` for the given window sizes and search area
+ */
+function search(
+  image: GrayImage,
+  samples: Float32Array,
+  grid: number,
+  sizes: Array<{ width: number; height: number }>,
+  area: { left: number; top: number; right: number; bottom: number }
+): Candidate | null {
+  const window = new Float32Array(grid * grid);
+  let best: Candidate | null = null;
+  for (const { width, height } of sizes) {
+    const maxX = Math.min(area.right, image.width - width);
+    const maxY = Math.min(area.bottom, image.height - height);
+    for (let y = Math.max(0, area.top); y <= maxY; y++) {
+      for (let x = Math.max(0, area.left); x <= maxX; x++) {
+        const score = correlate(image, samples, grid, x, y, width, height, window);
+        if (!best || score > best.score) best = { x, y, width, height, score };
+      }
+    }
+  }
+  return best;
+}
+
+/**
+ * Finds where `template` (a face crop, possibly resized) appears in `image`.
+ * The crop keeps its aspect ratio; returns null when no window correlates
+ * at least MIN_MATCH_SCORE.
+ */
+export function findTemplate(image: GrayImage, template: GrayImage): TemplateMatch | null {
+  if (template.width < 2 || template.height < 2 || image.width < 2 || image.height < 2) return null;
+  const aspect = template.height / template.width;
+
+  // Coarse pass over all positions and scales
+  const coarse = downscaleGray(image, COARSE_WIDTH);
+  const coarseSamples = sampleTemplate(template, COARSE_GRID);
+  if (!coarseSamples) return null;
+  const sizes: Array<{ width: number; height: number }> = [];
+  for (let step = 0; step < SCALE_STEPS; step++) {
+    const relative = MIN_RELATIVE_WIDTH * Math.pow(1 / MIN_RELATIVE_WIDTH, step / (SCALE_STEPS - 1));
+    const width = Math.max(2, Math.round(coarse.width * relative));
+    const height = Math.round(width * aspect);
+    if (height >= 2 && height <= coarse.height && width <= coarse.width) sizes.push({ width, height });
+  }
+  const found = search(coarse, coarseSamples, COARSE_GRID, sizes, {
+    left: 0, top: 0, right: coarse.width, bottom: coarse.height,
+  });
+  if (!found) return null;
+
+  // Fine pass on the full image around the coarse hit
+  const ratio = image.width / coarse.width;
+  const fineSamples = sampleTemplate(template, FINE_GRID) || coarseSamples;
+  const fineGrid = fineSamples === coarseSamples ? COARSE_GRID : FINE_GRID;
+  const radius = Math.ceil(ratio);
+  const fineSizes = [0.92, 0.96, 1, 1.04, 1.08]
+    .map(factor => {
+      const width = Math.round(found.width * ratio * factor);
+      return { width, height: Math.round(width * aspect) };
+    })
+    .filter(size => size.width >= 2 && size.height >= 2 && size.width <= image.width && size.height <= image.height);
+  const refined = search(image, fineSamples, fineGrid, fineSizes, {
+    left: Math.round(found.x * ratio) - radius,
+    top: Math.round(found.y * ratio) - radius,
+    right: Math.round(found.x * ratio) + radius,
+    bottom: Math.round(found.y * ratio) + radius,
+  });
+  const best = refined && refined.score >= found.score - 0.05
+    ? refined
+    : { ...found, x: found.x * ratio, y: found.y * ratio, width: found.width * ratio, height: found.height * ratio };
+
+  if (best.score < MIN_MATCH_SCORE) return null;
+  return {
+    x: best.x / image.width,
+    y: best.y / image.height,
+    width: best.width / image.width,
+    height: best.height / image.height,
+    score: best.score,
+  };
+}
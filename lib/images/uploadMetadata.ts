@@ -0,0 +1,49 @@
+// lib/images/uploadMetadata.ts
+import { ImageMetadata, extractImageMetadata } from './metadata';
+
+// Metadata of files uploaded from this browser, read before any preprocessing
+// and before the upstream stores its own copy. Kept in localStorage by session UUID.
+
+const STORAGE_KEY = 'proofly-upload-metadata';
+// Most recent uploads kept
+const MAX_ENTRIES = 50;
+
+interface StoredUploadMetadata {
+  savedAt: string;
+  fileName: string;
+  metadata: ImageMetadata;
+}
+
+function readStore(): Record<string, StoredUploadMetadata> {
+  try {
+    return JSON.parse(window.localStorage.getItem(STORAGE_KEY) || '{}');
+  } catch {
+    return {};
+  }
+}
+
+/**
+ * Metadata read from the file uploaded for a session, if it was uploaded here
+ */
+export function getUploadMetadata(uuid: string): StoredUploadMetadata | null {
+  if (typeof window === 'undefined') return null;
+  return readStore()[uuid] || null;
+}
+
+/**
+ * Extracts and stores the metadata of an uploaded file (the original selection,
+ * not the preprocessed copy)
+ */
+export async function recordUploadMetadata(uuid: string, file: File): Promise<void> {
+  try {
+    const metadata = extractImageMetadata(new Uint8Array(await file.arrayBuffer()));
+    const store = readStore();
+    store[uuid] = { savedAt: new Date().toISOString(), fileName: file.name, metadata };
+    const recent = Object.entries(store)
+      .sort(([, a], [, b]) => b.savedAt.localeCompare(a.savedAt))
+      .slice(0, MAX_ENTRIES);
+    window.localStorage.setItem(STORAGE_KEY, JSON.stringify(Object.fromEntries(recent)));
+  } catch (error) {
+    console.error('Image metadata: failed to record upload metadata', error);
+  }
+}
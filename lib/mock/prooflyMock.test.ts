@@ -0,0 +1,109 @@
+import axios from 'axios';
+import { afterAll, beforeAll, beforeEach, describe, expect, it } from 'vitest';
+import { ProoflyUpstream } from '../server/upstream';
+import { UpstreamContractError } from '../schemas/proofly';
+import { MockProoflyServer, parseMultipartFile, startMockProofly } from './prooflyMock';
+import { scenarioFromFilename } from './scenarios';
+
+const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+
+describe('mock Proofly API', () => {
+  let mock: MockProoflyServer;
+  let upstream: ProoflyUpstream;
+  let now = 0;
+
+  beforeAll(async () => {
+    mock = await startMockProofly({ clock: () => now });
+    upstream = new ProoflyUpstream({
+      baseUrl: mock.baseUrl,
+      timeoutMs: 5000,
+      uploadTimeoutMs: 5000,
+      apiKeyHeader: 'Authorization',
+      userAgent: 'proofly-checker-test',
+      // The raw mock behaviour is under test, including its 5xx bursts
+      retries: 0,
+      retryBaseDelayMs: 1,
+      retryMaxDelayMs: 1,
+      circuitFailureThreshold: 100,
+      circuitResetMs: 1000,
+    });
+  });
+
+  afterAll(async () => {
+    await mock.close();
+  });
+
+  beforeEach(() => {
+    now = 0;
+    mock.setScenario('default');
+  });
+
+  it('walks a session through its timeline with schema-valid payloads', async () => {
+    const { uuid } = await upstream.uploadImage(PNG, { filename: 'photo.png', contentType: 'image/png' });
+    expect((await upstream.getSessionStatus(uuid)).status).toBe('uploading');
+    now = 500;
+    expect((await upstream.getSessionStatus(uuid)).status).toBe('processing');
+    now = 5000;
+    const session = await upstream.getSessionInfo(uuid);
+    expect(session.status).toBe('completed');
+    expect(session.faces?.length).toBeGreaterThan(0);
+
+    const original = await upstream.getStorageFile(session.image_path!);
+    expect(original.data.equals(PNG)).toBe(true);
+    await expect(upstream.getStorageFile(session.faces![0].face_path!)).resolves.toMatchObject({ contentType: 'image/png' });
+  });
+
+  it('picks scenarios from the file name or the server default', async () => {
+    now = 0;
+    const noFaces = await upstream.uploadImage(PNG, { filename: 'photo.mock-no-faces.png' });
+    mock.setScenario('failed');
+    const failed = await upstream.uploadImage(PNG, { filename: 'photo.png' });
+    now = 60000;
+    await expect(upstream.getSessionInfo(noFaces.uuid)).resolves.toMatchObject({ status: 'no faces found', faces: [] });
+    await expect(upstream.getSessionInfo(failed.uuid)).resolves.toMatchObject({ status: 'failed' });
+  });
+
+  it('serves malformed payloads and 5xx bursts', async () => {
+    mock.setScenario('malformed');
+    const malformed = await upstream.uploadImage(PNG, { filename: 'photo.png' });
+    const flaky = await upstream.uploadImage(PNG, { filename: 'photo.mock-flaky.png' });
+    now = 60000;
+    await expect(upstream.getSessionInfo(malformed.uuid)).rejects.toBeInstanceOf(UpstreamContractError);
+
+    const statuses: number[] = [];
+    for (let i = 0; i < 3; i++) {
+      statuses.push(await upstream.getSessionStatus(flaky.uuid).then(() => 200, error => error.response?.status));
+    }
+    expect(statuses).toEqual([503, 503, 200]);
+  });
+
+  it('answers 404 for unknown sessions and files', async () => {
+    const notFound = (promise: Promise<unknown>) =>
+      promise.then(() => null, error => (axios.isAxiosError(error) ? error.response?.status : error));
+    expect(await notFound(upstream.getSessionStatus('11111111-1111-4111-8111-111111111111'))).toBe(404);
+    expect(await notFound(upstream.getStorageFile('/storage/faces/missing_0.jpg'))).toBe(404);
+  });
+});
+
+describe('parseMultipartFile', () => {
+  it('extracts the file part', () => {
+    const body = Buffer.concat([
+      Buffer.from('--xyz\r\nContent-Disposition: form-data; name="other"\r\n\r\nvalue\r\n'),
+      Buffer.from('--xyz\r\nContent-Disposition: form-data; name="file"; filename="a.png"\r\nContent-Type: image/png\r\n\r\n'),
+      PNG,
+      Buffer.from('\r\n--xyz--\r\n'),
+    ]);
+    const file = parseMultipartFile(body, 'multipart/form-data; boundary=xyz');
+    expect(file).toMatchObject({ filename: 'a.png', contentType: 'image/png' });
+    expect(file?.data.equals(PNG)).toBe(true);
+  });
+});
+
+describe('scenarioFromFilename', () => {
+  it('reads the mock- token before the extension', () => {
+    expect(scenarioFromFilename('photo.mock-no-faces.jpeg')).toBe('no-faces');
+    expect(scenarioFromFilename('mock-slow.png')).toBe('slow');
+    expect(scenarioFromFilename('photo.mock-unknown.png')).toBeNull();
+    expect(scenarioFromFilename('photo.png')).toBeNull();
+  });
+});
@@ -0,0 +1,310 @@
+// lib/mock/prooflyMock.ts
+import { createHash, randomUUID } from 'crypto';
+import http from 'http';
+import { AddressInfo } from 'net';
+import { SessionStatus } from '../types/proofly';
+import {
+  MOCK_SCENARIOS,
+  MockScenario,
+  MockScenarioName,
+  isMockScenarioName,
+  scenarioFromFilename,
+  scenarioStatus,
+} from './scenarios';
+
+// In-memory stand-in for the Proofly API: the endpoints used by
+// lib/server/upstream.ts, with scripted scenarios (lib/mock/scenarios.ts).
+// Run it with `npm run mock:proofly` and point API_BASE_URL at it, or start it
+// from a test with startMockProofly().
+
+export interface MockProoflyOptions {
+  // 0 picks a free port
+  port?: number;
+  host?: string;
+  // Path prefix of the API, matches the `/api` of API_BASE_URL
+  basePath?: string;
+  // Scenario of uploads that do not name one in their file name
+  scenario?: MockScenarioName;
+  // Time source of the scenario timelines (tests pass a manual clock)
+  clock?: () => number;
+  // Print every request
+  log?: boolean;
+}
+
+export interface MockSession {
+  uuid: string;
+  sha256: string;
+  filename: string;
+  data: Buffer;
+  contentType: string;
+  scenario: MockScenarioName;
+  createdAt: number;
+  // Session requests served so far (drives error bursts)
+  requests: number;
+}
+
+export interface MockProoflyServer {
+  // Origin of the server, e.g. http://127.0.0.1:4010
+  url: string;
+  // Value for API_BASE_URL
+  baseUrl: string;
+  sessions: Map<string, MockSession>;
+  setScenario(name: MockScenarioName): void;
+  close(): Promise<void>;
+}
+
+const PROBABILITY_MODELS = 10;
+
+// Face paths of the unsafe-paths scenario: traversal and another host
+const UNSAFE_FACE_PATHS = [
+  '/storage/faces/../../etc/passwd_0.jpg',
+  'https://evil.example/storage/faces/face_1.jpg',
+];
+
+class MockHttpError extends Error {
+  constructor(readonly status: number, readonly body: unknown) {
+    super(`Mock Proofly error ${status}`);
+  }
+}
+
+/**
+ * File part named `file` of a multipart/form-data body
+ */
+export function parseMultipartFile(
+  body: Buffer,
+  contentType: string
+): { filename: string; contentType: string; data: Buffer } | null {
+  const boundary = contentType.match(/boundary=(?:"([^"]+)"|([^;]+))/i);
+  if (!boundary) return null;
+  const delimiter = Buffer.from(`--${boundary[1] || boundary[2]}`);
+
+  let start = body.indexOf(delimiter);
+  while (start !== -1) {
+    const headerEnd = body.indexOf('\r\n\r\n', start);
+    if (headerEnd === -1) return null;
+    const next = body.indexOf(delimiter, headerEnd);
+    if (next === -1) return null;
+    const headers = body.subarray(start + delimiter.length, headerEnd).toString('utf8');
+    if (/name="file"/i.test(headers)) {
+      return {
+        filename: headers.match(/filename="([^"]*)"/i)?.[1] || 'image',
+        contentType: headers.match(/content-type:\s*([^\r\n]+)/i)?.[1].trim() || 'application/octet-stream',
+        // The part ends with CRLF before the next delimiter
+        data: body.subarray(headerEnd + 4, next - 2),
+      };
+    }
+    start = next;
+  }
+  return null;
+}
+
+/**
+ * Deterministic probability from a byte of the image hash
+ */
+const probabilityFrom = (hash: Buffer, offset: number): number =>
+  Math.round((hash[offset % hash.length] / 255) * 1000) / 1000;
+
+/**
+ * Face entries in the legacy `is_real_model_N` shape, derived from the image
+ * hash so the same image always gets the same results
+ */
+function buildFaces(session: MockSession) {
+  const hash = Buffer.from(session.sha256, 'hex');
+  const { unsafePaths } = MOCK_SCENARIOS[session.scenario] as MockScenario;
+  const count = unsafePaths ? UNSAFE_FACE_PATHS.length : 1 + (hash[0] % 2);
+  return Array.from({ length: count }, (_, index) => {
+    const face: Record<string, unknown> = {
+      face_path: unsafePaths ? UNSAFE_FACE_PATHS[index] : `/storage/faces/${session.uuid}_${index}.jpg`,
+      ansamble: probabilityFrom(hash, index * 16 + 1),
+      bbox: [0.1 + index * 0.45, 0.2, 0.4 + index * 0.45, 0.7],
+    };
+    for (let model = 1; model <= PROBABILITY_MODELS; model++) {
+      face[`is_real_model_${model}`] = probabilityFrom(hash, index * 16 + model + 1);
+    }
+    return face;
+  });
+}
+
+/**
+ * Session info as returned by GET /{uuid}
+ */
+function buildSessionInfo(session: MockSession, status: SessionStatus, now: number) {
+  const scenario: MockScenario = MOCK_SCENARIOS[session.scenario];
+  const info: Record<string, unknown> = {
+    uuid: session.uuid,
+    sha256: session.sha256,
+    image_path: scenario.unsafePaths
+      ? '/storage/original/../../etc/passwd.jpg'
+      : `/storage/original/${session.uuid}.jpg`,
+    status,
+    created_at: new Date(session.createdAt).toISOString(),
+  };
+  if (status === 'completed') {
+    const faces = buildFaces(session);
+    info.faces = scenario.malformed
+      ? faces.map(face => ({ ...face, ansamble: 'likely real', face_path: 42 }))
+      : faces;
+    info.total_faces = faces.length;
+    info.processed_at = new Date(now).toISOString();
+  } else if (status === 'no faces found') {
+    info.faces = [];
+    info.total_faces = 0;
+    info.processed_at = new Date(now).toISOString();
+  } else if (status === 'failed') {
+    info.error = 'Mock processing failure';
+  }
+  return info;
+}
+
+function readBody(request: http.IncomingMessage): Promise<Buffer> {
+  return new Promise((resolve, reject) => {
+    const chunks: Buffer[] = [];
+    request.on('data', (chunk: Buffer) => chunks.push(chunk));
+    request.on('end', () => resolve(Buffer.concat(chunks)));
+    request.on('error', reject);
+  });
+}
+
+function sendJson(response: http.ServerResponse, status: number, body: unknown): void {
+  response.writeHead(status, { 'content-type': 'application/json' });
+  response.end(JSON.stringify(body));
+}
+
+/**
+ * Starts the mock server; resolves once it is listening
+ */
+export async function startMockProofly(options: MockProoflyOptions = {}): Promise<MockProoflyServer> {
+  const {
+    port = 0,
+    host = '127.0.0.1',
+    basePath = '/api',
+    clock = Date.now,
+    log = false,
+  } = options;
+  let defaultScenario: MockScenarioName = options.scenario || 'default';
+  const sessions = new Map<string, MockSession>();
+
+  const getSession = (uuid: string): MockSession => {
+    const session = sessions.get(uuid);
+    if (!session) {
+      throw new MockHttpError(404, { detail: 'Session not found' });
+    }
+    const { errorBurst } = MOCK_SCENARIOS[session.scenario] as MockScenario;
+    const request = session.requests++;
+    if (errorBurst && request % errorBurst.period < errorBurst.failures) {
+      throw new MockHttpError(503, { detail: 'Service temporarily unavailable' });
+    }
+    return session;
+  };
+
+  const statusOf = (session: MockSession): SessionStatus =>
+    scenarioStatus(MOCK_SCENARIOS[session.scenario], clock() - session.createdAt);
+
+  const handle = async (request: http.IncomingMessage, response: http.ServerResponse): Promise<void> => {
+    const method = request.method || 'GET';
+    const { pathname } = new URL(request.url || '/', 'http://mock');
+    if (log) {
+      console.log(`[MOCK PROOFLY] ${method} ${pathname}`);
+    }
+
+    // Control endpoint outside the API prefix
+    if (pathname === '/__mock/scenario' && method === 'PUT') {
+      const { scenario } = JSON.parse((await readBody(request)).toString('utf8') || '{}');
+      if (!isMockScenarioName(scenario)) {
+        throw new MockHttpError(400, { detail: `Unknown scenario, expected one of: ${Object.keys(MOCK_SCENARIOS).join(', ')}` });
+      }
+      defaultScenario = scenario;
+      sendJson(response, 200, { scenario });
+      return;
+    }
+
+    if (!pathname.startsWith(`${basePath}/`)) {
+      throw new MockHttpError(404, { detail: 'Not Found' });
+    }
+    const path = pathname.slice(basePath.length);
+
+    if (path === '/upload' && method === 'POST') {
+      const file = parseMultipartFile(await readBody(request), request.headers['content-type'] || '');
+      if (!file || file.data.length === 0) {
+        throw new MockHttpError(422, { detail: 'File is required' });
+      }
+      const session: MockSession = {
+        uuid: randomUUID(),
+        sha256: createHash('sha256').update(file.data).digest('hex'),
+        filename: file.filename,
+        data: file.data,
+        contentType: file.contentType,
+        scenario: scenarioFromFilename(file.filename) || defaultScenario,
+        createdAt: clock(),
+        requests: 0,
+      };
+      sessions.set(session.uuid, session);
+      sendJson(response, 200, { uuid: session.uuid, message: 'File uploaded successfully' });
+      return;
+    }
+
+    if (path === '/system/status' && method === 'GET') {
+      sendJson(response, 200, { status: 'ok', mock: true, sessions: sessions.size });
+      return;
+    }
+
+    const storage = path.match(/^\/storage\/(original|faces)\/([\w-]+?)(?:_(\d+))?\.jpg$/);
+    if (storage && method === 'GET') {
+      const session = sessions.get(storage[2]);
+      const faceCount = session && statusOf(session) === 'completed' ? buildFaces(session).length : 0;
+      const isFace = storage[1] === 'faces';
+      if (!session || (isFace && (storage[3] === undefined || Number(storage[3]) >= faceCount))) {
+        throw new MockHttpError(404, { detail: 'File not found' });
+      }
+      // Face crops are not cut out, every face shows the uploaded image
+      response.writeHead(200, { 'content-type': session.contentType });
+      response.end(session.data);
+      return;
+    }
+
+    const sessionPath = path.match(/^\/([\w-]+)(\/status)?$/);
+    if (sessionPath && method === 'GET') {
+      const session = getSession(sessionPath[1]);
+      const status = statusOf(session);
+      sendJson(response, 200, sessionPath[2] ? { status } : buildSessionInfo(session, status, clock()));
+      return;
+    }
+
+    throw new MockHttpError(404, { detail: 'Not Found' });
+  };
+
+  const server = http.createServer((request, response) => {
+    handle(request, response).catch((error) => {
+      if (error instanceof MockHttpError) {
+        sendJson(response, error.status, error.body);
+        return;
+      }
+      console.error('[MOCK PROOFLY] Unexpected error:', error);
+      sendJson(response, 500, { detail: 'Internal Server Error' });
+    });
+  });
+
+  await new Promise<void>((resolve, reject) => {
+    server.once('error', reject);
+    server.listen(port, host, () => {
+      server.off('error', reject);
+      resolve();
+    });
+  });
+
+  const address = server.address() as AddressInfo;
+  const url = `http://${host.includes(':') ? `[${host}]` : host}:${address.port}`;
+
+  return {
+    url,
+    baseUrl: `${url}${basePath}`,
+    sessions,
+    setScenario: (name) => {
+      defaultScenario = name;
+    },
+    close: () => new Promise<void>((resolve, reject) => {
+      server.close(error => (error ? reject(error) : resolve()));
+      server.closeAllConnections();
+    }),
+  };
+}
@@ -0,0 +1,107 @@
+// lib/mock/scenarios.ts
+import { SessionStatus } from '../types/proofly';
+
+// Scripted behaviours of the mock Proofly API (lib/mock/prooflyMock.ts).
+// A session follows the timeline of its scenario, measured from the upload.
+
+export interface MockScenario {
+  description: string;
+  // Statuses reported while the session is processed, each for `ms` milliseconds
+  timeline: { status: SessionStatus; ms: number }[];
+  // Final status once the timeline is over
+  outcome: 'completed' | 'no faces found' | 'failed';
+  // Final session info violates the response schema
+  malformed?: boolean;
+  // Storage paths point outside the allowed locations (path traversal, other hosts)
+  unsafePaths?: boolean;
+  // Session requests answered with 503: the first `failures` of every `period`
+  errorBurst?: { failures: number; period: number };
+}
+
+export const MOCK_SCENARIOS = {
+  default: {
+    description: 'Completes after about two seconds with one or two faces',
+    timeline: [
+      { status: 'uploading', ms: 300 },
+      { status: 'processing', ms: 1500 },
+    ],
+    outcome: 'completed',
+  },
+  slow: {
+    description: 'Completes after about half a minute',
+    timeline: [
+      { status: 'uploading', ms: 3000 },
+      { status: 'processing', ms: 25000 },
+    ],
+    outcome: 'completed',
+  },
+  'no-faces': {
+    description: 'Finishes with "no faces found"',
+    timeline: [
+      { status: 'uploading', ms: 300 },
+      { status: 'processing', ms: 1000 },
+    ],
+    outcome: 'no faces found',
+  },
+  failed: {
+    description: 'Processing fails upstream',
+    timeline: [
+      { status: 'uploading', ms: 300 },
+      { status: 'processing', ms: 1000 },
+    ],
+    outcome: 'failed',
+  },
+  malformed: {
+    description: 'Completes with a session payload that does not match the schema',
+    timeline: [
+      { status: 'uploading', ms: 300 },
+      { status: 'processing', ms: 1000 },
+    ],
+    outcome: 'completed',
+    malformed: true,
+  },
+  'unsafe-paths': {
+    description: 'Completes with image and face paths the proxy must refuse',
+    timeline: [
+      { status: 'uploading', ms: 300 },
+      { status: 'processing', ms: 1000 },
+    ],
+    outcome: 'completed',
+    unsafePaths: true,
+  },
+  flaky: {
+    description: 'Completes, but two of every three session requests answer 503',
+    timeline: [
+      { status: 'uploading', ms: 300 },
+      { status: 'processing', ms: 2000 },
+    ],
+    outcome: 'completed',
+    errorBurst: { failures: 2, period: 3 },
+  },
+} satisfies Record<string, MockScenario>;
+
+export type MockScenarioName = keyof typeof MOCK_SCENARIOS;
+
+export const isMockScenarioName = (value: unknown): value is MockScenarioName =>
+  typeof value === 'string' && Object.prototype.hasOwnProperty.call(MOCK_SCENARIOS, value);
+
+/**
+ * Scenario requested by an uploaded file name: `photo.mock-failed.jpg`
+ */
+export function scenarioFromFilename(filename: string): MockScenarioName | null {
+  const match = filename.match(/(?:^|[._-])mock-([a-z-]+?)(?:\.[^.]*)?$/i);
+  const name = match?.[1].toLowerCase();
+  return isMockScenarioName(name) ? name : null;
+}
+
+/**
+ * Status of a session `elapsedMs` after its upload
+ */
+export function scenarioStatus(scenario: MockScenario, elapsedMs: number): SessionStatus {
+  let end = 0;
+  for (const step of scenario.timeline) {
+    end += step.ms;
+    if (elapsedMs < end) return step.status;
+  }
+  return scenario.outcome;
+}
@@ -0,0 +1,39 @@
+import { afterEach, describe, expect, it, vi } from 'vitest';
+import { SessionInfoResponse, formatAnalysisResults } from '../types/proofly';
+import { DEFAULT_MODEL_REGISTRY, getModelRegistry, parseModelRegistry } from './registry';
+
+const entry = (id: string, key: string, name = id) => ({ id, key, name, weight: 1, enabled: true });
+
+describe('model registry', () => {
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('replaces built-in entries by id or API key', () => {
+    vi.stubEnv('NEXT_PUBLIC_MODEL_REGISTRY', JSON.stringify([
+      entry('model-2', 'is_real_model_2', 'Renamed'),
+      entry('xception', 'is_real_model_1', 'Xception'),
+    ]));
+    const registry = getModelRegistry();
+    expect(registry).toHaveLength(DEFAULT_MODEL_REGISTRY.length);
+    expect(registry.filter(model => model.key === 'is_real_model_1')).toEqual([entry('xception', 'is_real_model_1', 'Xception')]);
+    expect(registry.find(model => model.id === 'model-2')?.name).toBe('Renamed');
+  });
+
+  it('rejects configurations with duplicate keys', () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    expect(parseModelRegistry(JSON.stringify([entry('a', 'texture'), entry('b', 'texture')]))).toEqual([]);
+  });
+
+  it('shows API names instead of the built-in placeholders', () => {
+    const session = {
+      uuid: 'u',
+      status: 'completed',
+      faces: [{ ansamble: 0.9, models: { is_real_model_1: { name: 'Xception', probability: 0.8 } } }],
+    } as unknown as SessionInfoResponse;
+    const [result] = formatAnalysisResults(session);
+    expect(result.modelProbabilities[0]).toMatchObject({ modelId: 'model-1', model: 'Xception' });
+    expect(result.modelProbabilities[1].model).toBe('Model 2');
+  });
+});
@@ -0,0 +1,92 @@
+// lib/models/registry.ts
+import { z } from 'zod';
+
+export const modelInfoSchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'must be a lowercase slug'),
+  // Field name in the API response: `is_real_model_N`, or a key of `metrics` / `models`
+  key: z.string().min(1),
+  name: z.string().min(1),
+  version: z.string().optional(),
+  description: z.string().optional(),
+  // Weight in the locally re-weighted ensemble (0 = shown but not weighted)
+  weight: z.number().min(0).default(1),
+  // Disabled models are neither shown nor weighted
+  enabled: z.boolean().default(true),
+});
+
+export type ModelInfo = z.infer<typeof modelInfoSchema>;
+
+// Two entries for one API field would show and weight the same score twice
+const modelRegistrySchema = z.array(modelInfoSchema).superRefine((models, ctx) => {
+  const seen = new Set<string>();
+  models.forEach((model, index) => {
+    if (seen.has(model.key)) {
+      ctx.addIssue({ code: z.ZodIssueCode.custom, message: `duplicate key "${model.key}"`, path: [index, 'key'] });
+    }
+    seen.add(model.key);
+  });
+});
+
+// The API reports ten detectors as `is_real_model_1`..`is_real_model_10`.
+// It only names them in the `metrics` / `models` shapes; those names replace the
+// built-in "Model N" labels, and NEXT_PUBLIC_MODEL_REGISTRY overrides both.
+export const DEFAULT_MODEL_REGISTRY: ModelInfo[] = Array.from({ length: 10 }, (_, i) => ({
+  id: `model-${i + 1}`,
+  key: `is_real_model_${i + 1}`,
+  name: `Model ${i + 1}`,
+  weight: 1,
+  enabled: true,
+}));
+
+/**
+ * Parses registry entries from JSON (NEXT_PUBLIC_MODEL_REGISTRY).
+ * Invalid configuration is logged and ignored so the app keeps working.
+ */
+export function parseModelRegistry(json: string | undefined): ModelInfo[] {
+  if (!json) return [];
+  try {
+    const result = modelRegistrySchema.safeParse(JSON.parse(json));
+    if (!result.success) {
+      console.error('Model registry: invalid configuration', result.error.issues);
+      return [];
+    }
+    return result.data;
+  } catch (error) {
+    console.error('Model registry: configuration is not valid JSON', error);
+    return [];
+  }
+}
+
+/**
+ * Built-in entries merged with configured ones. A configured entry replaces
+ * the built-in one with the same id or the same API key.
+ */
+export function getModelRegistry(): ModelInfo[] {
+  const configured = parseModelRegistry(process.env.NEXT_PUBLIC_MODEL_REGISTRY);
+  const builtIn = DEFAULT_MODEL_REGISTRY.filter(model =>
+    !configured.some(entry => entry.id === model.id || entry.key === model.key)
+  );
+  return [...builtIn, ...configured];
+}
+
+/**
+ * Whether the entry is a built-in placeholder (its name gives way to the API's)
+ */
+export const isBuiltInModel = (model: ModelInfo): boolean => DEFAULT_MODEL_REGISTRY.includes(model);
+
+/**
+ * Weighted mean of the reported scores of enabled models, or undefined if
+ * no weighted model reported a score
+ */
+export function computeWeightedEnsemble(
+  scores: { realProbability: number | null; weight: number }[]
+): number | undefined {
+  let total = 0;
+  let weighted = 0;
+  scores.forEach(({ realProbability, weight }) => {
+    if (realProbability === null || weight <= 0) return;
+    total += weight;
+    weighted += realProbability * weight;
+  });
+  return total > 0 ? weighted / total : undefined;
+}
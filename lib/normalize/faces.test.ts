@@ -0,0 +1,75 @@
+import { describe, expect, it } from 'vitest';
+import { SessionFace, SessionInfoResponse } from '../types/proofly';
+import { normalizeFace, normalizeFaces } from './faces';
+
+const face = (fields: Record<string, unknown>) => fields as unknown as SessionFace;
+
+describe('normalizeFace', () => {
+  it('reads the legacy shape', () => {
+    const normalized = normalizeFace(face({
+      ansamble: 0.8,
+      is_real_model_1: 0.7,
+      is_real_model_2: 0.9,
+      face_path: '/storage/faces/a_0.jpg',
+      bbox: { x: 1, y: 2, width: 3, height: 4 },
+    }), 0);
+    expect(normalized).toMatchObject({
+      id: '0',
+      index: 0,
+      cropPath: '/storage/faces/a_0.jpg',
+      box: { x: 1, y: 2, width: 3, height: 4 },
+      ensemble: { real: 0.8, field: 'ansamble' },
+      shapes: ['legacy'],
+      warnings: [],
+    });
+    expect(normalized.scores[1]).toEqual({
+      key: 'is_real_model_2',
+      realProbability: 0.9,
+      source: { shape: 'legacy', version: 1, field: 'is_real_model_2' },
+    });
+  });
+
+  it('merges metrics and models with provenance', () => {
+    const normalized = normalizeFace(face({
+      face_id: 7,
+      realProbability: 0.4,
+      metrics: { texture: { name: 'Texture', probability: 0.3 } },
+      models: { is_real_model_1: { probability: 0.5, version: '2' } },
+    }), 2);
+    expect(normalized).toMatchObject({ id: '7', index: 2, cropPath: null, ensemble: { real: 0.4, field: 'realProbability' } });
+    expect(normalized.shapes).toEqual(['metrics', 'models']);
+    expect(normalized.scores).toEqual([
+      { key: 'texture', name: 'Texture', realProbability: 0.3, source: { shape: 'metrics', version: 2, field: 'metrics.texture' } },
+      { key: 'is_real_model_1', realProbability: 0.5, source: { shape: 'models', version: 3, field: 'models.is_real_model_1' } },
+    ]);
+  });
+
+  it('prefers the newer shape on conflicts and warns about them', () => {
+    const normalized = normalizeFace(face({ ansamble: 0.5, is_real_model_1: 0.2, models: { is_real_model_1: { probability: 0.6 } } }), 0);
+    expect(normalized.scores).toHaveLength(1);
+    expect(normalized.scores[0]).toMatchObject({ realProbability: 0.6, source: { shape: 'models' } });
+    expect(normalized.warnings[0]).toMatch(/is_real_model_1 is reported by both legacy and models/);
+  });
+
+  it('warns about unknown fields', () => {
+    const normalized = normalizeFace(face({ ansamble: 0.5, liveness: 0.9, verdict: 'real' }), 0);
+    expect(normalized.upstreamVerdict).toBe('real');
+    expect(normalized.warnings).toEqual(['Unknown face field "liveness"']);
+  });
+});
+
+describe('normalizeFaces', () => {
+  it('collects distinct warnings of all faces', () => {
+    const { faces, warnings } = normalizeFaces({
+      uuid: 'x',
+      status: 'completed',
+      faces: [face({ ansamble: 0.1, extra: 1 }), face({ ansamble: 0.2, extra: 2 })],
+    } as unknown as SessionInfoResponse);
+    expect(faces.map(item => item.id)).toEqual(['0', '1']);
+    expect(warnings).toEqual(['Unknown face field "extra"']);
+  });
+
+  it('handles sessions without faces', () => {
+    expect(normalizeFaces({ uuid: 'x', status: 'processing' } as SessionInfoResponse)).toEqual({ faces: [], warnings: [] });
+  });
+});
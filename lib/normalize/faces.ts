@@ -0,0 +1,177 @@
+// lib/normalize/faces.ts
+import { FaceBox, SessionFace, SessionInfoResponse } from '../types/proofly';
+
+// Proofly has reported per-model scores in three shapes over time. Each shape
+// has an adapter that reads its fields; every face is reduced to one
+// NormalizedFace whatever mix of shapes it carries.
+
+export type FaceShape = 'legacy' | 'metrics' | 'models';
+
+// Where a model score came from: upstream shape, adapter version and field
+export interface ScoreSource {
+  shape: FaceShape;
+  version: number;
+  field: string;
+}
+
+export interface NormalizedModelScore {
+  // API key of the model (`is_real_model_N`, or a `metrics` / `models` key)
+  key: string;
+  // Display name sent by the API, if any
+  name?: string;
+  realProbability: number;
+  source: ScoreSource;
+}
+
+export interface NormalizedFace {
+  // face_id from the API, otherwise the position in the faces array
+  id: string;
+  // Position in the faces array (0-based)
+  index: number;
+  // Storage path of the face crop, null when the API sent none
+  cropPath: string | null;
+  box?: FaceBox;
+  ensemble: {
+    real: number;
+    // Field the ensemble probability was read from
+    field: 'ansamble' | 'realProbability';
+  };
+  scores: NormalizedModelScore[];
+  // Verdict string sent by the API, if any (informational only)
+  upstreamVerdict?: string;
+  // Shapes found in the face entry
+  shapes: FaceShape[];
+  // Unknown fields and conflicting scores
+  warnings: string[];
+}
+
+interface FaceShapeAdapter {
+  shape: FaceShape;
+  version: number;
+  // Whether a top-level field of the face belongs to this shape
+  owns: (field: string) => boolean;
+  read: (face: SessionFace) => Omit<NormalizedModelScore, 'source'>[];
+}
+
+const LEGACY_FIELD = /^is_real_model_\d+$/;
+
+// Applied in order; a later shape wins when two report the same model
+const FACE_SHAPE_ADAPTERS: FaceShapeAdapter[] = [
+  {
+    // Flat `is_real_model_N` probabilities next to `ansamble`
+    shape: 'legacy',
+    version: 1,
+    owns: field => LEGACY_FIELD.test(field),
+    read: face => Object.entries(face)
+      .filter(([key, value]) => LEGACY_FIELD.test(key) && typeof value === 'number')
+      .map(([key, value]) => ({ key, realProbability: value as number })),
+  },
+  {
+    // `metrics: { key: { name, probability } }`
+    shape: 'metrics',
+    version: 2,
+    owns: field => field === 'metrics',
+    read: face => Object.entries(face.metrics || {})
+      .map(([key, metric]) => ({ key, name: metric.name, realProbability: metric.probability })),
+  },
+  {
+    // `models: { key: { probability, name?, ... } }`
+    shape: 'models',
+    version: 3,
+    owns: field => field === 'models',
+    read: face => Object.entries(face.models || {})
+      .map(([key, model]) => ({
+        key,
+        name: typeof model.name === 'string' ? model.name : undefined,
+        realProbability: model.probability,
+      })),
+  },
+];
+
+// Face fields that are not model scores
+const COMMON_FACE_FIELDS = new Set([
+  'ansamble',
+  'realProbability',
+  'fakeProbability',
+  'isReal',
+  'face_id',
+  'confidence',
+  'verdict',
+  'face_path',
+  'bbox',
+]);
+
+/**
+ * Reduces one validated face entry to the canonical shape
+ */
+export function normalizeFace(face: SessionFace, index: number): NormalizedFace {
+  const warnings: string[] = [];
+  const shapes: FaceShape[] = [];
+  const scores = new Map<string, NormalizedModelScore>();
+
+  FACE_SHAPE_ADAPTERS.forEach(adapter => {
+    const read = adapter.read(face);
+    if (read.length === 0) return;
+    shapes.push(adapter.shape);
+    read.forEach(score => {
+      const previous = scores.get(score.key);
+      if (previous && previous.realProbability !== score.realProbability) {
+        warnings.push(`Model ${score.key} is reported by both ${previous.source.shape} and ${adapter.shape} with different scores, using ${adapter.shape}`);
+      }
+      scores.set(score.key, {
+        ...score,
+        source: {
+          shape: adapter.shape,
+          version: adapter.version,
+          field: adapter.shape === 'legacy' ? score.key : `${adapter.shape}.${score.key}`,
+        },
+      });
+    });
+  });
+
+  Object.keys(face).forEach(field => {
+    if (!COMMON_FACE_FIELDS.has(field) && !FACE_SHAPE_ADAPTERS.some(adapter => adapter.owns(field))) {
+      warnings.push(`Unknown face field "${field}"`);
+    }
+  });
+
+  // The schema guarantees at least one of them is present
+  const ensemble = face.ansamble !== undefined
+    ? { real: face.ansamble, field: 'ansamble' as const }
+    : { real: face.realProbability as number, field: 'realProbability' as const };
+
+  return {
+    id: face.face_id !== undefined ? String(face.face_id) : String(index),
+    index,
+    cropPath: face.face_path || null,
+    box: face.bbox,
+    ensemble,
+    scores: Array.from(scores.values()),
+    upstreamVerdict: face.verdict,
+    shapes,
+    warnings,
+  };
+}
+
+/**
+ * Normalized faces of a session with the distinct warnings of all faces
+ */
+export function normalizeFaces(sessionInfo: SessionInfoResponse): { faces: NormalizedFace[]; warnings: string[] } {
+  const faces = (sessionInfo.faces || []).map(normalizeFace);
+  const warnings = Array.from(new Set(faces.flatMap(face => face.warnings)));
+  return { faces, warnings };
+}
+
+// Warnings already logged by this process (results are formatted on every render)
+const reportedWarnings = new Set<string>();
+
+/**
+ * Logs normalization warnings, each message once
+ */
+export function reportNormalizationWarnings(warnings: string[]): void {
+  warnings.forEach(warning => {
+    if (reportedWarnings.has(warning)) return;
+    reportedWarnings.add(warning);
+    console.warn(`[NORMALIZE] ${warning}`);
+  });
+}
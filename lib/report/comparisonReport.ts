@@ -0,0 +1,239 @@
+// lib/report/comparisonReport.ts
+import { jsPDF } from 'jspdf';
+import { AnalysisResult, SessionInfoResponse } from '../types/proofly';
+import { DEFAULT_VERDICT_POLICY, VerdictPolicy, hexToRgb } from '../verdict/policy';
+import { buildSessionComparison, sessionLabel } from '../compare/comparison';
+import { DEFAULT_LOCALE, Locale } from '../i18n/config';
+import { createTranslator, policyText } from '../i18n/translate';
+import { formatDate, formatDelta, formatPercent } from '../i18n/format';
+import { ReportImage } from './pdfReport';
+import { ReportFontLoader, setupReportFont } from './pdfFonts';
+
+// Comparison report: one column per session, faces aligned by index. Like
+// buildAnalysisReport it gets images from loaders supplied by the caller.
+
+export interface ComparisonReportOptions {
+  policy?: VerdictPolicy;
+  // Session the deltas are computed against
+  referenceIndex?: number;
+  generatedAt?: Date;
+  locale?: Locale;
+  loadFonts?: ReportFontLoader;
+  images?: {
+    loadLogo?: () => Promise<ReportImage | null>;
+    loadFaceImage?: (sessionUuid: string, result: AnalysisResult) => Promise<ReportImage | null>;
+  };
+}
+
+/**
+ * Builds the side-by-side comparison report (A4 landscape).
+ * @param sessions Sessions in column order.
+ * @param options Verdict policy, reference session, image and font loaders, locale and report date.
+ * @returns PDF file contents.
+ */
+export async function buildComparisonReport(
+  sessions: SessionInfoResponse[],
+  options: ComparisonReportOptions = {}
+): Promise<Uint8Array> {
+  const policy = options.policy || DEFAULT_VERDICT_POLICY;
+  const generatedAt = options.generatedAt || new Date();
+  let logo: ReportImage | null = null;
+  try {
+    logo = (await options.images?.loadLogo?.()) || null;
+  } catch (logoError) {
+    console.error('PDF Report: Failed to load logo', logoError);
+  }
+
+  const pdf = new jsPDF('l', 'mm', 'a4');
+  const font = await setupReportFont(pdf, options.locale || DEFAULT_LOCALE, options.loadFonts);
+  const { locale } = font;
+  const t = createTranslator(locale);
+  const comparison = buildSessionComparison(sessions, options.referenceIndex, policy, undefined, locale);
+  const { referenceIndex } = comparison;
+  pdf.setFont(font.family);
+  pdf.setProperties({
+    title: t('pdf.compare.title'),
+    subject: `Comparison of sessions ${sessions.map(session => session.uuid).join(', ')}`,
+    author: 'Proofly AI',
+    keywords: `proofly, deepfake, comparison, ${sessions.map(session => session.uuid).join(', ')}`,
+    creator: 'Proofly AI App',
+  });
+
+  const width = pdf.internal.pageSize.getWidth();
+  const height = pdf.internal.pageSize.getHeight();
+  const margin = 12;
+  const labelWidth = 55;
+  const columnWidth = (width - 2 * margin - labelWidth) / Math.max(1, sessions.length);
+  const columnX = (index: number) => margin + labelWidth + index * columnWidth;
+  const bottom = height - margin - 12;
+  let yPos = margin + 8;
+
+  const checkPageBreak = (requiredSpace: number) => {
+    if (yPos + requiredSpace > bottom) {
+      pdf.addPage();
+      yPos = margin + 8;
+    }
+  };
+
+  // Label cell followed by one cell per session
+  const addRow = (
+    label: string,
+    cells: Array<{ text: string; color?: [number, number, number]; bold?: boolean } | null>,
+    fontSize = 9
+  ) => {
+    pdf.setFontSize(fontSize);
+    const labelLines = pdf.splitTextToSize(label, labelWidth - 3);
+    const cellLines = cells.map(cell => cell ? pdf.splitTextToSize(cell.text, columnWidth - 3) : ['-']);
+    const rowHeight = Math.max(labelLines.length, ...cellLines.map(lines => lines.length)) * 4 + 2;
+    checkPageBreak(rowHeight);
+    pdf.setFont(font.family, 'bold');
+    pdf.text(labelLines, margin, yPos);
+    cells.forEach((cell, index) => {
+      pdf.setFont(font.family, cell?.bold ? 'bold' : 'normal');
+      if (cell?.color) pdf.setTextColor(...cell.color);
+      else if (!cell) pdf.setTextColor(150, 150, 150);
+      pdf.text(cellLines[index], columnX(index), yPos);
+      pdf.setTextColor(0);
+    });
+    yPos += rowHeight;
+    pdf.setDrawColor(220);
+    pdf.setLineWidth(0.1);
+    pdf.line(margin, yPos - 3, width - margin, yPos - 3);
+    pdf.setDrawColor(0);
+  };
+
+  // Probability with its delta to the reference session
+  const probabilityCell = (value: number | null | undefined, deltaValue: number | null) => {
+    if (value === null || value === undefined) return null;
+    const percent = formatPercent(value, locale);
+    return { text: deltaValue === null ? percent : `${percent} (${formatDelta(deltaValue, locale)})` };
+  };
+
+  // --- TITLE ---
+  pdf.setFontSize(18);
+  pdf.setFont(font.family, 'bold');
+  pdf.text(t('pdf.compare.heading'), width / 2, yPos, { align: 'center' });
+  yPos += 7;
+  pdf.setFontSize(10);
+  pdf.setFont(font.family, 'normal');
+  pdf.text(
+    t('pdf.compare.generated', {
+      date: formatDate(generatedAt, locale),
+      policy: `${policyText(policy, locale).name} (${policy.id})`,
+    }),
+    width / 2, yPos, { align: 'center' }
+  );
+  yPos += 5;
+  pdf.text(
+    t('pdf.compare.deltaNote', { label: sessionLabel(referenceIndex) }),
+    width / 2, yPos, { align: 'center' }
+  );
+  yPos += 8;
+
+  // --- SESSIONS ---
+  addRow('', sessions.map((_, index) => ({
+    text: t(index === referenceIndex ? 'pdf.compare.referenceSession' : 'compare.session', { label: sessionLabel(index) }),
+    bold: true,
+  })), 11);
+  addRow('UUID', sessions.map(session => ({ text: session.uuid })), 8);
+  addRow('SHA256', sessions.map(session => session.sha256 ? { text: session.sha256 } : null), 7);
+  addRow(t('pdf.compare.status'), sessions.map(session => ({ text: session.status })));
+  yPos += 4;
+
+  if (comparison.faces.length === 0) {
+    pdf.setFontSize(11);
+    pdf.text(t('pdf.compare.noFaces'), margin, yPos);
+  }
+
+  // --- FACES ---
+  for (const face of comparison.faces) {
+    checkPageBreak(60);
+    pdf.setFontSize(13);
+    pdf.setFont(font.family, 'bold');
+    pdf.text(t('pdf.compare.face', { index: face.faceIndex }), margin, yPos);
+    yPos += 4;
+
+    // Face crops side by side
+    const imageSize = Math.min(32, columnWidth - 6);
+    const crops = await Promise.all(face.results.map(async (result, index) => {
+      if (!result || !options.images?.loadFaceImage) return null;
+      try {
+        return await options.images.loadFaceImage(sessions[index].uuid, result);
+      } catch (err) {
+        console.error(`PDF Report: Failed to load image for face ${face.faceIndex} of ${sessions[index].uuid}`, err);
+        return null;
+      }
+    }));
+    if (crops.some(Boolean)) {
+      checkPageBreak(imageSize + 4);
+      crops.forEach((crop, index) => {
+        const result = face.results[index];
+        if (!crop || !result) return;
+        try {
+          const props = pdf.getImageProperties(crop.data);
+          const imageHeight = Math.min(imageSize, (props.height * imageSize) / props.width);
+          const imageWidth = (props.width * imageHeight) / props.height;
+          pdf.addImage(crop.data, crop.format, columnX(index), yPos, imageWidth, imageHeight);
+          pdf.setDrawColor(...hexToRgb(result.verdictBand.color));
+          pdf.setLineWidth(0.8);
+          pdf.rect(columnX(index), yPos, imageWidth, imageHeight);
+          pdf.setDrawColor(0);
+        } catch (imgError) {
+          console.error(`PDF Report: Failed to add image for face ${face.faceIndex}`, imgError);
+        }
+      });
+      yPos += imageSize + 6;
+    } else {
+      yPos += 4;
+    }
+
+    addRow(t('pdf.compare.verdict'), face.results.map(result => result && {
+      text: result.verdict,
+      color: hexToRgb(result.verdictBand.color),
+      bold: true,
+    }));
+    addRow(t('pdf.compare.realEnsemble'), face.results.map((result, index) =>
+      probabilityCell(result?.ensembleProbability.real, face.ensembleDeltas[index])));
+    for (const model of face.models) {
+      addRow(
+        model.version ? `${model.model} v${model.version}` : model.model,
+        model.values.map((value, index) => probabilityCell(value, model.deltas[index])),
+        8
+      );
+    }
+    yPos += 6;
+  }
+
+  // --- FOOTER ---
+  let logoProps: any | null = null;
+  if (logo) {
+    try {
+      logoProps = pdf.getImageProperties(logo.data);
+    } catch (propsError) {
+      console.error('PDF Report: Failed to get logo properties', propsError);
+    }
+  }
+  const pageCount = pdf.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    pdf.setPage(i);
+    const footerY = height - margin - 8;
+    pdf.setLineWidth(0.5);
+    pdf.line(margin, footerY, width - margin, footerY);
+    if (logo && logoProps) {
+      try {
+        pdf.addImage(logo.data, logo.format, margin, footerY + 2, (logoProps.width * 6) / logoProps.height, 6);
+      } catch (imgError) {
+        console.error('PDF Report: Error adding logo to footer', imgError);
+      }
+    }
+    pdf.setFontSize(8);
+    pdf.setFont(font.family, 'normal');
+    pdf.setTextColor(100, 100, 100);
+    pdf.text(t('pdf.footer'), width / 2, footerY + 6, { align: 'center' });
+    if (pageCount > 1) {
+      pdf.text(t('pdf.page', { page: i, count: pageCount }), width - margin, footerY + 6, { align: 'right' });
+    }
+    pdf.setTextColor(0);
+  }
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
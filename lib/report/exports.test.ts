@@ -0,0 +1,78 @@
+import { describe, expect, it } from 'vitest';
+import { SessionInfoResponse } from '../types/proofly';
+import { EXPORT_SCHEMA_VERSION, buildCsvExport, buildExportedReport, buildReportExport, isExportFormat } from './exports';
+
+const session = {
+  uuid: '11111111-1111-4111-8111-111111111111',
+  sha256: 'ab'.repeat(32),
+  status: 'completed',
+  faces: [
+    { ansamble: 0.9, is_real_model_1: 0.8, face_path: 'faces/a.jpg' },
+    { ansamble: 0.1, models: { '=HYPERLINK("x")': { probability: 0.2 } } },
+  ],
+} as unknown as SessionInfoResponse;
+
+const generatedAt = new Date('2025-01-02T03:04:05Z');
+
+describe('buildExportedReport', () => {
+  it('produces a versioned document with formatted results', () => {
+    const report = buildExportedReport(session, { generatedAt });
+    expect(report.schemaVersion).toBe(EXPORT_SCHEMA_VERSION);
+    expect(report.generatedAt).toBe('2025-01-02T03:04:05.000Z');
+    expect(report.session).toMatchObject({ uuid: session.uuid, status: 'completed', totalFaces: null });
+    expect(report.policy.id).toBe('default');
+    expect(report.results).toHaveLength(2);
+    expect(report.signature).toBeNull();
+  });
+});
+
+describe('buildCsvExport', () => {
+  it('writes ensemble and model rows per face', () => {
+    const lines = buildCsvExport(buildExportedReport(session, { generatedAt })).trim().split('\r\n');
+    expect(lines[0]).toBe('session_uuid,sha256,policy,face_index,verdict,model_id,model_name,model_version,weight,real_probability,fake_probability');
+    const face1 = lines.filter(line => line.split(',')[3] === '1');
+    expect(face1[0]).toContain(',ensemble,Ensemble,,,0.9,');
+    expect(face1.some(line => line.includes(',0.8,'))).toBe(true);
+  });
+
+  it('quotes fields and defuses formulas', () => {
+    const csv = buildCsvExport(buildExportedReport(session, { generatedAt }));
+    expect(csv).toContain(`"'=HYPERLINK(""x"")"`);
+  });
+});
+
+describe('buildReportExport', () => {
+  it('inlines face crops and escapes text in HTML', async () => {
+    const report = await buildReportExport('html', session, {
+      generatedAt,
+      metadata: { format: 'jpeg', sections: [{ id: 'exif', title: 'EXIF', entries: [{ label: 'Software', value: '<script>' }] }], c2pa: null, flags: [] },
+      loadFaceImage: async (result) => result.faceIndex === 1 ? { data: new Uint8Array([1, 2, 3]), format: 'JPEG' } : null,
+    });
+    expect(report.contentType).toMatch(/^text\/html/);
+    expect(report.filename).toBe(`proofly-report-${session.uuid}.html`);
+    expect(report.body).toContain('src="data:image/jpeg;base64,AQID"');
+    expect(report.body).toContain('&lt;script&gt;');
+    expect(report.body).not.toContain('<script>');
+  });
+
+  it('localizes only the HTML report', async () => {
+    const html = await buildReportExport('html', session, { generatedAt, locale: 'ru' });
+    expect(html.body).toContain('<html lang="ru">');
+    expect(html.body).toContain('Скорее всего дипфейк');
+    const json = await buildReportExport('json', session, { generatedAt, locale: 'ru' });
+    expect(JSON.parse(json.body).results[1].verdict).toBe('Likely Deepfake');
+  });
+
+  it('serializes JSON', async () => {
+    const report = await buildReportExport('json', session, { generatedAt });
+    expect(JSON.parse(report.body).session.uuid).toBe(session.uuid);
+  });
+});
+
+describe('isExportFormat', () => {
+  it('accepts only known formats', () => {
+    expect(isExportFormat('csv')).toBe(true);
+    expect(isExportFormat('pdf')).toBe(false);
+    expect(isExportFormat(null)).toBe(false);
+  });
+});
@@ -0,0 +1,274 @@
+// lib/report/exports.ts
+import { AnalysisResult, SessionInfoResponse, formatAnalysisResults } from '../types/proofly';
+import { DEFAULT_VERDICT_POLICY, VerdictPolicy } from '../verdict/policy';
+import { ImageMetadata } from '../images/metadata';
+import { DEFAULT_LOCALE, Locale } from '../i18n/config';
+import { createTranslator, metadataFlagMessage, policyText, verdictLabel } from '../i18n/translate';
+import { formatPercent } from '../i18n/format';
+import { ReportImage } from './pdfReport';
+import { ReportSignature } from './signature';
+
+// Machine-readable report exports (JSON, CSV, HTML). Like the PDF builder they
+// run in the browser and on the server; face crops come from a loader.
+
+export const EXPORT_SCHEMA = 'proofly-analysis-report';
+// Bump when a field of ExportedReport changes meaning or is removed
+export const EXPORT_SCHEMA_VERSION = 1;
+
+export const EXPORT_FORMATS = ['json', 'csv', 'html'] as const;
+export type ExportFormat = typeof EXPORT_FORMATS[number];
+
+export const isExportFormat = (value: unknown): value is ExportFormat =>
+  typeof value === 'string' && (EXPORT_FORMATS as readonly string[]).includes(value);
+
+const CONTENT_TYPES: Record<ExportFormat, string> = {
+  json: 'application/json; charset=utf-8',
+  csv: 'text/csv; charset=utf-8',
+  html: 'text/html; charset=utf-8',
+};
+
+export interface ExportedReport {
+  schema: typeof EXPORT_SCHEMA;
+  schemaVersion: number;
+  generatedAt: string;
+  session: {
+    uuid: string;
+    sha256: string | null;
+    status: string;
+    totalFaces: number | null;
+    createdAt: string | null;
+    processedAt: string | null;
+  };
+  policy: VerdictPolicy;
+  results: AnalysisResult[];
+  metadata: ImageMetadata | null;
+  // Present when the server signed the report
+  signature: { reportId: string; verifyUrl: string } | null;
+}
+
+export interface ReportExportOptions {
+  policy?: VerdictPolicy;
+  generatedAt?: Date;
+  signature?: ReportSignature | null;
+  metadata?: ImageMetadata | null;
+  // Language of the HTML report; JSON and CSV stay in English
+  locale?: Locale;
+  // Face crops inlined in the HTML report
+  loadFaceImage?: (result: AnalysisResult) => Promise<ReportImage | null>;
+}
+
+export interface ReportExport {
+  body: string;
+  contentType: string;
+  filename: string;
+}
+
+/**
+ * Versioned JSON document of a session and its formatted results
+ */
+export function buildExportedReport(sessionInfo: SessionInfoResponse, options: ReportExportOptions = {}): ExportedReport {
+  const policy = options.policy || DEFAULT_VERDICT_POLICY;
+  return {
+    schema: EXPORT_SCHEMA,
+    schemaVersion: EXPORT_SCHEMA_VERSION,
+    generatedAt: (options.generatedAt || new Date()).toISOString(),
+    session: {
+      uuid: sessionInfo.uuid,
+      sha256: sessionInfo.sha256 || null,
+      status: sessionInfo.status,
+      totalFaces: sessionInfo.total_faces ?? null,
+      createdAt: sessionInfo.created_at || null,
+      processedAt: sessionInfo.processed_at || null,
+    },
+    policy,
+    results: formatAnalysisResults(sessionInfo, policy),
+    metadata: options.metadata || null,
+    signature: options.signature
+      ? { reportId: options.signature.reportId, verifyUrl: options.signature.verifyUrl }
+      : null,
+  };
+}
+
+export const CSV_COLUMNS = [
+  'session_uuid',
+  'sha256',
+  'policy',
+  'face_index',
+  'verdict',
+  'model_id',
+  'model_name',
+  'model_version',
+  'weight',
+  'real_probability',
+  'fake_probability',
+] as const;
+
+/**
+ * CSV field; values that a spreadsheet would evaluate as a formula are
+ * prefixed with an apostrophe
+ */
+function csvField(value: string | number | null | undefined): string {
+  if (value === null || value === undefined) return '';
+  let text = String(value);
+  if (typeof value === 'string' && /^[=+\-@\t\r]/.test(text)) text = `'${text}`;
+  return /[",\n\r]/.test(text) ? `"${text.replace(/"/g, '""')}"` : text;
+}
+
+/**
+ * One row per face and model (plus `ensemble` and `local_ensemble` rows per face)
+ */
+export function buildCsvExport(report: ExportedReport): string {
+  const rows: Array<Array<string | number | null | undefined>> = [];
+  const base = (result: AnalysisResult) => [report.session.uuid, report.session.sha256, report.policy.id, result.faceIndex, result.verdict];
+  for (const result of report.results) {
+    rows.push([...base(result), 'ensemble', 'Ensemble', null, null, result.ensembleProbability.real, result.ensembleProbability.fake]);
+    if (result.localEnsemble) {
+      rows.push([...base(result), 'local_ensemble', 'Weighted ensemble', null, null, result.localEnsemble.real, result.localEnsemble.fake]);
+    }
+    for (const model of result.modelProbabilities) {
+      rows.push([
+        ...base(result),
+        model.modelId,
+        model.model,
+        model.version,
+        model.weight,
+        model.realProbability,
+        model.fakeProbability,
+      ]);
+    }
+  }
+  return [CSV_COLUMNS as readonly string[], ...rows]
+    .map(row => row.map(csvField).join(','))
+    .join('\r\n') + '\r\n';
+}
+
+const escapeHtml = (value: string): string => value
+  .replace(/&/g, '&amp;')
+  .replace(/</g, '&lt;')
+  .replace(/>/g, '&gt;')
+  .replace(/"/g, '&quot;')
+  .replace(/'/g, '&#39;');
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+const HTML_STYLE = `
+body{font-family:system-ui,-apple-system,"Segoe UI",sans-serif;color:#111;max-width:900px;margin:2rem auto;padding:0 1rem;line-height:1.4}
+h1{font-size:1.6rem;margin-bottom:.2rem}h2{font-size:1.2rem;margin-top:2rem;border-bottom:1px solid #ddd;padding-bottom:.3rem}
+.muted{color:#666;font-size:.85rem}dl{display:grid;grid-template-columns:max-content 1fr;gap:.2rem 1rem;font-size:.9rem}
+dt{font-weight:600}dd{margin:0;word-break:break-all}.face{display:flex;gap:1.5rem;align-items:flex-start;margin:1rem 0}
+.face img{width:160px;border-radius:6px;border:3px solid}.verdict{font-size:1.3rem;font-weight:700}
+table{border-collapse:collapse;width:100%;font-size:.85rem}td,th{text-align:left;padding:.25rem .5rem;border-bottom:1px solid #eee}
+.flag{padding:.3rem .5rem;border-radius:4px;margin:.2rem 0;font-size:.9rem}.critical{background:#fef2f2;color:#b91c1c}
+.warning{background:#fffbeb;color:#b45309}.info{background:#eff6ff;color:#1d4ed8}
+`;
+
+/**
+ * Self-contained HTML report; face crops are inlined as data URIs
+ */
+export function buildHtmlExport(
+  report: ExportedReport,
+  faceImages: Map<number, ReportImage> = new Map(),
+  locale: Locale = DEFAULT_LOCALE
+): string {
+  const { session, policy } = report;
+  const t = createTranslator(locale);
+  const percent = (value: number | null) => value === null ? t('pdf.notReported') : formatPercent(value, locale);
+  const detail = (label: string, value: string | null) =>
+    value ? `<dt>${escapeHtml(label)}</dt><dd>${escapeHtml(value)}</dd>` : '';
+
+  const faces = report.results.map(result => {
+    const image = faceImages.get(result.faceIndex);
+    const color = escapeHtml(result.verdictBand.color);
+    const face = escapeHtml(t('html.face', { index: result.faceIndex }));
+    const modelRows = result.modelProbabilities.map(model => `<tr><td>${escapeHtml(model.model)}${model.version ? ` v${escapeHtml(model.version)}` : ''}</td><td>${escapeHtml(percent(model.realProbability))}</td></tr>`).join('');
+    return `<section>
+<h3>${face}</h3>
+<div class="face">
+${image ? `<img src="data:image/${image.format === 'PNG' ? 'png' : 'jpeg'};base64,${toBase64(image.data)}" alt="${face}" style="border-color:${color}">` : ''}
+<div>
+<div class="verdict" style="color:${color}">${escapeHtml(verdictLabel(result.verdictBand, locale))}</div>
+<dl>
+<dt>${escapeHtml(t('html.realProbability'))}</dt><dd>${escapeHtml(percent(result.ensembleProbability.real))}</dd>
+<dt>${escapeHtml(t('html.fakeProbability'))}</dt><dd>${escapeHtml(percent(result.ensembleProbability.fake))}</dd>
+${result.localEnsemble ? `<dt>${escapeHtml(t('html.weightedEnsemble'))}</dt><dd>${escapeHtml(percent(result.localEnsemble.real))}</dd>` : ''}
+</dl>
+</div>
+</div>
+${modelRows ? `<table><thead><tr><th>${escapeHtml(t('html.model'))}</th><th>${escapeHtml(t('html.realProbability'))}</th></tr></thead><tbody>${modelRows}</tbody></table>` : ''}
+</section>`;
+  }).join('\n');
+
+  const metadata = report.metadata;
+  const metadataHtml = metadata ? `<h2>${escapeHtml(t('html.metadata'))}</h2>
+${metadata.flags.map(flag => `<div class="flag ${flag.severity}">${escapeHtml(metadataFlagMessage(flag, t))}</div>`).join('\n')}
+${metadata.sections.map(section => `<h3>${escapeHtml(t(`metadata.section.${section.id}`))}</h3><dl>${section.entries.map(entry => detail(entry.label, entry.value)).join('')}</dl>`).join('\n')}` : '';
+
+  return `<!DOCTYPE html>
+<html lang="${locale}">
+<head>
+<meta charset="utf-8">
+<meta name="viewport" content="width=device-width, initial-scale=1">
+<meta name="generator" content="${EXPORT_SCHEMA} v${EXPORT_SCHEMA_VERSION}">
+<title>${escapeHtml(t('pdf.title', { uuid: session.uuid }))}</title>
+<style>${HTML_STYLE}</style>
+</head>
+<body>
+<h1>${escapeHtml(t('html.heading'))}</h1>
+<p class="muted">${escapeHtml(t('html.subheading', { date: report.generatedAt }))}</p>
+<h2>${escapeHtml(t('html.sessionDetails'))}</h2>
+<dl>
+${detail(t('html.sessionUuid'), session.uuid)}
+${detail(t('html.sha256'), session.sha256)}
+${detail(t('html.status'), session.status)}
+${detail(t('html.created'), session.createdAt)}
+${detail(t('html.processed'), session.processedAt)}
+${detail(t('html.policy'), `${policyText(policy, locale).name} (${policy.id})`)}
+${detail(t('html.reportId'), report.signature?.reportId || null)}
+</dl>
+${report.signature ? `<p class="muted">${t('html.verifyAt', { url: `<a href="${escapeHtml(report.signature.verifyUrl)}">${escapeHtml(report.signature.verifyUrl)}</a>` })}</p>` : ''}
+<h2>${escapeHtml(t('html.faceDetails'))}</h2>
+${faces || `<p>${escapeHtml(t('pdf.noFaces'))}</p>`}
+${metadataHtml}
+<p class="muted">Proofly AI - www.proofly.ai</p>
+</body>
+</html>
+`;
+}
+
+/**
+ * Builds an export in the given format (face crops are only loaded for HTML)
+ */
+export async function buildReportExport(
+  format: ExportFormat,
+  sessionInfo: SessionInfoResponse,
+  options: ReportExportOptions = {}
+): Promise<ReportExport> {
+  const report = buildExportedReport(sessionInfo, options);
+  const filename = `proofly-report-${sessionInfo.uuid}.${format}`;
+
+  if (format === 'json') {
+    return { body: JSON.stringify(report, null, 2), contentType: CONTENT_TYPES.json, filename };
+  }
+  if (format === 'csv') {
+    return { body: buildCsvExport(report), contentType: CONTENT_TYPES.csv, filename };
+  }
+
+  const faceImages = new Map<number, ReportImage>();
+  if (options.loadFaceImage) {
+    for (const result of report.results) {
+      try {
+        const image = await options.loadFaceImage(result);
+        if (image) faceImages.set(result.faceIndex, image);
+      } catch (err) {
+        console.error(`Report export: Failed to load image for face ${result.faceIndex}`, err);
+      }
+    }
+  }
+  return { body: buildHtmlExport(report, faceImages, options.locale), contentType: CONTENT_TYPES.html, filename };
+}
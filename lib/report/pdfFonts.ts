@@ -0,0 +1,59 @@
+// lib/report/pdfFonts.ts
+import { jsPDF } from 'jspdf';
+import { DEFAULT_LOCALE, Locale } from '../i18n/config';
+
+// The standard PDF fonts only cover Latin-1. Reports in other locales embed
+// PT Sans (public/fonts), loaded like the report images by the caller.
+
+export interface ReportFonts {
+  regular: Uint8Array;
+  bold: Uint8Array;
+}
+
+export type ReportFontLoader = () => Promise<ReportFonts | null>;
+
+export const REPORT_FONT_FILES: Record<keyof ReportFonts, string> = {
+  regular: 'PTSans-Regular.ttf',
+  bold: 'PTSans-Bold.ttf',
+};
+
+const EMBEDDED_FONT_FAMILY = 'PTSans';
+const STANDARD_FONT_FAMILY = 'helvetica';
+
+const LATIN1_LOCALES: readonly Locale[] = ['en'];
+
+export const needsEmbeddedFont = (locale: Locale): boolean => !LATIN1_LOCALES.includes(locale);
+
+function toBase64(bytes: Uint8Array): string {
+  let binary = '';
+  for (let i = 0; i < bytes.length; i += 0x8000) {
+    binary += String.fromCharCode(...bytes.subarray(i, i + 0x8000));
+  }
+  return btoa(binary);
+}
+
+/**
+ * Picks the font family of a report and registers it with jsPDF. When the
+ * fonts a locale needs cannot be loaded the report falls back to English.
+ */
+export async function setupReportFont(
+  pdf: jsPDF,
+  locale: Locale,
+  loadFonts?: ReportFontLoader
+): Promise<{ family: string; locale: Locale }> {
+  if (!needsEmbeddedFont(locale)) {
+    return { family: STANDARD_FONT_FAMILY, locale };
+  }
+  try {
+    const fonts = await loadFonts?.();
+    if (!fonts) throw new Error('no font loader');
+    pdf.addFileToVFS(REPORT_FONT_FILES.regular, toBase64(fonts.regular));
+    pdf.addFont(REPORT_FONT_FILES.regular, EMBEDDED_FONT_FAMILY, 'normal');
+    pdf.addFileToVFS(REPORT_FONT_FILES.bold, toBase64(fonts.bold));
+    pdf.addFont(REPORT_FONT_FILES.bold, EMBEDDED_FONT_FAMILY, 'bold');
+    return { family: EMBEDDED_FONT_FAMILY, locale };
+  } catch (fontError) {
+    console.error(`PDF Report: Failed to load fonts for locale "${locale}", using ${DEFAULT_LOCALE}`, fontError);
+    return { family: STANDARD_FONT_FAMILY, locale: DEFAULT_LOCALE };
+  }
+}
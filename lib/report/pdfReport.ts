@@ -0,0 +1,413 @@
+// lib/report/pdfReport.ts
+import { jsPDF } from 'jspdf';
+import QRCode from 'qrcode';
+import { SessionInfoResponse, formatAnalysisResults, AnalysisResult } from '../types/proofly';
+import { DEFAULT_VERDICT_POLICY, VerdictPolicy, hexToRgb } from '../verdict/policy';
+import { REPORT_ID_MARKER, REPORT_PAYLOAD_MARKER, ReportSignature } from './signature';
+import { ImageMetadata, MetadataFlagSeverity } from '../images/metadata';
+import { DEFAULT_LOCALE, Locale } from '../i18n/config';
+import { createTranslator, metadataFlagMessage, policyText } from '../i18n/translate';
+import { formatDate, formatPercent } from '../i18n/format';
+import { ReportFontLoader, setupReportFont } from './pdfFonts';
+
+// Report builder shared by the browser export and /api/proofly/generate-pdf.
+// It never touches the DOM, the network or the filesystem: images come from
+// the loaders supplied by the caller.
+
+export type ReportImageFormat = 'PNG' | 'JPEG';
+
+export interface ReportImage {
+  data: Uint8Array;
+  format: ReportImageFormat;
+}
+
+export interface ReportImageLoaders {
+  loadLogo: () => Promise<ReportImage | null>;
+  loadFaceImage: (result: AnalysisResult) => Promise<ReportImage | null>;
+}
+
+export interface AnalysisReportOptions {
+  // Verdict policy applied to the results (recorded in the report)
+  policy?: VerdictPolicy;
+  // Without loaders the report is rendered without logo and face crops
+  images?: Partial<ReportImageLoaders>;
+  generatedAt?: Date;
+  // Server signature; adds a verification section with a QR code
+  signature?: ReportSignature | null;
+  // EXIF/XMP/IPTC/C2PA metadata of the analyzed image
+  metadata?: ImageMetadata | null;
+  // Report language (English by default); non-Latin locales need loadFonts
+  locale?: Locale;
+  loadFonts?: ReportFontLoader;
+}
+
+// Longest metadata value printed in the report
+const MAX_METADATA_VALUE_LENGTH = 200;
+
+const FLAG_COLORS: Record<MetadataFlagSeverity, [number, number, number]> = {
+  critical: [185, 28, 28],
+  warning: [180, 83, 9],
+  info: [29, 78, 216],
+};
+
+/**
+ * Image format from a MIME type (jsPDF supports PNG and JPEG)
+ */
+export function reportImageFormat(contentType: string | undefined): ReportImageFormat {
+  return contentType && /png/i.test(contentType) ? 'PNG' : 'JPEG';
+}
+
+/**
+ * Payload in base64url, decodable with Buffer on the server
+ */
+function toBase64Url(text: string): string {
+  const bytes = new TextEncoder().encode(text);
+  let binary = '';
+  bytes.forEach(byte => { binary += String.fromCharCode(byte); });
+  return btoa(binary).replace(/\+/g, '-').replace(/\//g, '_').replace(/=+$/, '');
+}
+
+/**
+ * Builds the certificate-style analysis report.
+ * @param sessionInfo Session information with analysis results.
+ * @param options Verdict policy, image and font loaders, locale and report date.
+ * @returns PDF file contents.
+ */
+export async function buildAnalysisReport(
+  sessionInfo: SessionInfoResponse,
+  options: AnalysisReportOptions = {}
+): Promise<Uint8Array> {
+  const policy = options.policy || DEFAULT_VERDICT_POLICY;
+  const generatedAt = options.generatedAt || new Date();
+  const signature = options.signature || null;
+  const images: ReportImageLoaders = {
+    loadLogo: async () => null,
+    loadFaceImage: async () => null,
+    ...options.images,
+  };
+  let logo: ReportImage | null = null;
+  let logoProps: any | null = null;
+
+  // Load logo
+  try {
+    logo = await images.loadLogo();
+  } catch (logoError) {
+    console.error('PDF Report: Failed to load logo', logoError);
+  }
+
+  const pdf = new jsPDF('p', 'mm', 'a4');
+  const font = await setupReportFont(pdf, options.locale || DEFAULT_LOCALE, options.loadFonts);
+  const { locale } = font;
+  const t = createTranslator(locale);
+  const percent = (value: number) => formatPercent(value, locale);
+  const analysisResults = formatAnalysisResults(sessionInfo, policy, undefined, locale);
+  pdf.setFont(font.family);
+
+  // Set PDF metadata
+  pdf.setProperties({
+    title: t('pdf.title', { uuid: sessionInfo.uuid }),
+    subject: `Deepfake Analysis Results for Session ${sessionInfo.uuid}`,
+    author: 'Proofly AI',
+    keywords: signature
+      ? `proofly, deepfake, analysis, report, ${sessionInfo.uuid}, ${REPORT_ID_MARKER}${signature.reportId}, ${REPORT_PAYLOAD_MARKER}${toBase64Url(signature.payload)}`
+      : `proofly, deepfake, analysis, report, ${sessionInfo.uuid}`,
+    creator: 'Proofly AI App',
+  });
+
+  // Get logo properties if loaded
+  if (logo) {
+    try {
+      logoProps = pdf.getImageProperties(logo.data);
+    } catch (propsError) {
+      console.error('PDF Report: Failed to get logo properties', propsError);
+      logo = null;
+    }
+  }
+
+  const width = pdf.internal.pageSize.getWidth();
+  const height = pdf.internal.pageSize.getHeight();
+  const margin = 15;
+  const contentWidth = width - 2 * margin;
+  const leftCol = margin + 5;
+  const rightCol = margin + 55;
+  let yPos = 0;
+
+  // Page break helper
+  const checkPageBreak = (currentY: number, requiredSpace: number): number => {
+    const safeBottomMargin = 30;
+    if (currentY + requiredSpace > height - safeBottomMargin) {
+      pdf.addPage();
+      pdf.setDrawColor(0);
+      pdf.setLineWidth(1);
+      pdf.rect(margin, margin, contentWidth, height - 2 * margin);
+      return margin + 15;
+    }
+    return currentY;
+  };
+
+  // Footer helper
+  const addFooter = (logoImage: ReportImage | null, logoProperties: any | null) => {
+    const footerY = height - margin - 15;
+    pdf.setLineWidth(0.5);
+    pdf.line(margin, footerY, width - margin, footerY);
+    pdf.setFontSize(8);
+    pdf.setFont(font.family, 'normal');
+    pdf.setTextColor(100, 100, 100);
+    if (logoImage && logoProperties) {
+      const logoHeight = 8;
+      const logoWidth = (logoProperties.width * logoHeight) / logoProperties.height;
+      const logoX = margin + 5;
+      const logoY = footerY + 3;
+      try {
+        pdf.addImage(logoImage.data, logoImage.format, logoX, logoY, logoWidth, logoHeight);
+      } catch (imgError) {
+        console.error('PDF Report: Error adding logo to footer', imgError);
+      }
+    }
+    pdf.text(t('pdf.footer'), width / 2, footerY + 8, { align: 'center' });
+    const pageInfo = pdf.getCurrentPageInfo();
+    const pageCount = pdf.getNumberOfPages();
+    if (pageCount > 1) {
+      pdf.text(t('pdf.page', { page: pageInfo.pageNumber, count: pageCount }), width - margin - 5, footerY + 8, { align: 'right' });
+    }
+  };
+
+  // --- FIRST PAGE ---
+  pdf.setDrawColor(0);
+  pdf.setLineWidth(1);
+  pdf.rect(margin, margin, contentWidth, height - 2 * margin);
+
+  // Title
+  pdf.setFontSize(20);
+  pdf.setFont(font.family, 'bold');
+  pdf.text(t('pdf.heading'), width / 2, margin + 20, { align: 'center' });
+  pdf.setFontSize(10);
+  pdf.setFont(font.family, 'normal');
+  pdf.text(t('pdf.subheading'), width / 2, margin + 28, { align: 'center' });
+  pdf.text(t('pdf.generatedOn', { date: formatDate(generatedAt, locale) }), width / 2, margin + 34, { align: 'center' });
+  yPos = margin + 45;
+  pdf.setLineWidth(0.5);
+  pdf.line(margin, yPos, width - margin, yPos);
+  yPos += 10;
+
+  // --- SESSION DETAILS ---
+  yPos = checkPageBreak(yPos, 30);
+  pdf.setFontSize(14);
+  pdf.setFont(font.family, 'bold');
+  pdf.text(t('pdf.sessionDetails'), margin + 5, yPos);
+  yPos += 8;
+  pdf.setFontSize(10);
+  const addDetail = (label: string, value: string | undefined) => {
+    if (!value) return;
+    yPos = checkPageBreak(yPos, 7);
+    pdf.setFont(font.family, 'bold');
+    pdf.text(label, leftCol, yPos);
+    pdf.setFont(font.family, 'normal');
+    const splitValue = pdf.splitTextToSize(value, contentWidth - (rightCol - margin));
+    pdf.text(splitValue, rightCol, yPos);
+    yPos += splitValue.length * 5;
+    yPos += 3;
+  };
+  addDetail(t('pdf.sessionUuid'), sessionInfo.uuid);
+  addDetail(t('pdf.sha256'), sessionInfo.sha256);
+  addDetail(t('pdf.policy'), `${policyText(policy, locale).name} (${policy.id})`);
+  addDetail(t('pdf.reportId'), signature?.reportId);
+  yPos += 5;
+  pdf.setLineWidth(0.5);
+  pdf.line(margin, yPos, width - margin, yPos);
+  yPos += 10;
+
+  // --- FACE ANALYSIS DETAILS ---
+  yPos = checkPageBreak(yPos, 20);
+  pdf.setFontSize(14);
+  pdf.setFont(font.family, 'bold');
+  pdf.text(t('pdf.faceDetails'), margin + 5, yPos);
+  yPos += 10;
+
+  if (!analysisResults || analysisResults.length === 0) {
+    yPos = checkPageBreak(yPos, 10);
+    pdf.setFontSize(11);
+    pdf.setFont(font.family, 'normal');
+    pdf.text(t('pdf.noFaces'), leftCol, yPos);
+    yPos += 10;
+  } else {
+    for (let i = 0; i < analysisResults.length; i++) {
+      const result = analysisResults[i];
+      yPos = checkPageBreak(yPos, 100);
+      pdf.setFontSize(12);
+      pdf.setFont(font.family, 'bold');
+      pdf.text(t('pdf.face', { index: result.faceIndex }), margin + 5, yPos);
+      yPos += 8;
+      let faceImage: ReportImage | null = null;
+      let faceImageError = false;
+      try {
+        faceImage = await images.loadFaceImage(result);
+        faceImageError = !faceImage;
+      } catch (err) {
+        console.error(`PDF Report: Failed to load image for face ${result.faceIndex}`, err);
+        faceImageError = true;
+      }
+      const faceDataStartY = yPos;
+      const imageWidth = 50;
+      let imageRenderedHeight = 0;
+      if (faceImage) {
+        try {
+          const imgProps = pdf.getImageProperties(faceImage.data);
+          imageRenderedHeight = (imgProps.height * imageWidth) / imgProps.width;
+          yPos = checkPageBreak(yPos, imageRenderedHeight + 5);
+          pdf.addImage(faceImage.data, faceImage.format, leftCol, yPos, imageWidth, imageRenderedHeight);
+          const frameColor = hexToRgb(result.verdictBand.color);
+          pdf.setDrawColor(frameColor[0], frameColor[1], frameColor[2]);
+          pdf.setLineWidth(1);
+          pdf.rect(leftCol, yPos, imageWidth, imageRenderedHeight);
+          pdf.setDrawColor(0);
+          pdf.setLineWidth(0.2);
+        } catch (imgAddError) {
+          console.error(`PDF Report: Failed to add image for face ${result.faceIndex}`, imgAddError);
+          faceImageError = true;
+          imageRenderedHeight = 0;
+          pdf.setFontSize(9);
+          pdf.setTextColor(150, 0, 0);
+          pdf.text(t('pdf.faceImageError'), leftCol + 5, yPos + 5);
+          pdf.setTextColor(0);
+          yPos += 10;
+        }
+      } else if (faceImageError) {
+        yPos = checkPageBreak(yPos, 10);
+        pdf.setFontSize(9);
+        pdf.setTextColor(150, 0, 0);
+        pdf.text(t('pdf.faceImageFailed'), leftCol + 5, yPos + 5);
+        pdf.setTextColor(0);
+        yPos += 10;
+      }
+      const textStartX = faceImage && imageRenderedHeight > 0 ? leftCol + imageWidth + 15 : leftCol + 5;
+      const textStartY = faceDataStartY;
+      let textCurrentY = textStartY;
+      const textBlockWidth = contentWidth - (textStartX - margin);
+      const addFaceDetail = (label: string, value: string, valueColor: number[] | null = null) => {
+        textCurrentY = checkPageBreak(textCurrentY, 7);
+        pdf.setFontSize(10);
+        pdf.setFont(font.family, 'bold');
+        pdf.text(label, textStartX, textCurrentY);
+        pdf.setFont(font.family, 'normal');
+        if (valueColor) {
+          pdf.setTextColor(valueColor[0], valueColor[1], valueColor[2]);
+        }
+        const valueStartX = textStartX + 40;
+        const valueWidth = contentWidth - valueStartX - margin + 5;
+        const splitValue = pdf.splitTextToSize(value, valueWidth);
+        pdf.text(splitValue, valueStartX, textCurrentY);
+        if (valueColor) {
+          pdf.setTextColor(0);
+        }
+        textCurrentY += splitValue.length * 5 + 2;
+      };
+      addFaceDetail(t('pdf.verdict'), result.verdict, hexToRgb(result.verdictBand.color));
+      addFaceDetail(t('pdf.realProbability'), percent(result.ensembleProbability.real));
+      addFaceDetail(t('pdf.fakeProbability'), percent(result.ensembleProbability.fake));
+      if (result.localEnsemble) {
+        addFaceDetail(t('pdf.weightedEnsemble'), percent(result.localEnsemble.real));
+      }
+      textCurrentY += 5;
+      textCurrentY = checkPageBreak(textCurrentY, 15);
+      pdf.setFontSize(11);
+      pdf.setFont(font.family, 'bold');
+      pdf.text(t('pdf.modelScores'), textStartX, textCurrentY);
+      textCurrentY += 6;
+      pdf.setFontSize(9);
+      pdf.setFont(font.family, 'normal');
+      for (const model of result.modelProbabilities) {
+        textCurrentY = checkPageBreak(textCurrentY, 6);
+        const modelName = model.version ? `${model.model} v${model.version}` : model.model;
+        const score = model.realProbability === null ? t('pdf.notReported') : percent(model.realProbability);
+        const modelText = `${modelName}: ${score}`;
+        const splitModelText = pdf.splitTextToSize(modelText, textBlockWidth - 5);
+        pdf.text(splitModelText, textStartX, textCurrentY);
+        textCurrentY += splitModelText.length * 4 + 1;
+      }
+      yPos = Math.max(yPos + imageRenderedHeight + 10, textCurrentY + 10);
+      if (i < analysisResults.length - 1) {
+        yPos = checkPageBreak(yPos, 10);
+        pdf.setLineWidth(0.3);
+        pdf.line(margin, yPos, width - margin, yPos);
+        yPos += 10;
+      }
+    }
+  }
+  // --- IMAGE METADATA ---
+  const { metadata } = options;
+  if (metadata) {
+    yPos = checkPageBreak(yPos + 5, 30);
+    pdf.setFontSize(14);
+    pdf.setFont(font.family, 'bold');
+    pdf.text(t('pdf.metadata'), margin + 5, yPos);
+    yPos += 8;
+
+    pdf.setFontSize(9);
+    for (const flag of metadata.flags) {
+      const flagLines = pdf.splitTextToSize(`[${t(`metadata.severity.${flag.severity}`)}] ${metadataFlagMessage(flag, t)}`, contentWidth - 10);
+      yPos = checkPageBreak(yPos, flagLines.length * 4 + 2);
+      pdf.setFont(font.family, flag.severity === 'info' ? 'normal' : 'bold');
+      pdf.setTextColor(...FLAG_COLORS[flag.severity]);
+      pdf.text(flagLines, leftCol, yPos);
+      yPos += flagLines.length * 4 + 2;
+    }
+    pdf.setTextColor(0);
+
+    for (const section of metadata.sections) {
+      yPos = checkPageBreak(yPos + 3, 12);
+      pdf.setFontSize(11);
+      pdf.setFont(font.family, 'bold');
+      pdf.text(t(`metadata.section.${section.id}`), leftCol, yPos);
+      yPos += 6;
+      pdf.setFontSize(9);
+      for (const entry of section.entries) {
+        const value = entry.value.length > MAX_METADATA_VALUE_LENGTH
+          ? `${entry.value.slice(0, MAX_METADATA_VALUE_LENGTH)}...`
+          : entry.value;
+        const valueLines = pdf.splitTextToSize(value, contentWidth - (rightCol - margin));
+        yPos = checkPageBreak(yPos, valueLines.length * 4 + 1);
+        pdf.setFont(font.family, 'bold');
+        pdf.text(pdf.splitTextToSize(`${entry.label}:`, rightCol - leftCol - 2)[0], leftCol, yPos);
+        pdf.setFont(font.family, 'normal');
+        pdf.text(valueLines, rightCol, yPos);
+        yPos += valueLines.length * 4 + 1;
+      }
+    }
+    yPos += 5;
+  }
+
+  // --- VERIFICATION ---
+  if (signature) {
+    const qrSize = 35;
+    yPos = checkPageBreak(yPos + 5, qrSize + 20);
+    pdf.setFontSize(14);
+    pdf.setFont(font.family, 'bold');
+    pdf.text(t('pdf.verification'), margin + 5, yPos);
+    yPos += 6;
+    try {
+      const qrDataUrl = await QRCode.toDataURL(signature.verifyUrl, { margin: 1, width: 256, errorCorrectionLevel: 'M' });
+      pdf.addImage(qrDataUrl, 'PNG', leftCol, yPos, qrSize, qrSize);
+    } catch (qrError) {
+      console.error('PDF Report: Failed to render verification QR code', qrError);
+    }
+    const verifyTextX = leftCol + qrSize + 8;
+    const verifyTextWidth = contentWidth - (verifyTextX - margin) - 5;
+    pdf.setFontSize(9);
+    pdf.setFont(font.family, 'normal');
+    const verifyLines = pdf.splitTextToSize(t('pdf.verificationText'), verifyTextWidth);
+    pdf.text(verifyLines, verifyTextX, yPos + 4);
+    pdf.setTextColor(0, 0, 180);
+    const urlLines = pdf.splitTextToSize(signature.verifyUrl, verifyTextWidth);
+    pdf.text(urlLines, verifyTextX, yPos + 6 + verifyLines.length * 4);
+    pdf.setTextColor(0);
+    yPos += qrSize + 5;
+  }
+
+  const pageCount = pdf.getNumberOfPages();
+  for (let i = 1; i <= pageCount; i++) {
+    pdf.setPage(i);
+    addFooter(logo, logoProps);
+  }
+  return new Uint8Array(pdf.output('arraybuffer'));
+}
@@ -0,0 +1,115 @@
+// lib/report/signature.ts
+import { SessionInfoResponse, formatAnalysisResults } from '../types/proofly';
+import { VerdictPolicy } from '../verdict/policy';
+
+// Report IDs look like `<uuid>.<policyId>.<issuedAt base36>.<signature base64url>`.
+// The signature is an HMAC over the canonical JSON below, so a report can be
+// checked from its ID alone by rebuilding the JSON from live session data.
+
+export const REPORT_SIGNATURE_VERSION = 1;
+
+// Marker prefixes written into the PDF keywords (found again by /api/proofly/verify)
+export const REPORT_ID_MARKER = 'proofly-report-id:';
+export const REPORT_PAYLOAD_MARKER = 'proofly-report-payload:';
+
+export interface CanonicalReport {
+  v: number;
+  uuid: string;
+  sha256: string | null;
+  status: string;
+  policy: string;
+  issuedAt: string;
+  faces: { index: number; real: number; verdict: string }[];
+}
+
+// What the report builder needs to embed a signature
+export interface ReportSignature {
+  reportId: string;
+  // Canonical JSON the signature covers
+  payload: string;
+  verifyUrl: string;
+}
+
+export interface ParsedReportId {
+  uuid: string;
+  policyId: string;
+  issuedAt: Date;
+  signature: string;
+}
+
+export type ReportVerificationStatus =
+  // Signature valid and live session data unchanged
+  | 'valid'
+  // Signature valid for the embedded data, but the session changed since
+  | 'outdated'
+  // Signature does not match (edited report or forged ID)
+  | 'invalid';
+
+export interface ReportVerificationResult {
+  status: ReportVerificationStatus;
+  reportId: string;
+  uuid: string;
+  policyId: string;
+  issuedAt: string;
+  signatureValid: boolean;
+  matchesLiveData: boolean;
+  message: string;
+  // Data the report was signed over, when the PDF carried it
+  report?: CanonicalReport;
+}
+
+/**
+ * Result data covered by the signature. Probabilities are rounded so the
+ * JSON is stable across platforms.
+ */
+export function buildCanonicalReport(
+  sessionInfo: SessionInfoResponse,
+  policy: VerdictPolicy,
+  issuedAt: Date
+): CanonicalReport {
+  return {
+    v: REPORT_SIGNATURE_VERSION,
+    uuid: sessionInfo.uuid,
+    sha256: sessionInfo.sha256 || null,
+    status: sessionInfo.status,
+    policy: policy.id,
+    issuedAt: issuedAt.toISOString(),
+    faces: formatAnalysisResults(sessionInfo, policy).map(result => ({
+      index: result.faceIndex,
+      real: Math.round(result.ensembleProbability.real * 1e6) / 1e6,
+      verdict: result.verdict,
+    })),
+  };
+}
+
+/**
+ * JSON with a fixed key order (the order of CanonicalReport)
+ */
+export function canonicalJson(report: CanonicalReport): string {
+  return JSON.stringify({
+    v: report.v,
+    uuid: report.uuid,
+    sha256: report.sha256,
+    status: report.status,
+    policy: report.policy,
+    issuedAt: report.issuedAt,
+    faces: report.faces.map(face => ({ index: face.index, real: face.real, verdict: face.verdict })),
+  });
+}
+
+export function formatReportId(uuid: string, policyId: string, issuedAt: Date, signature: string): string {
+  return `${uuid}.${policyId}.${issuedAt.getTime().toString(36)}.${signature}`;
+}
+
+/**
+ * Splits a report ID; returns null if it is malformed
+ */
+export function parseReportId(reportId: string): ParsedReportId | null {
+  const match = reportId.trim().match(
+    /^([0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12})\.([a-z0-9-]+)\.([0-9a-z]+)\.([A-Za-z0-9_-]{43})$/i
+  );
+  if (!match) return null;
+  const issuedAt = new Date(parseInt(match[3], 36));
+  if (isNaN(issuedAt.getTime())) return null;
+  return { uuid: match[1], policyId: match[2], issuedAt, signature: match[4] };
+}
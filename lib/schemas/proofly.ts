@@ -0,0 +1,157 @@
+// lib/schemas/proofly.ts
+import { z } from 'zod';
+
+// Runtime schemas for Proofly API responses. Types in lib/types/proofly.ts are
+// inferred from these, so a payload that passes validation matches its type.
+
+/**
+ * Optional field that also accepts null (normalized to undefined)
+ */
+const optional = <T extends z.ZodTypeAny>(schema: T) =>
+  schema.nullish().transform(value => value ?? undefined);
+
+const probability = z.number().finite().min(0).max(1);
+
+export const sessionStatusSchema = z.enum([
+  'uploading',
+  'processing',
+  'in progress',
+  'completed',
+  'done',
+  'no faces found',
+  'failed',
+]);
+
+export const fileUploadResponseSchema = z.object({
+  uuid: z.string().min(1),
+  message: optional(z.string()),
+}).passthrough();
+
+export const sessionStatusResponseSchema = z.object({
+  status: sessionStatusSchema,
+}).passthrough();
+
+export const modelResultsSchema = z.object({
+  probability,
+}).passthrough();
+
+export const metricSchema = z.object({
+  name: z.string(),
+  probability,
+});
+
+const coordinate = z.number().finite().nonnegative();
+
+/**
+ * Face position in the original image, as [x1, y1, x2, y2] or { x, y, width, height }.
+ * Values up to 1 are fractions of the image size, larger ones are pixels.
+ */
+export const faceBoxSchema = z.union([
+  z.tuple([coordinate, coordinate, coordinate, coordinate])
+    .transform(([x1, y1, x2, y2]) => ({ x: x1, y: y1, width: x2 - x1, height: y2 - y1 })),
+  z.object({ x: coordinate, y: coordinate, width: coordinate, height: coordinate }),
+]).refine(box => box.width > 0 && box.height > 0, { message: 'Face box is empty' });
+
+export const sessionFaceSchema = z.object({
+  realProbability: optional(probability),
+  fakeProbability: optional(probability),
+  isReal: optional(z.boolean()),
+  face_id: optional(z.union([z.string(), z.number()])),
+  confidence: optional(z.number().finite()),
+  verdict: optional(z.string()),
+  metrics: optional(z.record(metricSchema)),
+  models: optional(z.record(modelResultsSchema)),
+  is_real_model_1: optional(probability),
+  is_real_model_2: optional(probability),
+  is_real_model_3: optional(probability),
+  is_real_model_4: optional(probability),
+  is_real_model_5: optional(probability),
+  is_real_model_6: optional(probability),
+  is_real_model_7: optional(probability),
+  is_real_model_8: optional(probability),
+  is_real_model_9: optional(probability),
+  is_real_model_10: optional(probability),
+  ansamble: optional(probability),
+  face_path: optional(z.string()),
+  // A malformed box only disables the overlay, it does not reject the session
+  bbox: optional(faceBoxSchema).catch(undefined),
+}).passthrough().refine(
+  face => face.ansamble !== undefined || face.realProbability !== undefined,
+  { message: 'Face has neither ansamble nor realProbability', path: ['ansamble'] }
+);
+
+export const sessionInfoResponseSchema = z.object({
+  uuid: z.string().min(1),
+  sha256: optional(z.string()),
+  image_path: optional(z.string()),
+  total_faces: optional(z.number().int().nonnegative()),
+  status: sessionStatusSchema,
+  faces: optional(z.array(sessionFaceSchema)),
+  created_at: optional(z.string()),
+  processed_at: optional(z.string()),
+  error: optional(z.string()),
+}).passthrough();
+
+// Earlier analysis of the same image, returned by the upload routes instead of a new session
+export const cachedAnalysisSchema = z.object({
+  analyzedAt: z.string(),
+  session: sessionInfoResponseSchema,
+});
+
+// Response of the app's upload routes
+export const uploadResultSchema = fileUploadResponseSchema.extend({
+  cached: optional(cachedAnalysisSchema),
+});
+
+export const systemStatusResponseSchema = z.object({
+  status: optional(z.string()),
+}).passthrough();
+
+/**
+ * Thrown when a Proofly payload does not match its schema
+ * (the upstream API changed or returned garbage).
+ */
+export class UpstreamContractError extends Error {
+  readonly code = 'UPSTREAM_CONTRACT';
+
+  constructor(
+    readonly endpoint: string,
+    readonly issues: string[]
+  ) {
+    super(`Unexpected response from Proofly API (${endpoint}): ${issues.join('; ')}`);
+    this.name = 'UpstreamContractError';
+  }
+
+  /**
+   * Body returned by route handlers (status 502)
+   */
+  toJSON() {
+    return {
+      error: 'Unexpected response from Proofly API',
+      code: this.code,
+      endpoint: this.endpoint,
+      issues: this.issues,
+    };
+  }
+
+  /**
+   * Recognizes the JSON body produced by toJSON()
+   */
+  static isContractErrorBody(body: any): body is ReturnType<UpstreamContractError['toJSON']> {
+    return !!body && typeof body === 'object' && body.code === 'UPSTREAM_CONTRACT' && Array.isArray(body.issues);
+  }
+}
+
+/**
+ * Validates a payload, throwing UpstreamContractError with readable issues
+ */
+export function parseUpstream<T extends z.ZodTypeAny>(schema: T, data: unknown, endpoint: string): z.output<T> {
+  const result = schema.safeParse(data);
+  if (!result.success) {
+    const issues = result.error.issues.map(issue =>
+      `${issue.path.length ? issue.path.join('.') : '(root)'}: ${issue.message}`
+    );
+    throw new UpstreamContractError(endpoint, issues);
+  }
+  return result.data;
+}
@@ -0,0 +1,78 @@
+// lib/server/config.ts
+import { z } from 'zod';
+
+// Default upstream when API_BASE_URL is not set (production Proofly API)
+export const DEFAULT_API_BASE_URL = 'https://api.proofly.ai/api';
+
+const upstreamConfigSchema = z.object({
+  // Base URL including the `/api` prefix, without trailing slash
+  baseUrl: z
+    .string()
+    .url()
+    .refine(value => /^https?:\/\//i.test(value), 'must be an http(s) URL')
+    .transform(value => value.replace(/\/+$/, '')),
+  // Timeout for regular JSON/storage requests
+  timeoutMs: z.coerce.number().int().positive(),
+  // Timeout for image uploads (larger bodies, slower upstream)
+  uploadTimeoutMs: z.coerce.number().int().positive(),
+  // Optional API key and the header it is sent in
+  apiKey: z.string().min(1).optional(),
+  apiKeyHeader: z.string().regex(/^[A-Za-z0-9-]+$/, 'must be a valid header name'),
+  userAgent: z.string().min(1),
+  // Retries of idempotent GETs after transient failures (0 disables them)
+  retries: z.coerce.number().int().min(0),
+  retryBaseDelayMs: z.coerce.number().int().positive(),
+  retryMaxDelayMs: z.coerce.number().int().positive(),
+  // Consecutive failed requests that open the circuit, and how long it stays open
+  circuitFailureThreshold: z.coerce.number().int().positive(),
+  circuitResetMs: z.coerce.number().int().positive(),
+});
+
+export type UpstreamConfig = z.infer<typeof upstreamConfigSchema>;
+
+/**
+ * Reads and validates Proofly upstream configuration from environment variables.
+ * Throws with a readable list of problems if the configuration is invalid.
+ */
+export function loadUpstreamConfig(env: NodeJS.ProcessEnv = process.env): UpstreamConfig {
+  const result = upstreamConfigSchema.safeParse({
+    baseUrl: env.API_BASE_URL || DEFAULT_API_BASE_URL,
+    timeoutMs: env.PROOFLY_API_TIMEOUT_MS || 15000,
+    uploadTimeoutMs: env.PROOFLY_UPLOAD_TIMEOUT_MS || 60000,
+    apiKey: env.PROOFLY_API_KEY || undefined,
+    apiKeyHeader: env.PROOFLY_API_KEY_HEADER || 'Authorization',
+    userAgent: env.PROOFLY_USER_AGENT || 'proofly-checker',
+    retries: env.PROOFLY_RETRIES || 3,
+    retryBaseDelayMs: env.PROOFLY_RETRY_BASE_DELAY_MS || 300,
+    retryMaxDelayMs: env.PROOFLY_RETRY_MAX_DELAY_MS || 5000,
+    circuitFailureThreshold: env.PROOFLY_CIRCUIT_FAILURE_THRESHOLD || 5,
+    circuitResetMs: env.PROOFLY_CIRCUIT_RESET_MS || 30000,
+  });
+
+  if (!result.success) {
+    const problems = result.error.issues
+      .map(issue => `${issue.path.join('.')}: ${issue.message}`)
+      .join('; ');
+    throw new Error(`Invalid Proofly upstream configuration: ${problems}`);
+  }
+
+  return result.data;
+}
+
+/**
+ * Builds the static headers sent with every upstream request
+ */
+export function buildUpstreamHeaders(config: UpstreamConfig): Record<string, string> {
+  const headers: Record<string, string> = {
+    'User-Agent': config.userAgent,
+  };
+
+  if (config.apiKey) {
+    // Authorization header uses the bearer scheme, custom headers carry the raw key
+    headers[config.apiKeyHeader] = config.apiKeyHeader.toLowerCase() === 'authorization'
+      ? `Bearer ${config.apiKey}`
+      : config.apiKey;
+  }
+
+  return headers;
+}
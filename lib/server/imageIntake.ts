@@ -0,0 +1,55 @@
+// lib/server/imageIntake.ts
+import { z } from 'zod';
+import { ImageIntakeError, SniffedImage, validateImageBytes } from '../images/sniff';
+
+// Default cap for uploaded and fetched images
+export const DEFAULT_MAX_IMAGE_BYTES = 20 * 1024 * 1024;
+
+// Multipart boundaries and part headers around the image
+export const MULTIPART_OVERHEAD_BYTES = 64 * 1024;
+
+const maxImageBytesSchema = z.coerce.number().int().positive();
+
+/**
+ * Byte cap for a single image (PROOFLY_MAX_IMAGE_BYTES)
+ */
+export function getMaxImageBytes(env: NodeJS.ProcessEnv = process.env): number {
+  if (!env.PROOFLY_MAX_IMAGE_BYTES) return DEFAULT_MAX_IMAGE_BYTES;
+  const result = maxImageBytesSchema.safeParse(env.PROOFLY_MAX_IMAGE_BYTES);
+  if (!result.success) {
+    throw new Error(`Invalid PROOFLY_MAX_IMAGE_BYTES: ${result.error.issues[0]?.message}`);
+  }
+  return result.data;
+}
+
+export interface AcceptedImage extends SniffedImage {
+  data: Buffer;
+  // Original name with the extension of the detected format
+  filename: string;
+}
+
+export const tooLargeError = (maxBytes: number) =>
+  new ImageIntakeError('IMAGE_TOO_LARGE', `Image is larger than ${Math.floor(maxBytes / (1024 * 1024))} MB`, maxBytes);
+
+/**
+ * Validates image bytes and names the file after the detected format
+ */
+export function acceptImage(data: Buffer, originalName: string | undefined, maxBytes: number): AcceptedImage {
+  if (data.length > maxBytes) {
+    throw tooLargeError(maxBytes);
+  }
+  const type = validateImageBytes(data);
+  const baseName = (originalName || 'image').replace(/[/\\]/g, '_').replace(/\.[^.]*$/, '') || 'image';
+  return { ...type, data, filename: `${baseName}.${type.extension}` };
+}
+
+/**
+ * Validates a file from a multipart body. The body itself must already have
+ * been read with a cap (readFormDataLimited); this only checks the image.
+ */
+export async function intakeUploadedFile(file: File, maxBytes: number = getMaxImageBytes()): Promise<AcceptedImage> {
+  if (file.size > maxBytes) {
+    throw tooLargeError(maxBytes);
+  }
+  return acceptImage(Buffer.from(await file.arrayBuffer()), file.name, maxBytes);
+}
@@ -0,0 +1,19 @@
+// lib/server/imageMetadata.ts
+import { originalImageStoragePath, prooflyUpstream } from './upstream';
+import { ImageMetadata, extractImageMetadata } from '../images/metadata';
+import { SessionInfoResponse } from '../types/proofly';
+
+/**
+ * Metadata of the original image stored by the upstream; null when the
+ * session has no usable image_path. The upstream keeps its own copy, so
+ * metadata removed while storing it is reported as missing.
+ */
+export async function loadStoredImageMetadata(sessionInfo: SessionInfoResponse): Promise<ImageMetadata | null> {
+  const storagePath = originalImageStoragePath(sessionInfo.image_path);
+  if (!storagePath) {
+    console.error('[SECURITY] Invalid or missing image_path:', sessionInfo.image_path);
+    return null;
+  }
+  const file = await prooflyUpstream.getStorageFile(storagePath);
+  return extractImageMetadata(new Uint8Array(file.data));
+}
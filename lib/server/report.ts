@@ -0,0 +1,88 @@
+// lib/server/report.ts
+import { readFile } from 'fs/promises';
+import path from 'path';
+import { loggableError, prooflyUpstream } from './upstream';
+import { AnalysisResult, SessionInfoResponse } from '../types/proofly';
+import { VerdictPolicy } from '../verdict/policy';
+import { ReportImage, ReportImageLoaders, buildAnalysisReport, reportImageFormat } from '../report/pdfReport';
+import { ReportSignature } from '../report/signature';
+import { REPORT_FONT_FILES, ReportFonts } from '../report/pdfFonts';
+import { Locale } from '../i18n/config';
+import { ExportFormat, ReportExport, buildReportExport } from '../report/exports';
+import { loadStoredImageMetadata } from './imageMetadata';
+
+const LOGO_PATH = path.join(process.cwd(), 'public', 'logo.png');
+const FONTS_DIR = path.join(process.cwd(), 'public', 'fonts');
+
+/**
+ * Face crop from upstream storage. Only plain `/storage/faces/` file names are
+ * requested, the same rule the face proxy applies.
+ */
+async function loadFaceImage(result: AnalysisResult): Promise<ReportImage | null> {
+  const filename = path.basename(result.facePath || '');
+  if (!filename || result.facePath.includes('..')) {
+    console.error('[REPORT] Skipping face without a usable face_path:', result.facePath);
+    return null;
+  }
+  const file = await prooflyUpstream.getStorageFile(`/storage/faces/${filename}`);
+  return {
+    data: new Uint8Array(file.data),
+    format: reportImageFormat(file.contentType),
+  };
+}
+
+async function loadLogo(): Promise<ReportImage | null> {
+  return { data: new Uint8Array(await readFile(LOGO_PATH)), format: 'PNG' };
+}
+
+export const serverReportImages: ReportImageLoaders = { loadLogo, loadFaceImage };
+
+export async function loadServerReportFonts(): Promise<ReportFonts> {
+  const [regular, bold] = await Promise.all([
+    readFile(path.join(FONTS_DIR, REPORT_FONT_FILES.regular)),
+    readFile(path.join(FONTS_DIR, REPORT_FONT_FILES.bold)),
+  ]);
+  return { regular: new Uint8Array(regular), bold: new Uint8Array(bold) };
+}
+
+const loadMetadata = (sessionInfo: SessionInfoResponse) =>
+  loadStoredImageMetadata(sessionInfo).catch((error) => {
+    console.error('[REPORT] Failed to read image metadata:', loggableError(error));
+    return null;
+  });
+
+/**
+ * Builds the PDF report on the server (logo from /public, faces and the
+ * original image metadata from upstream)
+ */
+export async function buildServerReport(
+  sessionInfo: SessionInfoResponse,
+  policy?: VerdictPolicy,
+  signature?: ReportSignature | null,
+  locale?: Locale
+): Promise<Uint8Array> {
+  const metadata = await loadMetadata(sessionInfo);
+  return buildAnalysisReport(sessionInfo, {
+    policy,
+    images: serverReportImages,
+    signature,
+    metadata,
+    locale,
+    loadFonts: loadServerReportFonts,
+  });
+}
+
+/**
+ * Builds a JSON, CSV or HTML export on the server
+ */
+export async function buildServerExport(
+  format: ExportFormat,
+  sessionInfo: SessionInfoResponse,
+  policy?: VerdictPolicy,
+  signature?: ReportSignature | null,
+  locale?: Locale
+): Promise<ReportExport> {
+  // CSV has no metadata columns
+  const metadata = format === 'csv' ? null : await loadMetadata(sessionInfo);
+  return buildReportExport(format, sessionInfo, { policy, signature, metadata, locale, loadFaceImage });
+}
@@ -0,0 +1,98 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionInfoResponse } from '../types/proofly';
+import { DEFAULT_VERDICT_POLICY } from '../verdict/policy';
+import { buildAnalysisReport } from '../report/pdfReport';
+import { parseReportId } from '../report/signature';
+import { prooflyUpstream } from './upstream';
+import { ReportVerificationError, extractReportSignature, signReport, verifyReport } from './reportSigning';
+
+const KEY = 'k'.repeat(32);
+const UUID = '11111111-1111-4111-8111-111111111111';
+const ISSUED_AT = new Date('2026-01-01T00:00:00Z');
+
+const session = (ansamble = 0.97) => ({
+  uuid: UUID,
+  sha256: 'ab'.repeat(32),
+  status: 'completed',
+  faces: [{ ansamble, face_path: '/storage/faces/a_0.jpg' }],
+}) as unknown as SessionInfoResponse;
+
+const sign = (sessionInfo = session()) => signReport(sessionInfo, DEFAULT_VERDICT_POLICY, 'https://checker.test/', ISSUED_AT)!;
+
+describe('report signatures', () => {
+  let live: SessionInfoResponse;
+
+  beforeEach(() => {
+    vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', KEY);
+    live = session();
+    vi.spyOn(prooflyUpstream, 'getSessionInfo').mockImplementation(async () => live);
+  });
+
+  afterEach(() => {
+    vi.unstubAllEnvs();
+    vi.restoreAllMocks();
+  });
+
+  it('signs a report that verifies against the live session', async () => {
+    const signature = sign();
+    expect(parseReportId(signature.reportId)).toMatchObject({ uuid: UUID, policyId: 'default', issuedAt: ISSUED_AT });
+    expect(signature.verifyUrl).toBe(`https://checker.test/verify?id=${encodeURIComponent(signature.reportId)}`);
+
+    expect(await verifyReport(signature.reportId)).toMatchObject({ status: 'valid', signatureValid: true, matchesLiveData: true });
+    expect(await verifyReport(signature.reportId, signature.payload)).toMatchObject({
+      status: 'valid',
+      report: { uuid: UUID, faces: [{ index: 1, real: 0.97, verdict: 'Likely Real' }] },
+    });
+  });
+
+  it('detects tampered payloads and changed sessions', async () => {
+    const signature = sign();
+    const tampered = signature.payload.replace('"real":0.97', '"real":0.5');
+    expect(await verifyReport(signature.reportId, tampered)).toMatchObject({ status: 'invalid', signatureValid: false });
+
+    live = session(0.2);
+    expect((await verifyReport(signature.reportId)).status).toBe('invalid');
+    // The PDF still carries the signed data, so it is authentic but outdated
+    expect(await verifyReport(signature.reportId, signature.payload)).toMatchObject({ status: 'outdated', signatureValid: true, matchesLiveData: false });
+  });
+
+  it('rejects signatures made with another key', async () => {
+    const signature = sign();
+    vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', 'x'.repeat(32));
+    expect((await verifyReport(signature.reportId, signature.payload)).status).toBe('invalid');
+  });
+
+  it('does not sign or verify without a key', async () => {
+    const signature = sign();
+    vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', '');
+    expect(sign()).toBeNull();
+    await expect(verifyReport(signature.reportId)).rejects.toMatchObject({ status: 503 });
+  });
+
+  it('treats a key that is too short as not configured', async () => {
+    const signature = sign();
+    const error = vi.spyOn(console, 'error').mockImplementation(() => {});
+    vi.stubEnv('PROOFLY_REPORT_SIGNING_KEY', 'short');
+    expect(sign()).toBeNull();
+    await expect(verifyReport(signature.reportId)).rejects.toMatchObject({ status: 503 });
+    expect(error).toHaveBeenCalledTimes(1);
+  });
+
+  it('rejects malformed report IDs', async () => {
+    const signature = sign();
+    expect(parseReportId('not-a-report')).toBeNull();
+    expect(parseReportId(signature.reportId.slice(0, -1))).toBeNull();
+    expect(parseReportId(signature.reportId.replace(UUID, '../../etc'))).toBeNull();
+    await expect(verifyReport('not-a-report')).rejects.toBeInstanceOf(ReportVerificationError);
+    await expect(verifyReport(signature.reportId.replace('.default.', '.unknown-policy.'))).rejects.toMatchObject({ status: 422 });
+  });
+
+  it('reads the signature back out of a generated PDF', async () => {
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+    const signature = sign();
+    const pdf = await buildAnalysisReport(session(), { signature, generatedAt: ISSUED_AT });
+
+    expect(extractReportSignature(Buffer.from(pdf))).toEqual({ reportId: signature.reportId, payload: signature.payload });
+    expect(extractReportSignature(Buffer.from(await buildAnalysisReport(session())))).toBeNull();
+  });
+});
@@ -0,0 +1,157 @@
+// lib/server/reportSigning.ts
+import { createHmac, timingSafeEqual } from 'crypto';
+import { z } from 'zod';
+import { prooflyUpstream } from './upstream';
+import { SessionInfoResponse } from '../types/proofly';
+import { VerdictPolicy, getVerdictPolicies } from '../verdict/policy';
+import {
+  CanonicalReport,
+  REPORT_ID_MARKER,
+  REPORT_PAYLOAD_MARKER,
+  ReportSignature,
+  ReportVerificationResult,
+  buildCanonicalReport,
+  canonicalJson,
+  formatReportId,
+  parseReportId,
+} from '../report/signature';
+
+const signingKeySchema = z.string().min(32, 'PROOFLY_REPORT_SIGNING_KEY must be at least 32 characters');
+
+/**
+ * Error for report IDs or PDFs that cannot be verified at all
+ */
+export class ReportVerificationError extends Error {
+  constructor(message: string, public readonly status: number = 400) {
+    super(message);
+    this.name = 'ReportVerificationError';
+  }
+}
+
+let reportedInvalidKey = false;
+
+/**
+ * HMAC key held by the server, or null when signing is not configured.
+ * A key that is too short disables signing (logged once) instead of failing
+ * every report request.
+ */
+function getSigningKey(): string | null {
+  const value = process.env.PROOFLY_REPORT_SIGNING_KEY;
+  if (!value) return null;
+  const result = signingKeySchema.safeParse(value);
+  if (!result.success) {
+    if (!reportedInvalidKey) {
+      reportedInvalidKey = true;
+      console.error('[REPORT] Report signing disabled:', result.error.issues[0].message);
+    }
+    return null;
+  }
+  return result.data;
+}
+
+export function isReportSigningEnabled(): boolean {
+  return getSigningKey() !== null;
+}
+
+function hmac(key: string, payload: string): string {
+  return createHmac('sha256', key).update(payload).digest('base64url');
+}
+
+function safeEqual(a: string, b: string): boolean {
+  const left = Buffer.from(a);
+  const right = Buffer.from(b);
+  return left.length === right.length && timingSafeEqual(left, right);
+}
+
+/**
+ * Signs the canonical result JSON of a session.
+ * Returns null when no signing key is configured (reports stay unsigned).
+ */
+export function signReport(
+  sessionInfo: SessionInfoResponse,
+  policy: VerdictPolicy,
+  verifyBaseUrl: string,
+  issuedAt: Date = new Date()
+): ReportSignature | null {
+  const key = getSigningKey();
+  if (!key) return null;
+  const payload = canonicalJson(buildCanonicalReport(sessionInfo, policy, issuedAt));
+  const reportId = formatReportId(sessionInfo.uuid, policy.id, issuedAt, hmac(key, payload));
+  return {
+    reportId,
+    payload,
+    verifyUrl: `${verifyBaseUrl.replace(/\/+$/, '')}/verify?id=${encodeURIComponent(reportId)}`,
+  };
+}
+
+/**
+ * Report ID and signed payload embedded in a PDF's keywords, if any
+ */
+export function extractReportSignature(pdf: Buffer): { reportId: string; payload?: string } | null {
+  const text = pdf.toString('latin1');
+  const id = text.match(new RegExp(`${REPORT_ID_MARKER}([A-Za-z0-9._-]+)`));
+  if (!id) return null;
+  const payload = text.match(new RegExp(`${REPORT_PAYLOAD_MARKER}([A-Za-z0-9_-]+)`));
+  return {
+    reportId: id[1],
+    payload: payload ? Buffer.from(payload[1], 'base64url').toString('utf8') : undefined,
+  };
+}
+
+/**
+ * Checks a report ID (and the signed payload, when the PDF carried one)
+ * against the signature and the live session data.
+ */
+export async function verifyReport(reportId: string, embeddedPayload?: string): Promise<ReportVerificationResult> {
+  const key = getSigningKey();
+  if (!key) {
+    throw new ReportVerificationError('Report signing is not configured on this server', 503);
+  }
+  const parsed = parseReportId(reportId);
+  if (!parsed) {
+    throw new ReportVerificationError('Malformed report ID');
+  }
+  const policy = getVerdictPolicies().find(item => item.id === parsed.policyId);
+  if (!policy) {
+    throw new ReportVerificationError(`Unknown verdict policy: ${parsed.policyId}`, 422);
+  }
+
+  const sessionInfo = await prooflyUpstream.getSessionInfo(parsed.uuid);
+  const livePayload = canonicalJson(buildCanonicalReport(sessionInfo, policy, parsed.issuedAt));
+  const liveSignatureValid = safeEqual(hmac(key, livePayload), parsed.signature);
+
+  let signatureValid = liveSignatureValid;
+  let report: CanonicalReport | undefined;
+  if (embeddedPayload !== undefined) {
+    signatureValid = safeEqual(hmac(key, embeddedPayload), parsed.signature);
+    try {
+      report = JSON.parse(embeddedPayload) as CanonicalReport;
+    } catch {
+      signatureValid = false;
+    }
+  }
+  const matchesLiveData = embeddedPayload !== undefined
+    ? signatureValid && embeddedPayload === livePayload
+    : liveSignatureValid;
+
+  const status = !signatureValid ? 'invalid' : matchesLiveData ? 'valid' : 'outdated';
+  const messages = {
+    valid: 'The report is authentic and matches the current analysis data.',
+    outdated: 'The report is authentic, but the analysis data has changed since it was issued.',
+    invalid: embeddedPayload !== undefined
+      ? 'The signature does not match. The report was altered or is not genuine.'
+      : 'The signature does not match the current analysis data. The ID is not genuine or the analysis changed after the report was issued.',
+  };
+
+  return {
+    status,
+    reportId,
+    uuid: parsed.uuid,
+    policyId: parsed.policyId,
+    issuedAt: parsed.issuedAt.toISOString(),
+    signatureValid,
+    matchesLiveData,
+    message: messages[status],
+    report,
+  };
+}
@@ -0,0 +1,55 @@
+// lib/server/requestBody.ts
+
+// Request bodies read with a byte cap. `request.formData()` buffers the whole
+// body before anything can check its size, so multipart routes read the raw
+// stream through here: chunked bodies and missing or wrong Content-Length
+// headers hit the same cap.
+
+/**
+ * Thrown as soon as a body exceeds its cap
+ */
+export class BodyTooLargeError extends Error {
+  constructor(readonly maxBytes: number) {
+    super(`Request body is larger than ${maxBytes} bytes`);
+    this.name = 'BodyTooLargeError';
+  }
+}
+
+/**
+ * Reads a stream into memory, aborting as soon as it exceeds maxBytes
+ */
+export async function readLimited(stream: ReadableStream<Uint8Array>, maxBytes: number): Promise<Buffer> {
+  const reader = stream.getReader();
+  const chunks: Uint8Array[] = [];
+  let size = 0;
+  try {
+    while (true) {
+      const { done, value } = await reader.read();
+      if (done) break;
+      size += value.length;
+      if (size > maxBytes) {
+        await reader.cancel();
+        throw new BodyTooLargeError(maxBytes);
+      }
+      chunks.push(value);
+    }
+  } finally {
+    reader.releaseLock();
+  }
+  return Buffer.concat(chunks);
+}
+
+/**
+ * Parses a multipart body of at most maxBytes. A declared Content-Length
+ * above the cap is rejected before reading.
+ */
+export async function readFormDataLimited(request: Request, maxBytes: number): Promise<FormData> {
+  const declared = parseInt(request.headers.get('content-length') || '', 10);
+  if (declared > maxBytes) {
+    throw new BodyTooLargeError(maxBytes);
+  }
+  const body = request.body ? await readLimited(request.body, maxBytes) : Buffer.alloc(0);
+  return new Response(body, {
+    headers: { 'content-type': request.headers.get('content-type') || '' },
+  }).formData();
+}
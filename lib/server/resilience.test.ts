@@ -0,0 +1,122 @@
+import { AxiosError, AxiosResponse } from 'axios';
+import { afterAll, beforeAll, describe, expect, it, vi } from 'vitest';
+import { MockProoflyServer, startMockProofly } from '../mock/prooflyMock';
+import {
+  CircuitBreaker,
+  CircuitOpenError,
+  backoffDelay,
+  isTransientError,
+  parseRetryAfter,
+  retryDelay,
+} from './resilience';
+import { ProoflyUpstream } from './upstream';
+
+const POLICY = { retries: 3, baseDelayMs: 100, maxDelayMs: 1000 };
+
+const httpError = (status: number, headers: Record<string, string> = {}) =>
+  new AxiosError('failed', undefined, undefined, undefined, { status, headers, data: null } as AxiosResponse);
+
+describe('retry delays', () => {
+  it('backs off exponentially with jitter up to the cap', () => {
+    expect(backoffDelay(0, POLICY, () => 1)).toBe(100);
+    expect(backoffDelay(2, POLICY, () => 0.5)).toBe(200);
+    expect(backoffDelay(10, POLICY, () => 1)).toBe(1000);
+  });
+
+  it('honors Retry-After in seconds or as a date', () => {
+    expect(parseRetryAfter('2')).toBe(2000);
+    expect(parseRetryAfter('Thu, 01 Jan 2026 00:00:05 GMT', Date.parse('2026-01-01T00:00:00Z'))).toBe(5000);
+    expect(parseRetryAfter('soon')).toBeNull();
+    expect(retryDelay(httpError(503, { 'retry-after': '1' }), 0, POLICY)).toBe(1000);
+    // Longer pauses than the policy allows end the retries
+    expect(retryDelay(httpError(429, { 'retry-after': '60' }), 0, POLICY)).toBeNull();
+  });
+
+  it('retries only transient failures', () => {
+    expect(isTransientError(httpError(502))).toBe(true);
+    expect(isTransientError(new AxiosError('timeout', 'ECONNABORTED'))).toBe(true);
+    expect(isTransientError(httpError(404))).toBe(false);
+    expect(isTransientError(new AxiosError('canceled', 'ERR_CANCELED'))).toBe(false);
+    expect(isTransientError(new Error('bug'))).toBe(false);
+  });
+});
+
+describe('CircuitBreaker', () => {
+  it('opens after repeated failures and lets one probe through after the reset time', () => {
+    let now = 0;
+    const breaker = new CircuitBreaker({ failureThreshold: 2, resetMs: 1000 }, () => now);
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+
+    breaker.recordFailure();
+    expect(() => breaker.acquire()).not.toThrow();
+    breaker.recordFailure();
+    expect(breaker.snapshot()).toMatchObject({ state: 'open', failures: 2, retryInMs: 1000 });
+    now = 400;
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+
+    now = 1000;
+    breaker.acquire();
+    // Only one probe while half-open
+    expect(() => breaker.acquire()).toThrow(CircuitOpenError);
+    breaker.recordFailure();
+    expect(breaker.state).toBe('open');
+
+    now = 2000;
+    breaker.acquire();
+    breaker.recordSuccess();
+    expect(breaker.snapshot()).toEqual({ state: 'closed', failures: 0, openedAt: null, retryInMs: null });
+    vi.restoreAllMocks();
+  });
+});
+
+describe('ProoflyUpstream resilience', () => {
+  let mock: MockProoflyServer;
+  const PNG = Buffer.from([0x89, 0x50, 0x4e, 0x47, 0x0d, 0x0a, 0x1a, 0x0a, 1, 2, 3, 4]);
+  const createUpstream = (retries: number, circuitFailureThreshold: number) => new ProoflyUpstream({
+    baseUrl: mock.baseUrl,
+    timeoutMs: 5000,
+    uploadTimeoutMs: 5000,
+    apiKeyHeader: 'Authorization',
+    userAgent: 'proofly-checker-test',
+    retries,
+    retryBaseDelayMs: 1,
+    retryMaxDelayMs: 5,
+    circuitFailureThreshold,
+    circuitResetMs: 60000,
+  });
+
+  beforeAll(async () => {
+    mock = await startMockProofly({ clock: () => 0 });
+    vi.spyOn(console, 'warn').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterAll(async () => {
+    vi.restoreAllMocks();
+    await mock.close();
+  });
+
+  it('retries GETs through 5xx bursts', async () => {
+    const upstream = createUpstream(2, 10);
+    const { uuid } = await upstream.uploadImage(PNG, { filename: 'photo.mock-flaky.png' });
+    await expect(upstream.getSessionStatus(uuid)).resolves.toEqual({ status: 'uploading' });
+    expect(mock.sessions.get(uuid)?.requests).toBe(3);
+    expect(upstream.getCircuitStatus().state).toBe('closed');
+  });
+
+  it('opens the circuit and fails fast', async () => {
+    const upstream = createUpstream(0, 2);
+    const { uuid } = await upstream.uploadImage(PNG, { filename: 'photo.mock-flaky.png' });
+    await expect(upstream.getSessionStatus(uuid)).rejects.toMatchObject({ response: { status: 503 } });
+    await expect(upstream.getSessionStatus(uuid)).rejects.toMatchObject({ response: { status: 503 } });
+    await expect(upstream.getSessionStatus(uuid)).rejects.toBeInstanceOf(CircuitOpenError);
+    expect(mock.sessions.get(uuid)?.requests).toBe(2);
+    expect(upstream.getCircuitStatus()).toMatchObject({ state: 'open', failures: 2 });
+  });
+
+  it('does not count answers like 404 as failures', async () => {
+    const upstream = createUpstream(3, 1);
+    await expect(upstream.getSessionInfo('11111111-1111-4111-8111-111111111111')).rejects.toMatchObject({ response: { status: 404 } });
+    expect(upstream.getCircuitStatus()).toMatchObject({ state: 'closed', failures: 0 });
+  });
+});
@@ -0,0 +1,159 @@
+// lib/server/resilience.ts
+import axios from 'axios';
+
+// Retries and circuit breaking for upstream requests (used by lib/server/upstream.ts)
+
+export interface RetryPolicy {
+  // Retries after the first attempt
+  retries: number;
+  baseDelayMs: number;
+  // Longest wait between attempts; a longer Retry-After ends the retries
+  maxDelayMs: number;
+}
+
+export interface CircuitBreakerOptions {
+  // Consecutive failed requests that open the circuit
+  failureThreshold: number;
+  // How long the circuit stays open before one probe request is let through
+  resetMs: number;
+}
+
+export type CircuitState = 'closed' | 'open' | 'half-open';
+
+// Circuit state as reported by /api/proofly/status
+export interface CircuitSnapshot {
+  state: CircuitState;
+  failures: number;
+  openedAt: string | null;
+  retryInMs: number | null;
+}
+
+// Upstream statuses that usually go away on their own
+const TRANSIENT_STATUSES = [408, 429, 500, 502, 503, 504];
+
+/**
+ * Thrown instead of calling the upstream while the circuit is open
+ */
+export class CircuitOpenError extends Error {
+  readonly code = 'UPSTREAM_CIRCUIT_OPEN';
+
+  constructor(readonly retryInMs: number) {
+    super(`Proofly API is unavailable, requests are paused for ${Math.ceil(retryInMs / 1000)}s`);
+    this.name = 'CircuitOpenError';
+  }
+
+  toJSON() {
+    return {
+      error: 'Proofly API is temporarily unavailable',
+      code: this.code,
+      retryInMs: this.retryInMs,
+    };
+  }
+
+  // Value of the Retry-After header (seconds)
+  get retryAfterSeconds(): string {
+    return String(Math.max(1, Math.ceil(this.retryInMs / 1000)));
+  }
+}
+
+/**
+ * Network errors, timeouts and transient HTTP statuses
+ */
+export function isTransientError(error: unknown): boolean {
+  if (!axios.isAxiosError(error) || error.code === 'ERR_CANCELED') return false;
+  if (!error.response) return true;
+  return TRANSIENT_STATUSES.includes(error.response.status);
+}
+
+/**
+ * Milliseconds to wait from a Retry-After header (seconds or HTTP date)
+ */
+export function parseRetryAfter(value: unknown, now: number = Date.now()): number | null {
+  if (typeof value !== 'string' || !value.trim()) return null;
+  if (/^\d+$/.test(value.trim())) return Number(value.trim()) * 1000;
+  const date = Date.parse(value);
+  return Number.isNaN(date) ? null : Math.max(0, date - now);
+}
+
+/**
+ * Exponential backoff with full jitter for the given retry (0-based)
+ */
+export function backoffDelay(retry: number, policy: RetryPolicy, random: () => number = Math.random): number {
+  const ceiling = Math.min(policy.maxDelayMs, policy.baseDelayMs * 2 ** retry);
+  return Math.round(random() * ceiling);
+}
+
+/**
+ * Wait before retrying a failed request, or null when the upstream asked for
+ * a longer pause than the policy allows
+ */
+export function retryDelay(error: unknown, retry: number, policy: RetryPolicy, random?: () => number): number | null {
+  const retryAfter = axios.isAxiosError(error) ? parseRetryAfter(error.response?.headers?.['retry-after']) : null;
+  if (retryAfter === null) return backoffDelay(retry, policy, random);
+  return retryAfter <= policy.maxDelayMs ? retryAfter : null;
+}
+
+/**
+ * Stops calling the upstream after repeated failures. While open, requests
+ * fail fast with CircuitOpenError; after `resetMs` one probe request decides
+ * whether the circuit closes again.
+ */
+export class CircuitBreaker {
+  private failures = 0;
+  private openedAt: number | null = null;
+  private probing = false;
+
+  constructor(
+    private readonly options: CircuitBreakerOptions,
+    private readonly clock: () => number = Date.now
+  ) {}
+
+  get state(): CircuitState {
+    if (this.openedAt === null) return 'closed';
+    return this.clock() - this.openedAt >= this.options.resetMs ? 'half-open' : 'open';
+  }
+
+  /**
+   * Throws CircuitOpenError unless a request may go out now
+   */
+  acquire(): void {
+    if (this.openedAt === null) return;
+    const state = this.state;
+    if (state === 'half-open' && !this.probing) {
+      this.probing = true;
+      return;
+    }
+    throw new CircuitOpenError(state === 'open' ? this.retryInMs() : this.options.resetMs);
+  }
+
+  // The upstream answered (any non-transient response counts)
+  recordSuccess(): void {
+    this.failures = 0;
+    this.openedAt = null;
+    this.probing = false;
+  }
+
+  recordFailure(): void {
+    this.failures++;
+    if (this.probing || this.failures >= this.options.failureThreshold) {
+      if (this.openedAt === null || this.probing) {
+        console.error(`[CIRCUIT] Opening after ${this.failures} failed upstream requests`);
+      }
+      this.openedAt = this.clock();
+      this.probing = false;
+    }
+  }
+
+  snapshot(): CircuitSnapshot {
+    return {
+      state: this.state,
+      failures: this.failures,
+      openedAt: this.openedAt === null ? null : new Date(this.openedAt).toISOString(),
+      retryInMs: this.openedAt === null ? null : this.retryInMs(),
+    };
+  }
+
+  private retryInMs(): number {
+    return Math.max(0, (this.openedAt as number) + this.options.resetMs - this.clock());
+  }
+}
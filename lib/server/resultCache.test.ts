@@ -0,0 +1,103 @@
+import { mkdtemp, readdir, rm, writeFile } from 'fs/promises';
+import os from 'os';
+import path from 'path';
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest';
+import { SessionInfoResponse } from '../types/proofly';
+import {
+  DEFAULT_RESULT_CACHE_DIR,
+  ResultCacheConfig,
+  getDefaultResultCacheConfig,
+  getResultCacheConfig,
+  lookupCachedResult,
+  rememberUpload,
+  sha256Hex,
+  storeCachedResult,
+} from './resultCache';
+
+const DAY = 24 * 60 * 60 * 1000;
+const env = (values: Record<string, string>) => values as NodeJS.ProcessEnv;
+const IMAGE = Buffer.from('image bytes');
+const HASH = sha256Hex(IMAGE);
+
+const session = (uuid: string, status = 'completed', sha256?: string) => ({
+  uuid,
+  status,
+  sha256,
+  processed_at: '2026-01-01T00:00:00Z',
+  faces: [{ ansamble: 0.9 }],
+}) as unknown as SessionInfoResponse;
+
+describe('result cache', () => {
+  let config: ResultCacheConfig;
+
+  beforeEach(async () => {
+    config = { dir: await mkdtemp(path.join(os.tmpdir(), 'proofly-cache-')), ttlMs: DAY };
+    vi.spyOn(console, 'log').mockImplementation(() => {});
+    vi.spyOn(console, 'error').mockImplementation(() => {});
+  });
+
+  afterEach(async () => {
+    vi.restoreAllMocks();
+    await rm(config.dir, { recursive: true, force: true });
+  });
+
+  it('reads its settings from the environment', () => {
+    expect(getResultCacheConfig(env({}))).toEqual({ dir: DEFAULT_RESULT_CACHE_DIR, ttlMs: 7 * DAY });
+    expect(getResultCacheConfig(env({ PROOFLY_RESULT_CACHE_DIR: '/tmp/x', PROOFLY_RESULT_CACHE_TTL_MS: '0' }))).toEqual({ dir: '/tmp/x', ttlMs: 0 });
+    expect(() => getResultCacheConfig(env({ PROOFLY_RESULT_CACHE_TTL_MS: '-1' }))).toThrow(/result cache/);
+  });
+
+  it('disables itself on an invalid environment instead of throwing', async () => {
+    vi.stubEnv('PROOFLY_RESULT_CACHE_TTL_MS', '-1');
+    expect(getDefaultResultCacheConfig()).toEqual({ dir: DEFAULT_RESULT_CACHE_DIR, ttlMs: 0 });
+    await expect(storeCachedResult(session('x', 'completed', HASH))).resolves.toBeUndefined();
+    expect(await lookupCachedResult(HASH)).toBeNull();
+    vi.unstubAllEnvs();
+  });
+
+  it('stores finished sessions under the hash of their upload', async () => {
+    rememberUpload('a', HASH);
+    await storeCachedResult(session('a'), config, 0);
+
+    const entry = await lookupCachedResult(HASH, config, DAY - 1);
+    expect(entry).toMatchObject({ sha256: HASH, uuid: 'a', analyzedAt: '2026-01-01T00:00:00Z', session: { uuid: 'a' } });
+    // Expired entries are removed
+    expect(await lookupCachedResult(HASH, config, DAY + 1)).toBeNull();
+    expect(await readdir(config.dir)).toEqual([]);
+  });
+
+  it('falls back to the hash reported by Proofly', async () => {
+    await storeCachedResult(session('b', 'no faces found', HASH.toUpperCase()), config, 0);
+    expect((await lookupCachedResult(HASH, config, 0))?.uuid).toBe('b');
+  });
+
+  it('lets only uploads through this server replace an entry', async () => {
+    rememberUpload('new', HASH);
+    await storeCachedResult(session('new'), config, 0);
+    // Reopening an older session of the same image keeps the newer entry
+    await storeCachedResult(session('old', 'completed', HASH), config, 0);
+    expect((await lookupCachedResult(HASH, config, 0))?.uuid).toBe('new');
+
+    rememberUpload('forced', HASH);
+    await storeCachedResult(session('forced'), config, 0);
+    expect((await lookupCachedResult(HASH, config, 0))?.uuid).toBe('forced');
+  });
+
+  it('skips failed sessions, unknown hashes and a disabled cache', async () => {
+    rememberUpload('c', HASH);
+    await storeCachedResult(session('c', 'failed'), config, 0);
+    await storeCachedResult(session('d'), config, 0);
+    rememberUpload('e', HASH);
+    await storeCachedResult(session('e'), { ...config, ttlMs: 0 }, 0);
+    expect(await readdir(config.dir)).toEqual([]);
+
+    await storeCachedResult(session('f', 'completed', HASH), config, 0);
+    expect(await lookupCachedResult(HASH, { ...config, ttlMs: 0 }, 0)).toBeNull();
+    expect(await lookupCachedResult('../../etc/passwd', config, 0)).toBeNull();
+  });
+
+  it('treats unreadable entries as a miss', async () => {
+    await writeFile(path.join(config.dir, `${HASH}.json`), '{"uuid":');
+    expect(await lookupCachedResult(HASH, config, 0)).toBeNull();
+  });
+});
@@ -0,0 +1,168 @@
+// lib/server/resultCache.ts
+import { createHash, randomUUID } from 'crypto';
+import { promises as fs } from 'fs';
+import path from 'path';
+import { z } from 'zod';
+import { sessionInfoResponseSchema } from '../schemas/proofly';
+import { COMPLETED_SESSION_STATUSES, CachedAnalysis, SessionInfoResponse } from '../types/proofly';
+
+// Completed analyses by image SHA256, so re-uploading the same image returns
+// the earlier session instead of creating a new one. One JSON file per hash
+// in PROOFLY_RESULT_CACHE_DIR; entries expire after PROOFLY_RESULT_CACHE_TTL_MS
+// (0 disables the cache).
+
+export const DEFAULT_RESULT_CACHE_DIR = '.proofly-cache/results';
+export const DEFAULT_RESULT_CACHE_TTL_MS = 7 * 24 * 60 * 60 * 1000;
+
+// Upload hashes of sessions that have not finished yet (uuid -> sha256)
+const MAX_PENDING_UPLOADS = 1000;
+
+const cachedResultSchema = z.object({
+  sha256: z.string(),
+  uuid: z.string(),
+  analyzedAt: z.string(),
+  cachedAt: z.string(),
+  session: sessionInfoResponseSchema,
+});
+
+export type CachedResult = z.infer<typeof cachedResultSchema>;
+
+export interface ResultCacheConfig {
+  dir: string;
+  ttlMs: number;
+}
+
+const cacheConfigSchema = z.object({
+  dir: z.string().min(1),
+  ttlMs: z.coerce.number().int().min(0),
+});
+
+/**
+ * Cache location and lifetime from the environment
+ */
+export function getResultCacheConfig(env: NodeJS.ProcessEnv = process.env): ResultCacheConfig {
+  const result = cacheConfigSchema.safeParse({
+    dir: env.PROOFLY_RESULT_CACHE_DIR || DEFAULT_RESULT_CACHE_DIR,
+    ttlMs: env.PROOFLY_RESULT_CACHE_TTL_MS || DEFAULT_RESULT_CACHE_TTL_MS,
+  });
+  if (!result.success) {
+    throw new Error(`Invalid result cache configuration: ${result.error.issues[0]?.message}`);
+  }
+  return result.data;
+}
+
+let defaultConfig: ResultCacheConfig | null = null;
+
+/**
+ * Configuration from process.env, resolved once. An invalid configuration
+ * disables the cache instead of failing uploads or sessions.
+ */
+export function getDefaultResultCacheConfig(): ResultCacheConfig {
+  if (!defaultConfig) {
+    try {
+      defaultConfig = getResultCacheConfig();
+    } catch (error) {
+      console.error('[CACHE] Result cache disabled:', error);
+      defaultConfig = { dir: DEFAULT_RESULT_CACHE_DIR, ttlMs: 0 };
+    }
+  }
+  return defaultConfig;
+}
+
+export const sha256Hex = (data: Uint8Array): string => createHash('sha256').update(data).digest('hex');
+
+const pendingUploads = new Map<string, string>();
+
+const entryPath = (config: ResultCacheConfig, sha256: string) => path.join(config.dir, `${sha256}.json`);
+
+const isSha256 = (value: string) => /^[0-9a-f]{64}$/.test(value);
+
+/**
+ * Completed analysis of an image, or null on a miss, an expired entry or a
+ * disabled cache. Read errors count as a miss.
+ */
+export async function lookupCachedResult(
+  sha256: string,
+  config: ResultCacheConfig = getDefaultResultCacheConfig(),
+  now: number = Date.now()
+): Promise<CachedResult | null> {
+  if (config.ttlMs === 0 || !isSha256(sha256)) return null;
+  try {
+    const entry = cachedResultSchema.parse(JSON.parse(await fs.readFile(entryPath(config, sha256), 'utf8')));
+    if (now - Date.parse(entry.cachedAt) > config.ttlMs) {
+      await fs.rm(entryPath(config, sha256), { force: true });
+      return null;
+    }
+    return entry;
+  } catch (error) {
+    if ((error as NodeJS.ErrnoException).code !== 'ENOENT') {
+      console.error(`[CACHE] Ignoring unreadable entry for ${sha256}:`, error);
+    }
+    return null;
+  }
+}
+
+/**
+ * Remembers the hash of an uploaded image until its session finishes
+ */
+export function rememberUpload(uuid: string, sha256: string): void {
+  if (pendingUploads.size >= MAX_PENDING_UPLOADS) {
+    pendingUploads.delete(pendingUploads.keys().next().value as string);
+  }
+  pendingUploads.set(uuid, sha256);
+}
+
+/**
+ * Whether an upload through this server is waiting for its result
+ */
+export const isAwaitingResult = (uuid: string): boolean => pendingUploads.has(uuid);
+
+/**
+ * Stores a finished session under the hash of its upload (or the hash
+ * reported by Proofly). Failed sessions are not cached. Sessions that were
+ * not uploaded through this server only fill empty entries, so reopening an
+ * old result does not replace a newer analysis. Never throws: a failed write
+ * only costs a later cache miss.
+ */
+export async function storeCachedResult(
+  session: SessionInfoResponse,
+  config: ResultCacheConfig = getDefaultResultCacheConfig(),
+  now: number = Date.now()
+): Promise<void> {
+  if (!COMPLETED_SESSION_STATUSES.includes(session.status)) {
+    if (session.status === 'failed') pendingUploads.delete(session.uuid);
+    return;
+  }
+  const uploaded = pendingUploads.get(session.uuid);
+  pendingUploads.delete(session.uuid);
+  const sha256 = uploaded || session.sha256?.toLowerCase();
+  if (config.ttlMs === 0 || !sha256 || !isSha256(sha256)) return;
+  if (!uploaded && await lookupCachedResult(sha256, config, now)) return;
+
+  const entry: CachedResult = {
+    sha256,
+    uuid: session.uuid,
+    analyzedAt: session.processed_at || new Date(now).toISOString(),
+    cachedAt: new Date(now).toISOString(),
+    session,
+  };
+  try {
+    await fs.mkdir(config.dir, { recursive: true });
+    // Write and rename so readers never see a partial file
+    const target = entryPath(config, sha256);
+    const temporary = `${target}.${randomUUID()}.tmp`;
+    await fs.writeFile(temporary, JSON.stringify(entry));
+    await fs.rename(temporary, target);
+    console.log(`[CACHE] Stored session ${session.uuid} for image ${sha256}`);
+  } catch (error) {
+    console.error(`[CACHE] Failed to store session ${session.uuid}:`, error);
+  }
+}
+
+/**
+ * Body field of an upload answered from the cache
+ */
+export const toCachedAnalysis = (entry: CachedResult): CachedAnalysis => ({
+  analyzedAt: entry.analyzedAt,
+  session: entry.session,
+});
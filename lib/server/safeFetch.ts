@@ -0,0 +1,312 @@
+// lib/server/safeFetch.ts
+import { promises as dns, LookupAddress } from 'dns';
+import http from 'http';
+import https from 'https';
+import { BlockList, isIP } from 'net';
+
+// Fetches user-supplied URLs without letting them reach internal services:
+// every resolved address is checked, the connection is pinned to the checked
+// address (no second DNS lookup), and every redirect hop is validated again.
+
+export const MAX_URL_LENGTH = 512;
+const DEFAULT_MAX_REDIRECTS = 5;
+const DEFAULT_TIMEOUT_MS = 20000;
+const DEFAULT_MAX_BYTES = 20 * 1024 * 1024;
+
+const BLOCKED_IPV4: [string, number][] = [
+  ['0.0.0.0', 8], // "this" network
+  ['10.0.0.0', 8], // private
+  ['100.64.0.0', 10], // carrier-grade NAT
+  ['127.0.0.0', 8], // loopback
+  ['169.254.0.0', 16], // link-local, cloud metadata
+  ['172.16.0.0', 12], // private
+  ['192.0.0.0', 24], // IETF protocol assignments
+  ['192.0.2.0', 24], // TEST-NET-1
+  ['192.88.99.0', 24], // 6to4 relay anycast
+  ['192.168.0.0', 16], // private
+  ['198.18.0.0', 15], // benchmarking
+  ['198.51.100.0', 24], // TEST-NET-2
+  ['203.0.113.0', 24], // TEST-NET-3
+  ['224.0.0.0', 4], // multicast
+  ['240.0.0.0', 4], // reserved, broadcast
+];
+
+const BLOCKED_IPV6: [string, number][] = [
+  ['::', 96], // unspecified, loopback, IPv4-compatible
+  ['64:ff9b:1::', 48], // local-use IPv4/IPv6 translation
+  ['100::', 64], // discard-only
+  ['2001::', 23], // IETF protocol assignments (Teredo, ORCHID...)
+  ['2001:db8::', 32], // documentation
+  ['2002::', 16], // 6to4 (tunnels to arbitrary IPv4)
+  ['fc00::', 7], // unique local
+  ['fe80::', 10], // link-local
+  ['fec0::', 10], // site-local (deprecated)
+  ['ff00::', 8], // multicast
+];
+
+const blockList = new BlockList();
+BLOCKED_IPV4.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv4'));
+BLOCKED_IPV6.forEach(([network, prefix]) => blockList.addSubnet(network, prefix, 'ipv6'));
+
+export type SafeFetchErrorCode =
+  | 'INVALID_URL'
+  | 'URL_TOO_LONG'
+  | 'UNSUPPORTED_PROTOCOL'
+  | 'DNS_FAILURE'
+  | 'BLOCKED_ADDRESS'
+  | 'TOO_MANY_REDIRECTS'
+  | 'RESPONSE_TOO_LARGE'
+  | 'HTTP_ERROR'
+  | 'TIMEOUT'
+  | 'NETWORK_ERROR';
+
+/**
+ * Rejected or failed fetch of a user-supplied URL
+ */
+export class SafeFetchError extends Error {
+  constructor(
+    public readonly code: SafeFetchErrorCode,
+    message: string,
+    public readonly httpStatus?: number
+  ) {
+    super(message);
+    this.name = 'SafeFetchError';
+  }
+}
+
+export type HostResolver = (hostname: string) => Promise<LookupAddress[]>;
+
+export type DownloadProgressListener = (received: number, total: number | null) => void;
+
+export interface SafeFetchOptions {
+  // Limit for the whole fetch (all redirect hops), also used as the socket idle timeout
+  timeoutMs?: number;
+  maxRedirects?: number;
+  maxBytes?: number;
+  headers?: Record<string, string>;
+  // Called for every received chunk of the final response (total from Content-Length, if any)
+  onProgress?: DownloadProgressListener;
+  // Overridable for tests
+  resolveHost?: HostResolver;
+  isBlocked?: (address: string) => boolean;
+}
+
+export interface SafeFetchResponse {
+  data: Buffer;
+  contentType: string;
+  status: number;
+  // URL after redirects
+  url: string;
+  // Address the final request was sent to
+  address: string;
+}
+
+/**
+ * IPv4 address embedded in an IPv4-mapped (::ffff:a.b.c.d) or NAT64
+ * (64:ff9b::a.b.c.d) IPv6 address
+ */
+function embeddedIPv4(address: string): string | null {
+  const match = address.toLowerCase().match(/^(?:::ffff:|64:ff9b::)(?:(\d+\.\d+\.\d+\.\d+)|([0-9a-f]{1,4}):([0-9a-f]{1,4}))$/);
+  if (!match) return null;
+  if (match[1]) return match[1];
+  const high = parseInt(match[2], 16);
+  const low = parseInt(match[3], 16);
+  return [high >> 8, high & 255, low >> 8, low & 255].join('.');
+}
+
+/**
+ * True for loopback, private, link-local, reserved and other non-public addresses.
+ * Anything that is not a valid IP literal counts as blocked.
+ */
+export function isBlockedAddress(address: string): boolean {
+  const value = address.replace(/^\[|\]$/g, '').split('%')[0];
+  const family = isIP(value);
+  if (family === 4) {
+    return blockList.check(value, 'ipv4');
+  }
+  if (family === 6) {
+    const ipv4 = embeddedIPv4(value);
+    if (ipv4) return isBlockedAddress(ipv4);
+    return blockList.check(value, 'ipv6');
+  }
+  return true;
+}
+
+/**
+ * Parses and checks a URL without touching the network
+ */
+export function parseFetchUrl(rawUrl: string): URL {
+  // Length first: never resolve hosts of oversized URLs
+  if (rawUrl.length > MAX_URL_LENGTH) {
+    throw new SafeFetchError('URL_TOO_LONG', `URL is longer than ${MAX_URL_LENGTH} characters`);
+  }
+  let url: URL;
+  try {
+    url = new URL(rawUrl);
+  } catch {
+    throw new SafeFetchError('INVALID_URL', 'URL is not valid');
+  }
+  if (url.protocol !== 'http:' && url.protocol !== 'https:') {
+    throw new SafeFetchError('UNSUPPORTED_PROTOCOL', 'Only http/https URLs are allowed');
+  }
+  if (url.username || url.password) {
+    throw new SafeFetchError('INVALID_URL', 'URLs with credentials are not allowed');
+  }
+  return url;
+}
+
+const defaultResolveHost: HostResolver = (hostname) => dns.lookup(hostname, { all: true, verbatim: true });
+
+/**
+ * Resolves the URL host and returns the address to connect to.
+ * Fails if any of the resolved addresses is blocked (a host must not mix
+ * public and internal answers).
+ */
+export async function resolveSafeAddress(
+  url: URL,
+  resolveHost: HostResolver = defaultResolveHost,
+  isBlocked: (address: string) => boolean = isBlockedAddress
+): Promise<LookupAddress> {
+  const hostname = url.hostname.replace(/^\[|\]$/g, '');
+  let addresses: LookupAddress[];
+  if (isIP(hostname)) {
+    addresses = [{ address: hostname, family: isIP(hostname) }];
+  } else {
+    try {
+      addresses = await resolveHost(hostname);
+    } catch {
+      throw new SafeFetchError('DNS_FAILURE', `Could not resolve ${hostname}`);
+    }
+  }
+  if (addresses.length === 0) {
+    throw new SafeFetchError('DNS_FAILURE', `Could not resolve ${hostname}`);
+  }
+  const blocked = addresses.find(({ address }) => isBlocked(address));
+  if (blocked) {
+    console.error(`[SECURITY] ${hostname} resolves to blocked address ${blocked.address}`);
+    throw new SafeFetchError('BLOCKED_ADDRESS', 'URL resolves to a private or reserved address');
+  }
+  return addresses[0];
+}
+
+interface HopResult {
+  status: number;
+  headers: http.IncomingHttpHeaders;
+  data?: Buffer;
+}
+
+/**
+ * One request to the pinned address; redirects are returned, not followed
+ */
+function requestOnce(
+  url: URL,
+  target: LookupAddress,
+  options: Required<Pick<SafeFetchOptions, 'timeoutMs' | 'maxBytes'>> & Pick<SafeFetchOptions, 'headers' | 'onProgress'>,
+  deadline: number
+): Promise<HopResult> {
+  const client = url.protocol === 'https:' ? https : http;
+  let timer: NodeJS.Timeout | undefined;
+  return new Promise<HopResult>((resolve, reject) => {
+    const request = client.get(url, {
+      headers: options.headers,
+      timeout: options.timeoutMs,
+      // Pin the connection to the validated address; TLS still verifies the hostname
+      lookup: (_hostname, lookupOptions, callback) => {
+        if ((lookupOptions as { all?: boolean }).all) {
+          (callback as unknown as (err: null, addresses: LookupAddress[]) => void)(null, [target]);
+        } else {
+          callback(null, target.address, target.family);
+        }
+      },
+    }, (response) => {
+      const status = response.statusCode || 0;
+      if (status >= 300 && status < 400 && response.headers.location) {
+        response.resume();
+        resolve({ status, headers: response.headers });
+        return;
+      }
+      const declared = parseInt(response.headers['content-length'] || '', 10);
+      if (declared > options.maxBytes) {
+        response.destroy();
+        reject(new SafeFetchError('RESPONSE_TOO_LARGE', 'Response is too large'));
+        return;
+      }
+      const chunks: Buffer[] = [];
+      let size = 0;
+      response.on('data', (chunk: Buffer) => {
+        size += chunk.length;
+        if (size > options.maxBytes) {
+          response.destroy();
+          reject(new SafeFetchError('RESPONSE_TOO_LARGE', 'Response is too large'));
+          return;
+        }
+        chunks.push(chunk);
+        options.onProgress?.(size, declared > 0 ? declared : null);
+      });
+      response.on('end', () => resolve({ status, headers: response.headers, data: Buffer.concat(chunks) }));
+      response.on('error', (error) => reject(new SafeFetchError('NETWORK_ERROR', error.message)));
+    });
+    request.on('timeout', () => {
+      request.destroy(new SafeFetchError('TIMEOUT', 'Request timed out'));
+    });
+    request.on('error', (error) => {
+      reject(error instanceof SafeFetchError ? error : new SafeFetchError('NETWORK_ERROR', error.message));
+    });
+    // The idle timeout above never fires for a server that trickles bytes
+    timer = setTimeout(() => {
+      reject(new SafeFetchError('TIMEOUT', 'Request timed out'));
+      request.destroy();
+    }, Math.max(0, deadline - Date.now()));
+  }).finally(() => clearTimeout(timer));
+}
+
+/**
+ * GETs a user-supplied URL with SSRF protection and returns the body
+ */
+export async function safeFetch(rawUrl: string, options: SafeFetchOptions = {}): Promise<SafeFetchResponse> {
+  const {
+    timeoutMs = DEFAULT_TIMEOUT_MS,
+    maxRedirects = DEFAULT_MAX_REDIRECTS,
+    maxBytes = DEFAULT_MAX_BYTES,
+    headers,
+    onProgress,
+    resolveHost = defaultResolveHost,
+    isBlocked = isBlockedAddress,
+  } = options;
+
+  const deadline = Date.now() + timeoutMs;
+  let url = parseFetchUrl(rawUrl);
+  for (let hop = 0; hop <= maxRedirects; hop++) {
+    const target = await resolveSafeAddress(url, resolveHost, isBlocked);
+    if (Date.now() >= deadline) {
+      throw new SafeFetchError('TIMEOUT', 'Request timed out');
+    }
+    const result = await requestOnce(url, target, { timeoutMs, maxBytes, headers, onProgress }, deadline);
+
+    if (!result.data) {
+      // Redirect: the next hop goes through the same checks
+      const location = result.headers.location as string;
+      let next: string;
+      try {
+        next = new URL(location, url).toString();
+      } catch {
+        throw new SafeFetchError('INVALID_URL', 'Redirect location is not valid');
+      }
+      console.log(`[SAFE FETCH] Redirect ${result.status} to ${next.substring(0, 100)}`);
+      url = parseFetchUrl(next);
+      continue;
+    }
+
+    if (result.status < 200 || result.status >= 300) {
+      throw new SafeFetchError('HTTP_ERROR', `Remote server answered ${result.status}`, result.status);
+    }
+    return {
+      data: result.data,
+      contentType: String(result.headers['content-type'] || ''),
+      status: result.status,
+      url: url.toString(),
+      address: target.address,
+    };
+  }
+  throw new SafeFetchError('TOO_MANY_REDIRECTS', `More than ${maxRedirects} redirects`);
+}
@@ -0,0 +1,222 @@
+// lib/server/sessionPoller.ts
+import axios from 'axios';
+import { loggableError, prooflyUpstream } from './upstream';
+import { CircuitOpenError, isTransientError } from './resilience';
+import { storeCachedResult } from './resultCache';
+import { UpstreamContractError } from '../schemas/proofly';
+import {
+  PENDING_SESSION_STATUSES,
+  SessionEvent,
+  SessionInfoResponse,
+  SessionStatus,
+} from '../types/proofly';
+
+export type SessionEventListener = (event: SessionEvent) => void;
+
+// Polling schedule: start fast, back off while the session is still processing
+const INITIAL_DELAY_MS = 1000;
+const MAX_DELAY_MS = 8000;
+const BACKOFF_FACTOR = 1.5;
+// Give up after this long (matches the old 60 x 2s client loop with some headroom)
+const MAX_DURATION_MS = 180000;
+// Consecutive upstream errors tolerated before reporting failure
+const MAX_CONSECUTIVE_ERRORS = 5;
+
+const sleep = (ms: number) => new Promise(resolve => setTimeout(resolve, ms));
+
+/**
+ * Polls upstream status for one session and fans events out to all subscribers.
+ * Stops as soon as the session reaches a final state or nobody is listening.
+ */
+class SessionPoller {
+  private listeners = new Set<SessionEventListener>();
+  private lastStatus: SessionStatus | null = null;
+  // Set while the upstream is failing and requests are being retried
+  private degraded: SessionEvent | null = null;
+  private stopped = false;
+
+  constructor(
+    private readonly uuid: string,
+    private readonly onStop: () => void
+  ) {}
+
+  subscribe(listener: SessionEventListener): () => void {
+    this.listeners.add(listener);
+    // Late subscribers immediately get the current status
+    if (this.lastStatus) {
+      listener({ type: 'status', status: this.lastStatus });
+    }
+    if (this.degraded) {
+      listener(this.degraded);
+    }
+    return () => {
+      this.listeners.delete(listener);
+      if (this.listeners.size === 0) {
+        this.stop();
+      }
+    };
+  }
+
+  start(): void {
+    this.run().catch(error => {
+      console.error(`[POLLER] Unexpected error for session ${this.uuid}:`, loggableError(error));
+      this.finish({ type: 'failed', message: 'Unexpected error while tracking session' });
+    });
+  }
+
+  private stop(): void {
+    if (this.stopped) return;
+    this.stopped = true;
+    this.onStop();
+  }
+
+  private emit(event: SessionEvent): void {
+    for (const listener of Array.from(this.listeners)) {
+      try {
+        listener(event);
+      } catch (error) {
+        console.error('[POLLER] Listener error:', error);
+      }
+    }
+  }
+
+  /**
+   * Tells subscribers that the upstream is failing and tracking continues
+   */
+  private degrade(message: string, retryInMs?: number): void {
+    const wasDegraded = this.degraded !== null;
+    this.degraded = { type: 'degraded', message, retryInMs };
+    if (!wasDegraded) {
+      this.emit(this.degraded);
+    }
+  }
+
+  private finish(event: SessionEvent): void {
+    this.emit(event);
+    this.stop();
+  }
+
+  private async run(): Promise<void> {
+    const startedAt = Date.now();
+    let delay = INITIAL_DELAY_MS;
+    let consecutiveErrors = 0;
+    // Failed session info requests once the session has finished
+    let sessionInfoErrors = 0;
+
+    while (!this.stopped) {
+      if (Date.now() - startedAt > MAX_DURATION_MS) {
+        this.finish({ type: 'failed', status: this.lastStatus || undefined, message: 'Processing timeout exceeded' });
+        return;
+      }
+
+      let status: SessionStatus;
+      try {
+        const statusResponse = await prooflyUpstream.getSessionStatus(this.uuid);
+        status = statusResponse.status;
+        consecutiveErrors = 0;
+      } catch (error) {
+        if (error instanceof UpstreamContractError) {
+          this.finish({ type: 'failed', message: error.message });
+          return;
+        }
+        // Open circuit: wait for it instead of counting the failure
+        if (error instanceof CircuitOpenError) {
+          this.degrade(error.message, error.retryInMs);
+          await sleep(Math.min(Math.max(error.retryInMs, INITIAL_DELAY_MS), MAX_DELAY_MS));
+          continue;
+        }
+        consecutiveErrors++;
+        const httpStatus = axios.isAxiosError(error) ? error.response?.status : undefined;
+        console.error(`[POLLER] Status request failed for ${this.uuid} (attempt ${consecutiveErrors}):`, httpStatus || loggableError(error));
+
+        // Client errors other than timeouts/rate limits will not fix themselves
+        const isFatal = httpStatus !== undefined && httpStatus >= 400 && httpStatus < 500 && httpStatus !== 408 && httpStatus !== 429;
+        if (isFatal || consecutiveErrors >= MAX_CONSECUTIVE_ERRORS) {
+          this.finish({ type: 'failed', message: 'Could not retrieve session status' });
+          return;
+        }
+        this.degrade('Proofly API is not responding, retrying');
+
+        await sleep(delay);
+        delay = Math.min(delay * BACKOFF_FACTOR, MAX_DELAY_MS);
+        continue;
+      }
+
+      if (this.stopped) return;
+
+      // After a degraded period the status is repeated so clients clear their notice
+      if (status !== this.lastStatus || this.degraded) {
+        this.degraded = null;
+        this.lastStatus = status;
+        this.emit({ type: 'status', status });
+        // Reset the schedule on every transition
+        delay = INITIAL_DELAY_MS;
+      }
+
+      if (status === 'failed') {
+        this.finish({ type: 'failed', status, message: 'Image processing failed' });
+        return;
+      }
+
+      if (status === 'completed' || status === 'done' || status === 'no faces found') {
+        let session: SessionInfoResponse;
+        try {
+          session = await prooflyUpstream.getSessionInfo(this.uuid);
+        } catch (error) {
+          console.error(`[POLLER] Failed to load session info for ${this.uuid}:`, loggableError(error));
+          // Transient failures are retried on the next poll
+          if (error instanceof CircuitOpenError || isTransientError(error)) {
+            sessionInfoErrors++;
+            if (sessionInfoErrors < MAX_CONSECUTIVE_ERRORS) {
+              this.degrade(error instanceof CircuitOpenError ? error.message : 'Proofly API is not responding, retrying');
+              await sleep(delay);
+              delay = Math.min(delay * BACKOFF_FACTOR, MAX_DELAY_MS);
+              continue;
+            }
+          }
+          this.finish({
+            type: 'failed',
+            status,
+            message: error instanceof UpstreamContractError ? error.message : 'Failed to retrieve session information'
+          });
+          return;
+        }
+        // Later uploads of the same image are answered from the cache (never fails)
+        await storeCachedResult(session);
+        this.finish({ type: 'complete', session });
+        return;
+      }
+
+      if (!PENDING_SESSION_STATUSES.includes(status)) {
+        this.finish({ type: 'failed', status, message: `Unexpected session status: ${status}` });
+        return;
+      }
+
+      await sleep(delay);
+      delay = Math.min(delay * BACKOFF_FACTOR, MAX_DELAY_MS);
+    }
+  }
+}
+
+// One poller per session, shared by every open SSE connection
+const pollers = new Map<string, SessionPoller>();
+
+/**
+ * Subscribes to progress events of a session. Returns an unsubscribe function.
+ */
+export function subscribeToSession(uuid: string, listener: SessionEventListener): () => void {
+  let poller = pollers.get(uuid);
+  if (!poller) {
+    const created = new SessionPoller(uuid, () => {
+      if (pollers.get(uuid) === created) {
+        pollers.delete(uuid);
+      }
+    });
+    pollers.set(uuid, created);
+    poller = created;
+    const unsubscribe = poller.subscribe(listener);
+    poller.start();
+    return unsubscribe;
+  }
+  return poller.subscribe(listener);
+}
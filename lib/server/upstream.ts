@@ -0,0 +1,229 @@
+// lib/server/upstream.ts
+import axios, { AxiosInstance, AxiosResponse } from 'axios';
+import FormData from 'form-data';
+import { UpstreamConfig, loadUpstreamConfig, buildUpstreamHeaders } from './config';
+import { MULTIPART_OVERHEAD_BYTES, getMaxImageBytes } from './imageIntake';
+import { CircuitBreaker, CircuitSnapshot, isTransientError, retryDelay } from './resilience';
+import {
+  fileUploadResponseSchema,
+  parseUpstream,
+  sessionInfoResponseSchema,
+  sessionStatusResponseSchema,
+  systemStatusResponseSchema,
+} from '../schemas/proofly';
+import {
+  FileUploadResponse,
+  SessionInfoResponse,
+  SessionStatusResponse,
+  SystemStatusResponse,
+} from '../types/proofly';
+
+export interface UpstreamFile {
+  data: Buffer;
+  contentType: string;
+}
+
+export interface UpstreamUploadOptions {
+  filename: string;
+  contentType?: string;
+}
+
+/**
+ * Storage path of a session's original image, or null unless image_path is a
+ * plain `/storage/original/*.jpg` file (path traversal protection)
+ */
+export function originalImageStoragePath(imagePath: unknown): string | null {
+  if (typeof imagePath !== 'string' || !/^(\.?\/storage\/original\/)[\w\-/]+\.jpg$/.test(imagePath)) {
+    return null;
+  }
+  if (imagePath.includes('..') || imagePath.includes('//')) {
+    return null;
+  }
+  return imagePath.startsWith('.') ? imagePath.slice(1) : imagePath;
+}
+
+/**
+ * Form of an error that is safe to log. Axios errors carry their request
+ * config, including the API key header, so only the message, code, status
+ * and request line are kept.
+ */
+export function loggableError(error: unknown): unknown {
+  if (!axios.isAxiosError(error)) return error;
+  return {
+    message: error.message,
+    code: error.code,
+    status: error.response?.status,
+    request: `${error.config?.method?.toUpperCase()} ${error.config?.url}`,
+  };
+}
+
+/**
+ * Server-side client for the Proofly API. All app/api/proofly route handlers
+ * talk to the upstream through this class, so base URL, timeouts, auth and
+ * user agent come from one validated configuration.
+ * JSON responses are validated against lib/schemas/proofly.ts and throw
+ * UpstreamContractError when they do not match.
+ * GETs are retried after transient failures (jittered exponential backoff,
+ * Retry-After honored); repeated failures open a circuit breaker and requests
+ * fail fast with CircuitOpenError until the upstream recovers.
+ */
+export class ProoflyUpstream {
+  private configOverride: UpstreamConfig | null;
+  private client: AxiosInstance | null = null;
+  private resolvedConfig: UpstreamConfig | null = null;
+  private breaker: CircuitBreaker | null = null;
+
+  constructor(config?: UpstreamConfig) {
+    this.configOverride = config || null;
+  }
+
+  /**
+   * Effective configuration (loaded from env on first use)
+   */
+  get config(): UpstreamConfig {
+    if (!this.resolvedConfig) {
+      this.resolvedConfig = this.configOverride || loadUpstreamConfig();
+    }
+    return this.resolvedConfig;
+  }
+
+  private get http(): AxiosInstance {
+    if (!this.client) {
+      this.client = axios.create({
+        baseURL: this.config.baseUrl,
+        timeout: this.config.timeoutMs,
+        headers: buildUpstreamHeaders(this.config),
+      });
+    }
+    return this.client;
+  }
+
+  private get circuit(): CircuitBreaker {
+    if (!this.breaker) {
+      this.breaker = new CircuitBreaker({
+        failureThreshold: this.config.circuitFailureThreshold,
+        resetMs: this.config.circuitResetMs,
+      });
+    }
+    return this.breaker;
+  }
+
+  /**
+   * Circuit breaker state (for /api/proofly/status)
+   */
+  getCircuitStatus(): CircuitSnapshot {
+    return this.circuit.snapshot();
+  }
+
+  /**
+   * Sends a request through the circuit breaker; idempotent requests are
+   * retried after transient failures
+   */
+  private async send<T>(label: string, request: () => Promise<AxiosResponse<T>>, idempotent: boolean): Promise<AxiosResponse<T>> {
+    for (let retry = 0; ; retry++) {
+      this.circuit.acquire();
+      try {
+        const response = await request();
+        this.circuit.recordSuccess();
+        return response;
+      } catch (error) {
+        if (!isTransientError(error)) {
+          // The upstream answered (404 and the like), it is up
+          if (axios.isAxiosError(error) && error.response) this.circuit.recordSuccess();
+          throw error;
+        }
+        this.circuit.recordFailure();
+        const delay = idempotent && retry < this.config.retries
+          ? retryDelay(error, retry, {
+            retries: this.config.retries,
+            baseDelayMs: this.config.retryBaseDelayMs,
+            maxDelayMs: this.config.retryMaxDelayMs,
+          })
+          : null;
+        if (delay === null) throw error;
+        const reason = axios.isAxiosError(error) ? error.response?.status || error.code : error;
+        console.warn(`[UPSTREAM] ${label} failed (${reason}), retry ${retry + 1}/${this.config.retries} in ${delay}ms`);
+        await new Promise(resolve => setTimeout(resolve, delay));
+      }
+    }
+  }
+
+  /**
+   * Absolute upstream URL for a path relative to the API base
+   */
+  buildUrl(path: string): string {
+    return `${this.config.baseUrl}${path.startsWith('/') ? path : `/${path}`}`;
+  }
+
+  /**
+   * Uploads an image and returns the upstream response (contains `uuid`)
+   */
+  async uploadImage(file: Buffer, options: UpstreamUploadOptions): Promise<FileUploadResponse> {
+    const formData = new FormData();
+    formData.append('file', file, {
+      filename: options.filename,
+      contentType: options.contentType,
+    });
+
+    // Not retried: a repeated upload would create a second session
+    const response = await this.send('POST /upload', () => this.http.post('/upload', formData, {
+      headers: {
+        ...formData.getHeaders()
+      },
+      // Image cap plus room for the multipart envelope
+      maxBodyLength: getMaxImageBytes() + MULTIPART_OVERHEAD_BYTES,
+      timeout: this.config.uploadTimeoutMs
+    }), false);
+    return parseUpstream(fileUploadResponseSchema, response.data, '/upload');
+  }
+
+  /**
+   * Gets full session information
+   */
+  async getSessionInfo(uuid: string): Promise<SessionInfoResponse> {
+    const response = await this.send('GET /{uuid}', () => this.http.get(`/${encodeURIComponent(uuid)}`), true);
+    return parseUpstream(sessionInfoResponseSchema, response.data, '/{uuid}');
+  }
+
+  /**
+   * Gets session processing status
+   */
+  async getSessionStatus(uuid: string): Promise<SessionStatusResponse> {
+    const response = await this.send('GET /{uuid}/status', () => this.http.get(`/${encodeURIComponent(uuid)}/status`), true);
+    return parseUpstream(sessionStatusResponseSchema, response.data, '/{uuid}/status');
+  }
+
+  /**
+   * Gets overall system status
+   */
+  async getSystemStatus(): Promise<SystemStatusResponse> {
+    const response = await this.send('GET /system/status', () => this.http.get('/system/status'), true);
+    return parseUpstream(systemStatusResponseSchema, response.data, '/system/status');
+  }
+
+  /**
+   * Downloads a file from upstream storage (original images, face crops).
+   * Redirects are never followed.
+   */
+  async getStorageFile(storagePath: string): Promise<UpstreamFile> {
+    if (!storagePath.startsWith('/storage/')) {
+      throw new Error(`Refusing to fetch non-storage path: ${storagePath}`);
+    }
+
+    const response = await this.send('GET /storage', () => this.http.get(storagePath, {
+      responseType: 'arraybuffer',
+      headers: {
+        'accept': 'application/octet-stream'
+      },
+      maxRedirects: 0
+    }), true);
+
+    return {
+      data: Buffer.from(response.data),
+      contentType: response.headers['content-type'] || 'image/jpeg'
+    };
+  }
+}
+
+// Shared instance used by route handlers
+export const prooflyUpstream = new ProoflyUpstream();
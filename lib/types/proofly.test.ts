@@ -0,0 +1,76 @@
+import { describe, expect, it } from 'vitest';
+import { SessionInfoResponse, formatAnalysisResults } from './proofly';
+
+const UUID = '11111111-1111-4111-8111-111111111111';
+
+const sessionWith = (faces: unknown[] | undefined) => ({
+  uuid: UUID,
+  status: 'completed',
+  faces,
+}) as unknown as SessionInfoResponse;
+
+describe('formatAnalysisResults', () => {
+  it('maps legacy is_real_model_N scores onto the model registry', () => {
+    const [result] = formatAnalysisResults(sessionWith([
+      { ansamble: 0.96, is_real_model_1: 0.9, is_real_model_2: 0.7, face_path: '/storage/faces/a_0.jpg', bbox: [0, 0, 1, 1] },
+    ]));
+    expect(result).toMatchObject({
+      faceIndex: 1,
+      faceId: '0',
+      facePath: '/storage/faces/a_0.jpg',
+      ensembleProbability: { real: 0.96 },
+      verdict: 'Likely Real',
+      box: [0, 0, 1, 1],
+    });
+    expect(result.ensembleProbability.fake).toBeCloseTo(0.04);
+    // All registered models are listed, the ones without a score as not reported
+    expect(result.modelProbabilities).toHaveLength(10);
+    expect(result.modelProbabilities[0]).toMatchObject({ modelId: 'model-1', realProbability: 0.9, weight: 1 });
+    expect(result.modelProbabilities[2]).toMatchObject({ modelId: 'model-3', realProbability: null, fakeProbability: null });
+    expect(result.localEnsemble?.real).toBeCloseTo(0.8);
+  });
+
+  it('shows metrics under their API names without weighting them', () => {
+    const [result] = formatAnalysisResults(sessionWith([
+      { realProbability: 0.2, metrics: { texture: { name: 'Texture', probability: 0.3 } } },
+    ]));
+    expect(result.ensembleProbability.real).toBe(0.2);
+    expect(result.verdict).toBe('Likely Deepfake');
+    expect(result.modelProbabilities).toEqual([
+      {
+        modelId: 'texture',
+        model: 'Texture',
+        weight: 0,
+        realProbability: 0.3,
+        fakeProbability: 0.7,
+        source: { shape: 'metrics', version: 2, field: 'metrics.texture' },
+      },
+    ]);
+    expect(result.localEnsemble).toBeUndefined();
+  });
+
+  it('reads the models shape and matches registered keys', () => {
+    const [result] = formatAnalysisResults(sessionWith([
+      { ansamble: 0.9, models: { is_real_model_4: { probability: 0.6 }, extra: { probability: 0.5 } } },
+    ]));
+    expect(result.verdict).toBe('Uncertain');
+    expect(result.modelProbabilities.find(model => model.modelId === 'model-4')?.realProbability).toBe(0.6);
+    expect(result.modelProbabilities.at(-1)).toMatchObject({ modelId: 'extra', model: 'extra', weight: 0 });
+    expect(result.localEnsemble?.real).toBeCloseTo(0.6);
+  });
+
+  it('tolerates missing optional fields', () => {
+    expect(formatAnalysisResults(sessionWith(undefined))).toEqual([]);
+    expect(formatAnalysisResults(sessionWith([]))).toEqual([]);
+
+    const [result] = formatAnalysisResults(sessionWith([{ ansamble: 0.5 }]));
+    expect(result).toMatchObject({ facePath: '', modelProbabilities: [], upstreamVerdict: undefined, box: undefined });
+    expect(result.localEnsemble).toBeUndefined();
+  });
+
+  it('localizes verdicts on request', () => {
+    const [result] = formatAnalysisResults(sessionWith([{ ansamble: 0.1 }]), undefined, undefined, 'ru');
+    expect(result.verdict).toBe('Скорее всего дипфейк');
+    expect(result.verdictBand.id).toBe('likely-deepfake');
+  });
+});
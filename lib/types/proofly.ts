@@ -1,197 +1,207 @@
 // lib/types/proofly.ts
-export interface FileUploadResponse {
-  message: string;
-  uuid: string;
-}
+import { z } from 'zod';
+import {
+  cachedAnalysisSchema,
+  faceBoxSchema,
+  fileUploadResponseSchema,
+  sessionFaceSchema,
+  sessionInfoResponseSchema,
+  sessionStatusResponseSchema,
+  sessionStatusSchema,
+  systemStatusResponseSchema,
+  uploadResultSchema,
+} from '../schemas/proofly';
+import { DEFAULT_VERDICT_POLICY, VerdictBand, VerdictPolicy, classifyReal } from '../verdict/policy';
+import { ModelInfo, computeWeightedEnsemble, getModelRegistry, isBuiltInModel } from '../models/registry';
+import { DEFAULT_LOCALE, Locale } from '../i18n/config';
+import { verdictLabel } from '../i18n/translate';
+import { NormalizedFace, ScoreSource, normalizeFaces, reportNormalizationWarnings } from '../normalize/faces';
 
-export interface FaceInfo {
-  is_real_model_1: number;
-  is_real_model_2: number;
-  is_real_model_3: number;
-  is_real_model_4: number;
-  is_real_model_5: number;
-  is_real_model_6: number;
-  is_real_model_7: number;
-  is_real_model_8: number;
-  is_real_model_9: number;
-  is_real_model_10: number;
-  ansamble: number;
-  face_path: string;
-  [key: string]: number | string; // Index signature type for accessing model results
-}
+export type { ModelInfo } from '../models/registry';
 
-// Model results in the updated API
-export interface ModelResults {
-  probability: number;
-  [key: string]: any;
-}
+// Response types are inferred from the runtime schemas in lib/schemas/proofly.ts
+export type FileUploadResponse = z.infer<typeof fileUploadResponseSchema>;
 
 // Data types for Proofly API
 
 // Session status response
-export interface SessionStatusResponse {
-  status: 'uploading' | 'processing' | 'in progress' | 'completed' | 'done' | 'no faces found' | 'failed';
-}
+export type SessionStatusResponse = z.infer<typeof sessionStatusResponseSchema>;
+
+// One face entry of a session (legacy `is_real_model_N`, `metrics` or `models` shape)
+export type SessionFace = z.infer<typeof sessionFaceSchema>;
+
+// Face position in the original image (pixels, or fractions when all values are <= 1)
+export type FaceBox = z.infer<typeof faceBoxSchema>;
 
 // Session information response
-export interface SessionInfoResponse {
-  uuid: string;
-  sha256?: string; // SHA256 hash of the original image
-  image_path?: string; // Path to the uploaded image
-  total_faces?: number; // Total number of faces in the original image
-  status: 'uploading' | 'processing' | 'in progress' | 'completed' | 'done' | 'no faces found' | 'failed';
-  faces?: Array<{
-    realProbability: number;
-    fakeProbability: number;
-    isReal: boolean;
-    face_id: string;
-    confidence: number;
-    verdict: string;
-    metrics?: {
-      [key: string]: {
-        name: string;
-        probability: number;
-      }
-    }
-    models?: {
-      [key: string]: ModelResults
-    }
-    is_real_model_1?: number;
-    is_real_model_2?: number;
-    is_real_model_3?: number;
-    is_real_model_4?: number;
-    is_real_model_5?: number;
-    is_real_model_6?: number;
-    is_real_model_7?: number;
-    is_real_model_8?: number;
-    is_real_model_9?: number;
-    is_real_model_10?: number;
-    ansamble?: number;
-    face_path?: string;
-    [key: string]: any; // For additional fields
-  }>;
-  created_at?: string;
-  processed_at?: string;
-  error?: string;
-}
+export type SessionInfoResponse = z.infer<typeof sessionInfoResponseSchema>;
 
-// Model information
-export interface ModelInfo {
-  id: string;
-  name: string;
-  version: string;
-}
+// Earlier analysis of the same image (SHA256), sent by the upload routes
+export type CachedAnalysis = z.infer<typeof cachedAnalysisSchema>;
 
-// Metrics information
-export interface MetricsInfo {
-  [key: string]: {
-    probability: number;
-    name: string;
-  }
-}
+// Response of /api/proofly/upload and /api/proofly/upload-url
+export type UploadResult = z.infer<typeof uploadResultSchema>;
+
+// System status response (/system/status)
+export type SystemStatusResponse = z.infer<typeof systemStatusResponseSchema>;
 
 export interface StatusResponse {
   status: SessionStatus;
 }
 
-// All statuses from API (according to the template client)
-export type SessionStatus = 
-  | 'uploading'       // File is uploading
-  | 'processing'      // File is processing
-  | 'in progress'     // Alternative to processing
-  | 'completed'       // Processing completed
-  | 'done'            // Alternative to completed
-  | 'failed'          // Processing failed
-  | 'no faces found'; // No faces found
+// All statuses from API (according to the template client):
+// uploading, processing, 'in progress' (alternative to processing),
+// completed, done (alternative to completed), failed, 'no faces found'
+export type SessionStatus = z.infer<typeof sessionStatusSchema>;
+
+// Statuses that mean the session is still being worked on
+export const PENDING_SESSION_STATUSES: SessionStatus[] = ['uploading', 'processing', 'in progress'];
+
+// Statuses of a session that finished with results
+export const COMPLETED_SESSION_STATUSES: SessionStatus[] = ['completed', 'done', 'no faces found'];
+
+// Events pushed by /api/proofly/session/[uuid]/events (SSE event name = type)
+export type SessionEvent =
+  | { type: 'status'; status: SessionStatus }
+  | { type: 'complete'; session: SessionInfoResponse }
+  | { type: 'failed'; status?: SessionStatus; message: string }
+  // Upstream is failing, the server keeps retrying (cleared by the next status event)
+  | { type: 'degraded'; message: string; retryInMs?: number };
+
+// Progress of a byte transfer (total is null when the size is unknown)
+export interface TransferProgress {
+  loaded: number;
+  total: number | null;
+}
+
+// Lines streamed by /api/proofly/upload-url when the client accepts NDJSON:
+// download progress, the hand-off to Proofly, then the usual JSON response
+export type UrlUploadEvent =
+  | ({ type: 'download' } & TransferProgress)
+  | { type: 'upload' }
+  | { type: 'result'; status: number; body: any };
 
 // Type for model results
 export interface ModelProbability {
+  modelId: string;
+  // Display name from the model registry (or the name sent by the API)
   model: string;
-  realProbability: number;
-  fakeProbability: number;
+  version?: string;
+  description?: string;
+  weight: number;
+  // null when the API did not report a score for this model
+  realProbability: number | null;
+  fakeProbability: number | null;
+  // Response field the score was read from
+  source?: ScoreSource;
 }
 
 // Formatted analysis result for display
 export interface AnalysisResult {
   faceIndex: number;
+  // Face identifier from the API, or the 0-based position
+  faceId: string;
   facePath: string;
   ensembleProbability: {
     real: number;
     fake: number;
   };
   modelProbabilities: ModelProbability[];
+  // Weighted mean of the reported model scores (registry weights), if any
+  localEnsemble?: {
+    real: number;
+    fake: number;
+  };
+  // Label of verdictBand under the applied policy, in the requested locale
   verdict: string;
+  verdictBand: VerdictBand;
+  // Verdict string sent by the API, if any (informational only)
+  upstreamVerdict?: string;
+  // Position in the original image, when the API reports it
+  box?: FaceBox;
+}
+
+/**
+ * Labels per-model scores with the registry. Registered models without a
+ * score are marked as not reported; unregistered scores are shown with the
+ * API name and are not weighted.
+ */
+function toModelProbabilities(face: NormalizedFace, registry: ModelInfo[]): ModelProbability[] {
+  if (face.scores.length === 0) return [];
+  const scores = new Map(face.scores.map(score => [score.key, score]));
+
+  const registered = registry.filter(model => model.enabled);
+  const reportsRegistered = registered.some(model => scores.has(model.key));
+  const known = new Set(registry.map(model => model.key));
+
+  const result: ModelProbability[] = reportsRegistered
+    ? registered.map(model => {
+      const score = scores.get(model.key);
+      return {
+        modelId: model.id,
+        model: score?.name && isBuiltInModel(model) ? score.name : model.name,
+        version: model.version,
+        description: model.description,
+        weight: model.weight,
+        realProbability: score ? score.realProbability : null,
+        fakeProbability: score ? 1 - score.realProbability : null,
+        source: score?.source,
+      };
+    })
+    : [];
+
+  scores.forEach((score, key) => {
+    if (known.has(key)) return;
+    result.push({
+      modelId: key,
+      model: score.name || key,
+      weight: 0,
+      realProbability: score.realProbability,
+      fakeProbability: 1 - score.realProbability,
+      source: score.source,
+    });
+  });
+  return result;
 }
 
-// Helper functions for formatting results
-export function formatAnalysisResults(sessionInfo: SessionInfoResponse): AnalysisResult[] {
-  if (!sessionInfo.faces || sessionInfo.faces.length === 0) {
-    return [];
-  }
+// Helper functions for formatting results. Verdicts are English by default:
+// signed reports and exports depend on them.
+export function formatAnalysisResults(
+  sessionInfo: SessionInfoResponse,
+  policy: VerdictPolicy = DEFAULT_VERDICT_POLICY,
+  registry: ModelInfo[] = getModelRegistry(),
+  locale: Locale = DEFAULT_LOCALE
+): AnalysisResult[] {
+  const { faces, warnings } = normalizeFaces(sessionInfo);
+  reportNormalizationWarnings(warnings);
   
-  return sessionInfo.faces.map((face, index) => {
-    // Calculate real/fake probability
-    // Use either the provided ansamble field or realProbability
-    const ensembleReal = face.ansamble !== undefined ? face.ansamble : face.realProbability;
+  return faces.map(face => {
+    const ensembleReal = face.ensemble.real;
     const ensembleFake = 1 - ensembleReal;
     
-    // Create array of models
-    let modelProbabilities: ModelProbability[] = [];
-    
-    // Check if there are individual models in the data
-    const hasModelProbabilities = Object.keys(face).some(key => key.startsWith('is_real_model_'));
+    const modelProbabilities = toModelProbabilities(face, registry);
+    const localReal = computeWeightedEnsemble(modelProbabilities);
     
-    if (hasModelProbabilities) {
-      // Format results from all models if available
-      modelProbabilities = Array.from({ length: 10 }, (_, i) => {
-        const modelNumber = i + 1;
-        const modelKey = `is_real_model_${modelNumber}`;
-        // If data for this model exists - use it, otherwise use default value
-        const realProb = face[modelKey] !== undefined ? face[modelKey] as number : 0.5;
-        
-        return {
-          model: `Model ${modelNumber}`,
-          realProbability: realProb,
-          fakeProbability: 1 - realProb
-        };
-      });
-    } else if (face.metrics) {
-      // If metrics exist - use them instead of models
-      modelProbabilities = Object.entries(face.metrics).map(([key, metric]) => {
-        return {
-          model: metric.name,
-          realProbability: metric.probability,
-          fakeProbability: 1 - metric.probability
-        };
-      });
-    }
-    
-    // Determine verdict based on ensemble probability
-    // If verdict already exists - use it
-    let verdict = face.verdict || '';
-    if (!verdict) {
-      if (ensembleReal > 0.95) {
-        verdict = 'Likely Real';
-      } else if (ensembleReal > 0.91) {
-        verdict = 'Probably Real';
-      } else if (ensembleReal > 0.89) {
-        verdict = 'Uncertain';
-      } else if (ensembleReal > 0.87) {
-        verdict = 'Probably Deepfake';
-      } else {
-        verdict = 'Likely Deepfake';
-      }
-    }
+    // Determine verdict based on ensemble probability and the verdict policy
+    const verdictBand = classifyReal(ensembleReal, policy);
     
     return {
-      faceIndex: index + 1,
-      facePath: face.face_path || '',
+      faceIndex: face.index + 1,
+      faceId: face.id,
+      facePath: face.cropPath || '',
       ensembleProbability: {
         real: ensembleReal,
         fake: ensembleFake
       },
       modelProbabilities,
-      verdict
+      localEnsemble: localReal === undefined ? undefined : {
+        real: localReal,
+        fake: 1 - localReal
+      },
+      verdict: verdictLabel(verdictBand, locale),
+      verdictBand,
+      upstreamVerdict: face.upstreamVerdict,
+      box: face.box
     };
   });
-}
\ No newline at end of file
+}
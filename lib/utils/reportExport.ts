@@ -0,0 +1,40 @@
+import { SessionInfoResponse } from '@/lib/types/proofly';
+import { prooflyApi } from '@/lib/api/proofly';
+import { DEFAULT_VERDICT_POLICY, VerdictPolicy } from '@/lib/verdict/policy';
+import { ExportFormat, buildReportExport } from '@/lib/report/exports';
+import { ImageMetadata } from '@/lib/images/metadata';
+import { downloadFile, loadImage } from '@/lib/utils/pdfExport';
+import { DEFAULT_LOCALE, Locale } from '@/lib/i18n/config';
+
+/**
+ * Exports analysis results as JSON, CSV or HTML (browser download).
+ * @param sessionInfo Session information with analysis results.
+ * @param format Export format.
+ * @param policy Verdict policy applied to the results.
+ * @param metadata Image metadata included in JSON and HTML.
+ * @param locale Language of the HTML report.
+ * @returns Promise with export result (`error` is the failure message).
+ */
+export const exportResults = async (
+  sessionInfo: SessionInfoResponse,
+  format: ExportFormat,
+  policy: VerdictPolicy = DEFAULT_VERDICT_POLICY,
+  metadata?: ImageMetadata | null,
+  locale: Locale = DEFAULT_LOCALE
+): Promise<{ success: boolean; error?: string }> => {
+  try {
+    const signature = format === 'csv' ? null : await prooflyApi.getReportSignature(sessionInfo.uuid, policy.id);
+    const report = await buildReportExport(format, sessionInfo, {
+      policy,
+      signature,
+      metadata: format === 'csv' ? null : metadata,
+      locale,
+      loadFaceImage: (result) => loadImage(prooflyApi.getFaceImageUrl(sessionInfo.uuid, result.faceIndex - 1)),
+    });
+    downloadFile(new TextEncoder().encode(report.body), report.filename, report.contentType);
+    return { success: true };
+  } catch (error) {
+    console.error(`Error creating ${format.toUpperCase()} export:`, error);
+    return { success: false, error: error instanceof Error ? error.message : String(error) };
+  }
+};
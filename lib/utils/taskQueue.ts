@@ -0,0 +1,47 @@
+export type QueueTask = () => Promise<void>;
+
+export interface TaskQueue {
+  push: (task: QueueTask) => void;
+  clear: () => void;
+  readonly pending: number;
+  readonly running: number;
+}
+
+/**
+ * FIFO queue that runs at most `concurrency` async tasks at a time.
+ * Task errors are logged and do not stop the queue.
+ */
+export function createTaskQueue(concurrency: number): TaskQueue {
+  const limit = Math.max(1, Math.floor(concurrency));
+  const waiting: QueueTask[] = [];
+  let running = 0;
+
+  const next = () => {
+    while (running < limit && waiting.length > 0) {
+      const task = waiting.shift()!;
+      running++;
+      task()
+        .catch(error => console.error('Task queue: task failed', error))
+        .finally(() => {
+          running--;
+          next();
+        });
+    }
+  };
+
+  return {
+    push(task: QueueTask) {
+      waiting.push(task);
+      next();
+    },
+    clear() {
+      waiting.length = 0;
+    },
+    get pending() {
+      return waiting.length;
+    },
+    get running() {
+      return running;
+    },
+  };
+}
@@ -0,0 +1,6 @@
+/**
+ * Checks that a value is a standard UUID (v1-v5, v7)
+ */
+export const isValidUuid = (uuid: string): boolean => {
+  return /^[0-9a-f]{8}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{4}-[0-9a-f]{12}$/i.test(uuid);
+};
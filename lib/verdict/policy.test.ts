@@ -0,0 +1,35 @@
+import { describe, expect, it } from 'vitest';
+import { BUILT_IN_VERDICT_POLICIES, DEFAULT_VERDICT_POLICY, classifyReal, parseVerdictPolicies } from './policy';
+
+const bandOf = (real: number, policy = DEFAULT_VERDICT_POLICY) => classifyReal(real, policy).id;
+
+describe('classifyReal', () => {
+  it('keeps the strict thresholds of the default policy', () => {
+    expect(bandOf(0.96)).toBe('likely-real');
+    expect(bandOf(0.95)).toBe('probably-real');
+    expect(bandOf(0.91)).toBe('uncertain');
+    expect(bandOf(0.89)).toBe('probably-deepfake');
+    expect(bandOf(0.87)).toBe('likely-deepfake');
+    expect(bandOf(0.8701)).toBe('probably-deepfake');
+    expect(bandOf(0)).toBe('likely-deepfake');
+  });
+
+  it('applies other policies the same way', () => {
+    const strict = BUILT_IN_VERDICT_POLICIES.find(policy => policy.id === 'strict-newsroom')!;
+    expect(bandOf(0.98, strict)).toBe('probably-real');
+    expect(bandOf(0.981, strict)).toBe('likely-real');
+  });
+
+  it('sorts configured bands and requires a catch-all', () => {
+    const [policy] = parseVerdictPolicies(JSON.stringify([{
+      id: 'two-bands',
+      name: 'Two bands',
+      bands: [
+        { id: 'fake', label: 'Fake', minReal: 0, color: '#dc2626', severity: 4 },
+        { id: 'real', label: 'Real', minReal: 0.5, color: '#16a34a', severity: 0 },
+      ],
+    }]));
+    expect(bandOf(0.5, policy)).toBe('fake');
+    expect(bandOf(0.51, policy)).toBe('real');
+  });
+});
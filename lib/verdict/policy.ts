@@ -0,0 +1,128 @@
+// lib/verdict/policy.ts
+import { z } from 'zod';
+
+// Severity from 0 (authentic) to 4 (manipulated), used for sorting and summaries
+const verdictBandSchema = z.object({
+  id: z.string().min(1),
+  label: z.string().min(1),
+  // Translations of the label by locale code, e.g. { "ru": "..." }
+  labels: z.record(z.string(), z.string().min(1)).optional(),
+  // Band applies when the ensemble real probability is above minReal
+  // (the catch-all band with minReal 0 takes everything else)
+  minReal: z.number().min(0).max(1),
+  // Hex color used in UI, PDF and exports
+  color: z.string().regex(/^#[0-9a-f]{6}$/i, 'must be a #rrggbb color'),
+  severity: z.number().int().min(0).max(4),
+});
+
+const verdictPolicySchema = z.object({
+  id: z.string().regex(/^[a-z0-9-]+$/, 'must be a lowercase slug'),
+  name: z.string().min(1),
+  description: z.string().optional(),
+  bands: z.array(verdictBandSchema).min(1),
+}).transform(policy => ({
+  ...policy,
+  bands: [...policy.bands].sort((a, b) => b.minReal - a.minReal),
+})).refine(
+  policy => policy.bands[policy.bands.length - 1].minReal === 0,
+  { message: 'policy needs a catch-all band with minReal 0', path: ['bands'] }
+);
+
+export type VerdictBand = z.infer<typeof verdictBandSchema>;
+export type VerdictPolicy = z.infer<typeof verdictPolicySchema>;
+
+const GREEN = '#16a34a';
+const LIME = '#65a30d';
+const AMBER = '#d97706';
+const ORANGE = '#ea580c';
+const RED = '#dc2626';
+
+/**
+ * Builds the usual five bands from four thresholds
+ */
+const fiveBands = (likelyReal: number, probablyReal: number, uncertain: number, probablyFake: number): VerdictBand[] => [
+  { id: 'likely-real', label: 'Likely Real', minReal: likelyReal, color: GREEN, severity: 0 },
+  { id: 'probably-real', label: 'Probably Real', minReal: probablyReal, color: LIME, severity: 1 },
+  { id: 'uncertain', label: 'Uncertain', minReal: uncertain, color: AMBER, severity: 2 },
+  { id: 'probably-deepfake', label: 'Probably Deepfake', minReal: probablyFake, color: ORANGE, severity: 3 },
+  { id: 'likely-deepfake', label: 'Likely Deepfake', minReal: 0, color: RED, severity: 4 },
+];
+
+// Thresholds the app has always used
+export const DEFAULT_VERDICT_POLICY: VerdictPolicy = {
+  id: 'default',
+  name: 'Default',
+  description: 'Standard Proofly thresholds',
+  bands: fiveBands(0.95, 0.91, 0.89, 0.87),
+};
+
+export const BUILT_IN_VERDICT_POLICIES: VerdictPolicy[] = [
+  DEFAULT_VERDICT_POLICY,
+  {
+    id: 'strict-newsroom',
+    name: 'Strict newsroom',
+    description: 'Only very confident results count as real',
+    bands: fiveBands(0.98, 0.95, 0.9, 0.8),
+  },
+  {
+    id: 'lenient-moderation',
+    name: 'Lenient moderation',
+    description: 'Flags only clear manipulations',
+    bands: fiveBands(0.9, 0.8, 0.6, 0.4),
+  },
+];
+
+/**
+ * Parses custom policies from JSON (NEXT_PUBLIC_VERDICT_POLICIES).
+ * Invalid configuration is logged and ignored so the app keeps working.
+ */
+export function parseVerdictPolicies(json: string | undefined): VerdictPolicy[] {
+  if (!json) return [];
+  try {
+    const result = z.array(verdictPolicySchema).safeParse(JSON.parse(json));
+    if (!result.success) {
+      console.error('Verdict policy: invalid configuration', result.error.issues);
+      return [];
+    }
+    return result.data;
+  } catch (error) {
+    console.error('Verdict policy: configuration is not valid JSON', error);
+    return [];
+  }
+}
+
+/**
+ * Built-in policies merged with configured ones (configured win on id clash)
+ */
+export function getVerdictPolicies(): VerdictPolicy[] {
+  const configured = parseVerdictPolicies(process.env.NEXT_PUBLIC_VERDICT_POLICIES);
+  const byId = new Map<string, VerdictPolicy>();
+  [...BUILT_IN_VERDICT_POLICIES, ...configured].forEach(policy => byId.set(policy.id, policy));
+  return Array.from(byId.values());
+}
+
+/**
+ * Finds a policy by id, falling back to the configured default, then to the built-in one
+ */
+export function getVerdictPolicy(id?: string | null): VerdictPolicy {
+  const policies = getVerdictPolicies();
+  return policies.find(policy => policy.id === id)
+    || policies.find(policy => policy.id === process.env.NEXT_PUBLIC_DEFAULT_VERDICT_POLICY)
+    || DEFAULT_VERDICT_POLICY;
+}
+
+/**
+ * Band for a real probability under the given policy. Thresholds are strict,
+ * as in the original verdicts: 0.95 is "Probably Real" under the default policy.
+ */
+export function classifyReal(realProbability: number, policy: VerdictPolicy = DEFAULT_VERDICT_POLICY): VerdictBand {
+  return policy.bands.find(band => realProbability > band.minReal) || policy.bands[policy.bands.length - 1];
+}
+
+/**
+ * Converts a band color to RGB (for jsPDF)
+ */
+export function hexToRgb(hex: string): [number, number, number] {
+  const value = parseInt(hex.slice(1), 16);
+  return [(value >> 16) & 255, (value >> 8) & 255, value & 255];
+}
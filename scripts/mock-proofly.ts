@@ -0,0 +1,41 @@
+// scripts/mock-proofly.ts
+import { startMockProofly } from '../lib/mock/prooflyMock';
+import { MOCK_SCENARIOS, isMockScenarioName } from '../lib/mock/scenarios';
+
+// Standalone mock Proofly API: `npm run mock:proofly -- --port 4010 --scenario slow`
+
+function readArg(name: string): string | undefined {
+  const index = process.argv.indexOf(`--${name}`);
+  return index === -1 ? undefined : process.argv[index + 1];
+}
+
+async function main() {
+  const port = Number(readArg('port') || process.env.MOCK_PROOFLY_PORT || 4010);
+  const scenario = readArg('scenario') || process.env.MOCK_PROOFLY_SCENARIO || 'default';
+  if (!Number.isInteger(port) || port < 0) {
+    throw new Error(`Invalid port: ${port}`);
+  }
+  if (!isMockScenarioName(scenario)) {
+    throw new Error(`Unknown scenario "${scenario}", expected one of: ${Object.keys(MOCK_SCENARIOS).join(', ')}`);
+  }
+
+  const mock = await startMockProofly({ port, host: readArg('host') || '127.0.0.1', scenario, log: true });
+
+  console.log(`Mock Proofly API listening on ${mock.baseUrl} (scenario: ${scenario})`);
+  console.log(`Start the app with API_BASE_URL=${mock.baseUrl}`);
+  console.log('Scenarios (pick one per upload with a file name like photo.mock-failed.jpg):');
+  for (const [name, definition] of Object.entries(MOCK_SCENARIOS)) {
+    console.log(`  ${name.padEnd(10)} ${definition.description}`);
+  }
+
+  const shutdown = () => {
+    mock.close().finally(() => process.exit(0));
+  };
+  process.on('SIGINT', shutdown);
+  process.on('SIGTERM', shutdown);
+}
+
+main().catch((error) => {
+  console.error(error instanceof Error ? error.message : error);
+  process.exit(1);
+});